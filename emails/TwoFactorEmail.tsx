@@ -0,0 +1,71 @@
+import { Container } from "@react-email/container";
+import { Head } from "@react-email/head";
+import { Html } from "@react-email/html";
+import { Preview } from "@react-email/preview";
+import { Section } from "@react-email/section";
+import { Text } from "@react-email/text";
+
+type TwoFactorEmailProps = {
+	code?: string;
+	host?: string;
+	name?: string;
+};
+
+export default function TwoFactorEmail({ code = "000000", host = "nguyenpham.pro", name = "Guest" }: TwoFactorEmailProps) {
+	return (
+		<Html>
+			<Head />
+			<Preview>{`Hello ${name},`}</Preview>
+			<Preview>{`Your sign in code for ${host}`}</Preview>
+			<Section style={main}>
+				<Container style={container}>
+					<Text style={h1}>Your sign in code for {host}</Text>
+					<Section style={{ textAlign: "center" }}>
+						<Text style={codeText}>{code}</Text>
+						<Text style={text}>Enter this code to finish signing in. It expires in 10 minutes. If you did not try to sign in, change your password.</Text>
+					</Section>
+				</Container>
+			</Section>
+		</Html>
+	);
+}
+
+const main = {
+	backgroundColor: "#ffffff",
+	margin: "0 auto",
+};
+
+const container = {
+	border: "1px solid #eaeaea",
+	borderRadius: "5px",
+	margin: "10px auto",
+	padding: "20px 40px",
+	width: "465px",
+};
+
+const h1 = {
+	color: "#000",
+	fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif",
+	fontSize: "24px",
+	fontWeight: "normal",
+	textAlign: "center" as const,
+	margin: "30px 0",
+	padding: "10px 30px",
+};
+
+const text = {
+	color: "#000",
+	fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif",
+	fontSize: "14px",
+	lineHeight: "24px",
+};
+
+const codeText = {
+	color: "#000",
+	fontFamily: "'Courier New', Courier, monospace",
+	fontSize: "32px",
+	fontWeight: 700,
+	letterSpacing: "8px",
+	textAlign: "center" as const,
+	margin: "20px 0",
+};
@@ -4,6 +4,9 @@ import NextAuth, { type DefaultSession } from "next-auth";
 export type ExtendedUser = DefaultSession["user"] & {
   role: UserRole;
   isTwoFactorEnabled: boolean;
+  roleId: number | null;
+  permissions: string[];
+  totpRequired: boolean;
   isOAuth: boolean;
 };
 
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "discount" DOUBLE PRECISION DEFAULT 0,
+ADD COLUMN     "subtotal" DOUBLE PRECISION DEFAULT 0,
+ADD COLUMN     "tax" DOUBLE PRECISION DEFAULT 0,
+ADD COLUMN     "tax_rate" DOUBLE PRECISION DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "title" VARCHAR(255),
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "price" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "data" TEXT,
+    "setorder" INTEGER NOT NULL DEFAULT 0,
+    "orderId" TEXT NOT NULL,
+    "productId" INTEGER,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItem_orderId_idx" ON "OrderItem"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_productId_idx" ON "OrderItem"("productId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Post"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "number" VARCHAR(255);
+
+-- CreateTable
+CREATE TABLE "OrderSequence" (
+    "year" INTEGER NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "OrderSequence_pkey" PRIMARY KEY ("year")
+);
+
+-- Backfill numbers for existing orders, per year in creation order
+WITH "numbered" AS (
+    SELECT
+        "id",
+        EXTRACT(YEAR FROM COALESCE("createdAt", CURRENT_TIMESTAMP))::INTEGER AS "year",
+        ROW_NUMBER() OVER (PARTITION BY EXTRACT(YEAR FROM COALESCE("createdAt", CURRENT_TIMESTAMP)) ORDER BY "createdAt", "id") AS "value"
+    FROM "Order"
+)
+UPDATE "Order"
+SET "number" = COALESCE(NULLIF((SELECT "value" FROM "Setting" WHERE "key" = 'order_key' ORDER BY "id" LIMIT 1), ''), 'NP') || '-' || "numbered"."year" || '-' || LPAD("numbered"."value"::TEXT, 6, '0')
+FROM "numbered"
+WHERE "Order"."id" = "numbered"."id";
+
+INSERT INTO "OrderSequence" ("year", "value")
+SELECT EXTRACT(YEAR FROM COALESCE("createdAt", CURRENT_TIMESTAMP))::INTEGER, COUNT(*)
+FROM "Order"
+GROUP BY 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_number_key" ON "Order"("number");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TwoFactorToken" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "variants" TEXT,
+ADD COLUMN     "width" INTEGER;
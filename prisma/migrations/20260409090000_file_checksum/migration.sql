@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "checkedAt" TIMESTAMP(3),
+ADD COLUMN     "checksum" VARCHAR(64),
+ADD COLUMN     "integrity" TEXT;
+
+-- CreateIndex
+CREATE INDEX "File_checksum_idx" ON "File"("checksum");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "size" INTEGER NOT NULL,
+    "type" TEXT,
+    "context" TEXT NOT NULL DEFAULT 'media',
+    "driver" TEXT NOT NULL,
+    "key" TEXT,
+    "uploadId" TEXT,
+    "parts" TEXT NOT NULL DEFAULT '[]',
+    "status" TEXT NOT NULL DEFAULT 'uploading',
+    "fileId" INTEGER,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Upload_userId_idx" ON "Upload"("userId");
+
+-- CreateIndex
+CREATE INDEX "Upload_status_expiresAt_idx" ON "Upload"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
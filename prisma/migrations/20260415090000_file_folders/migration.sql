@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "folderId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "FileTag" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "name" VARCHAR(64) NOT NULL,
+
+    CONSTRAINT "FileTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_FileToFileTag" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_FileToFileTag_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "File_folderId_idx" ON "File"("folderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileTag_name_key" ON "FileTag"("name");
+
+-- CreateIndex
+CREATE INDEX "_FileToFileTag_B_index" ON "_FileToFileTag"("B");
+
+-- AddForeignKey
+ALTER TABLE "File" ADD CONSTRAINT "File_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_FileToFileTag" ADD CONSTRAINT "_FileToFileTag_A_fkey" FOREIGN KEY ("A") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_FileToFileTag" ADD CONSTRAINT "_FileToFileTag_B_fkey" FOREIGN KEY ("B") REFERENCES "FileTag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "lowStock" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "reserved" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "variantId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "type" VARCHAR(32) NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "stock" INTEGER NOT NULL,
+    "reserved" INTEGER NOT NULL,
+    "note" TEXT,
+    "variantId" INTEGER NOT NULL,
+    "orderId" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_variantId_idx" ON "StockMovement"("variantId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_orderId_idx" ON "StockMovement"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_variantId_idx" ON "OrderItem"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "CustomerToken" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "type" VARCHAR(16) NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expires" TIMESTAMP(3) NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "CustomerToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerToken_tokenHash_key" ON "CustomerToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "CustomerToken_customerId_idx" ON "CustomerToken"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "CustomerToken" ADD CONSTRAINT "CustomerToken_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "OrderProof" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" VARCHAR(32) NOT NULL DEFAULT 'pending',
+    "note" TEXT,
+    "comment" TEXT,
+    "date_reviewed" TIMESTAMP(3),
+    "orderId" TEXT NOT NULL,
+    "fileId" INTEGER,
+    "userId" TEXT,
+    "reviewerId" TEXT,
+    "customerId" TEXT,
+
+    CONSTRAINT "OrderProof_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderProof_fileId_idx" ON "OrderProof"("fileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderProof_orderId_version_key" ON "OrderProof"("orderId", "version");
+
+-- AddForeignKey
+ALTER TABLE "OrderProof" ADD CONSTRAINT "OrderProof_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderProof" ADD CONSTRAINT "OrderProof_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderProof" ADD CONSTRAINT "OrderProof_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderProof" ADD CONSTRAINT "OrderProof_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderProof" ADD CONSTRAINT "OrderProof_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
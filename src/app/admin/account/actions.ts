@@ -1,13 +1,24 @@
 "use server";
 
 import { auth } from "@/auth";
+import { generateApiKey } from "@/lib/apikey";
+import { authorizeAction } from "@/lib/auth";
+import { accountUpdateData } from "@/lib/permission";
+import { decryptTotpSecret, encryptTotpSecret, generateTotpSecret, issueRecoveryCodes, requiresTotp, totpUri, verifyTotp } from "@/lib/totp";
 import models from "@/models";
 
-export async function getAll(query: any) {
-	const session = await auth();
+// Profile of the signed in user
+export async function getAll() {
+	const { session, error } = await authorizeAction("account", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
-		const db = await models.User.getUserByEmail(query);
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const db = await models.User.getAccountById(id);
 		return {
 			data: db,
 			success: "success",
@@ -23,7 +34,10 @@ export async function getAll(query: any) {
 
 // check ID
 export async function checkId(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("account", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.User.getUserById(id);
@@ -52,13 +66,16 @@ export async function checkId(id: string) {
 }
 
 export async function updateRecord(body: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		if (!id) {
 			throw new Error("User ID is required to update the record.");
 		}
-		const db = await models.User.updateUser(id, body);
+		const db = await models.User.updateUser(id, accountUpdateData(body));
 		return {
 			data: db,
 			success: "success",
@@ -72,6 +89,328 @@ export async function updateRecord(body: any) {
 	}
 }
 
+// Turn email two factor on or off for the signed in user
+export async function updateTwoFactor(enabled: boolean) {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required to update the record.");
+		}
+		const totpCredential = await models.Auth.getTotpCredentialByUserId(id);
+		if (!enabled && totpCredential?.enabledAt) {
+			return {
+				success: "error",
+				message: "Remove the authenticator app to turn off two-factor authentication",
+			};
+		}
+		const db = await models.User.updateUser(id, {
+			isTwoFactorEnabled: enabled,
+		});
+		if (!db) {
+			throw new Error("Error updating user");
+		}
+		return {
+			data: { isTwoFactorEnabled: db.isTwoFactorEnabled },
+			success: "success",
+			message: enabled ? "Two-factor authentication enabled" : "Two-factor authentication disabled",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error updating two-factor authentication",
+		};
+	}
+}
+
+// Two-factor state of the signed in user
+export async function getTwoFactor() {
+	const { session, error } = await authorizeAction("account", "read");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const totpCredential = await models.Auth.getTotpCredentialByUserId(id);
+		return {
+			data: {
+				totpEnabled: !!totpCredential?.enabledAt,
+				totpRequired: requiresTotp(role),
+				recoveryCodesLeft: totpCredential?.enabledAt ? await models.Auth.getRecoveryCodesCount(id) : 0,
+			},
+			success: "success",
+			message: "Two-factor authentication fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching two-factor authentication",
+		};
+	}
+}
+
+// Start authenticator app enrollment with a new secret
+export async function startTotp() {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id, email } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const totpCredential = await models.Auth.getTotpCredentialByUserId(id);
+		if (totpCredential?.enabledAt) {
+			return {
+				success: "error",
+				message: "An authenticator app is already set up",
+			};
+		}
+		const secret = generateTotpSecret();
+		const db = await models.Auth.upsertTotpCredential(id, encryptTotpSecret(secret));
+		if (!db) {
+			throw new Error("Error saving secret");
+		}
+		return {
+			data: { secret, uri: totpUri(secret, email || id) },
+			success: "success",
+			message: "Scan the QR code with your authenticator app",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error setting up authenticator app",
+		};
+	}
+}
+
+// Confirm enrollment with a first code, turns on two-factor and returns the recovery codes once
+export async function confirmTotp(code: string) {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const totpCredential = await models.Auth.getTotpCredentialByUserId(id);
+		const secret = totpCredential && !totpCredential.enabledAt ? decryptTotpSecret(totpCredential.secret) : null;
+		if (!totpCredential || !secret) {
+			return {
+				success: "error",
+				message: "Start the authenticator app setup first",
+			};
+		}
+		const step = verifyTotp(secret, code);
+		if (step === null) {
+			return {
+				success: "error",
+				message: "Invalid code. Check the time on your device and try again.",
+			};
+		}
+		await models.Auth.updateTotpCredential(totpCredential.id, { enabledAt: new Date(), lastUsedStep: step });
+		await models.User.updateUser(id, { isTwoFactorEnabled: true });
+		const recoveryCodes = await issueRecoveryCodes(id);
+		return {
+			data: { recoveryCodes },
+			success: "success",
+			message: "Authenticator app enabled",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error enabling authenticator app",
+		};
+	}
+}
+
+// Check a current authenticator code of the signed in user
+const checkTotp = async (userId: string, code: string) => {
+	const totpCredential = await models.Auth.getTotpCredentialByUserId(userId);
+	const secret = totpCredential?.enabledAt ? decryptTotpSecret(totpCredential.secret) : null;
+	const step = secret ? verifyTotp(secret, code, totpCredential?.lastUsedStep) : null;
+	if (!totpCredential || step === null) {
+		return false;
+	}
+	return models.Auth.claimTotpStep(totpCredential.id, step);
+};
+
+// Replace the recovery codes, requires a current authenticator code
+export async function regenerateRecoveryCodes(code: string) {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		if (!(await checkTotp(id, code))) {
+			return {
+				success: "error",
+				message: "Invalid code",
+			};
+		}
+		const recoveryCodes = await issueRecoveryCodes(id);
+		return {
+			data: { recoveryCodes },
+			success: "success",
+			message: "New recovery codes created",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating recovery codes",
+		};
+	}
+}
+
+// Remove the authenticator app, requires a current authenticator code
+export async function removeTotp(code: string) {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		if (requiresTotp(role)) {
+			return {
+				success: "error",
+				message: "Your role requires an authenticator app",
+			};
+		}
+		if (!(await checkTotp(id, code))) {
+			return {
+				success: "error",
+				message: "Invalid code",
+			};
+		}
+		await models.Auth.deleteTotpCredential(id);
+		await models.User.updateUser(id, { isTwoFactorEnabled: false });
+		return {
+			success: "success",
+			message: "Authenticator app removed",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error removing authenticator app",
+		};
+	}
+}
+
+// API keys of the signed in user
+export async function getApiKeys() {
+	const { session, error } = await authorizeAction("account", "read");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const db = await models.ApiKey.getApiKeysByUserId(id);
+		return {
+			data: db,
+			success: "success",
+			message: "API keys fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching API keys",
+		};
+	}
+}
+
+// Create an API key; scopes are limited to the permissions of the user, the token is returned once
+export async function createApiKey(body: { title: string; scopes: string[]; expires: string }) {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id, permissions } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const scopes = (body?.scopes ?? []).filter((key) => permissions?.includes(key));
+		if (!body?.title?.trim() || scopes.length === 0) {
+			return {
+				success: "error",
+				message: "A name and at least one scope are required",
+			};
+		}
+		const days = Number(body.expires);
+		const { token, prefix, tokenHash } = generateApiKey();
+		const db = await models.ApiKey.createApiKey({
+			title: body.title.trim(),
+			prefix,
+			tokenHash,
+			scopes: JSON.stringify(scopes),
+			expiresAt: days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null,
+			userId: id,
+		});
+		if (!db) {
+			throw new Error("Error creating API key");
+		}
+		return {
+			data: { ...db, token },
+			success: "success",
+			message: "API key created",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating API key",
+		};
+	}
+}
+
+// Revoke one of the API keys of the signed in user
+export async function revokeApiKey(keyId: string) {
+	const { session, error } = await authorizeAction("account", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	try {
+		if (!id) {
+			throw new Error("User ID is required.");
+		}
+		const count = await models.ApiKey.revokeApiKey(keyId, id);
+		if (!count) {
+			return {
+				success: "error",
+				message: "API key not found",
+			};
+		}
+		return {
+			success: "success",
+			message: "API key revoked",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error revoking API key",
+		};
+	}
+}
+
 // Sign In
 export async function signIn(body: any) {
 	const { email, password } = body;
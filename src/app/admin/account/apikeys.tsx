@@ -0,0 +1,222 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { FieldSelect } from "@/components/fields/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { enumApiKeyExpiry } from "@/lib/enum";
+import { parsePermissions } from "@/lib/permission";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+const FormSchema = z.object({
+	title: z.string().min(2, { message: "Name must be at least 2 characters." }),
+	expires: z.string(),
+	scopes: z.array(z.string()).min(1, { message: "Select at least one scope." }),
+});
+
+// Status of a key for the list
+const keyStatus = (key: any) => {
+	if (key.revokedAt) return "Revoked";
+	if (key.expiresAt && new Date(key.expiresAt).getTime() < Date.now()) return "Expired";
+	return "Active";
+};
+
+export default function ApiKeys() {
+	const user = useCurrentUser();
+	const [data, setData] = useState<any[]>([]);
+	const [token, setToken] = useState<string | null>(null);
+	const [open, setOpen] = useState(false);
+
+	const form = useForm<z.infer<typeof FormSchema>>({
+		resolver: zodResolver(FormSchema),
+		defaultValues: {
+			title: "",
+			expires: "90",
+			scopes: [],
+		},
+	});
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getApiKeys();
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+		}
+	}, []);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function onSubmit(values: z.infer<typeof FormSchema>) {
+		const res = await actions.createApiKey(values);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		setToken(res.data?.token ?? null);
+		setOpen(false);
+		form.reset();
+		fetchData();
+	}
+
+	async function revoke(id: string) {
+		if (!confirm("Revoke this API key? Scripts using it will stop working.")) {
+			return;
+		}
+		const res = await actions.revokeApiKey(id);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		fetchData();
+	}
+
+	return (
+		<div className="flex flex-col gap-4 border-t pt-6 dark:border-gray-700">
+			<div className="flex items-center justify-between gap-4">
+				<div className="flex flex-col gap-1">
+					<h3 className="text-sm font-semibold">API keys</h3>
+					<p className="text-sm text-zinc-500 dark:text-zinc-400">Call the admin API from scripts with the header Authorization: Bearer &lt;key&gt;.</p>
+				</div>
+				{!open && (
+					<Button
+						type="button"
+						onClick={() => {
+							setOpen(true);
+							setToken(null);
+						}}>
+						New key
+					</Button>
+				)}
+			</div>
+
+			{/* The token is only shown once */}
+			{token && (
+				<div className="flex flex-col gap-2 rounded-md border border-yellow-400 bg-yellow-50 p-4 dark:bg-gray-900">
+					<p className="text-sm font-semibold">Copy your new API key now, it will not be shown again</p>
+					<code className="font-mono text-sm break-all">{token}</code>
+				</div>
+			)}
+
+			{open && (
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit(onSubmit)}
+						className="flex flex-col gap-4 rounded-md border p-4 dark:border-gray-700">
+						<div className="grid grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="title"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Name</FormLabel>
+										<FormControl>
+											<Input
+												{...field}
+												placeholder="ERP sync"
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="expires"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Expiration</FormLabel>
+										{FieldSelect({
+											field,
+											data: enumApiKeyExpiry.map((item: any) => ({
+												id: item.value,
+												name: item.label,
+											})),
+										})}
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
+						<FormField
+							control={form.control}
+							name="scopes"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Scopes</FormLabel>
+									<div className="grid grid-cols-3 gap-2 max-h-60 overflow-y-auto">
+										{(user?.permissions ?? []).map((key: string) => (
+											<label
+												key={key}
+												className="flex items-center gap-2 text-sm">
+												<Checkbox
+													checked={field.value?.includes(key)}
+													onCheckedChange={(checked) => field.onChange(checked ? [...(field.value || []), key] : (field.value || []).filter((value: string) => value !== key))}
+												/>
+												<span className="font-mono text-xs">{key}</span>
+											</label>
+										))}
+									</div>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<div className="flex justify-end gap-2">
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => setOpen(false)}>
+								Cancel
+							</Button>
+							<Button
+								type="submit"
+								disabled={form.formState.isSubmitting}>
+								Create key
+							</Button>
+						</div>
+					</form>
+				</Form>
+			)}
+
+			{data.length > 0 && (
+				<div className="divide-y rounded-md border text-sm dark:border-gray-700 dark:divide-gray-700">
+					{data.map((key: any) => (
+						<div
+							key={key.id}
+							className="flex items-center justify-between gap-4 p-3">
+							<div className="flex flex-col gap-1">
+								<span className="font-semibold">
+									{key.title} <span className="font-mono text-xs text-zinc-500">{key.prefix}…</span>
+								</span>
+								<span className="text-xs text-zinc-500 dark:text-zinc-400">
+									{keyStatus(key)} · {parsePermissions(key.scopes).length} scopes · Expires {key.expiresAt ? dateFormat(key.expiresAt) : "never"} · Last used {key.lastUsedAt ? dateFormat(key.lastUsedAt) : "never"}
+								</span>
+							</div>
+							{!key.revokedAt && (
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={() => revoke(key.id)}>
+									Revoke
+								</Button>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
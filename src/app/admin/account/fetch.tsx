@@ -14,6 +14,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 
 import * as actions from "./actions";
+import ApiKeys from "./apikeys";
+import TotpSettings from "./totp";
 
 const FormSchema = z.object({
 	first_name: z.string().min(2, { message: "First name must be at least 2 characters." }),
@@ -28,9 +30,10 @@ const FormSchema = z.object({
 });
 
 export default function Fetch(props: any) {
-	const { breadcrumb, email } = props;
+	const { breadcrumb } = props;
 	const [db, setDb] = useState<any>([]);
 	const [loading, setLoading] = useState(true);
+	const [totpEnabled, setTotpEnabled] = useState(false);
 	const form = useForm<z.infer<typeof FormSchema>>({
 		resolver: zodResolver(FormSchema),
 		defaultValues: {
@@ -46,6 +49,16 @@ export default function Fetch(props: any) {
 		},
 	});
 
+	async function toggleTwoFactor() {
+		const res = await actions.updateTwoFactor(!db?.isTwoFactorEnabled);
+		if (res?.success !== "success") {
+			toast.error(res.message);
+			return;
+		}
+		setDb({ ...db, isTwoFactorEnabled: res.data?.isTwoFactorEnabled });
+		toast.success(res.message);
+	}
+
 	async function onSubmit(values: z.infer<typeof FormSchema>) {
 		// Check checkId
 		const checkId = await actions.checkId(values.username || "");
@@ -74,7 +87,7 @@ export default function Fetch(props: any) {
 	}
 
 	const fetchData = useCallback(async () => {
-		const res = await actions.getAll(email);
+		const res = await actions.getAll();
 		if (res?.data) {
 			setDb(res.data);
 			form.reset({
@@ -90,7 +103,19 @@ export default function Fetch(props: any) {
 			});
 			setLoading(false);
 		}
-	}, [form, email]);
+	}, [form]);
+
+	const onTotpChange = useCallback(
+		(event: string, data: any) => {
+			if (event === "fetch") {
+				setTotpEnabled(!!data?.totpEnabled);
+			}
+			if (event === "enabled" || event === "removed") {
+				fetchData();
+			}
+		},
+		[fetchData],
+	);
 
 	useEffect(() => {
 		fetchData();
@@ -253,6 +278,25 @@ export default function Fetch(props: any) {
 								</div>
 							</form>
 						</Form>
+
+						{!totpEnabled && (
+							<div className="flex items-center justify-between gap-4 border-t pt-6 dark:border-gray-700">
+								<div className="flex flex-col gap-1">
+									<h3 className="text-sm font-semibold">Two-factor authentication</h3>
+									<p className="text-sm text-zinc-500 dark:text-zinc-400">{db?.isTwoFactorEnabled ? "A code sent to your email is required when signing in with your password." : "Require a code sent to your email when signing in with your password."}</p>
+								</div>
+								<Button
+									type="button"
+									variant={db?.isTwoFactorEnabled ? "outline" : "default"}
+									onClick={toggleTwoFactor}>
+									{db?.isTwoFactorEnabled ? "Disable" : "Enable"}
+								</Button>
+							</div>
+						)}
+
+						<TotpSettings onChange={onTotpChange} />
+
+						<ApiKeys />
 					</div>
 				</>
 			)}
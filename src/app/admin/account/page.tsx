@@ -3,6 +3,7 @@ import { redirect } from "next/navigation";
 
 import { auth } from "@/auth";
 import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
 
 import Fetch from "./fetch";
 
@@ -14,10 +15,9 @@ export const metadata: Metadata = {
 
 export default async function Index() {
 	const session = await auth();
-	const acceptRole = ["USER", "ADMIN", "MODERATOR"];
 	const checkRole = session?.user?.role;
 
-	if (checkRole && !acceptRole.includes(checkRole)) {
+	if (checkRole && !can(session?.user, "account", "read")) {
 		redirect("/admin/deny");
 	}
 
@@ -30,10 +30,7 @@ export default async function Index() {
 
 	return (
 		<div className="mx-auto flex-col flex py-5 w-full px-4 sm:px-6 justify-center items-center flex-grow">
-			<Fetch
-				breadcrumb={breadcrumb}
-				email={session?.user?.email}
-			/>
+			<Fetch breadcrumb={breadcrumb} />
 		</div>
 	);
 }
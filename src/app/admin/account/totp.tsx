@@ -0,0 +1,183 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { QRCode } from "antd";
+import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+import * as actions from "./actions";
+
+export default function TotpSettings(props: any) {
+	const { onChange } = props;
+	const { update } = useSession();
+	const [state, setState] = useState<any>(null);
+	const [setup, setSetup] = useState<{ secret: string; uri: string } | null>(null);
+	const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+	const [code, setCode] = useState("");
+	const [pending, setPending] = useState(false);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getTwoFactor();
+		if (res?.success === "success" && res?.data) {
+			setState(res.data);
+			onChange?.("fetch", res.data);
+		}
+	}, [onChange]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function run(action: () => Promise<any>) {
+		setPending(true);
+		const res = await action();
+		setPending(false);
+		setCode("");
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return null;
+		}
+		toast.success(res.message);
+		return res;
+	}
+
+	async function start() {
+		const res = await run(() => actions.startTotp());
+		if (res?.data) {
+			setSetup(res.data);
+			setRecoveryCodes(null);
+		}
+	}
+
+	async function verify() {
+		const res = await run(() => actions.confirmTotp(code));
+		if (res) {
+			setSetup(null);
+			setRecoveryCodes(res.data?.recoveryCodes ?? null);
+			await fetchData();
+			// Refresh the session so a required enrollment unlocks the admin
+			await update();
+			onChange?.("enabled");
+		}
+	}
+
+	async function regenerate() {
+		const res = await run(() => actions.regenerateRecoveryCodes(code));
+		if (res) {
+			setRecoveryCodes(res.data?.recoveryCodes ?? null);
+			await fetchData();
+		}
+	}
+
+	async function remove() {
+		if (!confirm("Remove the authenticator app from your account?")) {
+			return;
+		}
+		const res = await run(() => actions.removeTotp(code));
+		if (res) {
+			setRecoveryCodes(null);
+			await fetchData();
+			onChange?.("removed");
+		}
+	}
+
+	if (!state) {
+		return null;
+	}
+
+	return (
+		<div className="flex flex-col gap-4 border-t pt-6 dark:border-gray-700">
+			<div className="flex items-center justify-between gap-4">
+				<div className="flex flex-col gap-1">
+					<h3 className="text-sm font-semibold">Authenticator app</h3>
+					<p className="text-sm text-zinc-500 dark:text-zinc-400">{state.totpEnabled ? `Codes from your authenticator app are required when signing in. ${state.recoveryCodesLeft} recovery codes left.` : "Use an app like Google Authenticator to generate sign in codes, even without a connection."}</p>
+					{state.totpRequired && !state.totpEnabled && <p className="text-sm text-red-500">Your role requires an authenticator app. Set it up to continue using the admin.</p>}
+				</div>
+				{!state.totpEnabled && !setup && (
+					<Button
+						type="button"
+						disabled={pending}
+						onClick={start}>
+						Set up
+					</Button>
+				)}
+			</div>
+
+			{/* Enrollment */}
+			{setup && (
+				<div className="flex flex-col items-center gap-4 rounded-md border p-4 dark:border-gray-700">
+					<QRCode
+						value={setup.uri}
+						type="svg"
+						bgColor="#ffffff"
+						size={180}
+					/>
+					<p className="text-xs text-zinc-500 dark:text-zinc-400 text-center">
+						Scan the QR code, or enter this key manually:
+						<br />
+						<code className="font-mono text-sm break-all text-black dark:text-white">{setup.secret.match(/.{1,4}/g)?.join(" ")}</code>
+					</p>
+					<div className="flex w-full gap-2">
+						<Input
+							value={code}
+							onChange={(event) => setCode(event.target.value)}
+							autoComplete="one-time-code"
+							maxLength={6}
+							placeholder="Enter the 6 digit code"
+						/>
+						<Button
+							type="button"
+							disabled={pending || code.length < 6}
+							onClick={verify}>
+							Verify
+						</Button>
+					</div>
+				</div>
+			)}
+
+			{/* Recovery codes are only shown once */}
+			{recoveryCodes && (
+				<div className="flex flex-col gap-2 rounded-md border border-yellow-400 bg-yellow-50 p-4 dark:bg-gray-900">
+					<p className="text-sm font-semibold">Save your recovery codes</p>
+					<p className="text-xs text-zinc-500 dark:text-zinc-400">Each code can be used once to sign in if you lose your device. They will not be shown again.</p>
+					<div className="grid grid-cols-2 gap-2 font-mono text-sm">
+						{recoveryCodes.map((item) => (
+							<span key={item}>{item}</span>
+						))}
+					</div>
+				</div>
+			)}
+
+			{state.totpEnabled && (
+				<div className="flex gap-2">
+					<Input
+						value={code}
+						onChange={(event) => setCode(event.target.value)}
+						autoComplete="one-time-code"
+						maxLength={6}
+						placeholder="Current code"
+					/>
+					<Button
+						type="button"
+						variant="outline"
+						disabled={pending || code.length < 6}
+						onClick={regenerate}>
+						New recovery codes
+					</Button>
+					{!state.totpRequired && (
+						<Button
+							type="button"
+							variant="outline"
+							disabled={pending || code.length < 6}
+							onClick={remove}>
+							Remove
+						</Button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,10 +1,13 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
 import models from "@/models";
 
 export async function getAllAttributes() {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Attribute.getAllAttributes({ min: true, published: true });
@@ -22,7 +25,10 @@ export async function getAllAttributes() {
 }
 
 export async function getAllCategories() {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Category.getAllCategories({ min: true, published: true });
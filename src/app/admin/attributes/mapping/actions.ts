@@ -1,10 +1,13 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Attribute.getAllAttributes(query);
@@ -4,6 +4,7 @@ import { redirect } from "next/navigation";
 import { auth } from "@/auth";
 import AppTitle from "@/components/AppTitle";
 import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
 
 import View from "./view";
 
@@ -15,10 +16,9 @@ export const metadata: Metadata = {
 
 export default async function Index() {
 	const session = await auth();
-	const acceptRole = ["ADMIN", "MODERATOR"];
 	const checkRole = session?.user?.role;
 
-	if (checkRole && !acceptRole.includes(checkRole)) {
+	if (checkRole && !can(session?.user, "attributes", "read")) {
 		redirect("/admin/deny");
 	}
 
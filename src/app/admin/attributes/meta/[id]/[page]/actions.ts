@@ -1,10 +1,13 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.AttributeMeta.getAllAttributeByParentID(query);
@@ -24,7 +27,10 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.AttributeMeta.deleteAttributeMeta(Number(id));
@@ -42,7 +48,10 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(id: string, data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "create");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	const _body = {
 		data,
@@ -64,7 +73,10 @@ export async function createRecord(id: string, data: any) {
 }
 
 export async function updateRecord(id: string, data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	const _body = {
 		data,
@@ -85,7 +97,10 @@ export async function updateRecord(id: string, data: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.AttributeMeta.getAttributeMetaById(Number(id));
@@ -104,7 +119,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("attributes", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.AttributeMeta.deleteMulti(ids.map(Number));
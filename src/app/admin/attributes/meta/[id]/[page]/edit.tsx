@@ -12,7 +12,6 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useCurrentRole } from "@/hooks/useCurrentRole";
-import { appState } from "@/lib/appConst";
 import { checkStringIsTextOrColorHexOrURL } from "@/lib/utils";
 
 import * as actions from "./actions";
@@ -169,7 +168,7 @@ export default function FormEdit(props: any) {
 															data,
 															multiple: false,
 															preview: true,
-															accept: appState.ACCEPTED_IMG_FILE_TYPES,
+															context: "image",
 															onChange: (e: any) => {
 																field.onChange(e[0]?.data[0]?.url);
 															},
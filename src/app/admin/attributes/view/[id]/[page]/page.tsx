@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
+import { redirect } from "next/navigation";
 
+import { auth } from "@/auth";
 import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
 import models from "@/models";
 
 import Fetch from "./fetch";
@@ -12,6 +15,13 @@ export const metadata: Metadata = {
 };
 
 export default async function Index({ params }: any) {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (checkRole && !can(session?.user, "attributes", "read")) {
+		redirect("/admin/deny");
+	}
+
 	const { id, page } = await params;
 	const pageNumber = Number(page);
 	let title = "";
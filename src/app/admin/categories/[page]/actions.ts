@@ -1,10 +1,13 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Category.getAllCategories(query);
@@ -24,7 +27,10 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Category.deleteCategory(Number(id));
@@ -42,7 +48,10 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Category.createCategory(data);
@@ -60,7 +69,10 @@ export async function createRecord(data: any) {
 }
 
 export async function updateRecord(id: string, data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Category.updateCategory(Number(id), data);
@@ -78,7 +90,10 @@ export async function updateRecord(id: string, data: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Category.getCategoryById(Number(id));
@@ -97,7 +112,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Category.deleteMulti(ids.map(Number));
@@ -116,7 +134,10 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("categories", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Category.updateMulti(ids.map(Number), data);
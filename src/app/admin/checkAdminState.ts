@@ -1,8 +1,10 @@
 "use client";
 
 import { useCallback, useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
 
 import { useCurrentRole } from "@/hooks/useCurrentRole";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useAppSelector } from "@/store";
 import { useAppDispatch } from "@/store";
 import { setAttribute } from "@/store/attributeSlice";
@@ -15,6 +17,9 @@ export default function CheckAdminState() {
 	const memoriezAtts = useAppSelector((state) => state.attributeState.data);
 	const memoriezCategories = useAppSelector((state) => state.categoriesState.data);
 	const role = useCurrentRole();
+	const user = useCurrentUser();
+	const pathname = usePathname();
+	const router = useRouter();
 	if (role === undefined) {
 		window.location.href = "/admin/";
 	}
@@ -37,5 +42,12 @@ export default function CheckAdminState() {
 		console.log("CheckState Init");
 	}, [fetchData]);
 
+	useEffect(() => {
+		// Send users who still have to enroll an authenticator app to their account
+		if (user?.totpRequired && pathname !== "/admin/account") {
+			router.replace("/admin/account");
+		}
+	}, [user?.totpRequired, pathname, router]);
+
 	return null;
 }
@@ -3,6 +3,7 @@ import { redirect } from "next/navigation";
 
 import { auth } from "@/auth";
 import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
 
 import Fetch from "./[page]/fetch";
 
@@ -14,10 +15,9 @@ export const metadata: Metadata = {
 
 export default async function Index() {
 	const session = await auth();
-	const acceptRole = ["ADMIN", "MODERATOR"];
 	const checkRole = session?.user?.role;
 
-	if (checkRole && !acceptRole.includes(checkRole)) {
+	if (checkRole && !can(session?.user, "customers", "read")) {
 		redirect("/admin/deny");
 	}
 
@@ -0,0 +1,27 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import models from "@/models";
+
+// Variants at or below their low-stock threshold
+export async function getLowStock() {
+	const { error } = await authorizeAction("products", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.StockMovement.getLowStockVariants(5);
+		const dbCount = await models.StockMovement.getLowStockCount();
+		return {
+			data: db,
+			count: dbCount,
+			success: "success",
+			message: "Low stock fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching low stock",
+		};
+	}
+}
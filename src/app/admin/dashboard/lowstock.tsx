@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { TriangleAlert } from "lucide-react";
+import Link from "next/link";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { availableStock } from "@/lib/stock";
+
+import * as actions from "./actions";
+
+// Alert listing the variants running out, hidden when there are none or the user can not read products
+export default function LowStock() {
+	const [db, setDb] = useState<any>(null);
+
+	useEffect(() => {
+		actions.getLowStock().then((res: any) => {
+			if (res?.success === "success" && res?.count > 0) {
+				setDb(res);
+			}
+		});
+	}, []);
+
+	if (!db) return null;
+
+	return (
+		<Alert
+			variant="destructive"
+			className="mx-10 mt-10 w-auto">
+			<TriangleAlert />
+			<AlertTitle>{db.count} variants are low on stock</AlertTitle>
+			<AlertDescription>
+				<ul className="list-disc pl-4">
+					{db.data.map((variant: any) => (
+						<li key={variant.id}>
+							<Link
+								href={`/admin/products/stock/${variant.product?.id}`}
+								className="underline">
+								{variant.product?.title} - {variant.title}
+							</Link>{" "}
+							({variant.sku}): {availableStock(variant)} available, alert at {variant.lowStock}
+						</li>
+					))}
+				</ul>
+			</AlertDescription>
+		</Alert>
+	);
+}
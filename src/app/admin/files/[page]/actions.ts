@@ -4,11 +4,17 @@ import { createHash } from "crypto";
 import { writeFile } from "fs/promises";
 import path from "path";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
+import { FILE_TRASH_DAYS, parseTags, purgeExpiredTrash, removeOrphans, scanStorage } from "@/lib/files";
+import { getImagesWithoutVariants } from "@/lib/image";
+import { enqueueJob } from "@/lib/queue";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.File.getAllFiles(query);
@@ -16,6 +22,7 @@ export async function getAll(query: any) {
 		return {
 			data: db,
 			count: dbCount,
+			trashDays: FILE_TRASH_DAYS,
 			success: "success",
 			message: "Files fetched successfully",
 		};
@@ -28,14 +35,17 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.File.deleteFile(Number(id));
 		return {
 			success: "success",
 			data: db,
-			message: "File deleted successfully",
+			message: "File moved to the trash",
 		};
 	} catch (error) {
 		return {
@@ -46,11 +56,18 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
-	data.userId = id;
+	const { tags, ...rest } = data;
+	rest.userId = id;
 	try {
-		const db = await models.File.createFile(data);
+		const db = await models.File.createFile(rest);
+		if (db && tags) {
+			await models.File.setFileTags(db.id, parseTags(tags));
+		}
 		return {
 			success: "success",
 			data: db,
@@ -65,10 +82,17 @@ export async function createRecord(data: any) {
 }
 
 export async function updateRecord(id: string, data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
+	const { tags, ...rest } = data;
 	try {
-		const db = await models.File.updateFile(Number(id), data);
+		const db = await models.File.updateFile(Number(id), rest);
+		if (db && tags !== undefined) {
+			await models.File.setFileTags(db.id, parseTags(tags));
+		}
 		return {
 			success: "success",
 			data: db,
@@ -83,7 +107,10 @@ export async function updateRecord(id: string, data: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.File.getFileById(Number(id));
@@ -102,14 +129,17 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.File.deleteMulti(ids.map(Number));
 		return {
 			success: "success",
 			data: db,
-			message: "Files deleted successfully",
+			message: "Files moved to the trash",
 		};
 	} catch (error) {
 		return {
@@ -121,7 +151,10 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.File.updateMulti(ids.map(Number), data);
@@ -137,3 +170,258 @@ export async function updateMultipleRecords(ids: string[], data: any) {
 		};
 	}
 }
+
+// Queue thumbnails for images uploaded before variants existed
+export async function generateVariants() {
+	const { error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const files = await getImagesWithoutVariants();
+		for (const file of files) {
+			await enqueueJob("file.variants", { id: file.id }, { key: `file.variants:${file.id}` });
+		}
+		return {
+			success: "success",
+			data: files.length,
+			message: files.length > 0 ? `Thumbnails queued for ${files.length} images` : "All images already have thumbnails",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error queueing thumbnails",
+		};
+	}
+}
+
+// Queue integrity checks, files never checked first
+export async function checkRecords() {
+	const { error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const files = await models.File.getFilesToCheck();
+		for (const file of files) {
+			await enqueueJob("file.check", { id: file.id }, { key: `file.check:${file.id}` });
+		}
+		return {
+			success: "success",
+			data: files.length,
+			message: `Integrity check queued for ${files.length} files`,
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error queueing integrity checks",
+		};
+	}
+}
+
+// Restore Multiple Records from the trash
+export async function restoreMultipleRecords(ids: string[]) {
+	const { error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.File.restoreMulti(ids.map(Number));
+		return {
+			success: "success",
+			data: db,
+			message: "Files restored successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error restoring files",
+		};
+	}
+}
+
+// Delete Multiple Records for good, with their stored objects
+export async function purgeMultipleRecords(ids: string[]) {
+	const { error } = await authorizeAction("files", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.File.purgeMulti(ids.map(Number));
+		return {
+			success: "success",
+			data: db,
+			message: "Files deleted permanently",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting files",
+		};
+	}
+}
+
+// Remove every file in the trash now instead of waiting for the restore window
+export async function emptyTrash() {
+	const { error } = await authorizeAction("files", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const purged = await purgeExpiredTrash(0);
+		return {
+			success: "success",
+			data: purged,
+			message: `${purged} files deleted permanently`,
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error emptying the trash",
+		};
+	}
+}
+
+// Look for stored objects without a File row and rows without an object
+export async function getOrphans() {
+	const { error } = await authorizeAction("files", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await scanStorage();
+		return {
+			success: "success",
+			data: db,
+			message: "Storage scanned successfully",
+		};
+	} catch (error) {
+		console.error("Error scanning storage:", error);
+		return {
+			success: "error",
+			message: "Error scanning storage",
+		};
+	}
+}
+
+export async function deleteOrphans(urls: string[]) {
+	const { error } = await authorizeAction("files", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const removed = await removeOrphans(urls);
+		return {
+			success: "success",
+			data: removed,
+			message: `${removed} orphaned objects deleted`,
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting orphaned objects",
+		};
+	}
+}
+
+// Folders and tags of the library, for the browser and the pickers
+export async function getFolders() {
+	const { error } = await authorizeAction("files", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const [folders, tags] = await Promise.all([models.Category.getFolders(), models.File.getFileTags()]);
+		return {
+			success: "success",
+			data: { folders, tags },
+			message: "Folders fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching folders",
+		};
+	}
+}
+
+// Folders are media categories, they are renamed and removed in Categories
+export async function createFolder(title: string, parent: number = 0) {
+	const { error } = await authorizeAction("categories", "create");
+	if (error) {
+		return error;
+	}
+	if (!title?.trim()) {
+		return {
+			success: "error",
+			message: "Folder name is required",
+		};
+	}
+	try {
+		const db = await models.Category.createCategory({
+			title: title.trim(),
+			parent,
+			type: "media",
+			published: true,
+		});
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Folder created" : "Error creating folder",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating folder",
+		};
+	}
+}
+
+// Move files to a folder, null for no folder
+export async function moveMultipleRecords(ids: string[], folderId: number | null) {
+	const { error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.File.moveMulti(ids.map(Number), folderId);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? `${db.count} files moved` : "Error moving files",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error moving files",
+		};
+	}
+}
+
+// Add or remove tags on files, tags is a comma separated list
+export async function tagMultipleRecords(ids: string[], tags: string, remove: boolean = false) {
+	const { error } = await authorizeAction("files", "update");
+	if (error) {
+		return error;
+	}
+	const names = parseTags(tags);
+	if (names.length === 0) {
+		return {
+			success: "error",
+			message: "Enter at least one tag",
+		};
+	}
+	try {
+		const db = remove ? await models.File.untagMulti(ids.map(Number), names) : await models.File.tagMulti(ids.map(Number), names);
+		return {
+			success: db ? "success" : "error",
+			data: db?.length,
+			message: db ? `${remove ? "Removed" : "Added"} ${names.join(", ")} on ${db.length} files` : "Error tagging files",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error tagging files",
+		};
+	}
+}
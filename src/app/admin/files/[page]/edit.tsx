@@ -21,10 +21,12 @@ const FormSchema = z.object({
 	f_data: z.string().min(2, { message: "Content must be at least 2 characters." }),
 	f_published: z.enum(enumPublished.map((item: any) => item.value) as [string, ...string[]], { required_error: "Published is required" }).optional(),
 	f_type: z.enum(["product", "post", "media"], { required_error: "Type is required" }).optional(),
+	f_folder: z.string().optional(),
+	f_tags: z.string().optional(),
 });
 
 export default function FormEdit(props: any) {
-	const { id, onChange } = props;
+	const { id, folders, onChange } = props;
 	const [data, setData] = useState<any>(null);
 	const [loading, setLoading] = useState(true);
 	const role = useCurrentRole();
@@ -34,6 +36,8 @@ export default function FormEdit(props: any) {
 			f_name: "",
 			f_data: "",
 			f_published: "FALSE",
+			f_folder: "none",
+			f_tags: "",
 		},
 	});
 
@@ -42,6 +46,8 @@ export default function FormEdit(props: any) {
 			name: values?.f_name,
 			data: values?.f_data,
 			published: values?.f_published === "TRUE" ? true : false,
+			folderId: values?.f_folder && values.f_folder !== "none" ? Number(values.f_folder) : null,
+			tags: values?.f_tags,
 		};
 		if (data) {
 			const update = await actions.updateRecord(id, _body);
@@ -69,6 +75,8 @@ export default function FormEdit(props: any) {
 				f_name: res?.data?.name || "",
 				f_data: res?.data?.data || "",
 				f_published: res?.data?.published === true ? "TRUE" : "FALSE",
+				f_folder: res?.data?.folderId ? String(res.data.folderId) : "none",
+				f_tags: (res?.data?.tags ?? []).map((tag: any) => tag.name).join(", "),
 			});
 			setLoading(false);
 		} else {
@@ -110,6 +118,38 @@ export default function FormEdit(props: any) {
 								</FormItem>
 							)}
 						/>
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="f_folder"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Folder</FormLabel>
+										{FieldSelect({
+											field,
+											data: [{ id: "none", name: "No folder" }, ...(folders ?? []).map((item: any) => ({ id: String(item.id), name: item.title }))],
+										})}
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="f_tags"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Tags</FormLabel>
+										<FormControl>
+											<Input
+												placeholder="logo, print"
+												{...field}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
 						<FormField
 							control={form.control}
 							name="f_data"
@@ -2,22 +2,30 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Drawer } from "antd";
-import { CircleCheck, Pencil, Plus, Trash, X } from "lucide-react";
-import { useSearchParams } from "next/navigation";
+import { ArchiveRestore, CircleCheck, FolderPlus, Images, Pencil, Plus, ScanSearch, ShieldCheck, Trash, X } from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
 
 import AppImage from "@/components/AppImage";
 import AppLoading from "@/components/AppLoading";
+import AppProgress from "@/components/AppProgress";
 import AppTable from "@/components/AppTable";
 import AppTitle from "@/components/AppTitle";
+import { FolderTree } from "@/components/fields/folders";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { uploadFile } from "@/lib/upload";
-import { pageSkip } from "@/lib/utils";
+import { appState } from "@/lib/appConst";
+import { enumFileFilter, enumFileIntegrity } from "@/lib/enum";
+import { uploadAccept, uploadTypeLabels } from "@/lib/mime";
+import { uploadWithProgress } from "@/lib/resumable";
+import { dateFormat, pageSkip } from "@/lib/utils";
 import { useAppSelector } from "@/store";
 
 import * as actions from "./actions";
 import FormEdit from "./edit";
+import Organize from "./organize";
+import Scan from "./scan";
 
 export default function Fetch(props: any) {
 	const { title, page, breadcrumb } = props;
@@ -25,6 +33,9 @@ export default function Fetch(props: any) {
 	const [db, setDb] = useState<any>([]);
 	const [loading, setLoading] = useState(true);
 	const [imgs, setImgs] = useState<any>([]);
+	const [progress, setProgress] = useState<Record<string, number>>({});
+	const [library, setLibrary] = useState<any>({ folders: [], tags: [] });
+	const router = useRouter();
 	const pageSize = useAppSelector((state) => (state.appState as any)?.pageSize) || 10;
 	const search = useSearchParams();
 	const query = useMemo(
@@ -34,10 +45,14 @@ export default function Fetch(props: any) {
 			s: search.get("s") || "",
 			orderBy: search.get("orderBy") || "id",
 			filterBy: search.get("filterBy") || "",
-			cat: search.get("cat") || "",
+			byCat: search.get("cat") || "",
+			tag: search.get("tag") || "",
 		}),
 		[pageSize, page, search],
 	);
+	const trash = query.filterBy === "trash";
+	// Uploads go to the folder being browsed
+	const folderId = Number(query.byCat) || null;
 
 	const fetchData = useCallback(async () => {
 		const res = await actions.getAll(query);
@@ -47,6 +62,21 @@ export default function Fetch(props: any) {
 		}
 	}, [query]);
 
+	const fetchFolders = useCallback(async () => {
+		const res = await actions.getFolders();
+		if (res?.success === "success" && res?.data) {
+			setLibrary(res.data);
+		}
+	}, []);
+
+	const browse = (folder: string, tag: string) => {
+		const params = new URLSearchParams({ cat: folder, tag });
+		if (query.filterBy) {
+			params.set("filterBy", query.filterBy);
+		}
+		router.push(`/admin/files?${params.toString()}`);
+	};
+
 	const deteteRecord = async (id: string) => {
 		if (confirm("Are you sure you want to delete this record?")) {
 			const res = await actions.deleteRecord(id);
@@ -56,10 +86,54 @@ export default function Fetch(props: any) {
 		}
 	};
 
+	const restoreRecords = async (ids: string[]) => {
+		const res = await actions.restoreMultipleRecords(ids);
+		if (res?.success === "success") {
+			toast.success(res.message);
+			fetchData();
+		} else {
+			toast.error(res?.message);
+		}
+	};
+
+	const emptyTrash = async () => {
+		if (confirm("Delete every file in the trash? This can not be undone.")) {
+			const res = await actions.emptyTrash();
+			if (res?.success === "success") {
+				toast.success(res.message);
+				fetchData();
+			} else {
+				toast.error(res?.message);
+			}
+		}
+	};
+
+	const checkRecords = async () => {
+		const res = await actions.checkRecords();
+		if (res?.success === "success") {
+			toast.success(res.message);
+		} else {
+			toast.error(res?.message);
+		}
+	};
+
+	const generateVariants = async () => {
+		const res = await actions.generateVariants();
+		if (res?.success === "success") {
+			toast.success(res.message);
+		} else {
+			toast.error(res?.message);
+		}
+	};
+
 	useEffect(() => {
 		fetchData();
 	}, [fetchData]);
 
+	useEffect(() => {
+		fetchFolders();
+	}, [fetchFolders]);
+
 	return (
 		<>
 			<div className="flex justify-between mb-5">
@@ -67,218 +141,391 @@ export default function Fetch(props: any) {
 					data={title}
 					breadcrumb={breadcrumb}
 				/>
-				<Dialog
-					open={open[0] === "create"}
-					defaultOpen={false}
-					onOpenChange={(open) => setOpen([open ? "create" : "", null])}>
-					<DialogTrigger asChild>
+				<div className="flex items-center space-x-2">
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() => setOpen(["folder", null])}>
+						<FolderPlus />
+						New folder
+					</Button>
+					{trash && (
 						<Button
 							type="button"
-							onClick={() => setOpen(["create", null])}>
-							<Plus />
-							Create {title}
+							variant="destructive"
+							onClick={emptyTrash}>
+							<Trash />
+							Empty trash
 						</Button>
-					</DialogTrigger>
-					<DialogContent className="w-full sm:max-w-[800px]">
-						<DialogHeader>
-							<DialogTitle>Upload {title}</DialogTitle>
-						</DialogHeader>
-						<div className="flex flex-col gap-4">
-							<div className="flex items-center justify-center w-full">
-								<label
-									htmlFor="iploadfile"
-									className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 hover:border-gray-600 dark:hover:border-gray-500">
-									<div className="flex flex-col items-center justify-center pt-5 pb-6">
-										<svg
-											className="w-8 h-8 mb-4 text-gray-500 dark:text-gray-400"
-											aria-hidden="true"
-											xmlns="http://www.w3.org/2000/svg"
-											fill="none"
-											viewBox="0 0 20 16">
-											<path
-												stroke="currentColor"
-												strokeLinecap="round"
-												strokeLinejoin="round"
-												strokeWidth="2"
-												d="M13 13h3a3 3 0 0 0 0-6h-.025A5.56 5.56 0 0 0 16 6.5 5.5 5.5 0 0 0 5.207 5.021C5.137 5.017 5.071 5 5 5a4 4 0 0 0 0 8h2.167M10 15V6m0 0L8 8m2-2 2 2"
-											/>
-										</svg>
-										<p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
-											<span className="font-semibold">Click to upload</span> or drag and drop
-										</p>
-										<p className="text-xs text-gray-500 dark:text-gray-400">SVG, PNG, JPG or GIF</p>
-									</div>
-									<Input
-										type="file"
-										placeholder="Image"
-										multiple
-										onChange={async (e) => {
-											const files = e.target.files;
-											if (files) {
-												for (let i = 0; i < files.length; i++) {
-													const file = files[i];
-													const reader = new FileReader();
-													reader.onload = (e) => {
-														const img = document.createElement("img");
-														img.src = e.target?.result as string;
-														img.className = "h-full object-cover border-2 border-gray-300 rounded-lg";
-														document.getElementById("previewimg")?.appendChild(img);
-													};
-													reader.readAsDataURL(file);
-													setImgs((prev: any) => [...prev, file]);
-													await uploadFile([file]);
+					)}
+					<Dialog
+						open={open[0] === "scan"}
+						onOpenChange={(open) => setOpen([open ? "scan" : "", null])}>
+						<DialogTrigger asChild>
+							<Button
+								type="button"
+								variant="outline">
+								<ScanSearch />
+								Scan storage
+							</Button>
+						</DialogTrigger>
+						<DialogContent className="w-full sm:max-w-[800px]">
+							<DialogHeader>
+								<DialogTitle>Storage scan</DialogTitle>
+							</DialogHeader>
+							<Scan
+								onChange={(event: string) => {
+									if (event === "delete") {
+										fetchData();
+									}
+								}}
+							/>
+						</DialogContent>
+					</Dialog>
+					<Button
+						type="button"
+						variant="outline"
+						onClick={checkRecords}>
+						<ShieldCheck />
+						Check integrity
+					</Button>
+					<Button
+						type="button"
+						variant="outline"
+						onClick={generateVariants}>
+						<Images />
+						Generate thumbnails
+					</Button>
+					<Dialog
+						open={open[0] === "create"}
+						defaultOpen={false}
+						onOpenChange={(open) => setOpen([open ? "create" : "", null])}>
+						<DialogTrigger asChild>
+							<Button
+								type="button"
+								onClick={() => setOpen(["create", null])}>
+								<Plus />
+								Create {title}
+							</Button>
+						</DialogTrigger>
+						<DialogContent className="w-full sm:max-w-[800px]">
+							<DialogHeader>
+								<DialogTitle>Upload {title}</DialogTitle>
+							</DialogHeader>
+							<div className="flex flex-col gap-4">
+								<div className="flex items-center justify-center w-full">
+									<label
+										htmlFor="iploadfile"
+										className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 hover:border-gray-600 dark:hover:border-gray-500">
+										<div className="flex flex-col items-center justify-center pt-5 pb-6">
+											<svg
+												className="w-8 h-8 mb-4 text-gray-500 dark:text-gray-400"
+												aria-hidden="true"
+												xmlns="http://www.w3.org/2000/svg"
+												fill="none"
+												viewBox="0 0 20 16">
+												<path
+													stroke="currentColor"
+													strokeLinecap="round"
+													strokeLinejoin="round"
+													strokeWidth="2"
+													d="M13 13h3a3 3 0 0 0 0-6h-.025A5.56 5.56 0 0 0 16 6.5 5.5 5.5 0 0 0 5.207 5.021C5.137 5.017 5.071 5 5 5a4 4 0 0 0 0 8h2.167M10 15V6m0 0L8 8m2-2 2 2"
+												/>
+											</svg>
+											<p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+												<span className="font-semibold">Click to upload</span> or drag and drop
+											</p>
+											<p className="text-xs text-gray-500 dark:text-gray-400">{uploadTypeLabels("media")}</p>
+										</div>
+										<Input
+											type="file"
+											placeholder="Image"
+											multiple
+											accept={uploadAccept("media")}
+											onChange={async (e) => {
+												const files = e.target.files;
+												if (files) {
+													for (let i = 0; i < files.length; i++) {
+														const file = files[i];
+														const reader = new FileReader();
+														reader.onload = (e) => {
+															const img = document.createElement("img");
+															img.src = e.target?.result as string;
+															img.className = "h-full object-cover border-2 border-gray-300 rounded-lg";
+															document.getElementById("previewimg")?.appendChild(img);
+														};
+														if (appState.ACCEPTED_IMG_FILE_TYPES.includes(file.type)) {
+															reader.readAsDataURL(file);
+														}
+														setImgs((prev: any) => [...prev, file]);
+														const up = await uploadWithProgress(file, "media", (value) => setProgress((prev) => ({ ...prev, [file.name]: value })));
+														if (up?.success !== "success") {
+															toast.error(up?.message ?? `Can not upload "${file.name}"`);
+														} else if (folderId) {
+															await actions.moveMultipleRecords(
+																(up.data ?? []).map((item: any) => String(item.id)),
+																folderId,
+															);
+														}
+													}
+													setOpen(["", null]);
+													setImgs([]);
+													setProgress({});
+													fetchData();
+													fetchFolders();
 												}
-												setOpen(["", null]);
-												setImgs([]);
-												fetchData();
-											}
-										}}
-										className="hidden"
-										id="iploadfile"
-									/>
-								</label>
+											}}
+											className="hidden"
+											id="iploadfile"
+										/>
+									</label>
+								</div>
+								{Object.keys(progress).length > 0 && <AppProgress items={progress} />}
+								<div
+									id="previewimg"
+									className="grid grid-cols-3 lg:grid-cols-4 gap-10"></div>
 							</div>
-							<div
-								id="previewimg"
-								className="grid grid-cols-3 lg:grid-cols-4 gap-10"></div>
-						</div>
-					</DialogContent>
-				</Dialog>
+						</DialogContent>
+					</Dialog>
+				</div>
 			</div>
 
-			{loading && <AppLoading />}
-			{!loading && (
-				<AppTable
-					actions={actions}
-					data={db.data}
-					count={db.count}
-					url={`/admin/files`}
-					page={page}
-					pageSize={pageSize}
-					onChange={(event: string, data: any) => {
-						if (event === "edit") {
-							setOpen([event, data]);
-						}
-						if (event === "delete") {
+			<Dialog
+				open={["folder", "move", "tag", "untag"].includes(open[0])}
+				onOpenChange={(open) => !open && setOpen(["", null])}>
+				<DialogContent className="w-full sm:max-w-[500px]">
+					<DialogHeader>
+						<DialogTitle>{{ folder: "New folder", move: "Move to folder", tag: "Add tags", untag: "Remove tags" }[open[0] as string]}</DialogTitle>
+					</DialogHeader>
+					<Organize
+						key={open[0]}
+						mode={open[0]}
+						ids={open[1] ?? []}
+						folders={library.folders}
+						folder={query.byCat}
+						onChange={() => {
+							setOpen(["", null]);
 							fetchData();
-						}
-					}}
-					columns={[
-						{
-							header: "Image",
-							accessor: "image",
-							className: "w-20",
-							custom: (row: any) => {
-								return (
-									<AppImage
-										src={row.url}
-										width={100}
-										height={50}
-										alt={row.title}
-										className="w-15 h-10 rounded object-cover border border-gray-200"
-									/>
-								);
-							},
-						},
-						{
-							header: "Name",
-							accessor: "name",
-							// custom: (row: any) => {
-							// 	return <div className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.name}</div>;
-							// },
-							custom: (row: any) => {
-								return (
-									<>
-										<div className="flex items-center space-x-1">
-											{row.published ? (
-												<span className="text-green-800 font-semibold">
-													<CircleCheck className="w-4 h-4" />
-												</span>
-											) : (
-												<span className="text-red-800 font-semibold">
-													<X className="w-4 h-4" />
-												</span>
-											)}
-											<span className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.name}</span>
-										</div>
-									</>
-								);
-							},
-						},
-						{
-							header: "URL",
-							accessor: "url",
-							custom: (row: any) => {
-								return (
-									<div className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">
-										<Input
-											value={row.url}
-											className="w-full"
-											readOnly
-											onClick={(e) => {
-												e.stopPropagation();
-												navigator.clipboard.writeText(row.url);
-											}}
-											onFocus={(e) => {
-												e.stopPropagation();
-												e.target.select();
-											}}
-										/>
-									</div>
-								);
-							},
-						},
-						{
-							header: "Size",
-							accessor: "size",
-							custom: (row: any) => {
-								return <>{row.size / 1024 > 1000 ? `${(row.size / 1024 / 1024).toFixed(2)} MB` : `${(row.size / 1024).toFixed(2)} KB`}</>;
-							},
-						},
-						{
-							header: "Extension",
-							accessor: "ext",
-						},
-						{
-							header: "User",
-							accessor: "user.name",
-						},
-						{
-							header: "Edit",
+							fetchFolders();
+						}}
+					/>
+				</DialogContent>
+			</Dialog>
 
-							accessor: "edit",
-							custom: (row: any) => {
-								return (
-									<Button
-										size="icon"
-										className="hover:bg-gray-900 bg-gray-100 text-sm inline-flex flex-row items-center w-7 h-7 justify-center text-black border border-gray-400 rounded-md hover:text-white hover:border-black"
-										onClick={() => setOpen(["edit", row])}>
-										<Pencil />
-									</Button>
-								);
-							},
-						},
-					]}
-					order={[
-						{
-							value: "createdAt",
-							label: "Order by Date",
-						},
-						{
-							value: "name",
-							label: "Order by Name",
-						},
-						{
-							value: "size",
-							label: "Order by Size",
-						},
-						{
-							value: "ext",
-							label: "Order by Extension",
-						},
-					]}
-				/>
-			)}
+			<div className="flex flex-col lg:flex-row gap-5">
+				<div className="lg:w-56 shrink-0">
+					<FolderTree
+						folders={library.folders}
+						tags={library.tags}
+						folder={query.byCat}
+						tag={query.tag}
+						onSelect={browse}
+					/>
+				</div>
+				<div className="flex-1 min-w-0">
+					{loading && <AppLoading />}
+					{!loading && trash && <p className="mb-3 text-sm text-gray-500">Files in the trash are deleted permanently after {db.trashDays} days. Deleting them here removes them right away.</p>}
+					{!loading && (
+						<AppTable
+							actions={trash ? { ...actions, deleteMultipleRecords: actions.purgeMultipleRecords } : actions}
+							multipleDisable={trash ? ["publish", "unpublish"] : undefined}
+							bulkActions={
+								trash
+									? []
+									: [
+											{ label: "Move to folder", onClick: (ids: string[]) => setOpen(["move", ids]) },
+											{ label: "Add tags", onClick: (ids: string[]) => setOpen(["tag", ids]) },
+											{ label: "Remove tags", onClick: (ids: string[]) => setOpen(["untag", ids]) },
+										]
+							}
+							filter={enumFileFilter}
+							data={db.data}
+							count={db.count}
+							url={`/admin/files`}
+							page={page}
+							pageSize={pageSize}
+							onChange={(event: string, data: any) => {
+								if (event === "edit") {
+									setOpen([event, data]);
+								}
+								if (event === "delete") {
+									fetchData();
+								}
+							}}
+							columns={[
+								{
+									header: "Image",
+									accessor: "image",
+									className: "w-20",
+									custom: (row: any) => {
+										return (
+											<AppImage
+												src={row.url}
+												variants={row.variants}
+												width={100}
+												height={50}
+												alt={row.title}
+												className="w-15 h-10 rounded object-cover border border-gray-200"
+											/>
+										);
+									},
+								},
+								{
+									header: "Name",
+									accessor: "name",
+									// custom: (row: any) => {
+									// 	return <div className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.name}</div>;
+									// },
+									custom: (row: any) => {
+										return (
+											<>
+												<div className="flex items-center space-x-1">
+													{row.published ? (
+														<span className="text-green-800 font-semibold">
+															<CircleCheck className="w-4 h-4" />
+														</span>
+													) : (
+														<span className="text-red-800 font-semibold">
+															<X className="w-4 h-4" />
+														</span>
+													)}
+													<span className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.name}</span>
+												</div>
+											</>
+										);
+									},
+								},
+								{
+									header: "URL",
+									accessor: "url",
+									custom: (row: any) => {
+										return (
+											<div className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">
+												<Input
+													value={row.url}
+													className="w-full"
+													readOnly
+													onClick={(e) => {
+														e.stopPropagation();
+														navigator.clipboard.writeText(row.url);
+													}}
+													onFocus={(e) => {
+														e.stopPropagation();
+														e.target.select();
+													}}
+												/>
+											</div>
+										);
+									},
+								},
+								{
+									header: "Size",
+									accessor: "size",
+									custom: (row: any) => {
+										return <>{row.size / 1024 > 1000 ? `${(row.size / 1024 / 1024).toFixed(2)} MB` : `${(row.size / 1024).toFixed(2)} KB`}</>;
+									},
+								},
+								{
+									header: "Extension",
+									accessor: "ext",
+								},
+								{
+									header: "Folder",
+									accessor: "folder.title",
+								},
+								{
+									header: "Tags",
+									accessor: "tags",
+									custom: (row: any) => {
+										return (
+											<div className="flex flex-wrap gap-1">
+												{(row.tags ?? []).map((tag: any) => (
+													<button
+														key={tag.name}
+														type="button"
+														onClick={() => browse(query.byCat, tag.name)}
+														className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300">
+														{tag.name}
+													</button>
+												))}
+											</div>
+										);
+									},
+								},
+								{
+									header: "User",
+									accessor: "user.name",
+								},
+								{
+									header: "Integrity",
+									accessor: "integrity",
+									custom: (row: any) => {
+										const integrity = enumFileIntegrity.find((item) => item.value === row.integrity);
+										if (!integrity) {
+											return <span className="text-xs text-gray-500">Not checked</span>;
+										}
+										return (
+											<span
+												className={`text-xs font-semibold ${integrity.className}`}
+												title={dateFormat(row.checkedAt)}>
+												{integrity.label}
+											</span>
+										);
+									},
+								},
+								{
+									header: trash ? "Deleted" : "Edit",
+
+									accessor: "edit",
+									custom: (row: any) => {
+										if (trash) {
+											return (
+												<div className="flex items-center space-x-2 whitespace-nowrap">
+													<span className="text-xs text-gray-500">{dateFormat(row.deletedAt)}</span>
+													<Button
+														type="button"
+														size="sm"
+														variant="outline"
+														onClick={() => restoreRecords([row.id])}>
+														<ArchiveRestore />
+														Restore
+													</Button>
+												</div>
+											);
+										}
+										return (
+											<Button
+												size="icon"
+												className="hover:bg-gray-900 bg-gray-100 text-sm inline-flex flex-row items-center w-7 h-7 justify-center text-black border border-gray-400 rounded-md hover:text-white hover:border-black"
+												onClick={() => setOpen(["edit", row])}>
+												<Pencil />
+											</Button>
+										);
+									},
+								},
+							]}
+							order={[
+								{
+									value: "createdAt",
+									label: "Order by Date",
+								},
+								{
+									value: "name",
+									label: "Order by Name",
+								},
+								{
+									value: "size",
+									label: "Order by Size",
+								},
+								{
+									value: "ext",
+									label: "Order by Extension",
+								},
+							]}
+						/>
+					)}
+				</div>
+			</div>
 			<Drawer
 				maskClosable={false}
 				closable={false}
@@ -297,7 +544,7 @@ export default function Fetch(props: any) {
 								deteteRecord(open[1]?.id);
 								setOpen(["", open[1]]);
 							}}>
-							<Trash /> Delete
+							<Trash /> Move to trash
 						</Button>
 						<Button
 							type="button"
@@ -309,10 +556,12 @@ export default function Fetch(props: any) {
 				}>
 				<FormEdit
 					id={open[1]?.id}
+					folders={library.folders}
 					onChange={(event: string, data: any) => {
 						if (event === "submit") {
 							setOpen(["", null]);
 							fetchData();
+							fetchFolders();
 						}
 					}}
 				/>
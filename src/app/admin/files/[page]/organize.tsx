@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+import * as actions from "./actions";
+
+// Create a folder, move the selected files or change their tags; mode is folder, move, tag or untag
+export default function Organize(props: any) {
+	const { mode, ids, folders, folder, onChange } = props;
+	const [value, setValue] = useState(mode === "move" ? folder || "none" : "");
+	const [pending, setPending] = useState(false);
+	const parent = folders.find((item: any) => String(item.id) === folder);
+
+	async function submit(e: any) {
+		e.preventDefault();
+		setPending(true);
+		const res = mode === "folder" ? await actions.createFolder(value, Number(folder) || 0) : mode === "move" ? await actions.moveMultipleRecords(ids, value === "none" ? null : Number(value)) : await actions.tagMultipleRecords(ids, value, mode === "untag");
+		setPending(false);
+		if (res?.success === "success") {
+			toast.success(res.message);
+			onChange("submit");
+		} else {
+			toast.error(res?.message);
+		}
+	}
+
+	return (
+		<form
+			onSubmit={submit}
+			className="flex flex-col gap-4">
+			{mode === "folder" && (
+				<>
+					<p className="text-sm text-gray-500">{parent ? `Inside ${parent.title}` : "At the top level"}, rename or remove folders in Categories (type Media).</p>
+					<Input
+						value={value}
+						placeholder="Folder name"
+						onChange={(e) => setValue(e.target.value)}
+					/>
+				</>
+			)}
+			{mode === "move" && (
+				<>
+					<p className="text-sm text-gray-500">Move {ids.length} files to</p>
+					<Select
+						value={value}
+						onValueChange={setValue}>
+						<SelectTrigger>
+							<SelectValue placeholder="Folder" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="none">No folder</SelectItem>
+							{folders.map((item: any) => (
+								<SelectItem
+									key={item.id}
+									value={String(item.id)}>
+									{item.title}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</>
+			)}
+			{(mode === "tag" || mode === "untag") && (
+				<>
+					<p className="text-sm text-gray-500">
+						{mode === "tag" ? "Add tags to" : "Remove tags from"} {ids.length} files, separate tags with commas
+					</p>
+					<Input
+						value={value}
+						placeholder="logo, print, summer-2026"
+						onChange={(e) => setValue(e.target.value)}
+					/>
+				</>
+			)}
+			<div className="flex justify-end">
+				<Button
+					type="submit"
+					disabled={pending || !value.trim()}>
+					{mode === "folder" ? "Create folder" : mode === "move" ? "Move files" : mode === "tag" ? "Add tags" : "Remove tags"}
+				</Button>
+			</div>
+		</form>
+	);
+}
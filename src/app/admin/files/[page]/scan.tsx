@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from "react";
+import { Trash } from "lucide-react";
+import { toast } from "sonner";
+
+import AppLoading from "@/components/AppLoading";
+import { Button } from "@/components/ui/button";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+const fileSize = (size: number) => (size / 1024 > 1000 ? `${(size / 1024 / 1024).toFixed(2)} MB` : `${(size / 1024).toFixed(2)} KB`);
+
+export default function Scan(props: any) {
+	const { onChange } = props;
+	const [data, setData] = useState<any>(null);
+	const [loading, setLoading] = useState(true);
+	const [pending, setPending] = useState(false);
+
+	const fetchData = useCallback(async () => {
+		setLoading(true);
+		const res = await actions.getOrphans();
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+		} else {
+			toast.error(res?.message);
+		}
+		setLoading(false);
+	}, []);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function deleteOrphans() {
+		if (!confirm("Delete these objects from the storage? This can not be undone.")) {
+			return;
+		}
+		setPending(true);
+		const res = await actions.deleteOrphans(data.orphans.map((orphan: any) => orphan.url));
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+		} else {
+			toast.success(res.message);
+		}
+		fetchData();
+	}
+
+	async function deleteMissing() {
+		if (!confirm("Delete the records of these missing files? This can not be undone.")) {
+			return;
+		}
+		setPending(true);
+		const res = await actions.purgeMultipleRecords(data.missing.map((file: any) => file.id));
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+		} else {
+			toast.success(res.message);
+			onChange("delete");
+		}
+		fetchData();
+	}
+
+	if (loading) {
+		return <AppLoading />;
+	}
+
+	if (!data) {
+		return <p className="text-sm text-gray-500">The storage could not be scanned.</p>;
+	}
+
+	return (
+		<div className="flex flex-col gap-6 text-sm">
+			<p className="text-gray-500">
+				{data.objects} objects found in <span className="font-semibold uppercase">{data.driver}</span> storage.
+			</p>
+			<div className="flex flex-col gap-2">
+				<div className="flex items-center justify-between">
+					<h3 className="font-semibold">Objects without a file record ({data.orphans.length})</h3>
+					{data.orphans.length > 0 && (
+						<Button
+							type="button"
+							variant="destructive"
+							size="sm"
+							disabled={pending}
+							onClick={deleteOrphans}>
+							<Trash />
+							Delete objects
+						</Button>
+					)}
+				</div>
+				{data.orphans.length === 0 && <p className="text-gray-500">Every object belongs to a file.</p>}
+				{data.orphans.length > 0 && (
+					<div className="max-h-60 divide-y overflow-auto rounded-md border dark:border-gray-700 dark:divide-gray-700">
+						{data.orphans.map((orphan: any) => (
+							<div
+								key={orphan.url}
+								className="flex items-center justify-between gap-4 p-2">
+								<span className="truncate font-mono text-xs">{orphan.url}</span>
+								<span className="whitespace-nowrap text-xs text-gray-500">
+									{fileSize(orphan.size)}
+									{orphan.lastModified && ` · ${dateFormat(orphan.lastModified)}`}
+								</span>
+							</div>
+						))}
+					</div>
+				)}
+			</div>
+			<div className="flex flex-col gap-2">
+				<div className="flex items-center justify-between">
+					<h3 className="font-semibold">File records without an object ({data.missing.length})</h3>
+					{data.missing.length > 0 && (
+						<Button
+							type="button"
+							variant="destructive"
+							size="sm"
+							disabled={pending}
+							onClick={deleteMissing}>
+							<Trash />
+							Delete records
+						</Button>
+					)}
+				</div>
+				{data.missing.length === 0 && <p className="text-gray-500">Every file has its object.</p>}
+				{data.missing.length > 0 && (
+					<div className="max-h-60 divide-y overflow-auto rounded-md border dark:border-gray-700 dark:divide-gray-700">
+						{data.missing.map((file: any) => (
+							<div
+								key={file.id}
+								className="flex items-center justify-between gap-4 p-2">
+								<span className="truncate">{file.name}</span>
+								<span className="truncate font-mono text-xs text-gray-500">{file.url}</span>
+							</div>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
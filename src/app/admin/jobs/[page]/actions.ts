@@ -0,0 +1,132 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import { runJobs } from "@/lib/jobs";
+import models from "@/models";
+
+export async function getAll(query: any) {
+	const { error } = await authorizeAction("jobs", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Job.getAllJobs(query);
+		const dbCount = await models.Job.getJobsCount(query);
+		const stats = await models.Job.getJobStats();
+		return {
+			data: db,
+			count: dbCount,
+			stats,
+			success: "success",
+			message: "Jobs fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching jobs",
+		};
+	}
+}
+
+export async function getRecord(id: string) {
+	const { error } = await authorizeAction("jobs", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Job.getJobById(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Job fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching job",
+		};
+	}
+}
+
+export async function deleteRecord(id: string) {
+	const { error } = await authorizeAction("jobs", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Job.deleteJob(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Job deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting job",
+		};
+	}
+}
+
+// Delete Multiple Records
+export async function deleteMultipleRecords(ids: string[]) {
+	const { error } = await authorizeAction("jobs", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Job.deleteMulti(ids);
+		return {
+			success: "success",
+			data: db,
+			message: "Jobs deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting jobs",
+		};
+	}
+}
+
+// Queue failed jobs again
+export async function retryRecords(ids: string[]) {
+	const { error } = await authorizeAction("jobs", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Job.retryMulti(ids);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? `${db.count} jobs queued again` : "Error retrying jobs",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error retrying jobs",
+		};
+	}
+}
+
+// Run a batch of due jobs in this request, for setups without a running worker
+export async function runNow() {
+	const { session, error } = await authorizeAction("jobs", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const count = await runJobs(`admin:${session?.user?.id}`);
+		return {
+			success: "success",
+			data: count,
+			message: `${count} jobs processed`,
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error running jobs",
+		};
+	}
+}
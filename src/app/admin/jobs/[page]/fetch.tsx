@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Drawer } from "antd";
+import { Eye, Play, Trash, X } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+
+import AppLoading from "@/components/AppLoading";
+import AppTable from "@/components/AppTable";
+import AppTitle from "@/components/AppTitle";
+import { Button } from "@/components/ui/button";
+import { enumJobStatus } from "@/lib/enum";
+import { dateFormat, pageSkip } from "@/lib/utils";
+import { useAppSelector } from "@/store";
+
+import * as actions from "./actions";
+import View, { jobStatusColors } from "./view";
+
+export default function Fetch(props: any) {
+	const { title, page, breadcrumb } = props;
+	const [open, setOpen] = useState<any>(["", null]);
+	const [db, setDb] = useState<any>([]);
+	const [loading, setLoading] = useState(true);
+	const [running, setRunning] = useState(false);
+	const pageSize = useAppSelector((state) => (state.appState as any)?.pageSize) || 10;
+	const search = useSearchParams();
+	const query = useMemo(
+		() => ({
+			take: Number(pageSize),
+			skip: pageSkip(page, pageSize),
+			s: search.get("s") || "",
+			orderBy: search.get("orderBy") || "createdAt",
+			filterBy: search.get("filterBy") || "",
+		}),
+		[pageSize, page, search],
+	);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getAll(query);
+		if (res?.data) {
+			setDb(res);
+			setLoading(false);
+		}
+	}, [query]);
+
+	const deteteRecord = async (id: string) => {
+		if (confirm("Are you sure you want to delete this record?")) {
+			const res = await actions.deleteRecord(id);
+			if (res?.success === "success") {
+				fetchData();
+			}
+		}
+	};
+
+	const runNow = async () => {
+		setRunning(true);
+		const res = await actions.runNow();
+		setRunning(false);
+		if (res?.success === "success") {
+			toast.success(res.message);
+		} else {
+			toast.error(res?.message);
+		}
+		fetchData();
+	};
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	return (
+		<>
+			<div className="flex justify-between mb-5">
+				<AppTitle
+					data={title}
+					breadcrumb={breadcrumb}
+				/>
+				<Button
+					disabled={running}
+					onClick={runNow}>
+					<Play />
+					Run due jobs
+				</Button>
+			</div>
+
+			{!loading && (
+				<div className="grid grid-cols-2 gap-4 mb-5 md:grid-cols-4">
+					{enumJobStatus.map((item: any) => (
+						<div
+							key={item.value}
+							className="flex flex-col rounded-md border p-4 dark:border-gray-700">
+							<span className="text-sm text-gray-500">{item.label}</span>
+							<span className={`text-2xl font-semibold ${jobStatusColors[item.value] ?? ""}`}>{db.stats?.[item.value] ?? 0}</span>
+						</div>
+					))}
+				</div>
+			)}
+
+			{loading && <AppLoading />}
+			{!loading && (
+				<AppTable
+					actions={actions}
+					data={db.data}
+					count={db.count}
+					url={`/admin/jobs`}
+					page={page}
+					pageSize={pageSize}
+					multipleDisable={["publish", "unpublish"]}
+					onChange={(event: string, data: any) => {
+						if (event === "delete") {
+							fetchData();
+						}
+					}}
+					columns={[
+						{
+							header: "Type",
+							accessor: "type",
+							custom: (row: any) => {
+								return (
+									<>
+										<div className="font-mono text-sm">{row.type}</div>
+										<div className="text-gray-500 text-xs">{row.key ?? row.id}</div>
+									</>
+								);
+							},
+						},
+						{
+							header: "Status",
+							accessor: "status",
+							custom: (row: any) => {
+								return <span className={`text-sm capitalize ${jobStatusColors[row.status] ?? ""}`}>{row.status}</span>;
+							},
+						},
+						{
+							header: "Attempts",
+							accessor: "attempts",
+							custom: (row: any) => {
+								return (
+									<span className="text-sm">
+										{row.attempts}/{row.maxAttempts}
+									</span>
+								);
+							},
+						},
+						{
+							header: "Run at",
+							accessor: "runAt",
+							custom: (row: any) => {
+								return <span className="text-sm whitespace-nowrap">{dateFormat(row.runAt)}</span>;
+							},
+						},
+						{
+							header: "Error",
+							accessor: "lastError",
+							custom: (row: any) => {
+								return <span className="text-xs text-red-700 whitespace-nowrap truncate overflow-ellipsis max-w-xs block">{row.lastError?.split("\n")[0]}</span>;
+							},
+						},
+						{
+							header: "View",
+							accessor: "view",
+							custom: (row: any) => {
+								return (
+									<Button
+										size="icon"
+										className="hover:bg-gray-900 bg-gray-100 text-sm inline-flex flex-row items-center w-7 h-7 justify-center text-black border border-gray-400 rounded-md hover:text-white hover:border-black"
+										onClick={() => setOpen(["view", row])}>
+										<Eye />
+									</Button>
+								);
+							},
+						},
+					]}
+					order={[
+						{
+							value: "createdAt",
+							label: "Order by Date",
+						},
+						{
+							value: "runAt",
+							label: "Order by Run Time",
+						},
+						{
+							value: "type",
+							label: "Order by Type",
+						},
+					]}
+					filter={enumJobStatus}
+				/>
+			)}
+			<Drawer
+				maskClosable={false}
+				closable={false}
+				open={open[0] === "view"}
+				onClose={() => setOpen(["", null])}
+				title={open[1]?.type}
+				placement="right"
+				width={900}
+				destroyOnClose={true}
+				extra={
+					<div className="flex items-center space-x-2">
+						<Button
+							type="button"
+							className="hover:bg-red-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-red-800 px-2 h-8 bg-red-200 font-medium hover:text-black text-black border-2 border-red-400 rounded-lg"
+							onClick={() => {
+								deteteRecord(open[1]?.id);
+								setOpen(["", null]);
+							}}>
+							<Trash /> Delete
+						</Button>
+						<Button
+							type="button"
+							className="hover:bg-gray-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-gray-800 w-8 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg"
+							onClick={() => setOpen(["", null])}>
+							<X />
+						</Button>
+					</div>
+				}>
+				<View
+					id={open[1]?.id}
+					onChange={(event: string) => {
+						if (event === "retry") {
+							fetchData();
+						}
+					}}
+				/>
+			</Drawer>
+		</>
+	);
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
+
+import Fetch from "./fetch";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Jobs",
+	}),
+};
+
+export default async function Index({ params }: any) {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (checkRole && !can(session?.user, "jobs", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const { page } = await params;
+	const pageNumber = Number(page);
+	metadata.title = `Jobs | Page ${pageNumber}`;
+
+	const breadcrumb = [
+		{
+			title: "Jobs",
+			href: "/admin/jobs",
+		},
+		{
+			title: `Page ${pageNumber}`,
+			href: `/admin/jobs/${pageNumber}`,
+		},
+	];
+
+	return (
+		<div className="mx-auto flex-col flex py-5 w-full px-4 sm:px-6">
+			<Fetch
+				title="Jobs"
+				breadcrumb={breadcrumb}
+				page={pageNumber}
+			/>
+		</div>
+	);
+}
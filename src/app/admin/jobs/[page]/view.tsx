@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import AppLoading from "@/components/AppLoading";
+import { Button } from "@/components/ui/button";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+export const jobStatusColors: Record<string, string> = {
+	pending: "text-gray-700",
+	running: "text-blue-700",
+	completed: "text-green-700",
+	failed: "text-red-700",
+};
+
+// Pretty print stored JSON, falling back to the raw text
+const formatJson = (value: string | null) => {
+	try {
+		return JSON.stringify(JSON.parse(value ?? ""), null, 2);
+	} catch (error) {
+		return value ?? "";
+	}
+};
+
+export default function View(props: any) {
+	const { id, onChange } = props;
+	const [data, setData] = useState<any>(null);
+	const [loading, setLoading] = useState(true);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getRecord(id);
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+		}
+		setLoading(false);
+	}, [id]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function retry() {
+		const res = await actions.retryRecords([id]);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		await fetchData();
+		onChange?.("retry");
+	}
+
+	if (loading) {
+		return <AppLoading />;
+	}
+
+	if (!data) {
+		return <p className="text-sm text-gray-500">Job not found.</p>;
+	}
+
+	const details = [
+		["Status", data.status],
+		["Attempts", `${data.attempts}/${data.maxAttempts}`],
+		["Key", data.key ?? "-"],
+		["Repeat", data.repeat ? `Every ${data.repeat} seconds` : "-"],
+		["Created", dateFormat(data.createdAt)],
+		["Run at", dateFormat(data.runAt)],
+		["Locked by", data.lockedBy ? `${data.lockedBy} since ${dateFormat(data.lockedAt)}` : "-"],
+		["Completed", data.completedAt ? dateFormat(data.completedAt) : "-"],
+	];
+
+	return (
+		<div className="flex flex-col gap-4">
+			<div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+				{details.map(([label, value]) => (
+					<div
+						key={label}
+						className="flex justify-between gap-4 border-b py-1 dark:border-gray-700">
+						<span className="text-gray-500">{label}</span>
+						<span className={label === "Status" ? `capitalize ${jobStatusColors[value] ?? ""}` : ""}>{value}</span>
+					</div>
+				))}
+			</div>
+			{data.status === "failed" && (
+				<div>
+					<Button
+						type="button"
+						variant="outline"
+						onClick={retry}>
+						<RotateCcw />
+						Retry
+					</Button>
+				</div>
+			)}
+			<div className="flex flex-col gap-1">
+				<span className="text-sm font-semibold">Payload</span>
+				<pre className="max-h-80 overflow-auto rounded-md bg-gray-100 p-2 text-xs dark:bg-gray-800">{formatJson(data.payload)}</pre>
+			</div>
+			{data.result && (
+				<div className="flex flex-col gap-1">
+					<span className="text-sm font-semibold">Result</span>
+					<pre className="max-h-60 overflow-auto rounded-md bg-gray-100 p-2 text-xs dark:bg-gray-800">{formatJson(data.result)}</pre>
+				</div>
+			)}
+			{data.lastError && (
+				<div className="flex flex-col gap-1">
+					<span className="text-sm font-semibold">Last error</span>
+					<pre className="max-h-60 overflow-auto rounded-md bg-red-50 p-2 text-xs whitespace-pre-wrap text-red-800 dark:bg-gray-800">{data.lastError}</pre>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,40 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
+
+import Fetch from "./[page]/fetch";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Jobs",
+	}),
+};
+
+export default async function Index() {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (checkRole && !can(session?.user, "jobs", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const breadcrumb = [
+		{
+			title: "Jobs",
+			href: "/admin/jobs",
+		},
+	];
+
+	return (
+		<div className="mx-auto flex-col flex py-5 w-full px-4 sm:px-6">
+			<Fetch
+				title={metadata.title}
+				breadcrumb={breadcrumb}
+				page={1}
+			/>
+		</div>
+	);
+}
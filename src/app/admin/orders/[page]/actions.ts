@@ -1,10 +1,16 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction, canSetOrderStatus } from "@/lib/auth";
+import { OrderItemError, OrderStatusError } from "@/lib/order";
+import { orderStatusDenied } from "@/lib/permission";
+import { ProofError } from "@/lib/proof";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Order.getAllOrders(query);
@@ -24,7 +30,10 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Order.deleteOrder(id);
@@ -42,15 +51,28 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any, meta: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
+	if (!(await canSetOrderStatus(session?.user, data?.status, []))) {
+		return {
+			success: "error",
+			status: 403,
+			message: orderStatusDenied(data.status),
+		};
+	}
 	try {
-		const db = await models.Order.createOrder(data);
+		const db = await models.Order.createOrder(data, id);
 		if (db && meta) {
-			const dbMeta = await models.OrderMeta.createOrderMeta({
-				orderId: db.id,
-				data: meta.data,
-			});
+			const dbMeta = await models.OrderMeta.createOrderMeta(
+				{
+					orderId: db.id,
+					data: meta.data,
+				},
+				id,
+			);
 		}
 		return {
 			success: "success",
@@ -60,21 +82,34 @@ export async function createRecord(data: any, meta: any) {
 	} catch (error) {
 		return {
 			success: "error",
-			message: "Error creating category",
+			message: error instanceof OrderStatusError ? error.message : "Error creating category",
 		};
 	}
 }
 
 export async function updateRecord(id: string, data: any, meta?: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
+	if (!(await canSetOrderStatus(session?.user, data?.status, [id]))) {
+		return {
+			success: "error",
+			status: 403,
+			message: orderStatusDenied(data.status),
+		};
+	}
 	try {
-		const db = await models.Order.updateOrder(id, data);
+		const db = await models.Order.updateOrder(id, data, userId);
 		if (db && meta) {
-			const dbMeta = await models.OrderMeta.createOrderMeta({
-				orderId: db.id,
-				data: meta.data,
-			});
+			const dbMeta = await models.OrderMeta.createOrderMeta(
+				{
+					orderId: db.id,
+					data: meta.data,
+				},
+				userId,
+			);
 		}
 		return {
 			success: "success",
@@ -84,13 +119,16 @@ export async function updateRecord(id: string, data: any, meta?: any) {
 	} catch (error) {
 		return {
 			success: "error",
-			message: "Error updating category",
+			message: error instanceof OrderStatusError ? error.message : "Error updating category",
 		};
 	}
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Order.getOrderById(id);
@@ -109,7 +147,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Order.deleteMulti(ids);
@@ -128,10 +169,27 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
+	if (!Array.isArray(ids) || ids.length === 0) {
+		return {
+			success: "error",
+			status: 400,
+			message: "Select the orders to update",
+		};
+	}
+	if (!(await canSetOrderStatus(session?.user, data?.status, ids))) {
+		return {
+			success: "error",
+			status: 403,
+			message: orderStatusDenied(data.status),
+		};
+	}
 	try {
-		const db = await models.Order.updateMulti(ids, data);
+		const db = await models.Order.updateMulti(ids, data, id);
 		return {
 			success: "success",
 			data: db,
@@ -140,17 +198,20 @@ export async function updateMultipleRecords(ids: string[], data: any) {
 	} catch (error) {
 		return {
 			success: "error",
-			message: "Error updating categories",
+			message: error instanceof OrderStatusError ? error.message : "Error updating categories",
 		};
 	}
 }
 
 // connectUser
 export async function connectUser(orderId: string, customerId: string, model: any, key: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
-		const db = model === "customer" ? await models.Order.connectCustomerToOrder(orderId, customerId) : await models.Order.connectUserToOrder(orderId, customerId, key);
+		const db = model === "customer" ? await models.Order.connectCustomerToOrder(orderId, customerId, userId) : await models.Order.connectUserToOrder(orderId, customerId, key, userId);
 		return {
 			success: "success",
 			data: db,
@@ -166,10 +227,13 @@ export async function connectUser(orderId: string, customerId: string, model: an
 
 // disconnectUser
 export async function disconnectUser(orderId: string, customerId: string, model: any, key: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
-		const db = model === "customer" ? await models.Order.disconnectCustomerFromOrder(orderId, customerId) : await models.Order.disconnectUserFromOrder(orderId, customerId, key);
+		const db = model === "customer" ? await models.Order.disconnectCustomerFromOrder(orderId, customerId, userId) : await models.Order.disconnectUserFromOrder(orderId, customerId, key, userId);
 		return {
 			success: "success",
 			data: db,
@@ -185,7 +249,10 @@ export async function disconnectUser(orderId: string, customerId: string, model:
 
 // searchAttributeMeta
 export async function searchAttributeMeta(search: string, attributeId: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.AttributeMeta.getAllAttributeMetaByKeyOrValue(search, Number(attributeId));
@@ -201,3 +268,251 @@ export async function searchAttributeMeta(search: string, attributeId: string) {
 		};
 	}
 }
+
+// getItems
+export async function getItems(orderId: string) {
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
+	const { id: userId, role } = session?.user || {};
+	try {
+		const db = await models.OrderItem.getOrderItemsByOrderID(orderId);
+		return {
+			success: "success",
+			data: db,
+			message: "Order items fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching order items",
+		};
+	}
+}
+
+// createItem
+export async function createItem(orderId: string, data: any) {
+	const { session, error } = await authorizeAction("orders", "items");
+	if (error) {
+		return error;
+	}
+	const { id: userId, role } = session?.user || {};
+	try {
+		const db = await models.OrderItem.createOrderItem(orderId, data, userId);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Order item created successfully" : "Error creating order item",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof OrderItemError ? error.message : "Error creating order item",
+		};
+	}
+}
+
+// updateItem
+export async function updateItem(itemId: number, data: any) {
+	const { session, error } = await authorizeAction("orders", "items");
+	if (error) {
+		return error;
+	}
+	const { id: userId, role } = session?.user || {};
+	try {
+		const db = await models.OrderItem.updateOrderItem(itemId, data, userId);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Order item updated successfully" : "Error updating order item",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof OrderItemError ? error.message : "Error updating order item",
+		};
+	}
+}
+
+// deleteItem
+export async function deleteItem(itemId: number) {
+	const { session, error } = await authorizeAction("orders", "items");
+	if (error) {
+		return error;
+	}
+	const { id: userId, role } = session?.user || {};
+	try {
+		const db = await models.OrderItem.deleteOrderItem(itemId, userId);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Order item deleted successfully" : "Error deleting order item",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting order item",
+		};
+	}
+}
+
+// searchProducts
+export async function searchProducts(search: string) {
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
+	const { id: userId, role } = session?.user || {};
+	try {
+		const db = await models.Post.getAllPosts({ s: search, take: 10, type: "product" });
+		return {
+			success: "success",
+			data: db,
+			message: "Products fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching products",
+		};
+	}
+}
+
+// searchVariants, by SKU, variant or product title
+export async function searchVariants(search: string) {
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ProductVariant.getAllVariants({ s: search, take: 10, published: true });
+		return {
+			success: "success",
+			data: db,
+			message: "Variants fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching variants",
+		};
+	}
+}
+
+// getEvents
+export async function getEvents(orderId: string) {
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
+	const { id: userId, role } = session?.user || {};
+	try {
+		const db = await models.OrderEvent.getOrderEventsByOrderID(orderId);
+		return {
+			success: "success",
+			data: db,
+			message: "Order events fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching order events",
+		};
+	}
+}
+
+// getProofs
+export async function getProofs(orderId: string) {
+	const { session, error } = await authorizeAction("orders", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.OrderProof.getProofsByOrderId(orderId);
+		return {
+			success: "success",
+			data: db,
+			message: "Proofs fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching proofs",
+		};
+	}
+}
+
+// createProof, a new version for the customer to review
+export async function createProof(orderId: string, data: { fileId: number | string; note?: string }) {
+	const { session, error } = await authorizeAction("orders", "update");
+	if (error) {
+		return error;
+	}
+	const { id: userId } = session?.user || {};
+	try {
+		const db = await models.OrderProof.createProof(orderId, data, userId);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? `Proof version ${db.version} sent for review` : "Error creating proof",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof ProofError ? error.message : "Error creating proof",
+		};
+	}
+}
+
+// reviewProof, approve or request changes on behalf of the customer
+export async function reviewProof(id: number, decision: string, comment?: string) {
+	const { session, error } = await authorizeAction("orders", "update");
+	if (error) {
+		return error;
+	}
+	const { id: userId } = session?.user || {};
+	try {
+		// The approval only moves the order into production for those allowed to set that status
+		const advance = await canSetOrderStatus(session?.user, "processing");
+		const db = await models.OrderProof.reviewProof(id, decision, comment, { userId, advance });
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? (decision === "approved" ? "Proof approved" : "Changes requested") : "Error reviewing proof",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof ProofError ? error.message : "Error reviewing proof",
+		};
+	}
+}
+
+// createPurchaseOrders, one draft per vendor for the items of the selected orders
+export async function createPurchaseOrders(ids: string[]) {
+	const { session, error } = await authorizeAction("purchases", "create");
+	if (error) {
+		return error;
+	}
+	const { id: userId } = session?.user || {};
+	try {
+		const db = await models.PurchaseOrder.generatePurchaseOrders(ids, userId);
+		if (!db) {
+			return {
+				success: "error",
+				message: "Error creating purchase orders",
+			};
+		}
+		return {
+			success: db.created.length > 0 ? "success" : "error",
+			data: db,
+			message: db.created.length > 0 ? `${db.created.length} purchase orders created${db.skipped > 0 ? `, ${db.skipped} items without a vendor skipped` : ""}` : db.skipped > 0 ? `No purchase orders created, ${db.skipped} items have no vendor` : "No items left to order",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating purchase orders",
+		};
+	}
+}
@@ -20,14 +20,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/SettingTa
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useCurrentRole } from "@/hooks/useCurrentRole";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { appState } from "@/lib/appConst";
 import { enumOrderStatus, enumPublished } from "@/lib/enum";
+import { canTransitionOrderStatus } from "@/lib/order";
+import { can } from "@/lib/permission";
 import { autoOderDate } from "@/lib/utils";
 import { useAppSelector } from "@/store";
 
 import * as actions from "./actions";
 import OrderAttribute from "./attribute_group";
 import { ConnectUser } from "./connect";
+import OrderItems from "./order_items";
+import OrderProofs from "./proofs";
 
 const FormSchema = z.object({
 	f_title: z.string().min(2, { message: "Fullname must be at least 2 characters." }),
@@ -112,7 +117,9 @@ export default function FormEdit(props: any) {
 	const [data, setData] = useState<any>(null);
 	const [thumbnail, setThumbnail] = useState<any>(null);
 	const [imgs, setImgs] = useState<any>([]);
+	const [picked, setPicked] = useState<any[]>([]);
 	const role = useCurrentRole();
+	const user = useCurrentUser();
 	const form = useForm<z.infer<typeof FormSchema>>({
 		resolver: zodResolver(FormSchema),
 		defaultValues: {
@@ -137,7 +144,7 @@ export default function FormEdit(props: any) {
 				}),
 			},
 			files: {
-				connect: imgs ? imgs.map((item: any) => ({ id: item?.data[0]?.id })) : undefined,
+				connect: [...(imgs ?? []).map((item: any) => ({ id: item?.data[0]?.id })), ...picked.map((file) => ({ id: file.id }))],
 			},
 			status: values.f_status,
 			date_created: values.f_date_created,
@@ -285,6 +292,20 @@ export default function FormEdit(props: any) {
 										General
 									</TabsTrigger>
 								)}
+								{id && (
+									<TabsTrigger
+										className="relative w-full justify-start after:absolute after:inset-y-0 after:start-0 after:w-0.5 data-[state=active]:bg-gray-100 data-[state=active]:shadow-none data-[state=active]:after:bg-primary cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 dark:data-[state=active]:bg-gray-900 dark:data-[state=active]:after:bg-primary rounded-md overflow-hidden"
+										value="items">
+										Items
+									</TabsTrigger>
+								)}
+								{id && (
+									<TabsTrigger
+										className="relative w-full justify-start after:absolute after:inset-y-0 after:start-0 after:w-0.5 data-[state=active]:bg-gray-100 data-[state=active]:shadow-none data-[state=active]:after:bg-primary cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 dark:data-[state=active]:bg-gray-900 dark:data-[state=active]:after:bg-primary rounded-md overflow-hidden"
+										value="proofs">
+										Proofs
+									</TabsTrigger>
+								)}
 								<TabsTrigger
 									className="relative w-full justify-start after:absolute after:inset-y-0 after:start-0 after:w-0.5 data-[state=active]:bg-gray-100 data-[state=active]:shadow-none data-[state=active]:after:bg-primary cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 dark:data-[state=active]:bg-gray-900 dark:data-[state=active]:after:bg-primary rounded-md overflow-hidden"
 									value="basic">
@@ -320,6 +341,32 @@ export default function FormEdit(props: any) {
 										<OrderAttribute data={data} />
 									</TabsContent>
 								)}
+								{id && (
+									<TabsContent
+										value="items"
+										className="space-y-15">
+										<OrderItems
+											data={data}
+											viewOnly={!can(user, "orders", "items")}
+										/>
+									</TabsContent>
+								)}
+								{id && (
+									<TabsContent
+										value="proofs"
+										className="space-y-15">
+										<OrderProofs
+											data={data}
+											viewOnly={!can(user, "orders", "update")}
+											onChange={(event: string, proof: any) => {
+												// Approval moves the order forward, reload so the status field is not stale
+												if (proof?.status === "approved") {
+													fetchData();
+												}
+											}}
+										/>
+									</TabsContent>
+								)}
 								<TabsContent
 									value="basic"
 									className="space-y-15">
@@ -346,12 +393,14 @@ export default function FormEdit(props: any) {
 													<FormLabel>Status</FormLabel>
 													{FieldSelect({
 														field,
-														data: enumOrderStatus.map((item: any) => {
-															return {
-																id: item.value,
-																name: item.label,
-															};
-														}),
+														data: enumOrderStatus
+															.filter((item: any) => (!data || canTransitionOrderStatus(data?.status, item.value)) && (item.value === (data?.status || "pending") || can(user, "orders", `status.${item.value}`)))
+															.map((item: any) => {
+																return {
+																	id: item.value,
+																	name: item.label,
+																};
+															}),
 
 														align: "end",
 													})}
@@ -689,6 +738,11 @@ export default function FormEdit(props: any) {
 											onChange: (e: any) => {
 												changeFeature(e);
 											},
+											picked,
+											onPick: (files: any[]) => {
+												setPicked(files);
+												form.setValue("f_file", files[files.length - 1]?.url, { shouldDirty: true });
+											},
 										})}
 									</div>
 									<FormField
@@ -696,14 +750,17 @@ export default function FormEdit(props: any) {
 										name="f_file"
 										render={({ field }) => (
 											<FormItem>
-												<FormLabel>Upload Image</FormLabel>
+												<FormLabel>Upload Files</FormLabel>
 												{FieldUpload({
 													field,
 													data,
-													accept: appState.ACCEPTED_IMG_FILE_TYPES,
+													context: "attachment",
 													onChange: (e: any) => {
 														field.onChange(e[0]?.data[0]?.url);
-														setThumbnail(e[0]?.data[0]?.url);
+														// Documents and artwork are attached but can not be the preview
+														if (appState.ACCEPTED_IMG_FILE_TYPES.includes(e[0]?.data[0]?.type)) {
+															setThumbnail(e[0]?.data[0]?.url);
+														}
 														setImgs(e);
 													},
 												})}
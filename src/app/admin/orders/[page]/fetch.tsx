@@ -2,8 +2,9 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Drawer } from "antd";
-import { CircleCheck, Pencil, Plus, Trash, X } from "lucide-react";
+import { CircleCheck, Package, Pencil, Plus, Printer, Trash, X } from "lucide-react";
 import { useSearchParams } from "next/navigation";
+import { toast } from "sonner";
 
 import AppImage from "@/components/AppImage";
 import AppLoading from "@/components/AppLoading";
@@ -11,6 +12,9 @@ import AppStatus from "@/components/AppStatus";
 import AppTable from "@/components/AppTable";
 import AppTitle from "@/components/AppTitle";
 import { Button } from "@/components/ui/button";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { formatMoney } from "@/lib/order";
+import { can } from "@/lib/permission";
 import initSupabase from "@/lib/supabase";
 import { countObjectArray, dateFormat, pageSkip } from "@/lib/utils";
 import { useAppSelector } from "@/store";
@@ -24,6 +28,7 @@ export default function Fetch(props: any) {
 	const [open, setOpen] = useState<any>(["", null]);
 	const [db, setDb] = useState<any>([]);
 	const [loading, setLoading] = useState(true);
+	const user = useCurrentUser();
 	const pageSize = useAppSelector((state) => (state.appState as any)?.pageSize) || 10;
 	const search = useSearchParams();
 	const query = useMemo(
@@ -55,6 +60,15 @@ export default function Fetch(props: any) {
 		}
 	};
 
+	const createPurchaseOrders = async (ids: string[]) => {
+		const res = await actions.createPurchaseOrders(ids);
+		if (res?.success === "success") {
+			toast.success(res.message);
+		} else {
+			toast.error(res?.message);
+		}
+	};
+
 	useEffect(() => {
 		fetchData();
 		initSupabase({
@@ -82,6 +96,7 @@ export default function Fetch(props: any) {
 					actions={actions}
 					data={db.data}
 					count={db.count}
+					bulkActions={can(user, "purchases", "create") ? [{ label: "Create purchase orders", onClick: createPurchaseOrders }] : []}
 					url={`/admin/orders`}
 					page={page}
 					pageSize={pageSize}
@@ -129,11 +144,12 @@ export default function Fetch(props: any) {
 													<X className="w-4 h-4" />
 												</span>
 											)}
-											<span className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">
-												{row.title}-{numOfTab}
-											</span>
+											<span className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.number ?? row.title}</span>
+										</div>
+										<div className="text-gray-500 text-xs whitespace-nowrap truncate overflow-ellipsis max-w-xs">
+											{row.number && `${row.title}-${numOfTab} · `}
+											{dateFormat(row?.date_created)}
 										</div>
-										<div className="text-gray-500 text-xs">{dateFormat(row?.date_created)}</div>
 									</>
 								);
 							},
@@ -150,6 +166,13 @@ export default function Fetch(props: any) {
 								);
 							},
 						},
+						{
+							header: "Total",
+							accessor: "total",
+							custom: (row: any) => {
+								return <span className="font-medium whitespace-nowrap">{formatMoney(row?.total)}</span>;
+							},
+						},
 						{
 							header: "Customer",
 							accessor: "customer",
@@ -188,6 +211,10 @@ export default function Fetch(props: any) {
 							value: "createdAt",
 							label: "Order by Date",
 						},
+						{
+							value: "number",
+							label: "Order by Number",
+						},
 						{
 							value: "title",
 							label: "Order by Title",
@@ -228,9 +255,7 @@ export default function Fetch(props: any) {
 				onClose={() => setOpen(["", null])}
 				title={
 					<div className="flex items-center space-x-2">
-						<div className="t">
-							{open[1]?.title}-{countObjectArray(open[1]?.data)}
-						</div>
+						<div className="t">{open[1]?.number ?? `${open[1]?.title}-${countObjectArray(open[1]?.data)}`}</div>
 						<div className="status">
 							<AppStatus data={open[1]?.status} />
 						</div>
@@ -276,9 +301,7 @@ export default function Fetch(props: any) {
 				onClose={() => setOpen(["", null])}
 				title={
 					<div className="flex items-center space-x-2">
-						<div className="t">
-							{open[1]?.title}-{countObjectArray(open[1]?.data)}
-						</div>
+						<div className="t">{open[1]?.number ?? `${open[1]?.title}-${countObjectArray(open[1]?.data)}`}</div>
 						<div className="status">
 							<AppStatus data={open[1]?.status} />
 						</div>
@@ -289,6 +312,18 @@ export default function Fetch(props: any) {
 				destroyOnClose={true}
 				extra={
 					<div className="flex items-center space-x-3">
+						<a
+							href={`/print/orders/${open[1]?.id}`}
+							target="_blank"
+							className="hover:bg-gray-400 text-sm flex flex-row items-center justify-center px-2 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg space-x-1">
+							<Printer className="w-4 h-4" /> <span>Invoice</span>
+						</a>
+						<a
+							href={`/print/orders/${open[1]?.id}?type=packing`}
+							target="_blank"
+							className="hover:bg-gray-400 text-sm flex flex-row items-center justify-center px-2 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg space-x-1">
+							<Package className="w-4 h-4" /> <span>Packing slip</span>
+						</a>
 						<Button
 							type="button"
 							className="hover:bg-gray-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-gray-800 w-8 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg"
@@ -0,0 +1,467 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { produce } from "immer";
+import { Plus, Save, Search, Settings, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { calcLineTotal, formatMoney } from "@/lib/order";
+import { availableStock } from "@/lib/stock";
+import { convertStringToJson } from "@/lib/utils";
+import { useAppSelector } from "@/store";
+
+import * as actions from "./actions";
+
+interface LineOption {
+	id: string;
+	title: string;
+	value: string;
+}
+
+interface LineData {
+	attribute?: { id: string; title: string };
+	options: LineOption[];
+}
+
+interface LineItem {
+	id?: number;
+	title: string;
+	quantity: any;
+	price: any;
+	discount: any;
+	productId?: number | null;
+	variantId?: number | null;
+	vendorId?: string | null;
+	sku?: string;
+	data: LineData;
+	changed?: boolean;
+}
+
+const parseLine = (item: any): LineItem => {
+	const data = convertStringToJson(item?.data);
+	return {
+		id: item?.id,
+		title: item?.title ?? item?.product?.title ?? "",
+		quantity: item?.quantity ?? 1,
+		price: item?.price ?? 0,
+		discount: item?.discount ?? 0,
+		productId: item?.productId ?? null,
+		variantId: item?.variantId ?? null,
+		vendorId: item?.vendorId ?? null,
+		sku: item?.variant?.sku,
+		data: data && Array.isArray(data?.options) ? data : { options: [] },
+	};
+};
+
+export default function OrderItems(props: any) {
+	const { data, viewOnly } = props;
+	const memoriez = useAppSelector((state) => state.attributeState.data);
+	const atts = useMemo(() => {
+		return memoriez.filter((item: any) => item?.mapto === "order");
+	}, [memoriez]);
+
+	const [items, setItems] = useState<LineItem[]>([]);
+	const [totals, setTotals] = useState<any>(data);
+	const [open, setOpen] = useState<any>(["", null]); // [dialogType, lineIndex]
+	const [search, setSearch] = useState<any>([]);
+	const [variants, setVariants] = useState<any>([]);
+	// With several vendors on the order each line picks the one that supplies it, used when drafting purchase orders
+	const vendors = totals?.vendor ?? data?.vendor ?? [];
+
+	const fetchData = useCallback(async () => {
+		if (!data?.id) return;
+		const [res, order] = await Promise.all([actions.getItems(data.id), actions.getRecord(data.id)]);
+		if (res?.success === "success" && res?.data) {
+			setItems(res.data.map(parseLine));
+		}
+		if (order?.success === "success" && order?.data) {
+			setTotals(order.data);
+		}
+	}, [data?.id]);
+
+	useEffect(() => {
+		if (data?.items) {
+			setItems(data.items.map(parseLine));
+			setTotals(data);
+		} else {
+			fetchData();
+		}
+	}, [data, fetchData]);
+
+	const searchProducts = async (searchTerm: string) => {
+		const [res, variant]: any = await Promise.all([actions.searchProducts(searchTerm), actions.searchVariants(searchTerm)]);
+		if (res.success === "success") {
+			setSearch(res.data || []);
+		} else {
+			setSearch([]);
+		}
+		setVariants(variant.success === "success" ? variant.data || [] : []);
+	};
+
+	// A variant line takes its price and options from the variant and reserves its stock
+	const handleAddLine = async (product?: any, variant?: any) => {
+		const res = await actions.createItem(data.id, {
+			title: variant ? `${product?.title} - ${variant.title}` : (product?.title ?? "Custom item"),
+			productId: product?.id ?? null,
+			variantId: variant?.id ?? null,
+			quantity: 1,
+			price: variant?.price ?? 0,
+			discount: 0,
+			...(variant?.data ? { data: convertStringToJson(variant.data) } : {}),
+		});
+		if (res.success !== "success") {
+			toast.error(res.message);
+			return;
+		}
+		setOpen(["", null]);
+		fetchData();
+	};
+
+	const handleChange = (index: number, key: keyof LineItem, value: any) => {
+		setItems(
+			produce((draft) => {
+				(draft[index] as any)[key] = value;
+				draft[index].changed = true;
+			}),
+		);
+	};
+
+	const handleSelectAttribute = (index: number, attribute: any) => {
+		setItems(
+			produce((draft) => {
+				draft[index].data = {
+					attribute: { id: attribute.id, title: attribute.title },
+					options: (attribute.children ?? []).map((child: any) => ({ id: child.id, title: child.title, value: "" })),
+				};
+				draft[index].changed = true;
+			}),
+		);
+		setOpen(["", null]);
+	};
+
+	const handleOptionChange = (index: number, optionIndex: number, value: string) => {
+		setItems(
+			produce((draft) => {
+				draft[index].data.options[optionIndex].value = value;
+				draft[index].changed = true;
+			}),
+		);
+	};
+
+	const handleSaveLine = async (index: number) => {
+		const item = items[index];
+		if (!item?.id) return;
+		const res = await actions.updateItem(item.id, {
+			title: item.title,
+			quantity: item.quantity,
+			price: item.price,
+			discount: item.discount,
+			vendorId: item.vendorId,
+			data: item.data,
+		});
+		if (res.success !== "success") {
+			toast.error(res.message);
+			return;
+		}
+		toast.success(res.message);
+		fetchData();
+	};
+
+	const handleDeleteLine = async (index: number) => {
+		const item = items[index];
+		if (!item?.id) return;
+		if (!confirm("Are you sure you want to remove this item?")) return;
+		const res = await actions.deleteItem(item.id);
+		if (res.success !== "success") {
+			toast.error(res.message);
+			return;
+		}
+		toast.success(res.message);
+		fetchData();
+	};
+
+	return (
+		<div className="space-y-5">
+			<div className="flex items-center justify-between">
+				<h2 className="text-lg font-bold">Items</h2>
+				{!viewOnly && (
+					<div className="flex gap-2">
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							onClick={() => {
+								setSearch([]);
+								setVariants([]);
+								setOpen(["product", null]);
+							}}>
+							<Search /> Add product
+						</Button>
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							onClick={() => handleAddLine()}>
+							<Plus /> Custom item
+						</Button>
+					</div>
+				)}
+			</div>
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Item</TableHead>
+						<TableHead className="w-24">Qty</TableHead>
+						<TableHead className="w-32">Unit price</TableHead>
+						<TableHead className="w-32">Discount</TableHead>
+						<TableHead className="w-32 text-right">Total</TableHead>
+						{!viewOnly && <TableHead className="w-28" />}
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{items.length === 0 && (
+						<TableRow>
+							<TableCell
+								colSpan={viewOnly ? 5 : 6}
+								className="text-center text-gray-500">
+								No items in this order.
+							</TableCell>
+						</TableRow>
+					)}
+					{items.map((item, index) => (
+						<TableRow key={item.id ?? index}>
+							<TableCell className="align-top whitespace-normal">
+								{viewOnly ? (
+									<div className="font-medium">{item.title}</div>
+								) : (
+									<Input
+										value={item.title}
+										onChange={(e) => handleChange(index, "title", e.target.value)}
+									/>
+								)}
+								{item.sku && <div className="mt-1 text-xs text-gray-500">SKU {item.sku}</div>}
+								{vendors.length > 1 &&
+									(viewOnly ? (
+										<div className="mt-1 text-xs text-gray-500">Vendor {vendors.find((vendor: any) => vendor.id === item.vendorId)?.name ?? "-"}</div>
+									) : (
+										<Select
+											value={item.vendorId ?? "none"}
+											onValueChange={(value) => handleChange(index, "vendorId", value === "none" ? null : value)}>
+											<SelectTrigger className="mt-2 h-8 text-xs">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="none">No vendor</SelectItem>
+												{vendors.map((vendor: any) => (
+													<SelectItem
+														key={vendor.id}
+														value={vendor.id}>
+														{vendor.name}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									))}
+								{item.data?.attribute && (
+									<div className="mt-2 space-y-2">
+										<div className="text-xs font-semibold uppercase text-gray-500">{item.data.attribute.title}</div>
+										<div className="grid grid-cols-2 gap-2">
+											{item.data.options.map((option, optionIndex) => (
+												<div
+													key={option.id}
+													className="flex flex-col gap-1">
+													<label className="text-xs text-gray-500">{option.title}</label>
+													{viewOnly ? (
+														<span>{option.value || "-"}</span>
+													) : (
+														<Input
+															value={option.value}
+															onChange={(e) => handleOptionChange(index, optionIndex, e.target.value)}
+														/>
+													)}
+												</div>
+											))}
+										</div>
+									</div>
+								)}
+							</TableCell>
+							<TableCell className="align-top">
+								{viewOnly ? (
+									item.quantity
+								) : (
+									<Input
+										type="number"
+										min={1}
+										value={item.quantity}
+										onChange={(e) => handleChange(index, "quantity", e.target.value)}
+									/>
+								)}
+							</TableCell>
+							<TableCell className="align-top">
+								{viewOnly ? (
+									formatMoney(item.price)
+								) : (
+									<Input
+										type="number"
+										min={0}
+										step="0.01"
+										value={item.price}
+										onChange={(e) => handleChange(index, "price", e.target.value)}
+									/>
+								)}
+							</TableCell>
+							<TableCell className="align-top">
+								{viewOnly ? (
+									formatMoney(item.discount)
+								) : (
+									<Input
+										type="number"
+										min={0}
+										step="0.01"
+										value={item.discount}
+										onChange={(e) => handleChange(index, "discount", e.target.value)}
+									/>
+								)}
+							</TableCell>
+							<TableCell className="align-top text-right font-medium">{formatMoney(calcLineTotal(item))}</TableCell>
+							{!viewOnly && (
+								<TableCell className="align-top">
+									<div className="flex gap-1 justify-end">
+										<Button
+											type="button"
+											variant="ghost"
+											size="icon"
+											title="Options"
+											onClick={() => setOpen(["options", index])}>
+											<Settings />
+										</Button>
+										<Button
+											type="button"
+											variant={item.changed ? "default" : "ghost"}
+											size="icon"
+											title="Save"
+											disabled={!item.changed}
+											onClick={() => handleSaveLine(index)}>
+											<Save />
+										</Button>
+										<Button
+											type="button"
+											variant="ghost"
+											size="icon"
+											title="Remove"
+											onClick={() => handleDeleteLine(index)}>
+											<X />
+										</Button>
+									</div>
+								</TableCell>
+							)}
+						</TableRow>
+					))}
+				</TableBody>
+				<TableFooter>
+					<TableRow>
+						<TableCell colSpan={4}>Subtotal</TableCell>
+						<TableCell className="text-right">{formatMoney(totals?.subtotal)}</TableCell>
+						{!viewOnly && <TableCell />}
+					</TableRow>
+					{totals?.discount > 0 && (
+						<TableRow>
+							<TableCell colSpan={4}>Discount</TableCell>
+							<TableCell className="text-right">-{formatMoney(totals?.discount)}</TableCell>
+							{!viewOnly && <TableCell />}
+						</TableRow>
+					)}
+					<TableRow>
+						<TableCell colSpan={4}>Tax ({totals?.tax_rate ?? 0}%)</TableCell>
+						<TableCell className="text-right">{formatMoney(totals?.tax)}</TableCell>
+						{!viewOnly && <TableCell />}
+					</TableRow>
+					<TableRow>
+						<TableCell
+							colSpan={4}
+							className="font-bold">
+							Total
+						</TableCell>
+						<TableCell className="text-right font-bold">{formatMoney(totals?.total)}</TableCell>
+						{!viewOnly && <TableCell />}
+					</TableRow>
+				</TableFooter>
+			</Table>
+
+			<Dialog
+				open={open[0] === "product"}
+				onOpenChange={(isOpen) => !isOpen && setOpen(["", null])}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Add product</DialogTitle>
+					</DialogHeader>
+					<Input
+						placeholder="Search products..."
+						onChange={(e) => searchProducts(e.target.value)}
+					/>
+					<Command>
+						<CommandList>
+							<CommandEmpty>No products found.</CommandEmpty>
+							{variants.length > 0 && (
+								<CommandGroup heading="Variants">
+									{variants.map((variant: any) => (
+										<CommandItem
+											key={variant.id}
+											value={`variant-${variant.id}-${variant.sku}`}
+											onSelect={() => handleAddLine(variant.product, variant)}>
+											<span className="flex-1">
+												{variant.product?.title} - {variant.title}
+											</span>
+											<span className="text-xs text-gray-500">
+												{variant.sku} · {availableStock(variant)} available
+											</span>
+										</CommandItem>
+									))}
+								</CommandGroup>
+							)}
+							<CommandGroup heading={variants.length > 0 ? "Products" : undefined}>
+								{search.map((product: any) => (
+									<CommandItem
+										key={product.id}
+										value={`${product.id}-${product.title}`}
+										onSelect={() => handleAddLine(product)}>
+										{product.title}
+									</CommandItem>
+								))}
+							</CommandGroup>
+						</CommandList>
+					</Command>
+				</DialogContent>
+			</Dialog>
+
+			<Dialog
+				open={open[0] === "options"}
+				onOpenChange={(isOpen) => !isOpen && setOpen(["", null])}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Select line options</DialogTitle>
+					</DialogHeader>
+					<Command>
+						<CommandList>
+							<CommandEmpty>No order attributes found.</CommandEmpty>
+							<CommandGroup>
+								{atts.map((attribute: any) => (
+									<CommandItem
+										key={attribute.id}
+										value={`${attribute.id}-${attribute.title}`}
+										onSelect={() => handleSelectAttribute(open[1], attribute)}>
+										{attribute.title}
+									</CommandItem>
+								))}
+							</CommandGroup>
+						</CommandList>
+					</Command>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
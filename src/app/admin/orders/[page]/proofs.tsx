@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from "react";
+import { BadgeCheck, FileText, MessageSquareWarning, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import AppProgress from "@/components/AppProgress";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { uploadAccept } from "@/lib/mime";
+import { canApproveOrder } from "@/lib/order";
+import { ProofStatus, proofStatusLabels } from "@/lib/proof";
+import { uploadWithProgress } from "@/lib/resumable";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+const proofStatusClass: Record<string, string> = {
+	pending: "text-orange-700",
+	approved: "text-green-700",
+	changes_requested: "text-red-700",
+};
+
+// Proof rounds of an order: upload a new version, approve it or send it back with comments
+export default function OrderProofs(props: any) {
+	const { data, viewOnly, onChange } = props;
+	const [proofs, setProofs] = useState<any[]>([]);
+	const [file, setFile] = useState<File | null>(null);
+	const [note, setNote] = useState("");
+	const [comment, setComment] = useState("");
+	const [progress, setProgress] = useState<Record<string, number>>({});
+	const [pending, setPending] = useState(false);
+
+	const fetchData = useCallback(async () => {
+		if (!data?.id) return;
+		const res = await actions.getProofs(data.id);
+		if (res?.success === "success" && res?.data) {
+			setProofs(res.data);
+		} else {
+			setProofs([]);
+		}
+	}, [data?.id]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function handleUpload() {
+		if (!file) return;
+		setPending(true);
+		const up = await uploadWithProgress(file, "attachment", (value) => setProgress({ [file.name]: value }));
+		setProgress({});
+		if (up?.success !== "success" || !up?.data?.[0]?.id) {
+			setPending(false);
+			toast.error(up?.message ?? `Can not upload "${file.name}"`);
+			return;
+		}
+		const res = await actions.createProof(data.id, { fileId: up.data[0].id, note });
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		setFile(null);
+		setNote("");
+		await fetchData();
+		onChange?.("proof", res.data);
+	}
+
+	async function handleReview(id: number, decision: string) {
+		if (decision === "approved" && !confirm("Approve this proof for the customer? The order moves into production.")) return;
+		setPending(true);
+		const res = await actions.reviewProof(id, decision, comment);
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		setComment("");
+		await fetchData();
+		onChange?.("proof", res.data);
+	}
+
+	const open = canApproveOrder(data?.status);
+
+	return (
+		<div className="space-y-5">
+			{data?.date_approved && <p className="text-sm text-green-700">Design approved {dateFormat(data.date_approved)}</p>}
+			{!viewOnly && open && (
+				<div className="flex flex-col gap-3 rounded-md border border-gray-200 p-4 dark:border-gray-700">
+					<h3 className="font-semibold">Upload version {(proofs[0]?.version ?? 0) + 1}</h3>
+					<input
+						type="file"
+						accept={uploadAccept("attachment")}
+						disabled={pending}
+						onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+						className="text-sm"
+					/>
+					<Textarea
+						value={note}
+						placeholder="Note for the customer"
+						disabled={pending}
+						onChange={(e) => setNote(e.target.value)}
+					/>
+					{Object.keys(progress).length > 0 && <AppProgress items={progress} />}
+					<div className="flex justify-end">
+						<Button
+							type="button"
+							disabled={pending || !file}
+							onClick={handleUpload}>
+							<Upload /> Send for review
+						</Button>
+					</div>
+				</div>
+			)}
+			{proofs.length === 0 && (
+				<div className="flex p-3 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-900">
+					<p>No proofs uploaded for this order.</p>
+				</div>
+			)}
+			{proofs.map((proof: any) => (
+				<div
+					key={proof.id}
+					className="flex flex-col gap-3 rounded-md border border-gray-200 p-3 md:flex-row dark:border-gray-700">
+					<a
+						href={proof.file?.url ?? "#"}
+						target="_blank"
+						className="flex w-full shrink-0 flex-col gap-2 text-sm md:w-40">
+						{proof.file?.type?.startsWith("image/") ? (
+							<img
+								src={proof.file.url}
+								alt={proof.file.name}
+								className="h-28 w-full rounded object-cover"
+							/>
+						) : (
+							<div className="flex h-28 items-center justify-center rounded bg-gray-50 dark:bg-gray-800">
+								<FileText className="w-8 h-8 text-gray-400" />
+							</div>
+						)}
+						<span className="truncate">{proof.file?.name ?? "File removed"}</span>
+					</a>
+					<div className="flex flex-1 flex-col gap-2 text-sm">
+						<div className="flex flex-wrap items-center gap-2">
+							<span className="font-semibold">Version {proof.version}</span>
+							<span className={proofStatusClass[proof.status] ?? "text-gray-500"}>{proofStatusLabels[proof.status as ProofStatus] ?? proof.status}</span>
+							<span className="text-xs text-gray-500">
+								{proof.user?.name ?? "System"} &middot; {dateFormat(proof.createdAt)}
+							</span>
+						</div>
+						{proof.note && <p className="whitespace-pre-line">{proof.note}</p>}
+						{proof.date_reviewed && (
+							<div className="rounded bg-gray-50 p-2 dark:bg-gray-800">
+								<div className="text-xs text-gray-500">
+									{proof.customer?.name ? `${proof.customer.name} (customer)` : (proof.reviewer?.name ?? "Unknown")} &middot; {dateFormat(proof.date_reviewed)}
+								</div>
+								{proof.comment && <p className="whitespace-pre-line">{proof.comment}</p>}
+							</div>
+						)}
+						{!viewOnly && open && proof.status === "pending" && (
+							<div className="flex flex-col gap-2">
+								<Textarea
+									value={comment}
+									placeholder="Comment, required to request changes"
+									disabled={pending}
+									onChange={(e) => setComment(e.target.value)}
+								/>
+								<div className="flex justify-end gap-2">
+									<Button
+										type="button"
+										variant="outline"
+										disabled={pending || !comment.trim()}
+										onClick={() => handleReview(proof.id, "changes_requested")}>
+										<MessageSquareWarning /> Request changes
+									</Button>
+									<Button
+										type="button"
+										disabled={pending}
+										onClick={() => handleReview(proof.id, "approved")}>
+										<BadgeCheck /> Approve
+									</Button>
+								</div>
+							</div>
+						)}
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from "react";
+import { ArrowRight, BadgeCheck, FilePen, FileUp, History, ListPlus, ListX, MessageSquareWarning, PackagePlus, RefreshCw, UserMinus, UserPlus } from "lucide-react";
+
+import AppStatus from "@/components/AppStatus";
+import { convertStringToJson, dateFormat, removeUnderscoreAndDash, truncateString } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+const enumOrderEvent: Record<string, { label: string; icon: any }> = {
+	created: { label: "Order created", icon: PackagePlus },
+	updated: { label: "Order updated", icon: FilePen },
+	status_changed: { label: "Status changed", icon: RefreshCw },
+	assigned: { label: "Assigned", icon: UserPlus },
+	unassigned: { label: "Unassigned", icon: UserMinus },
+	meta_updated: { label: "Details updated", icon: FilePen },
+	meta_deleted: { label: "Details removed", icon: ListX },
+	item_added: { label: "Item added", icon: ListPlus },
+	item_updated: { label: "Item updated", icon: FilePen },
+	item_removed: { label: "Item removed", icon: ListX },
+	proof_uploaded: { label: "Proof uploaded", icon: FileUp },
+	proof_approved: { label: "Proof approved", icon: BadgeCheck },
+	proof_changes_requested: { label: "Proof changes requested", icon: MessageSquareWarning },
+};
+
+const displayValue = (key: string, value: any) => {
+	if (value === null || value === undefined || value === "") {
+		return <span className="text-gray-400">empty</span>;
+	}
+	if (key === "status") {
+		return (
+			<AppStatus
+				size="small"
+				data={value}
+			/>
+		);
+	}
+	if (key.startsWith("date_") || key === "createdAt") {
+		return dateFormat(value);
+	}
+	return truncateString(String(value), 60);
+};
+
+export default function OrderTimeline(props: any) {
+	const { data } = props;
+	const [events, setEvents] = useState<any>([]);
+
+	const fetchData = useCallback(async () => {
+		if (!data?.id) return;
+		const res = await actions.getEvents(data.id);
+		if (res?.success === "success" && res?.data) {
+			setEvents(res.data);
+		} else {
+			setEvents([]);
+		}
+	}, [data?.id]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	return (
+		<div className="space-y-5">
+			<h2 className="text-lg font-bold">Timeline</h2>
+			{events.length === 0 && (
+				<div className="flex p-3 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-900">
+					<p>No activity recorded for this order.</p>
+				</div>
+			)}
+			<ol className="relative border-s border-gray-200 dark:border-gray-700 ms-3">
+				{events.map((event: any) => {
+					const type = enumOrderEvent[event.type] ?? { label: removeUnderscoreAndDash(event.type, ""), icon: History };
+					const IconComponent = type.icon;
+					const diff = convertStringToJson(event.data) ?? {};
+					const keys = Array.from(new Set([...Object.keys(diff?.before ?? {}), ...Object.keys(diff?.after ?? {})]));
+					return (
+						<li
+							key={event.id}
+							className="mb-6 ms-6">
+							<span className="absolute -start-3 flex h-6 w-6 items-center justify-center rounded-full bg-gray-100 ring-4 ring-white dark:bg-gray-800 dark:ring-gray-900">
+								<IconComponent className="w-3 h-3" />
+							</span>
+							<div className="flex flex-wrap items-center gap-2">
+								<span className="font-semibold">{type.label}</span>
+								<span className="text-xs text-gray-500">
+									{event?.user?.name ?? event?.user?.email ?? "System"} &middot; {dateFormat(event.createdAt)}
+								</span>
+							</div>
+							{keys.length > 0 && (
+								<div className="mt-2 space-y-1 text-sm">
+									{keys.map((key) => (
+										<div
+											key={key}
+											className="flex flex-wrap items-center gap-2">
+											<span className="text-xs font-semibold uppercase text-gray-500">{removeUnderscoreAndDash(key, "")}</span>
+											{diff?.before && key in diff.before && displayValue(key, diff.before[key])}
+											{diff?.before && key in diff.before && diff?.after && key in diff.after && <ArrowRight className="w-3 h-3 text-gray-400" />}
+											{diff?.after && key in diff.after && displayValue(key, diff.after[key])}
+										</div>
+									))}
+								</div>
+							)}
+						</li>
+					);
+				})}
+			</ol>
+		</div>
+	);
+}
@@ -7,6 +7,9 @@ import { checkAllObjectEmpty, checkIsStringOrJson, convertStringToJson, dateForm
 
 import * as actions from "./actions";
 import OrderAttributeView from "./attribute_group_view";
+import OrderItems from "./order_items";
+import OrderProofs from "./proofs";
+import OrderTimeline from "./timeline";
 
 export default function FormView(props: any) {
 	const { id, onChange } = props;
@@ -43,6 +46,12 @@ export default function FormView(props: any) {
 				<div className="flex flex-col gap-4 xl:flex-row xl:gap-10">
 					<div className="w-full xl:w-1/2">
 						<OrderAttributeView data={data} />
+						<div className="mb-10">
+							<OrderItems
+								data={data}
+								viewOnly
+							/>
+						</div>
 						<h2 className="text-lg font-bold mb-5">Mics</h2>
 						{/* data?meta */}
 						<div className="space-y-5 grid grid-cols-1 gap-4 xl:grid-cols-3 xl:gap-10">
@@ -88,6 +97,12 @@ export default function FormView(props: any) {
 						<div className="group">
 							<h2 className="text-lg font-bold mb-5">Order Details</h2>
 							<div className="space-y-5">
+								<div className="group">
+									<div className="flex flex-col">
+										<label className="text-xs font-semibold mb-2 uppercase text-gray-500">Order Number</label>
+										<div className="font-semibold">{data?.number ?? "-"}</div>
+									</div>
+								</div>
 								<div className="group">
 									<div className="flex flex-col">
 										<label className="text-xs font-semibold mb-2 uppercase text-gray-500">Customer</label>
@@ -273,6 +288,18 @@ export default function FormView(props: any) {
 								viewOnly: true,
 							})}
 						</div>
+
+						<div className="proofs col-span-2">
+							<h2 className="text-lg font-bold mb-5">Proofs</h2>
+							<OrderProofs
+								data={data}
+								viewOnly={true}
+							/>
+						</div>
+
+						<div className="timeline col-span-2">
+							<OrderTimeline data={data} />
+						</div>
 					</div>
 				</div>
 			)}
@@ -1,10 +1,13 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Post.getAllPosts(query);
@@ -24,7 +27,10 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Post.deletePost(Number(id));
@@ -42,7 +48,10 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any, meta?: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	data.userId = id;
 	try {
@@ -67,7 +76,10 @@ export async function createRecord(data: any, meta?: any) {
 }
 
 export async function updateRecord(id: string, data: any, meta: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Post.updatePost(Number(id), data);
@@ -91,7 +103,10 @@ export async function updateRecord(id: string, data: any, meta: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Post.getPostById(Number(id));
@@ -110,7 +125,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Post.deleteMulti(ids.map(Number));
@@ -129,7 +147,10 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("posts", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Post.updateMulti(ids.map(Number), data);
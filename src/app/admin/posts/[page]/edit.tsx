@@ -57,6 +57,7 @@ export default function FormEdit(props: any) {
 	const [data, setData] = useState<any>(null);
 	const [thumbnail, setThumbnail] = useState<any>(null);
 	const [imgs, setImgs] = useState<any>([]);
+	const [picked, setPicked] = useState<any[]>([]);
 	const role = useCurrentRole();
 
 	// Load the attribute data from the store
@@ -128,7 +129,7 @@ export default function FormEdit(props: any) {
 				}),
 			},
 			files: {
-				connect: imgs ? imgs.map((item: any) => ({ id: item?.data[0]?.id })) : undefined,
+				connect: [...(imgs ?? []).map((item: any) => ({ id: item?.data[0]?.id })), ...picked.map((file) => ({ id: file.id }))],
 			},
 			data: JSON.stringify(attrs),
 		};
@@ -293,7 +294,7 @@ export default function FormEdit(props: any) {
 									{FieldUpload({
 										field,
 										data,
-										accept: appState.ACCEPTED_IMG_FILE_TYPES,
+										context: "image",
 										onChange: (e: any) => {
 											field.onChange(e[0]?.data[0]?.url);
 											setThumbnail(e[0]?.data[0]?.url);
@@ -320,6 +321,12 @@ export default function FormEdit(props: any) {
 									onChange: (e: any) => {
 										changeFeature(e);
 									},
+									picked,
+									onPick: (files: any[]) => {
+										setPicked(files);
+										form.setValue("f_file", files[files.length - 1]?.url, { shouldDirty: true });
+									},
+									pickType: appState.ACCEPTED_IMG_FILE_TYPES,
 								})}
 							</TabsContent>
 							<TabsContent
@@ -1,10 +1,14 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
+import { ProductVariantError, VariantGroup } from "@/lib/product";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Post.getAllPosts(query);
@@ -24,7 +28,10 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Post.deletePost(Number(id));
@@ -42,7 +49,10 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any, meta: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	data.userId = id;
 	try {
@@ -67,7 +77,10 @@ export async function createRecord(data: any, meta: any) {
 }
 
 export async function updateRecord(id: string, data: any, meta: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Post.updatePost(Number(id), data);
@@ -85,7 +98,10 @@ export async function updateRecord(id: string, data: any, meta: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Post.getPostById(Number(id));
@@ -104,7 +120,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Post.deleteMulti(ids.map(Number));
@@ -123,7 +142,10 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("products", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Post.updateMulti(ids.map(Number), data);
@@ -139,3 +161,119 @@ export async function updateMultipleRecords(ids: string[], data: any) {
 		};
 	}
 }
+
+// Variants of a product
+export async function getVariants(productId: string) {
+	const { session, error } = await authorizeAction("products", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ProductVariant.getVariantsByProductId(Number(productId));
+		return {
+			success: "success",
+			data: db,
+			message: "Variants fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching variants",
+		};
+	}
+}
+
+// Options of an attribute group with their values, to choose the variants to generate
+export async function getVariantOptions(attributeId: string) {
+	const { session, error } = await authorizeAction("products", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Attribute.getAttributeOptions(Number(attributeId));
+		return {
+			success: "success",
+			data: db,
+			message: "Options fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching options",
+		};
+	}
+}
+
+// Generate the variants of the chosen option values
+export async function generateVariants(productId: string, attribute: { id: string; title: string }, groups: VariantGroup[], price: number) {
+	const { session, error } = await authorizeAction("products", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ProductVariant.generateVariants(Number(productId), attribute, groups, Number(price) || 0);
+		if (!db) {
+			return {
+				success: "error",
+				message: "Error generating variants",
+			};
+		}
+		return {
+			success: "success",
+			data: db,
+			message: db.length > 0 ? `${db.length} variants generated` : "All these variants already exist",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error generating variants",
+		};
+	}
+}
+
+// Save SKU, price, cost and stock of the variants
+export async function saveVariants(productId: string, rows: any[]) {
+	const { session, error } = await authorizeAction("products", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ProductVariant.saveVariants(Number(productId), rows, session?.user?.id);
+		if (db === null) {
+			return {
+				success: "error",
+				message: "Error saving variants",
+			};
+		}
+		return {
+			success: "success",
+			data: db,
+			message: "Variants saved successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof ProductVariantError ? error.message : "Error saving variants",
+		};
+	}
+}
+
+export async function deleteVariant(id: string) {
+	const { session, error } = await authorizeAction("products", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ProductVariant.deleteVariant(Number(id));
+		return {
+			success: "success",
+			data: db,
+			message: "Variant deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting variant",
+		};
+	}
+}
@@ -21,6 +21,7 @@ import { genSlug, randomOrderString } from "@/lib/utils";
 import { useAppSelector } from "@/store";
 
 import * as actions from "./actions";
+import ProductVariants from "./variants";
 
 const FormSchema = z.object({
 	f_title: z.string().min(2, { message: "Fullname must be at least 2 characters." }),
@@ -55,6 +56,7 @@ export default function FormEdit(props: any) {
 	const [data, setData] = useState<any>(null);
 	const [thumbnail, setThumbnail] = useState<any>(null);
 	const [imgs, setImgs] = useState<any>([]);
+	const [picked, setPicked] = useState<any[]>([]);
 	const role = useCurrentRole();
 	const form = useForm<z.infer<typeof FormSchema>>({
 		resolver: zodResolver(FormSchema),
@@ -82,7 +84,7 @@ export default function FormEdit(props: any) {
 				}),
 			},
 			files: {
-				connect: imgs ? imgs.map((item: any) => ({ id: item?.data[0]?.id })) : undefined,
+				connect: [...(imgs ?? []).map((item: any) => ({ id: item?.data[0]?.id })), ...picked.map((file) => ({ id: file.id }))],
 			},
 		};
 		const _meta = {
@@ -200,7 +202,7 @@ export default function FormEdit(props: any) {
 									{FieldUpload({
 										field,
 										data,
-										accept: appState.ACCEPTED_IMG_FILE_TYPES,
+										context: "image",
 										onChange: (e: any) => {
 											field.onChange(e[0]?.data[0]?.url);
 											setThumbnail(e[0]?.data[0]?.url);
@@ -214,6 +216,7 @@ export default function FormEdit(props: any) {
 							<TabsList className="w-full">
 								<TabsTrigger value="file">Files</TabsTrigger>
 								<TabsTrigger value="seo">SEO</TabsTrigger>
+								{id && <TabsTrigger value="variants">Variants</TabsTrigger>}
 							</TabsList>
 							<TabsContent
 								value="file"
@@ -227,6 +230,12 @@ export default function FormEdit(props: any) {
 									onChange: (e: any) => {
 										changeFeature(e);
 									},
+									picked,
+									onPick: (files: any[]) => {
+										setPicked(files);
+										form.setValue("f_file", files[files.length - 1]?.url, { shouldDirty: true });
+									},
+									pickType: appState.ACCEPTED_IMG_FILE_TYPES,
 								})}
 							</TabsContent>
 							<TabsContent
@@ -251,6 +260,13 @@ export default function FormEdit(props: any) {
 									)}
 								/>
 							</TabsContent>
+							{id && (
+								<TabsContent
+									value="variants"
+									className="mt-4">
+									<ProductVariants id={id} />
+								</TabsContent>
+							)}
 						</Tabs>
 
 						<div className="post_bottom z-10 absolute bottom-0 right-0 flex w-full items-center justify-between space-x-2 border-t bg-white p-4 dark:bg-gray-900 dark:border-gray-700">
@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { produce } from "immer";
+import { History, Save, Sparkles, X } from "lucide-react";
+import Link from "next/link";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney } from "@/lib/order";
+import { variantCombinations, VariantGroup, variantMargin } from "@/lib/product";
+import { availableStock, isLowStock } from "@/lib/stock";
+import { useAppSelector } from "@/store";
+
+import * as actions from "./actions";
+
+// Generate the variants of a product from an order attribute group and edit their SKU, price, cost and stock
+export default function ProductVariants(props: any) {
+	const { id } = props;
+	const memoriez = useAppSelector((state) => state.attributeState.data);
+	const atts = useMemo(() => {
+		return memoriez.filter((item: any) => item?.mapto === "order");
+	}, [memoriez]);
+
+	const [variants, setVariants] = useState<any[]>([]);
+	const [changed, setChanged] = useState(false);
+	const [attribute, setAttribute] = useState<any>(null);
+	const [groups, setGroups] = useState<VariantGroup[]>([]);
+	const [options, setOptions] = useState<any[]>([]);
+	const [price, setPrice] = useState("");
+	const [pending, setPending] = useState(false);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getVariants(id);
+		if (res?.success === "success" && res?.data) {
+			setVariants(res.data);
+			setChanged(false);
+		}
+	}, [id]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function chooseAttribute(value: string) {
+		const res = await actions.getVariantOptions(value);
+		if (res?.success !== "success" || !res?.data) {
+			toast.error(res?.message);
+			return;
+		}
+		// Only options with a list of values make variants, free text options stay on the order line
+		const children = res.data.children.filter((child: any) => child.meta.length > 0);
+		setAttribute({ id: String(res.data.id), title: res.data.title });
+		setOptions(children);
+		setGroups(children.map((child: any) => ({ id: String(child.id), title: child.title, values: [] })));
+	}
+
+	function toggleValue(index: number, value: string) {
+		setGroups(
+			produce((draft) => {
+				const values = draft[index].values;
+				draft[index].values = values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+			}),
+		);
+	}
+
+	function handleChange(index: number, key: string, value: any) {
+		setVariants(
+			produce((draft) => {
+				draft[index][key] = value;
+			}),
+		);
+		setChanged(true);
+	}
+
+	async function handleGenerate() {
+		setPending(true);
+		const res = await actions.generateVariants(id, attribute, groups, Number(price) || 0);
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		fetchData();
+	}
+
+	async function handleSave() {
+		setPending(true);
+		const res = await actions.saveVariants(
+			id,
+			variants.map(({ id, title, sku, price, cost, stock, lowStock, published }) => ({ id, title, sku, price, cost, stock, lowStock, published })),
+		);
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		fetchData();
+	}
+
+	async function handleDelete(variant: any) {
+		const res = await actions.deleteVariant(variant.id);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		setVariants((prev) => prev.filter((item) => item.id !== variant.id));
+	}
+
+	const count = variantCombinations(groups).length;
+
+	return (
+		<div className="flex flex-col gap-4">
+			<div className="flex flex-col gap-3 rounded-lg border p-4">
+				<Select onValueChange={chooseAttribute}>
+					<SelectTrigger>
+						<SelectValue placeholder="Attribute group to generate variants from" />
+					</SelectTrigger>
+					<SelectContent>
+						{atts.map((item: any) => (
+							<SelectItem
+								key={item.id}
+								value={String(item.id)}>
+								{item.title}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				{attribute && options.length === 0 && <p className="text-sm text-gray-500">This group has no options with values.</p>}
+				{options.map((option: any, index: number) => (
+					<div
+						key={option.id}
+						className="flex flex-col gap-2">
+						<div className="text-xs font-semibold uppercase text-gray-500">{option.title}</div>
+						<div className="flex flex-wrap gap-3">
+							{option.meta.map((meta: any) => {
+								const value = meta.key || meta.value;
+								return (
+									<label
+										key={meta.id}
+										className="flex items-center gap-2 text-sm">
+										<Checkbox
+											checked={groups[index]?.values.includes(value)}
+											onCheckedChange={() => toggleValue(index, value)}
+										/>
+										{value}
+									</label>
+								);
+							})}
+						</div>
+					</div>
+				))}
+				{attribute && options.length > 0 && (
+					<div className="flex items-center gap-2">
+						<Input
+							type="number"
+							min={0}
+							step="0.01"
+							value={price}
+							placeholder="Price"
+							className="w-32"
+							onChange={(e) => setPrice(e.target.value)}
+						/>
+						<Button
+							type="button"
+							disabled={pending || count === 0}
+							onClick={handleGenerate}>
+							<Sparkles /> Generate {count > 0 ? count : ""} variants
+						</Button>
+					</div>
+				)}
+			</div>
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Variant</TableHead>
+						<TableHead className="w-48">SKU</TableHead>
+						<TableHead className="w-28">Price</TableHead>
+						<TableHead className="w-28">Cost</TableHead>
+						<TableHead className="w-24">Stock</TableHead>
+						<TableHead className="w-24">Reserved</TableHead>
+						<TableHead className="w-24">Alert at</TableHead>
+						<TableHead className="w-20 text-right">Margin</TableHead>
+						<TableHead className="w-12" />
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{variants.length === 0 && (
+						<TableRow>
+							<TableCell
+								colSpan={9}
+								className="text-center text-gray-500">
+								No variants for this product.
+							</TableCell>
+						</TableRow>
+					)}
+					{variants.map((variant, index) => (
+						<TableRow key={variant.id}>
+							<TableCell>
+								<Input
+									value={variant.title}
+									onChange={(e) => handleChange(index, "title", e.target.value)}
+								/>
+							</TableCell>
+							<TableCell>
+								<Input
+									value={variant.sku}
+									onChange={(e) => handleChange(index, "sku", e.target.value)}
+								/>
+							</TableCell>
+							<TableCell>
+								<Input
+									type="number"
+									min={0}
+									step="0.01"
+									value={variant.price}
+									onChange={(e) => handleChange(index, "price", e.target.value)}
+								/>
+							</TableCell>
+							<TableCell>
+								<Input
+									type="number"
+									min={0}
+									step="0.01"
+									value={variant.cost}
+									onChange={(e) => handleChange(index, "cost", e.target.value)}
+								/>
+							</TableCell>
+							<TableCell>
+								<Input
+									type="number"
+									value={variant.stock}
+									onChange={(e) => handleChange(index, "stock", e.target.value)}
+								/>
+							</TableCell>
+							<TableCell
+								className={isLowStock(variant) ? "text-red-600 font-semibold" : ""}
+								title={`${availableStock(variant)} available`}>
+								{variant.reserved}
+							</TableCell>
+							<TableCell>
+								<Input
+									type="number"
+									min={0}
+									value={variant.lowStock}
+									onChange={(e) => handleChange(index, "lowStock", e.target.value)}
+								/>
+							</TableCell>
+							<TableCell
+								className="text-right"
+								title={`${formatMoney((Number(variant.price) || 0) - (Number(variant.cost) || 0))} per item`}>
+								{variantMargin(variant)}%
+							</TableCell>
+							<TableCell>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									title="Remove"
+									onClick={() => handleDelete(variant)}>
+									<X />
+								</Button>
+							</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+			{variants.length > 0 && (
+				<div className="flex justify-end gap-2">
+					<Button
+						type="button"
+						variant="outline"
+						asChild>
+						<Link href={`/admin/products/stock/${id}`}>
+							<History /> Stock history
+						</Link>
+					</Button>
+					<Button
+						type="button"
+						disabled={pending || !changed}
+						onClick={handleSave}>
+						<Save /> Save variants
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,59 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import { StockError } from "@/lib/stock";
+import models from "@/models";
+
+// Movements of a product's variants with the variants themselves
+export async function getAll(productId: string, query: any) {
+	const { error } = await authorizeAction("products", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const where = { ...query, productId: Number(productId) };
+		const db = await models.StockMovement.getStockMovements(where);
+		const dbCount = await models.StockMovement.getStockMovementsCount(where);
+		const variants = await models.ProductVariant.getVariantsByProductId(Number(productId));
+		return {
+			data: db,
+			count: dbCount,
+			variants,
+			success: "success",
+			message: "Stock movements fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching stock movements",
+		};
+	}
+}
+
+// Receive units, or set the counted stock when mode is adjust
+export async function updateStock(variantId: string, mode: "receive" | "adjust", quantity: number, note: string) {
+	const { session, error } = await authorizeAction("products", "update");
+	if (error) {
+		return error;
+	}
+	const { id: userId } = session?.user || {};
+	try {
+		const db = mode === "adjust" ? await models.StockMovement.adjustStock(Number(variantId), Number(quantity), note, userId) : await models.StockMovement.receiveStock(Number(variantId), Number(quantity), note, userId);
+		if (!db && mode === "receive") {
+			return {
+				success: "error",
+				message: "Error updating stock",
+			};
+		}
+		return {
+			success: "success",
+			data: db,
+			message: mode === "adjust" ? (db ? "Stock adjusted successfully" : "Stock already at this count") : "Stock received successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof StockError ? error.message : "Error updating stock",
+		};
+	}
+}
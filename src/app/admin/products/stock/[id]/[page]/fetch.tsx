@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { PackagePlus } from "lucide-react";
+import Link from "next/link";
+
+import AppLoading from "@/components/AppLoading";
+import AppPagination from "@/components/AppPagination";
+import AppTitle from "@/components/AppTitle";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { availableStock, isLowStock, stockMovementLabels, stockMovementTypes } from "@/lib/stock";
+import { cn, dateFormat, pageSkip } from "@/lib/utils";
+import { useAppSelector } from "@/store";
+
+import * as actions from "./actions";
+import Receive from "./receive";
+
+// Signed quantity on the counter the movement changes
+const movementQuantity = (movement: any) => {
+	const quantity = movement.type === "deduction" || movement.type === "release" ? -movement.quantity : movement.quantity;
+	return `${quantity > 0 ? "+" : ""}${quantity}${movement.type === "reservation" || movement.type === "release" ? " reserved" : ""}`;
+};
+
+export default function Fetch(props: any) {
+	const { title, page, id, breadcrumb } = props;
+	const [open, setOpen] = useState<any>(["", null]);
+	const [db, setDb] = useState<any>({ data: [], variants: [], count: 0 });
+	const [loading, setLoading] = useState(true);
+	const [variant, setVariant] = useState("all");
+	const [type, setType] = useState("all");
+	const pageSize = useAppSelector((state) => (state.appState as any)?.pageSize) || 10;
+	const query = useMemo(
+		() => ({
+			take: Number(pageSize),
+			skip: pageSkip(page, pageSize),
+			variantId: variant === "all" ? null : variant,
+			type: type === "all" ? null : type,
+		}),
+		[pageSize, page, variant, type],
+	);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getAll(id, query);
+		if (res?.data) {
+			setDb(res);
+			setLoading(false);
+		}
+	}, [id, query]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	return (
+		<>
+			<div className="flex justify-between mb-5">
+				<AppTitle
+					data={title ? `Stock of ${title}` : "Stock"}
+					breadcrumb={breadcrumb}
+				/>
+				<Button
+					disabled={db.variants.length === 0}
+					onClick={() => setOpen(["receive", null])}>
+					<PackagePlus />
+					Receive stock
+				</Button>
+			</div>
+
+			{loading && <AppLoading />}
+			{!loading && (
+				<>
+					<div className="grid grid-cols-2 gap-4 mb-5 md:grid-cols-4">
+						{db.variants.map((item: any) => (
+							<button
+								key={item.id}
+								type="button"
+								onClick={() => setOpen(["receive", item.id])}
+								className="flex flex-col rounded-md border p-4 text-left dark:border-gray-700 hover:border-gray-400">
+								<span className="text-sm text-gray-500">
+									{item.title} · {item.sku}
+								</span>
+								<span className={cn("text-2xl font-semibold", isLowStock(item) && "text-red-600")}>{availableStock(item)} available</span>
+								<span className="text-xs text-gray-500">
+									{item.stock} on hand, {item.reserved} reserved
+								</span>
+							</button>
+						))}
+					</div>
+					{db.variants.length === 0 && (
+						<p className="mb-5 text-sm text-gray-500">
+							This product has no variants yet, generate them in the Variants tab of the <Link href="/admin/products">product</Link>.
+						</p>
+					)}
+					<div className="flex gap-2 mb-3">
+						<Select
+							value={variant}
+							onValueChange={setVariant}>
+							<SelectTrigger className="w-56">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">All variants</SelectItem>
+								{db.variants.map((item: any) => (
+									<SelectItem
+										key={item.id}
+										value={String(item.id)}>
+										{item.title}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Select
+							value={type}
+							onValueChange={setType}>
+							<SelectTrigger className="w-44">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">All movements</SelectItem>
+								{stockMovementTypes.map((item) => (
+									<SelectItem
+										key={item}
+										value={item}>
+										{stockMovementLabels[item]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Date</TableHead>
+								<TableHead>Variant</TableHead>
+								<TableHead>Movement</TableHead>
+								<TableHead className="text-right">Quantity</TableHead>
+								<TableHead className="text-right">On hand</TableHead>
+								<TableHead className="text-right">Reserved</TableHead>
+								<TableHead>Order</TableHead>
+								<TableHead>By</TableHead>
+								<TableHead>Note</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{db.data.length === 0 && (
+								<TableRow>
+									<TableCell
+										colSpan={9}
+										className="text-center text-gray-500">
+										No stock movements.
+									</TableCell>
+								</TableRow>
+							)}
+							{db.data.map((row: any) => (
+								<TableRow key={row.id}>
+									<TableCell className="whitespace-nowrap text-sm">{dateFormat(row.createdAt)}</TableCell>
+									<TableCell>
+										<div className="text-sm">{row.variant?.title}</div>
+										<div className="text-xs text-gray-500">{row.variant?.sku}</div>
+									</TableCell>
+									<TableCell className="text-sm">{stockMovementLabels[row.type as keyof typeof stockMovementLabels] ?? row.type}</TableCell>
+									<TableCell className="text-right text-sm">{movementQuantity(row)}</TableCell>
+									<TableCell className="text-right text-sm">{row.stock}</TableCell>
+									<TableCell className="text-right text-sm">{row.reserved}</TableCell>
+									<TableCell className="text-sm">
+										{row.order && (
+											<Link
+												href={`/admin/orders?s=${row.order.number ?? row.order.id}`}
+												className="underline">
+												{row.order.number ?? row.order.id}
+											</Link>
+										)}
+									</TableCell>
+									<TableCell className="text-sm">{row.user?.name}</TableCell>
+									<TableCell className="text-sm text-gray-500 max-w-xs truncate">{row.note}</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+					<div className="flex justify-end mt-4">
+						<AppPagination
+							items={db.count}
+							currentPage={page}
+							pageSize={pageSize}
+							url={`/admin/products/stock/${id}`}
+						/>
+					</div>
+				</>
+			)}
+			<Dialog
+				open={open[0] === "receive"}
+				onOpenChange={(isOpen) => !isOpen && setOpen(["", null])}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Update stock</DialogTitle>
+					</DialogHeader>
+					<Receive
+						variants={db.variants}
+						variant={open[1]}
+						onChange={(event: string) => {
+							if (event === "submit") {
+								setOpen(["", null]);
+								fetchData();
+							}
+						}}
+					/>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
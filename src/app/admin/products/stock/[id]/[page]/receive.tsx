@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+import * as actions from "./actions";
+
+// Receive units of a variant or correct its stock after a count
+export default function Receive(props: any) {
+	const { variants, onChange } = props;
+	const [variant, setVariant] = useState(props.variant ? String(props.variant) : "");
+	const [mode, setMode] = useState<"receive" | "adjust">("receive");
+	const [quantity, setQuantity] = useState("");
+	const [note, setNote] = useState("");
+	const [pending, setPending] = useState(false);
+
+	async function submit(e: any) {
+		e.preventDefault();
+		setPending(true);
+		const res = await actions.updateStock(variant, mode, Number(quantity), note);
+		setPending(false);
+		if (res?.success === "success") {
+			toast.success(res.message);
+			onChange("submit");
+		} else {
+			toast.error(res?.message);
+		}
+	}
+
+	return (
+		<form
+			onSubmit={submit}
+			className="flex flex-col gap-4">
+			<Select
+				value={variant}
+				onValueChange={setVariant}>
+				<SelectTrigger>
+					<SelectValue placeholder="Variant" />
+				</SelectTrigger>
+				<SelectContent>
+					{variants.map((item: any) => (
+						<SelectItem
+							key={item.id}
+							value={String(item.id)}>
+							{item.title} ({item.sku})
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			<Select
+				value={mode}
+				onValueChange={(value: any) => setMode(value)}>
+				<SelectTrigger>
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value="receive">Receive units</SelectItem>
+					<SelectItem value="adjust">Set counted stock</SelectItem>
+				</SelectContent>
+			</Select>
+			<Input
+				type="number"
+				min={mode === "receive" ? 1 : undefined}
+				value={quantity}
+				placeholder={mode === "receive" ? "Units received" : "Units on hand"}
+				onChange={(e) => setQuantity(e.target.value)}
+			/>
+			<Input
+				value={note}
+				placeholder="Note, e.g. delivery or count reference"
+				onChange={(e) => setNote(e.target.value)}
+			/>
+			<div className="flex justify-end">
+				<Button
+					type="submit"
+					disabled={pending || !variant || quantity === ""}>
+					{mode === "receive" ? "Receive stock" : "Adjust stock"}
+				</Button>
+			</div>
+		</form>
+	);
+}
@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
+import models from "@/models";
+
+import Fetch from "./[page]/fetch";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Stock",
+	}),
+};
+
+export default async function Index({ params }: any) {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (checkRole && !can(session?.user, "products", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const { id } = await params;
+	let title = "";
+
+	if (id) {
+		const getProduct = await models.Post.getPostById(Number(id));
+		if (getProduct) {
+			metadata.title = `Stock | ${getProduct?.title}`;
+			title = getProduct?.title ?? "";
+		}
+	}
+
+	const breadcrumb = [
+		{
+			title: "Products",
+			href: "/admin/products",
+		},
+		{
+			title: title ? `Stock of ${title}` : "Stock",
+			href: `/admin/products/stock/${id}`,
+		},
+	];
+
+	return (
+		<div className="mx-auto flex-col flex py-5 w-full px-4 sm:px-6">
+			<Fetch
+				title={title}
+				breadcrumb={breadcrumb}
+				id={id}
+				page={1}
+			/>
+		</div>
+	);
+}
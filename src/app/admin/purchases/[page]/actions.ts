@@ -0,0 +1,130 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import { PurchaseOrderError } from "@/lib/purchase";
+import models from "@/models";
+
+export async function getAll(query: any) {
+	const { error } = await authorizeAction("purchases", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.PurchaseOrder.getAllPurchaseOrders(query);
+		const dbCount = await models.PurchaseOrder.getPurchaseOrdersCount(query);
+		return {
+			data: db,
+			count: dbCount,
+			success: "success",
+			message: "Purchase orders fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching purchase orders",
+		};
+	}
+}
+
+export async function getRecord(id: string) {
+	const { error } = await authorizeAction("purchases", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.PurchaseOrder.getPurchaseOrderById(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Purchase order fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching purchase order",
+		};
+	}
+}
+
+export async function updateRecord(id: string, data: any) {
+	const { error } = await authorizeAction("purchases", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.PurchaseOrder.updatePurchaseOrder(id, data);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Purchase order updated successfully" : "Error updating purchase order",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof PurchaseOrderError ? error.message : "Error updating purchase order",
+		};
+	}
+}
+
+// Receive delivered units, quantities is { [itemId]: quantity }
+export async function receiveRecord(id: string, quantities: Record<string, number>) {
+	const { session, error } = await authorizeAction("purchases", "update");
+	if (error) {
+		return error;
+	}
+	const { id: userId } = session?.user || {};
+	try {
+		const db = await models.PurchaseOrder.receivePurchaseOrder(id, quantities, userId);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Items received into stock" : "Error receiving purchase order",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof PurchaseOrderError ? error.message : "Error receiving purchase order",
+		};
+	}
+}
+
+export async function deleteRecord(id: string) {
+	const { error } = await authorizeAction("purchases", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.PurchaseOrder.deletePurchaseOrder(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Purchase order deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting purchase order",
+		};
+	}
+}
+
+// Delete Multiple Records
+export async function deleteMultipleRecords(ids: string[]) {
+	const { error } = await authorizeAction("purchases", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.PurchaseOrder.deleteMulti(ids);
+		return {
+			success: "success",
+			data: db,
+			message: "Purchase orders deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting purchase orders",
+		};
+	}
+}
@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { produce } from "immer";
+import { PackageCheck, Save } from "lucide-react";
+import { toast } from "sonner";
+
+import AppLoading from "@/components/AppLoading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { enumPurchaseStatus } from "@/lib/enum";
+import { formatMoney } from "@/lib/order";
+import { calcPurchaseItemTotal, calcPurchaseTotal, canReceivePurchaseOrder, canTransitionPurchaseStatus, purchaseManualStatuses } from "@/lib/purchase";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+// Edit a purchase order: status, expected date and note, item quantities and costs while it is a draft, and receive delivered units
+export default function FormEdit(props: any) {
+	const { id, onChange } = props;
+	const [data, setData] = useState<any>(null);
+	const [items, setItems] = useState<any[]>([]);
+	const [status, setStatus] = useState("draft");
+	const [expected, setExpected] = useState("");
+	const [note, setNote] = useState("");
+	const [receive, setReceive] = useState<Record<string, string>>({});
+	const [loading, setLoading] = useState(true);
+	const [pending, setPending] = useState(false);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getRecord(id);
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+			setItems(res.data.items);
+			setStatus(res.data.status);
+			setExpected(res.data.date_expected ? format(res.data.date_expected, "yyyy-MM-dd") : "");
+			setNote(res.data.note ?? "");
+			setReceive({});
+		}
+		setLoading(false);
+	}, [id]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	function handleItem(index: number, key: string, value: any) {
+		setItems(
+			produce((draft) => {
+				draft[index][key] = value;
+			}),
+		);
+	}
+
+	async function handleSave() {
+		setPending(true);
+		const res = await actions.updateRecord(id, {
+			status,
+			note,
+			date_expected: expected || null,
+			items: data.status === "draft" ? items.map(({ id, quantity, cost }) => ({ id, quantity, cost })) : undefined,
+		});
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		onChange?.("submit", res.data);
+	}
+
+	async function handleReceive() {
+		setPending(true);
+		const res = await actions.receiveRecord(id, Object.fromEntries(Object.entries(receive).map(([key, value]) => [key, Number(value) || 0])));
+		setPending(false);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		await fetchData();
+		onChange?.("receive", res.data);
+	}
+
+	if (loading) {
+		return <AppLoading />;
+	}
+
+	if (!data) {
+		return <p className="text-sm text-gray-500">Purchase order not found.</p>;
+	}
+
+	const draft = data.status === "draft";
+	const receivable = canReceivePurchaseOrder(data.status);
+	const statuses = enumPurchaseStatus.filter((item) => item.value === data.status || (purchaseManualStatuses.includes(item.value) && canTransitionPurchaseStatus(data.status, item.value)));
+
+	return (
+		<div className="flex flex-col gap-5">
+			<div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+				<div className="flex flex-col gap-1 text-sm">
+					<span className="text-xs font-semibold uppercase text-gray-500">Vendor</span>
+					<span className="font-medium">{data.vendor?.company || data.vendor?.name}</span>
+					{data.vendor?.email && <span className="text-gray-500">{data.vendor.email}</span>}
+					{data.vendor?.phone && <span className="text-gray-500">{data.vendor.phone}</span>}
+				</div>
+				<div className="flex flex-col gap-1 text-sm">
+					<span className="text-xs font-semibold uppercase text-gray-500">Customer orders</span>
+					{data.orders.map((order: any) => (
+						<a
+							key={order.id}
+							href={`/admin/orders?s=${order.number ?? order.id}`}
+							className="underline">
+							{order.number ?? order.title}
+						</a>
+					))}
+				</div>
+				<div className="flex flex-col gap-1 text-sm">
+					<span className="text-xs font-semibold uppercase text-gray-500">History</span>
+					<span>Created {dateFormat(data.createdAt)}</span>
+					{data.date_sent && <span>Sent {dateFormat(data.date_sent)}</span>}
+					{data.date_confirmed && <span>Confirmed {dateFormat(data.date_confirmed)}</span>}
+					{data.date_received && <span>Received {dateFormat(data.date_received)}</span>}
+					{data.date_cancelled && <span>Cancelled {dateFormat(data.date_cancelled)}</span>}
+				</div>
+			</div>
+			<div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+				<Select
+					value={status}
+					onValueChange={setStatus}>
+					<SelectTrigger>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{statuses.map((item) => (
+							<SelectItem
+								key={item.value}
+								value={item.value}>
+								{item.label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Input
+					type="date"
+					value={expected}
+					title="Expected delivery"
+					onChange={(e) => setExpected(e.target.value)}
+				/>
+			</div>
+			<Textarea
+				value={note}
+				placeholder="Note for the vendor"
+				onChange={(e) => setNote(e.target.value)}
+			/>
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Item</TableHead>
+						<TableHead className="w-28">Quantity</TableHead>
+						<TableHead className="w-32">Unit cost</TableHead>
+						<TableHead className="w-28 text-right">Total</TableHead>
+						<TableHead className="w-24 text-right">Received</TableHead>
+						{receivable && <TableHead className="w-28">Receive</TableHead>}
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{items.map((item: any, index: number) => (
+						<TableRow key={item.id}>
+							<TableCell>
+								<div className="text-sm">{item.title}</div>
+								<div className="text-xs text-gray-500">
+									{item.variant?.sku}
+									{item.orderItem?.order && ` · ${item.orderItem.order.number ?? item.orderItem.order.id}`}
+								</div>
+							</TableCell>
+							<TableCell>
+								{draft ? (
+									<Input
+										type="number"
+										min={1}
+										value={item.quantity}
+										onChange={(e) => handleItem(index, "quantity", e.target.value)}
+									/>
+								) : (
+									item.quantity
+								)}
+							</TableCell>
+							<TableCell>
+								{draft ? (
+									<Input
+										type="number"
+										min={0}
+										step="0.01"
+										value={item.cost}
+										onChange={(e) => handleItem(index, "cost", e.target.value)}
+									/>
+								) : (
+									formatMoney(item.cost)
+								)}
+							</TableCell>
+							<TableCell className="text-right">{formatMoney(calcPurchaseItemTotal(item))}</TableCell>
+							<TableCell className="text-right">
+								{item.received}/{item.quantity}
+							</TableCell>
+							{receivable && (
+								<TableCell>
+									<Input
+										type="number"
+										min={0}
+										max={item.quantity - item.received}
+										disabled={item.received >= item.quantity}
+										value={receive[item.id] ?? ""}
+										onChange={(e) => setReceive((prev) => ({ ...prev, [item.id]: e.target.value }))}
+									/>
+								</TableCell>
+							)}
+						</TableRow>
+					))}
+					<TableRow>
+						<TableCell
+							colSpan={3}
+							className="text-right font-semibold">
+							Total
+						</TableCell>
+						<TableCell className="text-right font-semibold">{formatMoney(calcPurchaseTotal(items))}</TableCell>
+						<TableCell colSpan={receivable ? 2 : 1} />
+					</TableRow>
+				</TableBody>
+			</Table>
+			<div className="flex justify-end gap-2">
+				{receivable && (
+					<Button
+						type="button"
+						variant="outline"
+						disabled={pending || Object.values(receive).every((value) => !Number(value))}
+						onClick={handleReceive}>
+						<PackageCheck /> Receive items
+					</Button>
+				)}
+				<Button
+					type="button"
+					disabled={pending}
+					onClick={handleSave}>
+					<Save /> Save
+				</Button>
+			</div>
+		</div>
+	);
+}
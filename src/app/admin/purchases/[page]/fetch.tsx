@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Drawer } from "antd";
+import { Pencil, Printer, Trash, X } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+
+import AppLoading from "@/components/AppLoading";
+import AppTable from "@/components/AppTable";
+import AppTitle from "@/components/AppTitle";
+import { Button } from "@/components/ui/button";
+import { enumPurchaseStatus } from "@/lib/enum";
+import { formatMoney } from "@/lib/order";
+import { dateFormat, pageSkip } from "@/lib/utils";
+import { useAppSelector } from "@/store";
+
+import * as actions from "./actions";
+import FormEdit from "./edit";
+
+const purchaseStatus = (status: string) => {
+	return enumPurchaseStatus.find((item) => item.value === status);
+};
+
+export default function Fetch(props: any) {
+	const { title, page, breadcrumb } = props;
+	const [open, setOpen] = useState<any>(["", null]);
+	const [db, setDb] = useState<any>([]);
+	const [loading, setLoading] = useState(true);
+	const pageSize = useAppSelector((state) => (state.appState as any)?.pageSize) || 10;
+	const search = useSearchParams();
+	const query = useMemo(
+		() => ({
+			take: Number(pageSize),
+			skip: pageSkip(page, pageSize),
+			s: search.get("s") || "",
+			orderBy: search.get("orderBy") || "createdAt",
+			filterBy: search.get("filterBy") || "",
+		}),
+		[pageSize, page, search],
+	);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getAll(query);
+		if (res?.data) {
+			setDb(res);
+			setLoading(false);
+		}
+	}, [query]);
+
+	const deteteRecord = async (id: string) => {
+		if (confirm("Are you sure you want to delete this record?")) {
+			const res = await actions.deleteRecord(id);
+			if (res?.success === "success") {
+				fetchData();
+			}
+		}
+	};
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	return (
+		<>
+			<div className="flex justify-between mb-5">
+				<AppTitle
+					data={title}
+					breadcrumb={breadcrumb}
+				/>
+			</div>
+			<p className="mb-5 text-sm text-gray-500">Select customer orders in Orders and use &quot;Create purchase orders&quot; to draft one purchase order per vendor.</p>
+
+			{loading && <AppLoading />}
+			{!loading && (
+				<AppTable
+					actions={actions}
+					data={db.data}
+					count={db.count}
+					url={`/admin/purchases`}
+					page={page}
+					pageSize={pageSize}
+					multipleDisable={["publish", "unpublish"]}
+					onChange={(event: string, data: any) => {
+						if (event === "edit") {
+							setOpen([event, data]);
+						}
+						if (event === "delete") {
+							fetchData();
+						}
+					}}
+					columns={[
+						{
+							header: "Number",
+							accessor: "number",
+							custom: (row: any) => {
+								return (
+									<>
+										<div
+											className="cursor-pointer underline whitespace-nowrap"
+											onClick={() => setOpen(["edit", row])}>
+											{row.number}
+										</div>
+										<div className="text-gray-500 text-xs whitespace-nowrap">
+											{row._count?.items} items · {dateFormat(row.createdAt)}
+										</div>
+									</>
+								);
+							},
+						},
+						{
+							header: "Vendor",
+							accessor: "vendor",
+							custom: (row: any) => {
+								return <span className="text-sm">{row.vendor?.name}</span>;
+							},
+						},
+						{
+							header: "Status",
+							accessor: "status",
+							custom: (row: any) => {
+								return <span className={`text-sm ${purchaseStatus(row.status)?.className ?? ""}`}>{purchaseStatus(row.status)?.label ?? row.status}</span>;
+							},
+						},
+						{
+							header: "Orders",
+							accessor: "orders",
+							custom: (row: any) => {
+								return <span className="text-sm text-gray-500">{row.orders?.map((order: any) => order.number ?? order.id).join(", ")}</span>;
+							},
+						},
+						{
+							header: "Total",
+							accessor: "total",
+							custom: (row: any) => {
+								return <span className="font-medium whitespace-nowrap">{formatMoney(row?.total)}</span>;
+							},
+						},
+						{
+							header: "Expected",
+							accessor: "date_expected",
+							custom: (row: any) => {
+								return <span className="text-sm whitespace-nowrap">{row.date_expected ? dateFormat(row.date_expected) : "-"}</span>;
+							},
+						},
+						{
+							header: "Edit",
+							accessor: "edit",
+							custom: (row: any) => {
+								return (
+									<Button
+										size="icon"
+										className="hover:bg-gray-900 bg-gray-100 text-sm inline-flex flex-row items-center w-7 h-7 justify-center text-black border border-gray-400 rounded-md hover:text-white hover:border-black"
+										onClick={() => setOpen(["edit", row])}>
+										<Pencil />
+									</Button>
+								);
+							},
+						},
+					]}
+					order={[
+						{
+							value: "createdAt",
+							label: "Order by Date",
+						},
+						{
+							value: "number",
+							label: "Order by Number",
+						},
+						{
+							value: "date_expected",
+							label: "Order by Expected Date",
+						},
+					]}
+					filter={enumPurchaseStatus}
+				/>
+			)}
+			<Drawer
+				maskClosable={false}
+				closable={false}
+				open={open[0] === "edit"}
+				onClose={() => setOpen(["", null])}
+				title={
+					<div className="flex items-center space-x-2">
+						<div className="t">{open[1]?.number}</div>
+						<div className="text-sm text-gray-500">{open[1]?.vendor?.name}</div>
+					</div>
+				}
+				placement="right"
+				keyboard={false}
+				width={1200}
+				destroyOnClose={true}
+				extra={
+					<div className="flex items-center space-x-2">
+						<a
+							href={`/print/purchases/${open[1]?.id}`}
+							target="_blank"
+							className="hover:bg-gray-400 text-sm flex flex-row items-center justify-center px-2 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg space-x-1">
+							<Printer className="w-4 h-4" /> <span>Print</span>
+						</a>
+						<Button
+							type="button"
+							className="hover:bg-red-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-red-800 px-2 h-8 bg-red-200 font-medium hover:text-black text-black border-2 border-red-400 rounded-lg"
+							onClick={() => {
+								deteteRecord(open[1]?.id);
+								setOpen(["", null]);
+							}}>
+							<Trash /> Delete
+						</Button>
+						<Button
+							type="button"
+							className="hover:bg-gray-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-gray-800 w-8 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg"
+							onClick={() => setOpen(["", null])}>
+							<X />
+						</Button>
+					</div>
+				}>
+				<FormEdit
+					id={open[1]?.id}
+					onChange={(event: string) => {
+						if (event === "submit") {
+							setOpen(["", null]);
+						}
+						fetchData();
+					}}
+				/>
+			</Drawer>
+		</>
+	);
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
+
+import Fetch from "./fetch";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Purchase orders",
+	}),
+};
+
+export default async function Index({ params }: any) {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (checkRole && !can(session?.user, "purchases", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const { page } = await params;
+	const pageNumber = Number(page);
+	metadata.title = `Purchase orders | Page ${pageNumber}`;
+
+	const breadcrumb = [
+		{
+			title: "Purchase orders",
+			href: "/admin/purchases",
+		},
+		{
+			title: `Page ${pageNumber}`,
+			href: `/admin/purchases/${pageNumber}`,
+		},
+	];
+
+	return (
+		<div className="mx-auto flex-col flex py-5 w-full px-4 sm:px-6">
+			<Fetch
+				title="Purchase orders"
+				breadcrumb={breadcrumb}
+				page={pageNumber}
+			/>
+		</div>
+	);
+}
@@ -2,7 +2,7 @@
 
 import { Prisma } from "@prisma/client"; // Import Prisma namespace for types
 
-import { auth } from "@/auth"; // Assuming you need authentication
+import { authorizeAction } from "@/lib/auth";
 import { db } from "@/lib/db";
 
 // Define an interface for the shape of items returned by the search
@@ -24,11 +24,10 @@ export async function getAll(params: {
 	s?: string; // The search term (optional)
 	// Add orderBy parameters if needed, e.g., orderBy: string, orderDir: 'asc' | 'desc'
 }) {
-	const session = await auth();
-	// Optional: Add authorization checks if necessary
-	// if (!session?.user) {
-	//   return { success: "error", message: "Unauthorized", data: [], count: 0 };
-	// }
+	const { error } = await authorizeAction("search", "read");
+	if (error) {
+		return error;
+	}
 
 	const { take, skip, s = "" } = params;
 	const searchTerm = `%${s}%`; // Prepare search term for ILIKE
@@ -1,10 +1,15 @@
 "use server";
 
-import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
+import { isValidOrderKey } from "@/lib/order";
+import { resetStorageDriver } from "@/lib/storage";
 import models from "@/models";
 
 export async function getAllRecord() {
-	const session = await auth();
+	const { session, error } = await authorizeAction("settings", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Setting.getAllSettings();
@@ -22,10 +27,20 @@ export async function getAllRecord() {
 }
 
 export async function updateAllRecord(data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("settings", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
+	if (typeof data?.order_key === "string" && !isValidOrderKey(data.order_key.trim())) {
+		return {
+			success: "error",
+			message: "Order prefix can only contain letters and numbers and needs at least one letter.",
+		};
+	}
 	try {
 		const db = await models.Setting.updateSetting(data);
+		resetStorageDriver();
 		return {
 			data: db,
 			success: "success",
@@ -9,12 +9,13 @@ import { z } from "zod";
 
 import { AppEditor } from "@/components/AppEditor";
 import AppLoading from "@/components/AppLoading";
+import { FieldSelect } from "@/components/fields/select";
 import { FieldUpload } from "@/components/fields/upload";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/SettingTab";
 import { Button } from "@/components/ui/button";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { appState } from "@/lib/appConst";
+import { enumStorageDriver } from "@/lib/enum";
 import { useAppDispatch } from "@/store";
 import { SET_APP_STATE } from "@/store/appSlice";
 
@@ -25,11 +26,21 @@ const FormSchema = z.object({
 	f_description: z.string().min(2, { message: "Content must be at least 2 characters." }),
 	f_page: z.any().optional(),
 	f_tax: z.any().optional(),
+	f_order_key: z
+		.string()
+		.regex(/^[A-Za-z0-9]*$/, { message: "Order prefix can only contain letters and numbers." })
+		.regex(/^(?!\d+$)/, { message: "Order prefix needs at least one letter." })
+		.optional(),
 	f_bill_note: z.string().min(2, { message: "Bill note must be at least 2 characters." }),
 	f_bill_company_name: z.string().min(2, { message: "Bill company name must be at least 2 characters." }),
 	f_bill_company_address: z.string().min(2, { message: "Bill company address must be at least 2 characters." }),
 	f_bill_company_info: z.string().min(2, { message: "Bill company info must be at least 2 characters." }),
 	f_bill_company_phone: z.string().optional(),
+	f_storage_driver: z.string().optional(),
+	f_storage_endpoint: z.union([z.literal(""), z.string().url({ message: "Endpoint must be a valid URL." })]).optional(),
+	f_storage_region: z.string().optional(),
+	f_storage_bucket: z.string().optional(),
+	f_storage_public_url: z.union([z.literal(""), z.string().url({ message: "Public URL must be a valid URL." })]).optional(),
 	f_file: z
 		.any()
 		.optional()
@@ -48,25 +59,39 @@ export default function FormEdit() {
 			f_description: "",
 			f_page: 10,
 			f_tax: 8.5,
+			f_order_key: "",
 			f_bill_note: "",
 			f_bill_company_name: "",
 			f_bill_company_address: "",
 			f_bill_company_info: "",
 			f_bill_company_phone: "",
+			f_storage_driver: "",
+			f_storage_endpoint: "",
+			f_storage_region: "",
+			f_storage_bucket: "",
+			f_storage_public_url: "",
 		},
 	});
 
+	const storageDriver = form.watch("f_storage_driver");
+
 	async function onSubmit(values: z.infer<typeof FormSchema>) {
 		const _body = {
 			title: values.f_title || "",
 			description: values.f_description || "",
 			page: values.f_page.toString() || "",
 			tax: values.f_tax.toString() || "",
+			order_key: values.f_order_key || "",
 			bill_note: values.f_bill_note || "",
 			bill_company_name: values.f_bill_company_name || "",
 			bill_company_address: values.f_bill_company_address || "",
 			bill_company_info: values.f_bill_company_info || "",
 			bill_company_phone: values.f_bill_company_phone || "",
+			storage_driver: values.f_storage_driver || "",
+			storage_endpoint: values.f_storage_endpoint || "",
+			storage_region: values.f_storage_region || "",
+			storage_bucket: values.f_storage_bucket || "",
+			storage_public_url: values.f_storage_public_url || "",
 			image: thumbnail || "",
 		};
 
@@ -114,11 +139,17 @@ export default function FormEdit() {
 				f_description: res.data?.find((item: any) => item.key === "description")?.value || "",
 				f_page: res.data?.find((item: any) => item.key === "page")?.value || 10,
 				f_tax: res.data?.find((item: any) => item.key === "tax")?.value || 8.5,
+				f_order_key: res.data?.find((item: any) => item.key === "order_key")?.value || "",
 				f_bill_note: res.data?.find((item: any) => item.key === "bill_note")?.value || "",
 				f_bill_company_name: res.data?.find((item: any) => item.key === "bill_company_name")?.value || "",
 				f_bill_company_address: res.data?.find((item: any) => item.key === "bill_company_address")?.value || "",
 				f_bill_company_info: res.data?.find((item: any) => item.key === "bill_company_info")?.value || "",
 				f_bill_company_phone: res.data?.find((item: any) => item.key === "bill_company_phone")?.value || "",
+				f_storage_driver: res.data?.find((item: any) => item.key === "storage_driver")?.value || "",
+				f_storage_endpoint: res.data?.find((item: any) => item.key === "storage_endpoint")?.value || "",
+				f_storage_region: res.data?.find((item: any) => item.key === "storage_region")?.value || "",
+				f_storage_bucket: res.data?.find((item: any) => item.key === "storage_bucket")?.value || "",
+				f_storage_public_url: res.data?.find((item: any) => item.key === "storage_public_url")?.value || "",
 				f_file: res.data?.find((item: any) => item.key === "image")?.value || "",
 			});
 			setThumbnail(res.data?.find((item: any) => item.key === "image")?.value || "");
@@ -162,6 +193,11 @@ export default function FormEdit() {
 										className="relative w-full justify-start rounded-none after:absolute after:inset-y-0 after:start-0 after:w-0.5 data-[state=active]:bg-transparent data-[state=active]:shadow-none data-[state=active]:after:bg-primary">
 										APIs configuration
 									</TabsTrigger>
+									<TabsTrigger
+										value="tab-5"
+										className="relative w-full justify-start rounded-none after:absolute after:inset-y-0 after:start-0 after:w-0.5 data-[state=active]:bg-transparent data-[state=active]:shadow-none data-[state=active]:after:bg-primary">
+										Storage configuration
+									</TabsTrigger>
 									<TabsTrigger
 										value="tab-4"
 										className="relative w-full justify-start rounded-none after:absolute after:inset-y-0 after:start-0 after:w-0.5 data-[state=active]:bg-transparent data-[state=active]:shadow-none data-[state=active]:after:bg-primary">
@@ -236,7 +272,7 @@ export default function FormEdit() {
 														thumbnail,
 														multiple: false,
 														preview: true,
-														accept: appState.ACCEPTED_IMG_FILE_TYPES,
+														context: "image",
 														onChange: (e: any) => {
 															field.onChange(e[0]?.data[0]?.url);
 															setThumbnail(e[0]?.data[0]?.url);
@@ -270,6 +306,23 @@ export default function FormEdit() {
 												</FormItem>
 											)}
 										/>
+										<FormField
+											control={form.control}
+											name="f_order_key"
+											render={({ field }) => (
+												<FormItem>
+													<FormLabel>Order number prefix</FormLabel>
+													<FormControl>
+														<Input
+															className="w-40"
+															placeholder="NP"
+															{...field}
+														/>
+													</FormControl>
+													<FormMessage />
+												</FormItem>
+											)}
+										/>
 										<FormField
 											control={form.control}
 											name="f_bill_note"
@@ -358,6 +411,104 @@ export default function FormEdit() {
 										className="space-y-10">
 										This feature is not available yet.
 									</TabsContent>
+									<TabsContent
+										value="tab-5"
+										className="space-y-10">
+										<FormField
+											control={form.control}
+											name="f_storage_driver"
+											render={({ field }) => (
+												<FormItem>
+													<FormLabel>Storage driver</FormLabel>
+													{FieldSelect({
+														field,
+														placeholder: "Environment default",
+														data: enumStorageDriver.map((item: any) => ({
+															id: item.value,
+															name: item.label,
+														})),
+													})}
+													<FormDescription>New uploads go to this storage, files uploaded before keep their URLs. Access keys are read from the environment.</FormDescription>
+													<FormMessage />
+												</FormItem>
+											)}
+										/>
+										{storageDriver === "s3" && (
+											<>
+												<FormField
+													control={form.control}
+													name="f_storage_endpoint"
+													render={({ field }) => (
+														<FormItem>
+															<FormLabel>Endpoint</FormLabel>
+															<FormControl>
+																<Input
+																	placeholder="http://localhost:9000"
+																	{...field}
+																/>
+															</FormControl>
+															<FormDescription>Leave empty for AWS S3.</FormDescription>
+															<FormMessage />
+														</FormItem>
+													)}
+												/>
+												<FormField
+													control={form.control}
+													name="f_storage_region"
+													render={({ field }) => (
+														<FormItem>
+															<FormLabel>Region</FormLabel>
+															<FormControl>
+																<Input
+																	className="w-40"
+																	placeholder="us-east-1"
+																	{...field}
+																/>
+															</FormControl>
+															<FormMessage />
+														</FormItem>
+													)}
+												/>
+											</>
+										)}
+										{storageDriver && storageDriver !== "local" && (
+											<>
+												<FormField
+													control={form.control}
+													name="f_storage_bucket"
+													render={({ field }) => (
+														<FormItem>
+															<FormLabel>Bucket</FormLabel>
+															<FormControl>
+																<Input
+																	placeholder="uploads"
+																	{...field}
+																/>
+															</FormControl>
+															<FormMessage />
+														</FormItem>
+													)}
+												/>
+												<FormField
+													control={form.control}
+													name="f_storage_public_url"
+													render={({ field }) => (
+														<FormItem>
+															<FormLabel>Public URL</FormLabel>
+															<FormControl>
+																<Input
+																	placeholder="https://cdn.example.com"
+																	{...field}
+																/>
+															</FormControl>
+															<FormDescription>Base URL the bucket is served from, leave empty to use the default one.</FormDescription>
+															<FormMessage />
+														</FormItem>
+													)}
+												/>
+											</>
+										)}
+									</TabsContent>
 									<TabsContent
 										value="tab-4"
 										className="space-y-10">
@@ -0,0 +1,213 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import { deliverWebhook, generateWebhookSecret } from "@/lib/webhook";
+import models from "@/models";
+
+export async function getAll(query: any) {
+	const { error } = await authorizeAction("webhooks", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.getAllWebhooks(query);
+		const dbCount = await models.Webhook.getWebhooksCount(query);
+		return {
+			data: db,
+			count: dbCount,
+			success: "success",
+			message: "Webhooks fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching webhooks",
+		};
+	}
+}
+
+export async function deleteRecord(id: number) {
+	const { error } = await authorizeAction("webhooks", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.deleteWebhook(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Webhook deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting webhook",
+		};
+	}
+}
+
+export async function createRecord(data: any) {
+	const { error } = await authorizeAction("webhooks", "create");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.createWebhook({ ...data, secret: generateWebhookSecret() });
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Webhook created successfully" : "Error creating webhook",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating webhook",
+		};
+	}
+}
+
+export async function updateRecord(id: number, data: any) {
+	const { error } = await authorizeAction("webhooks", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.updateWebhook(id, data);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Webhook updated successfully" : "Error updating webhook",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error updating webhook",
+		};
+	}
+}
+
+export async function getRecord(id: number) {
+	const { error } = await authorizeAction("webhooks", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.getWebhookById(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Webhook fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching webhook",
+		};
+	}
+}
+
+// Delete Multiple Records
+export async function deleteMultipleRecords(ids: number[]) {
+	const { error } = await authorizeAction("webhooks", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.deleteMulti(ids);
+		return {
+			success: "success",
+			data: db,
+			message: "Webhooks deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting webhooks",
+		};
+	}
+}
+
+// Update Multiple Records
+export async function updateMultipleRecords(ids: number[], data: any) {
+	const { error } = await authorizeAction("webhooks", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.updateMulti(ids, data);
+		return {
+			success: "success",
+			data: db,
+			message: "Webhooks updated successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error updating webhooks",
+		};
+	}
+}
+
+// Replace the signing secret, receivers must switch to the new one
+export async function rotateSecret(id: number) {
+	const { error } = await authorizeAction("webhooks", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.updateWebhook(id, { secret: generateWebhookSecret() });
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Secret rotated successfully" : "Error rotating secret",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error rotating secret",
+		};
+	}
+}
+
+// Delivery log of a webhook
+export async function getDeliveries(id: number) {
+	const { error } = await authorizeAction("webhooks", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Webhook.getWebhookDeliveries(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Deliveries fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching deliveries",
+		};
+	}
+}
+
+// Send a delivery again now, with a fresh set of retries
+export async function redeliver(id: string) {
+	const { error } = await authorizeAction("webhooks", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const reset = await models.Webhook.updateWebhookDelivery(id, { status: "pending", attempts: 0, nextAttemptAt: null });
+		const db = reset ? await deliverWebhook(id) : null;
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? (db.status === "success" ? "Delivered successfully" : "Delivery failed, it will be retried") : "Error sending delivery",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error sending delivery",
+		};
+	}
+}
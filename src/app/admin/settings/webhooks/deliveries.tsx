@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+import AppLoading from "@/components/AppLoading";
+import { Button } from "@/components/ui/button";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+const statusColors: Record<string, string> = {
+	pending: "text-gray-700",
+	retrying: "text-yellow-700",
+	success: "text-green-700",
+	failed: "text-red-700",
+};
+
+export default function Deliveries(props: any) {
+	const { id } = props;
+	const [data, setData] = useState<any[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [pending, setPending] = useState<string | null>(null);
+	const [expanded, setExpanded] = useState<string | null>(null);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getDeliveries(id);
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+		}
+		setLoading(false);
+	}, [id]);
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	async function redeliver(deliveryId: string) {
+		setPending(deliveryId);
+		const res = await actions.redeliver(deliveryId);
+		setPending(null);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+		} else {
+			toast.success(res.message);
+		}
+		fetchData();
+	}
+
+	if (loading) {
+		return <AppLoading />;
+	}
+
+	if (data.length === 0) {
+		return <p className="text-sm text-gray-500">No deliveries yet.</p>;
+	}
+
+	return (
+		<div className="divide-y rounded-md border text-sm dark:border-gray-700 dark:divide-gray-700">
+			{data.map((delivery: any) => (
+				<div
+					key={delivery.id}
+					className="flex flex-col gap-2 p-3">
+					<div className="flex items-center justify-between gap-4">
+						<button
+							type="button"
+							className="flex flex-col items-start gap-1 text-left"
+							onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}>
+							<span className="font-mono text-xs">{delivery.event}</span>
+							<span className="text-xs text-gray-500">
+								<span className={`font-semibold capitalize ${statusColors[delivery.status] ?? ""}`}>{delivery.status}</span> · {delivery.attempts} attempts · {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : (delivery.error ?? "No response")} · {dateFormat(delivery.createdAt)}
+								{delivery.nextAttemptAt && ` · Next try ${dateFormat(delivery.nextAttemptAt)}`}
+							</span>
+						</button>
+						<Button
+							type="button"
+							variant="outline"
+							size="sm"
+							disabled={pending === delivery.id}
+							onClick={() => redeliver(delivery.id)}>
+							<RefreshCw />
+							Redeliver
+						</Button>
+					</div>
+					{expanded === delivery.id && (
+						<div className="grid grid-cols-2 gap-2">
+							<pre className="max-h-60 overflow-auto rounded-md bg-gray-100 p-2 text-xs dark:bg-gray-800">{JSON.stringify(JSON.parse(delivery.payload), null, 2)}</pre>
+							<pre className="max-h-60 overflow-auto rounded-md bg-gray-100 p-2 text-xs whitespace-pre-wrap dark:bg-gray-800">{delivery.responseBody || delivery.error || "No response body"}</pre>
+						</div>
+					)}
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import AppLoading from "@/components/AppLoading";
+import { FieldSelect } from "@/components/fields/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { enumPublished, enumWebhookEvents } from "@/lib/enum";
+
+import * as actions from "./actions";
+
+const FormSchema = z.object({
+	f_title: z.string().min(2, { message: "Title must be at least 2 characters." }),
+	f_url: z.string().url({ message: "Enter a valid URL." }),
+	f_published: z.enum(enumPublished.map((item: any) => item.value) as [string, ...string[]], { required_error: "Published is required" }).optional(),
+	f_events: z.array(z.string()).min(1, { message: "Select at least one event." }),
+});
+
+// Stored events are JSON text
+const parseEvents = (value: any): string[] => {
+	try {
+		const events = typeof value === "string" ? JSON.parse(value) : value;
+		return Array.isArray(events) ? events : [];
+	} catch (error) {
+		return [];
+	}
+};
+
+export default function FormEdit(props: any) {
+	const { id, onChange } = props;
+	const [data, setData] = useState<any>(null);
+	const [loading, setLoading] = useState(true);
+
+	const form = useForm<z.infer<typeof FormSchema>>({
+		resolver: zodResolver(FormSchema),
+		defaultValues: {
+			f_title: "",
+			f_url: "",
+			f_published: "TRUE",
+			f_events: [],
+		},
+	});
+
+	async function onSubmit(values: z.infer<typeof FormSchema>) {
+		const _body = {
+			title: values.f_title,
+			url: values.f_url,
+			published: values.f_published === "TRUE" ? true : false,
+			events: values.f_events,
+		};
+		const res = data ? await actions.updateRecord(id, _body) : await actions.createRecord(_body);
+		if (res?.success !== "success") {
+			toast.error(res.message);
+			return;
+		}
+		toast.success(res.message);
+		onChange("submit", values);
+	}
+
+	async function rotateSecret() {
+		if (!confirm("Rotate the signing secret? The receiver has to use the new secret to verify deliveries.")) {
+			return;
+		}
+		const res = await actions.rotateSecret(id);
+		if (res?.success !== "success") {
+			toast.error(res?.message);
+			return;
+		}
+		toast.success(res.message);
+		setData(res.data);
+	}
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getRecord(id);
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+			form.reset({
+				f_title: res?.data?.title || "",
+				f_url: res?.data?.url || "",
+				f_published: res?.data?.published === true ? "TRUE" : "FALSE",
+				f_events: parseEvents(res?.data?.events),
+			});
+		} else {
+			setData(null);
+		}
+		setLoading(false);
+	}, [form, id]);
+
+	useEffect(() => {
+		if (id) {
+			fetchData();
+		} else {
+			setLoading(false);
+		}
+	}, [fetchData, id]);
+
+	return (
+		<>
+			{loading && <AppLoading />}
+			{!loading && (
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit(onSubmit)}
+						className="w-full space-y-6 pb-15">
+						<FormField
+							control={form.control}
+							name="f_title"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Title</FormLabel>
+									<FormControl>
+										<Input {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="f_url"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Endpoint URL</FormLabel>
+									<FormControl>
+										<Input
+											{...field}
+											placeholder="https://example.com/webhooks/nplatform"
+										/>
+									</FormControl>
+									<FormDescription>Events are sent as a JSON POST. Any 2xx response counts as delivered.</FormDescription>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="f_events"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Events</FormLabel>
+									<div className="grid grid-cols-2 gap-2">
+										{enumWebhookEvents.map((item: any) => (
+											<label
+												key={item.value}
+												className="flex items-center gap-2 text-sm">
+												<Checkbox
+													checked={field.value?.includes(item.value)}
+													onCheckedChange={(checked) => field.onChange(checked ? [...(field.value || []), item.value] : (field.value || []).filter((value: string) => value !== item.value))}
+												/>
+												<span>{item.label}</span>
+												<span className="font-mono text-xs text-gray-500">{item.value}</span>
+											</label>
+										))}
+									</div>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						{data?.secret && (
+							<div className="flex flex-col gap-2">
+								<span className="text-sm font-medium">Signing secret</span>
+								<div className="flex items-center gap-2">
+									<code className="font-mono text-sm break-all rounded-md border px-3 py-2 dark:border-gray-700">{data.secret}</code>
+									<Button
+										type="button"
+										variant="outline"
+										onClick={rotateSecret}>
+										Rotate
+									</Button>
+								</div>
+								<p className="text-sm text-muted-foreground">Each request has an X-Webhook-Signature header: sha256= followed by the HMAC-SHA256 hex of &quot;&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;&quot; keyed with this secret.</p>
+							</div>
+						)}
+						<div className="post_bottom z-10 absolute bottom-0 right-0 flex w-full items-center justify-between space-x-2 border-t bg-white p-4 dark:bg-gray-900 dark:border-gray-700">
+							<FormField
+								control={form.control}
+								name="f_published"
+								render={({ field }) => (
+									<FormItem>
+										{FieldSelect({
+											field,
+											data: enumPublished.map((item: any) => ({
+												id: item.value,
+												name: item.label,
+											})),
+										})}
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type="submit"
+								disabled={!form.formState.isDirty || form.formState.isSubmitting}>
+								Save changes
+							</Button>
+						</div>
+					</form>
+				</Form>
+			)}
+		</>
+	);
+}
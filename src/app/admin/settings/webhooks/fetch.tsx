@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Drawer } from "antd";
+import { CircleCheck, History, Pencil, Plus, Trash, X } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+
+import AppLoading from "@/components/AppLoading";
+import AppTable from "@/components/AppTable";
+import AppTitle from "@/components/AppTitle";
+import { Button } from "@/components/ui/button";
+
+import * as actions from "./actions";
+import Deliveries from "./deliveries";
+import FormEdit from "./edit";
+
+export default function Fetch(props: any) {
+	const { title, breadcrumb } = props;
+	const [open, setOpen] = useState<any>(["", null]);
+	const [db, setDb] = useState<any>([]);
+	const [loading, setLoading] = useState(true);
+	const search = useSearchParams();
+	const query = useMemo(
+		() => ({
+			s: search.get("s") || "",
+			orderBy: search.get("orderBy") || "title",
+		}),
+		[search],
+	);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getAll(query);
+		if (res?.data) {
+			setDb(res);
+			setLoading(false);
+		}
+	}, [query]);
+
+	const deteteRecord = async (id: number) => {
+		if (confirm("Are you sure you want to delete this record?")) {
+			const res = await actions.deleteRecord(id);
+			if (res?.success === "success") {
+				fetchData();
+			}
+		}
+	};
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	return (
+		<>
+			<div className="flex justify-between mb-5">
+				<AppTitle
+					data={title}
+					breadcrumb={breadcrumb}
+				/>
+				<Button onClick={() => setOpen(["create", null])}>
+					<Plus />
+					Create Webhook
+				</Button>
+			</div>
+
+			{loading && <AppLoading />}
+			{!loading && (
+				<AppTable
+					actions={actions}
+					data={db.data}
+					count={db.count}
+					url={`/admin/settings/webhooks`}
+					page={1}
+					pageSize={Math.max(db.count ?? 0, 1)}
+					onChange={(event: string, data: any) => {
+						if (event === "edit") {
+							setOpen([event, data]);
+						}
+						if (event === "delete") {
+							fetchData();
+						}
+					}}
+					columns={[
+						{
+							header: "Title",
+							accessor: "title",
+							custom: (row: any) => {
+								return (
+									<div className="flex items-center space-x-1">
+										{row.published ? (
+											<span className="text-green-800 font-semibold">
+												<CircleCheck className="w-4 h-4" />
+											</span>
+										) : (
+											<span className="text-red-800 font-semibold">
+												<X className="w-4 h-4" />
+											</span>
+										)}
+										<span className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.title}</span>
+									</div>
+								);
+							},
+						},
+						{
+							header: "URL",
+							accessor: "url",
+							custom: (row: any) => {
+								return <span className="font-mono text-xs whitespace-nowrap truncate overflow-ellipsis max-w-xs block">{row.url}</span>;
+							},
+						},
+						{
+							header: "Events",
+							accessor: "events",
+							custom: (row: any) => {
+								return <span className="font-mono text-xs">{(JSON.parse(row.events || "[]") as string[]).join(", ")}</span>;
+							},
+						},
+						{
+							header: "Deliveries",
+							accessor: "_count",
+							custom: (row: any) => {
+								return (
+									<Button
+										size="sm"
+										variant="outline"
+										onClick={() => setOpen(["deliveries", row])}>
+										<History />
+										{row._count?.deliveries ?? 0}
+									</Button>
+								);
+							},
+						},
+						{
+							header: "Edit",
+							accessor: "edit",
+							custom: (row: any) => {
+								return (
+									<Button
+										size="icon"
+										className="hover:bg-gray-900 bg-gray-100 text-sm inline-flex flex-row items-center w-7 h-7 justify-center text-black border border-gray-400 rounded-md hover:text-white hover:border-black"
+										onClick={() => setOpen(["edit", row])}>
+										<Pencil />
+									</Button>
+								);
+							},
+						},
+					]}
+					order={[
+						{
+							value: "title",
+							label: "Order by Title",
+						},
+						{
+							value: "createdAt",
+							label: "Order by Date",
+						},
+					]}
+				/>
+			)}
+			<Drawer
+				title="Create Webhook"
+				placement="right"
+				closable={false}
+				onClose={() => setOpen(["", null])}
+				open={open[0] === "create"}
+				destroyOnClose={true}
+				width={900}
+				maskClosable={false}
+				extra={
+					<Button
+						type="button"
+						onClick={() => setOpen(["", null])}
+						className="hover:bg-gray-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-gray-800 w-8 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg">
+						<X />
+					</Button>
+				}>
+				<FormEdit
+					onChange={(event: string, data: any) => {
+						if (event === "submit") {
+							setOpen(["", null]);
+							fetchData();
+						}
+					}}
+				/>
+			</Drawer>
+			<Drawer
+				maskClosable={false}
+				closable={false}
+				open={open[0] === "edit"}
+				onClose={() => setOpen(["", null])}
+				title="Edit Webhook"
+				placement="right"
+				width={900}
+				destroyOnClose={true}
+				extra={
+					<div className="flex items-center space-x-2">
+						<Button
+							type="button"
+							className="hover:bg-red-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-red-800 px-2 h-8 bg-red-200 font-medium hover:text-black text-black border-2 border-red-400 rounded-lg"
+							onClick={() => {
+								deteteRecord(open[1]?.id);
+								setOpen(["", open[1]]);
+							}}>
+							<Trash /> Delete
+						</Button>
+						<Button
+							type="button"
+							className="hover:bg-gray-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-gray-800 w-8 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg"
+							onClick={() => setOpen(["", null])}>
+							<X />
+						</Button>
+					</div>
+				}>
+				<FormEdit
+					id={open[1]?.id}
+					onChange={(event: string, data: any) => {
+						if (event === "submit") {
+							setOpen(["", null]);
+							fetchData();
+						}
+					}}
+				/>
+			</Drawer>
+			<Drawer
+				maskClosable={false}
+				closable={false}
+				open={open[0] === "deliveries"}
+				onClose={() => setOpen(["", null])}
+				title={`Deliveries: ${open[1]?.title ?? ""}`}
+				placement="right"
+				width={900}
+				destroyOnClose={true}
+				extra={
+					<Button
+						type="button"
+						onClick={() => setOpen(["", null])}
+						className="hover:bg-gray-400 focus:outline-hidden focus:ring-0 text-sm flex flex-row items-center justify-center focus:ring-gray-800 w-8 h-8 bg-gray-200 font-medium text-black border-2 border-gray-400 rounded-lg">
+						<X />
+					</Button>
+				}>
+				<Deliveries id={open[1]?.id} />
+			</Drawer>
+		</>
+	);
+}
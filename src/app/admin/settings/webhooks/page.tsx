@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { can } from "@/lib/permission";
+
+import Fetch from "./fetch";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Webhooks",
+	}),
+};
+
+export default async function Index() {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (checkRole && !can(session?.user, "webhooks", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const breadcrumb = [
+		{
+			title: "Settings",
+			href: "/admin/settings",
+		},
+		{
+			title: "Webhooks",
+			href: "/admin/settings/webhooks",
+		},
+	];
+
+	return (
+		<div className="mx-auto flex-col flex py-5 w-full px-4 sm:px-6">
+			<Fetch
+				title="Webhooks"
+				breadcrumb={breadcrumb}
+			/>
+		</div>
+	);
+}
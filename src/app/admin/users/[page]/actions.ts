@@ -2,13 +2,17 @@
 
 import { render } from "@react-email/render";
 
-import { auth } from "@/auth";
 import WelcomeEmail from "@/email/WelcomeEmail";
-import MailService from "@/lib/email";
+import { authorizeAction } from "@/lib/auth";
+import { queueMail } from "@/lib/email";
+import { userCreateData, userUpdateData } from "@/lib/permission";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("users", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.User.getAllUsers(query);
@@ -28,14 +32,11 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
-	const { id: userId, role } = session?.user || {};
-	if (role !== "ADMIN") {
-		return {
-			success: "error",
-			message: "You are not authorized to delete this user",
-		};
+	const { session, error } = await authorizeAction("users", "delete");
+	if (error) {
+		return error;
 	}
+	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.User.deleteUser(id);
 		return {
@@ -52,10 +53,13 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("users", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
-		const db = await models.User.createUser(data);
+		const db = await models.User.createUser(userCreateData(session?.user, data));
 		return {
 			success: "success",
 			data: db,
@@ -70,13 +74,13 @@ export async function createRecord(data: any) {
 }
 
 export async function updateRecord(id: string, data: any) {
-	const session = await auth();
-	const { id: userId, role } = session?.user || {};
-	if (role !== "ADMIN") {
-		data.role = "USER";
+	const { session, error } = await authorizeAction("users", "update");
+	if (error) {
+		return error;
 	}
+	const { id: userId, role } = session?.user || {};
 	try {
-		const db = await models.User.updateUser(id, data);
+		const db = await models.User.updateUser(id, userUpdateData(session?.user, data));
 		return {
 			success: "success",
 			data: db,
@@ -91,7 +95,10 @@ export async function updateRecord(id: string, data: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("users", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.User.getUserById(id);
@@ -110,7 +117,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("users", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.User.deleteMulti(ids);
@@ -129,10 +139,13 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("users", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
-		const db = await models.User.updateMulti(ids, data);
+		const db = await models.User.updateMulti(ids, userUpdateData(session?.user, data));
 		return {
 			success: "success",
 			data: db,
@@ -146,8 +159,33 @@ export async function updateMultipleRecords(ids: string[], data: any) {
 	}
 }
 
+// Get the custom roles for the role picker
+export async function getRoles() {
+	const { error } = await authorizeAction("roles", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.getAllRoles({ published: true });
+		return {
+			success: "success",
+			data: db,
+			message: "Roles fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching roles",
+		};
+	}
+}
+
 // Send Welcome Email
 export async function sendMail(email: string, name: string) {
+	const { error } = await authorizeAction("users", "create");
+	if (error) {
+		return error;
+	}
 	// sendEmail
 	const Subject = `Welcome to ${process.env.PUBLIC_SITE_NAME ?? ""}'s website`;
 	const emailTemplate = await render(
@@ -157,8 +195,7 @@ export async function sendMail(email: string, name: string) {
 			name: name,
 		}),
 	);
-	const mailService = MailService.getInstance();
-	mailService.sendMail("welcomeEmail", {
+	await queueMail("welcomeEmail", {
 		to: email,
 		subject: Subject,
 		text: emailTemplate || "",
@@ -12,7 +12,9 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useCurrentRole } from "@/hooks/useCurrentRole";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { enumPermission, enumPublished } from "@/lib/enum";
+import { can } from "@/lib/permission";
 import { stringToKeyValue } from "@/lib/utils";
 import { useAppSelector } from "@/store";
 
@@ -23,6 +25,7 @@ export default function FormEdit(props: any) {
 	let FormSchema = z.object({
 		f_email: z.string().email({ message: "Invalid email address." }),
 		f_role: z.enum(enumPermission.map((item: any) => item.value) as [string, ...string[]], { required_error: "Role is required" }).optional(),
+		f_roleId: z.string().optional(),
 		f_published: z.enum(enumPublished.map((item: any) => item.value) as [string, ...string[]], { required_error: "Published is required" }).optional(),
 		f_address: z.string().optional(),
 		f_city: z.string().optional(),
@@ -35,7 +38,11 @@ export default function FormEdit(props: any) {
 	});
 	const { id, onChange } = props;
 	const role = useCurrentRole();
+	const user = useCurrentUser();
+	// Roles are only shown to those allowed to change them
+	const assignRoles = can(user, "users", "assign");
 	const [data, setData] = useState<any>(null);
+	const [roles, setRoles] = useState<any>([]);
 	const [loading, setLoading] = useState(true);
 	// Load the attribute data from the store
 	const attributeData = useAppSelector((state) => state?.attributeState.data);
@@ -63,6 +70,7 @@ export default function FormEdit(props: any) {
 			f_published: "FALSE",
 			f_email: "",
 			f_role: "USER",
+			f_roleId: "none",
 			f_address: "",
 			f_city: "",
 			f_state: "",
@@ -104,6 +112,7 @@ export default function FormEdit(props: any) {
 			emailVerified: new Date(),
 			published: values.f_published === "TRUE" ? true : false,
 			role: values.f_role,
+			roleId: values.f_roleId && values.f_roleId !== "none" ? Number(values.f_roleId) : null,
 			phone: values.f_phone,
 			first_name: values.f_firstname,
 			last_name: values.f_lastname,
@@ -152,6 +161,7 @@ export default function FormEdit(props: any) {
 				f_email: res?.data?.email || "",
 				f_published: res?.data?.published === true ? "TRUE" : "FALSE",
 				f_role: res?.data?.role || "USER",
+				f_roleId: res?.data?.roleId ? String(res.data.roleId) : "none",
 				f_address: res?.data?.address || "",
 				f_city: res?.data?.city || "",
 				f_state: res?.data?.state || "",
@@ -190,6 +200,15 @@ export default function FormEdit(props: any) {
 		}
 	}, [atts, form, id]);
 
+	useEffect(() => {
+		if (!assignRoles) return;
+		actions.getRoles().then((res) => {
+			if (res?.success === "success" && res?.data) {
+				setRoles(res.data);
+			}
+		});
+	}, [assignRoles]);
+
 	useEffect(() => {
 		if (id) {
 			fetchData();
@@ -241,7 +260,10 @@ export default function FormEdit(props: any) {
 								<FormItem>
 									<FormLabel>Email</FormLabel>
 									<FormControl>
-										<Input {...field} />
+										<Input
+											{...field}
+											disabled={!!data && !assignRoles}
+										/>
 									</FormControl>
 									<FormDescription>This is your public display email.</FormDescription>
 									<FormMessage />
@@ -392,7 +414,7 @@ export default function FormEdit(props: any) {
 							</Tabs>
 						)}
 
-						{role === "ADMIN" && (
+						{assignRoles && (
 							<>
 								<FormField
 									control={form.control}
@@ -412,6 +434,27 @@ export default function FormEdit(props: any) {
 										</FormItem>
 									)}
 								/>
+								<FormField
+									control={form.control}
+									name="f_roleId"
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Permission Role</FormLabel>
+											{FieldSelect({
+												field,
+												data: [
+													{ id: "none", name: "None" },
+													...roles.map((item: any) => ({
+														id: String(item.id),
+														name: item.title,
+													})),
+												],
+											})}
+											<FormDescription>Extra permissions granted on top of the role above, managed in Users / Roles.</FormDescription>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
 							</>
 						)}
 						<div className="post_bottom z-10 absolute bottom-0 right-0 flex w-full items-center justify-between space-x-2 border-t bg-white p-4 dark:bg-gray-900 dark:border-gray-700">
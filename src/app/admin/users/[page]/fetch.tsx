@@ -123,7 +123,12 @@ export default function Fetch(props: any) {
 							accessor: "role",
 							custom: (row: any) => {
 								const type = enumPermission.find((item: any) => item.value === row.role);
-								return <span className={`text-sm ${type?.className}`}>{type?.label}</span>;
+								return (
+									<div className="flex flex-col">
+										<span className={`text-sm ${type?.className}`}>{type?.label}</span>
+										{row.permission_role && <span className="text-xs text-gray-500">{row.permission_role.title}</span>}
+									</div>
+								);
 							},
 						},
 						{
@@ -0,0 +1,68 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import models from "@/models";
+
+export async function getAll(query: any) {
+	const { error } = await authorizeAction("apikeys", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ApiKey.getAllApiKeys(query);
+		const dbCount = await models.ApiKey.getApiKeysCount(query);
+		return {
+			data: db,
+			count: dbCount,
+			success: "success",
+			message: "API keys fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching API keys",
+		};
+	}
+}
+
+// Revoke any user's API key
+export async function deleteRecord(id: string) {
+	const { error } = await authorizeAction("apikeys", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ApiKey.revokeApiKey(id);
+		return {
+			success: "success",
+			data: db,
+			message: "API key revoked successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error revoking API key",
+		};
+	}
+}
+
+// Revoke API keys selected in the table
+export async function deleteMultipleRecords(ids: string[]) {
+	const { error } = await authorizeAction("apikeys", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.ApiKey.revokeMulti(ids);
+		return {
+			success: "success",
+			data: db,
+			message: "API keys revoked successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error revoking API keys",
+		};
+	}
+}
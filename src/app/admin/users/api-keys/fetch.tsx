@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Ban } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+
+import AppLoading from "@/components/AppLoading";
+import AppTable from "@/components/AppTable";
+import AppTitle from "@/components/AppTitle";
+import { Button } from "@/components/ui/button";
+import { parsePermissions } from "@/lib/permission";
+import { dateFormat } from "@/lib/utils";
+
+import * as actions from "./actions";
+
+export default function Fetch(props: any) {
+	const { title, breadcrumb } = props;
+	const [db, setDb] = useState<any>([]);
+	const [loading, setLoading] = useState(true);
+	const search = useSearchParams();
+	const query = useMemo(
+		() => ({
+			s: search.get("s") || "",
+			orderBy: search.get("orderBy") || "createdAt",
+		}),
+		[search],
+	);
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getAll(query);
+		if (res?.data) {
+			setDb(res);
+			setLoading(false);
+		}
+	}, [query]);
+
+	const revokeRecord = async (id: string) => {
+		if (confirm("Are you sure you want to revoke this API key?")) {
+			const res = await actions.deleteRecord(id);
+			if (res?.success === "success") {
+				toast.success(res.message);
+				fetchData();
+			} else {
+				toast.error(res?.message);
+			}
+		}
+	};
+
+	useEffect(() => {
+		fetchData();
+	}, [fetchData]);
+
+	return (
+		<>
+			<div className="flex justify-between mb-5">
+				<AppTitle
+					data={title}
+					breadcrumb={breadcrumb}
+				/>
+			</div>
+
+			{loading && <AppLoading />}
+			{!loading && (
+				<AppTable
+					actions={actions}
+					data={db.data}
+					count={db.count}
+					url={`/admin/users/api-keys`}
+					page={1}
+					pageSize={Math.max(db.count ?? 0, 1)}
+					multipleDisable={["publish", "unpublish"]}
+					onChange={(event: string, data: any) => {
+						if (event === "delete") {
+							fetchData();
+						}
+					}}
+					columns={[
+						{
+							header: "Title",
+							accessor: "title",
+							custom: (row: any) => {
+								return (
+									<div className="flex flex-col">
+										<span className="whitespace-nowrap truncate overflow-ellipsis max-w-xs">{row.title}</span>
+										<span className="font-mono text-xs text-gray-500">{row.prefix}…</span>
+									</div>
+								);
+							},
+						},
+						{
+							header: "User",
+							accessor: "user",
+							custom: (row: any) => {
+								return <span className="text-sm">{row.user?.email ?? row.user?.name}</span>;
+							},
+						},
+						{
+							header: "Scopes",
+							accessor: "scopes",
+							custom: (row: any) => {
+								return <span className="text-sm">{parsePermissions(row.scopes).length}</span>;
+							},
+						},
+						{
+							header: "Expires",
+							accessor: "expiresAt",
+							custom: (row: any) => {
+								return <span className="text-sm whitespace-nowrap">{row.expiresAt ? dateFormat(row.expiresAt) : "Never"}</span>;
+							},
+						},
+						{
+							header: "Last used",
+							accessor: "lastUsedAt",
+							custom: (row: any) => {
+								return <span className="text-sm whitespace-nowrap">{row.lastUsedAt ? dateFormat(row.lastUsedAt) : "Never"}</span>;
+							},
+						},
+						{
+							header: "Status",
+							accessor: "revokedAt",
+							custom: (row: any) => {
+								if (row.revokedAt) {
+									return <span className="text-sm text-red-700">Revoked</span>;
+								}
+								if (row.expiresAt && new Date(row.expiresAt).getTime() < Date.now()) {
+									return <span className="text-sm text-yellow-700">Expired</span>;
+								}
+								return <span className="text-sm text-green-700">Active</span>;
+							},
+						},
+						{
+							header: "Revoke",
+							accessor: "revoke",
+							custom: (row: any) => {
+								return (
+									!row.revokedAt && (
+										<Button
+											size="icon"
+											className="hover:bg-red-700 bg-red-100 text-sm inline-flex flex-row items-center w-7 h-7 justify-center text-red-700 border border-red-400 rounded-md hover:text-white hover:border-red-700"
+											onClick={() => revokeRecord(row.id)}>
+											<Ban />
+										</Button>
+									)
+								);
+							},
+						},
+					]}
+					order={[
+						{
+							value: "createdAt",
+							label: "Order by Date",
+						},
+						{
+							value: "lastUsedAt",
+							label: "Order by Last Used",
+						},
+						{
+							value: "title",
+							label: "Order by Title",
+						},
+					]}
+				/>
+			)}
+		</>
+	);
+}
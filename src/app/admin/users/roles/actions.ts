@@ -0,0 +1,148 @@
+"use server";
+
+import { authorizeAction } from "@/lib/auth";
+import models from "@/models";
+
+export async function getAll(query: any) {
+	const { error } = await authorizeAction("roles", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.getAllRoles(query);
+		const dbCount = await models.Role.getRolesCount(query);
+		return {
+			data: db,
+			count: dbCount,
+			success: "success",
+			message: "Roles fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching roles",
+		};
+	}
+}
+
+export async function deleteRecord(id: number) {
+	const { error } = await authorizeAction("roles", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.deleteRole(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Role deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting role",
+		};
+	}
+}
+
+export async function createRecord(data: any) {
+	const { error } = await authorizeAction("roles", "create");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.createRole(data);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Role created successfully" : "Error creating role",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating role",
+		};
+	}
+}
+
+export async function updateRecord(id: number, data: any) {
+	const { error } = await authorizeAction("roles", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.updateRole(id, data);
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? "Role updated successfully" : "Error updating role",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error updating role",
+		};
+	}
+}
+
+export async function getRecord(id: number) {
+	const { error } = await authorizeAction("roles", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.getRoleById(id);
+		return {
+			success: "success",
+			data: db,
+			message: "Role fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching role",
+		};
+	}
+}
+
+// Delete Multiple Records
+export async function deleteMultipleRecords(ids: number[]) {
+	const { error } = await authorizeAction("roles", "delete");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.deleteMulti(ids);
+		return {
+			success: "success",
+			data: db,
+			message: "Roles deleted successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error deleting roles",
+		};
+	}
+}
+
+// Update Multiple Records
+export async function updateMultipleRecords(ids: number[], data: any) {
+	const { error } = await authorizeAction("roles", "update");
+	if (error) {
+		return error;
+	}
+	try {
+		const db = await models.Role.updateMulti(ids, data);
+		return {
+			success: "success",
+			data: db,
+			message: "Roles updated successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error updating roles",
+		};
+	}
+}
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import AppLoading from "@/components/AppLoading";
+import { FieldSelect } from "@/components/fields/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { enumPublished } from "@/lib/enum";
+import { parsePermissions, permissionGroups, permissionKey } from "@/lib/permission";
+
+import * as actions from "./actions";
+
+const FormSchema = z.object({
+	f_title: z.string().min(2, { message: "Title must be at least 2 characters." }),
+	f_content: z.string().optional(),
+	f_published: z.enum(enumPublished.map((item: any) => item.value) as [string, ...string[]], { required_error: "Published is required" }).optional(),
+	f_permissions: z.array(z.string()),
+});
+
+const actionLabels: Record<string, string> = {
+	read: "View",
+	create: "Create",
+	update: "Edit",
+	delete: "Delete",
+	items: "Items & totals",
+	assign: "Roles & passwords",
+	svg: "SVG uploads",
+};
+
+// Matrix rows: one per resource, order status moves on their own row
+const permissionRows = permissionGroups.flatMap(({ resource, actions }) => {
+	const status = actions.filter((action) => action.startsWith("status."));
+	return [{ title: resource, resource, actions: actions.filter((action) => !action.startsWith("status.")) }, ...(status.length > 0 ? [{ title: `${resource} status`, resource, actions: status }] : [])];
+});
+
+export default function FormEdit(props: any) {
+	const { id, onChange } = props;
+	const [data, setData] = useState<any>(null);
+	const [loading, setLoading] = useState(true);
+
+	const form = useForm<z.infer<typeof FormSchema>>({
+		resolver: zodResolver(FormSchema),
+		defaultValues: {
+			f_title: "",
+			f_content: "",
+			f_published: "TRUE",
+			f_permissions: [],
+		},
+	});
+
+	async function onSubmit(values: z.infer<typeof FormSchema>) {
+		const _body = {
+			title: values.f_title,
+			content: values.f_content,
+			published: values.f_published === "TRUE" ? true : false,
+			permissions: values.f_permissions,
+		};
+		const res = data ? await actions.updateRecord(id, _body) : await actions.createRecord(_body);
+		if (res?.success !== "success") {
+			toast.error(res.message);
+			return;
+		}
+		toast.success(res.message);
+		onChange("submit", values);
+	}
+
+	const fetchData = useCallback(async () => {
+		const res = await actions.getRecord(id);
+		if (res?.success === "success" && res?.data) {
+			setData(res.data);
+			form.reset({
+				f_title: res?.data?.title || "",
+				f_content: res?.data?.content || "",
+				f_published: res?.data?.published === true ? "TRUE" : "FALSE",
+				f_permissions: parsePermissions(res?.data?.permissions),
+			});
+		} else {
+			setData(null);
+		}
+		setLoading(false);
+	}, [form, id]);
+
+	useEffect(() => {
+		if (id) {
+			fetchData();
+		} else {
+			setLoading(false);
+		}
+	}, [fetchData, id]);
+
+	return (
+		<>
+			{loading && <AppLoading />}
+			{!loading && (
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit(onSubmit)}
+						className="w-full space-y-6 pb-15">
+						<FormField
+							control={form.control}
+							name="f_title"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Title</FormLabel>
+									<FormControl>
+										<Input {...field} />
+									</FormControl>
+									<FormDescription>For example Packaging, Designer or Quality.</FormDescription>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="f_content"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Description</FormLabel>
+									<FormControl>
+										<Textarea {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="f_permissions"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Permissions</FormLabel>
+									<FormDescription>Granted on top of the built-in role of each user with this role.</FormDescription>
+									<div className="divide-y rounded-md border dark:border-gray-700 dark:divide-gray-700">
+										{permissionRows.map((row) => (
+											<div
+												key={row.title}
+												className="grid grid-cols-4 gap-4 p-3">
+												<span className="text-sm font-semibold capitalize">{row.title}</span>
+												<div className="col-span-3 flex flex-wrap gap-x-5 gap-y-2">
+													{row.actions.map((action) => {
+														const key = permissionKey(row.resource, action);
+														return (
+															<label
+																key={key}
+																className="flex items-center gap-2 text-sm">
+																<Checkbox
+																	checked={field.value?.includes(key)}
+																	onCheckedChange={(checked) => field.onChange(checked ? [...(field.value || []), key] : (field.value || []).filter((value: string) => value !== key))}
+																/>
+																<span className="capitalize">{actionLabels[action] ?? action.replace("status.", "")}</span>
+															</label>
+														);
+													})}
+												</div>
+											</div>
+										))}
+									</div>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<div className="post_bottom z-10 absolute bottom-0 right-0 flex w-full items-center justify-between space-x-2 border-t bg-white p-4 dark:bg-gray-900 dark:border-gray-700">
+							<FormField
+								control={form.control}
+								name="f_published"
+								render={({ field }) => (
+									<FormItem>
+										{FieldSelect({
+											field,
+											data: enumPublished.map((item: any) => ({
+												id: item.value,
+												name: item.label,
+											})),
+										})}
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type="submit"
+								disabled={!form.formState.isDirty || form.formState.isSubmitting}>
+								Save changes
+							</Button>
+						</div>
+					</form>
+				</Form>
+			)}
+		</>
+	);
+}
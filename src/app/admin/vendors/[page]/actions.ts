@@ -2,13 +2,16 @@
 
 import { render } from "@react-email/render";
 
-import { auth } from "@/auth";
 import WelcomeEmail from "@/email/WelcomeEmail";
-import MailService from "@/lib/email";
+import { authorizeAction } from "@/lib/auth";
+import { queueMail } from "@/lib/email";
 import models from "@/models";
 
 export async function getAll(query: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "read");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Customer.getAllCustomers(query);
@@ -28,7 +31,10 @@ export async function getAll(query: any) {
 }
 
 export async function deleteRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "delete");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Customer.deleteCustomer(id);
@@ -46,7 +52,10 @@ export async function deleteRecord(id: string) {
 }
 
 export async function createRecord(data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "create");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Customer.createCustomer(data);
@@ -64,7 +73,10 @@ export async function createRecord(data: any) {
 }
 
 export async function updateRecord(id: string, data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "update");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Customer.updateCustomer(id, data);
@@ -82,7 +94,10 @@ export async function updateRecord(id: string, data: any) {
 }
 
 export async function getRecord(id: string) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "read");
+	if (error) {
+		return error;
+	}
 	const { id: userId, role } = session?.user || {};
 	try {
 		const db = await models.Customer.getCustomerById(id);
@@ -101,7 +116,10 @@ export async function getRecord(id: string) {
 
 // Delete Multiple Records
 export async function deleteMultipleRecords(ids: string[]) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "delete");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Customer.deleteMulti(ids);
@@ -120,7 +138,10 @@ export async function deleteMultipleRecords(ids: string[]) {
 
 // Update Multiple Records
 export async function updateMultipleRecords(ids: string[], data: any) {
-	const session = await auth();
+	const { session, error } = await authorizeAction("vendors", "update");
+	if (error) {
+		return error;
+	}
 	const { id, role } = session?.user || {};
 	try {
 		const db = await models.Customer.updateMulti(ids, data);
@@ -139,6 +160,10 @@ export async function updateMultipleRecords(ids: string[], data: any) {
 
 // Send Welcome Email
 export async function sendMail(email: string, name: string) {
+	const { error } = await authorizeAction("vendors", "create");
+	if (error) {
+		return error;
+	}
 	// sendEmail
 	const Subject = `Welcome to ${process.env.PUBLIC_SITE_NAME ?? ""}'s website`;
 	const emailTemplate = await render(
@@ -148,8 +173,7 @@ export async function sendMail(email: string, name: string) {
 			name: name,
 		}),
 	);
-	const mailService = MailService.getInstance();
-	mailService.sendMail("welcomeEmail", {
+	await queueMail("welcomeEmail", {
 		to: email,
 		subject: Subject,
 		text: emailTemplate || "",
@@ -1,12 +1,14 @@
 import bcrypt from "bcrypt";
 
+import { generateVerificationToken, isTwoFactorLocked, sendTwoFactorCode, sendVerificationEmail, verifyTwoFactorCode } from "@/lib/tokens";
+import { verifyTotpSignIn } from "@/lib/totp";
 import models from "@/models"; // Assuming models.User.signIn maps to getUserByEmail
 
 // Sign in with credentials
 export async function POST(req: Request) {
 	try {
 		// Add a try...catch block for better error handling
-		const { email, password } = await req.json();
+		const { email, password, code } = await req.json();
 
 		// Basic validation
 		if (!email || !password) {
@@ -30,6 +32,41 @@ export async function POST(req: Request) {
 		const isMatch = await bcrypt.compare(password, dbUser.password);
 
 		if (isMatch) {
+			// Block unverified accounts and send a fresh verification link
+			if (!dbUser.emailVerified) {
+				const verificationToken = await generateVerificationToken(dbUser.email ?? email);
+				if (verificationToken) {
+					await sendVerificationEmail(dbUser.email ?? email, verificationToken.token);
+				}
+				return Response.json({ message: "Email not verified", code: "email_not_verified" }, { status: 403 });
+			}
+			// Two factor: ask for the authenticator app code, or email a code first, then check it on the next request
+			// The enrolled authenticator decides, not a flag on the user record
+			const totpCredential = await models.Auth.getTotpCredentialByUserId(dbUser.id);
+			if (totpCredential?.enabledAt || dbUser.isTwoFactorEnabled) {
+				if (totpCredential?.enabledAt) {
+					if (!code) {
+						return Response.json({ message: "Authenticator code required", code: "two_factor_totp_required" }, { status: 403 });
+					}
+					const result = await verifyTotpSignIn(dbUser.id, String(code));
+					if (result !== "valid") {
+						return Response.json({ message: "Invalid authenticator code", code: result === "locked" ? "two_factor_totp_locked" : "two_factor_totp_invalid" }, { status: 403 });
+					}
+				} else {
+					if (!code) {
+						const twoFactorToken = await sendTwoFactorCode(dbUser.email ?? email);
+						if (twoFactorToken && isTwoFactorLocked(twoFactorToken)) {
+							return Response.json({ message: "Too many wrong codes", code: "two_factor_locked" }, { status: 403 });
+						}
+						return Response.json({ message: "Two factor code required", code: "two_factor_required" }, { status: 403 });
+					}
+					const result = await verifyTwoFactorCode(dbUser.email ?? email, String(code));
+					if (result !== "valid") {
+						return Response.json({ message: "Invalid two factor code", code: `two_factor_${result}` }, { status: 403 });
+					}
+				}
+				await models.Auth.createTwoFactorConfirmation(dbUser.id);
+			}
 			// Exclude password from the returned user object
 			const { password: _, ...user } = dbUser; // Use _ to indicate the password variable is intentionally unused
 			// Success: Return the user object nested under 'user' key as expected by auth.config.ts
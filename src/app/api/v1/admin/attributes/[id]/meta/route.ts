@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all Meta
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "read");
+	if (error) {
+		return error;
 	}
 	const currentUser = session;
 	const { id, role } = session?.user || {};
@@ -51,9 +51,9 @@ export async function GET(req: Request) {
 
 // Create meta
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "create");
+	if (error) {
+		return error;
 	}
 	const currentUser = session;
 	const { id, role } = session?.user || {};
@@ -87,9 +87,9 @@ export async function POST(req: Request) {
 
 // Delete meta
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "delete");
+	if (error) {
+		return error;
 	}
 	const currentUser = session;
 	const { id, role } = session?.user || {};
@@ -1,16 +1,16 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // Delete Attribute
 export async function PATCH(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
 
-	if (params && role === "ADMIN") {
+	if (params) {
 		const db = await models.Attribute.deleteAttribute(Number(params));
 		if (session && db) {
 			return new Response(
@@ -33,9 +33,9 @@ export async function PATCH(req: Request) {
 
 // Update Attribute
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
@@ -64,9 +64,9 @@ export async function PUT(req: Request) {
 
 // Get Attribute
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
@@ -94,9 +94,9 @@ export async function GET(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all Mets
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// /[id]/meta
@@ -44,9 +44,9 @@ export async function GET(req: Request) {
 
 // Create meta
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -73,9 +73,9 @@ export async function PUT(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
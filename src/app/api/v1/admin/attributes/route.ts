@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all users
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// QUERY PARAMS
@@ -46,9 +46,9 @@ export async function GET(req: Request) {
 
 // Create Attribute
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "create");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -75,9 +75,9 @@ export async function POST(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("attributes", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all Category
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("categories", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// QUERY PARAMS
@@ -45,9 +45,9 @@ export async function GET(req: Request) {
 
 // Create Category
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("categories", "create");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -74,9 +74,9 @@ export async function POST(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("categories", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -103,9 +103,9 @@ export async function DELETE(req: Request) {
 
 // UPDATE Multiple
 export async function PATCH(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("categories", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -1,16 +1,16 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // Delete Customer
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
 
-	if (params && role === "ADMIN") {
+	if (params) {
 		const db = await models.Customer.deleteCustomer(params);
 		if (session && db) {
 			return new Response(
@@ -33,9 +33,9 @@ export async function DELETE(req: Request) {
 
 // Update Customer
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
@@ -64,9 +64,9 @@ export async function PUT(req: Request) {
 
 // Get Customer
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
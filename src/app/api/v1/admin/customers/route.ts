@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all customers
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// QUERY PARAMS
@@ -44,9 +44,9 @@ export async function GET(req: Request) {
 
 // Create Customer
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "create");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -73,9 +73,9 @@ export async function POST(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -100,9 +100,9 @@ export async function DELETE(req: Request) {
 
 // UPDATE Multiple
 export async function PATCH(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("customers", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -0,0 +1,36 @@
+import { authorize } from "@/lib/auth";
+import { checkFileIntegrity } from "@/lib/files";
+
+// Check a stored file against its checksum
+export async function POST(req: Request) {
+	const { session, error } = await authorize("files", "update");
+	if (error) {
+		return error;
+	}
+	// /[id]/check
+	const params = new URL(req.url).pathname.split("/").slice(-2, -1)[0];
+
+	const db = params ? await checkFileIntegrity(Number(params)).catch(() => null) : null;
+	if (session && db) {
+		return new Response(
+			JSON.stringify({
+				message: db.integrity === "ok" ? "File is intact" : `File is ${db.integrity}`,
+				data: {
+					id: db.id,
+					url: db.url,
+					checksum: db.checksum,
+					integrity: db.integrity,
+					checkedAt: db.checkedAt,
+				},
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+	return Response.json({ message: "Can not check the file" }, { status: 404 });
+}
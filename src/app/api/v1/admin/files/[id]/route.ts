@@ -1,21 +1,24 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
+import { parseTags } from "@/lib/files";
 import models from "@/models";
 
 // Delete File
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("files", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
-	const params = req.url.split("/").pop();
+	const params = new URL(req.url).pathname.split("/").pop();
+	// ?permanent=true skips the trash
+	const permanent = new URL(req.url).searchParams.get("permanent") === "true";
 
-	if (params && role === "ADMIN") {
-		const db = await models.File.deleteFile(Number(params));
+	if (params) {
+		const db = permanent ? await models.File.purgeMulti([Number(params)]) : await models.File.deleteFile(Number(params));
 		if (session && db) {
 			return new Response(
 				JSON.stringify({
-					message: "File deleted successfully",
+					message: permanent ? "File deleted permanently" : "File moved to the trash",
 					data: db,
 					success: "success",
 				}),
@@ -33,16 +36,20 @@ export async function DELETE(req: Request) {
 
 // Update File
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("files", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
-	const body = await req.json();
+	// tags replaces the tags of the file: ["logo", "print"] or "logo, print"
+	const { tags, ...body } = await req.json();
 
 	if (params) {
 		const db = await models.File.updateFile(Number(params), body);
+		if (db && tags !== undefined) {
+			await models.File.setFileTags(db.id, parseTags(tags));
+		}
 		if (session && db) {
 			return new Response(
 				JSON.stringify({
@@ -64,9 +71,9 @@ export async function PUT(req: Request) {
 
 // Get File
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("files", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
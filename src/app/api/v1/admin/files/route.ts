@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all Files
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("files", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// QUERY PARAMS
@@ -15,7 +15,9 @@ export async function GET(req: Request) {
 		take: parseInt(new URL(req.url).searchParams.get("take") ?? "10"),
 		orderBy: new URL(req.url).searchParams.get("orderBy") || "createdAt",
 		filterBy: new URL(req.url).searchParams.get("filterBy") || "",
-		byCat: new URL(req.url).searchParams.get("cat") || "all",
+		// Folder id, "none" for files outside any folder
+		byCat: new URL(req.url).searchParams.get("folder") || new URL(req.url).searchParams.get("cat") || "all",
+		tag: new URL(req.url).searchParams.get("tag") || null,
 		type: new URL(req.url).searchParams.get("type") || null,
 	};
 
@@ -44,9 +46,9 @@ export async function GET(req: Request) {
 
 // Create Files
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("files", "create");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -73,18 +75,20 @@ export async function POST(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("files", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
-	const db = await models.File.deleteMulti(body);
+	// ?permanent=true skips the trash
+	const permanent = new URL(req.url).searchParams.get("permanent") === "true";
+	const db = permanent ? await models.File.purgeMulti(body) : await models.File.deleteMulti(body);
 
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
-				message: "Files deleted successfully",
+				message: permanent ? "Files deleted permanently" : "Files moved to the trash",
 				data: db,
 				success: "success",
 			}),
@@ -0,0 +1,28 @@
+import { authorize } from "@/lib/auth";
+import { getInvoiceDocument, renderInvoicePdf } from "@/lib/invoice";
+
+// Download invoice / packing slip PDF
+export async function GET(req: Request) {
+	const { session, error } = await authorize("orders", "read");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	// /[id]/invoice
+	const params = req.url.split("/").slice(-2, -1)[0];
+	const type = new URL(req.url).searchParams.get("type") === "packing" ? "packing" : "invoice";
+
+	const doc = params ? await getInvoiceDocument(params, type) : null;
+	if (session && doc) {
+		const pdf = await renderInvoicePdf(doc);
+		const filename = `${type}-${doc.number}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+		return new Response(Buffer.from(pdf), {
+			status: 200,
+			headers: {
+				"content-type": "application/pdf",
+				"content-disposition": `attachment; filename="${filename}.pdf"`,
+			},
+		});
+	}
+	return Response.json({ message: "Can not find the data" }, { status: 404 });
+}
@@ -0,0 +1,78 @@
+import { authorize } from "@/lib/auth";
+import { OrderItemError } from "@/lib/order";
+import models from "@/models";
+
+// Update Item
+export async function PUT(req: Request) {
+	const { session, error } = await authorize("orders", "items");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	// /[id]/items/[key]
+	const params = req.url.split("/").pop();
+	const body = await req.json();
+
+	const orderId = req.url.split("/").slice(-3, -2)[0];
+	const item = params ? await models.OrderItem.getOrderItemById(parseInt(params)) : null;
+
+	if (params && item?.orderId === orderId) {
+		let db;
+		try {
+			db = await models.OrderItem.updateOrderItem(parseInt(params), body, id);
+		} catch (error) {
+			if (error instanceof OrderItemError) {
+				return Response.json({ message: error.message }, { status: 422 });
+			}
+			throw error;
+		}
+		if (session && db) {
+			return new Response(
+				JSON.stringify({
+					message: "Item updated successfully",
+					data: db,
+					success: "success",
+				}),
+				{
+					status: 200,
+					headers: {
+						"content-type": "application/json",
+					},
+				},
+			);
+		}
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Delete Item
+export async function DELETE(req: Request) {
+	const { session, error } = await authorize("orders", "items");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	const params = req.url.split("/").pop();
+	const orderId = req.url.split("/").slice(-3, -2)[0];
+	const item = params ? await models.OrderItem.getOrderItemById(parseInt(params)) : null;
+
+	if (params && item?.orderId === orderId) {
+		const db = await models.OrderItem.deleteOrderItem(parseInt(params), id);
+		if (session && db) {
+			return new Response(
+				JSON.stringify({
+					message: "Item deleted successfully",
+					data: db,
+					success: "success",
+				}),
+				{
+					status: 200,
+					headers: {
+						"content-type": "application/json",
+					},
+				},
+			);
+		}
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
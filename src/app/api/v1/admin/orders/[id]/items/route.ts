@@ -0,0 +1,71 @@
+import { authorize } from "@/lib/auth";
+import { OrderItemError } from "@/lib/order";
+import models from "@/models";
+
+// get all Items
+export async function GET(req: Request) {
+	const { session, error } = await authorize("orders", "read");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	// /[id]/items
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	const db = await models.OrderItem.getOrderItemsByOrderID(params);
+
+	if (session) {
+		return new Response(
+			JSON.stringify({
+				message: "Data fetched successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Create Item
+export async function POST(req: Request) {
+	const { session, error } = await authorize("orders", "items");
+	if (error) {
+		return error;
+	}
+	const { id, role } = session?.user || {};
+	const body = await req.json();
+	const params = req.url.split("/").slice(-2, -1)[0];
+	let db;
+	try {
+		db = await models.OrderItem.createOrderItem(params, body, id);
+	} catch (error) {
+		if (error instanceof OrderItemError) {
+			return Response.json({ message: error.message }, { status: 422 });
+		}
+		throw error;
+	}
+	if (session && db) {
+		return new Response(
+			JSON.stringify({
+				message: "Item created successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
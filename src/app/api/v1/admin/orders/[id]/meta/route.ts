@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // get all Mets
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// /[id]/meta
@@ -44,16 +44,16 @@ export async function GET(req: Request) {
 
 // Create meta
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
 	const params = req.url.split("/").slice(-2, -1)[0];
 	// Add the orderId to the body
 	body.orderId = params;
-	const db = await models.OrderMeta.createOrderMeta(body);
+	const db = await models.OrderMeta.createOrderMeta(body, id);
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
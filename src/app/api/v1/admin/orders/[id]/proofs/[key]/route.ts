@@ -0,0 +1,47 @@
+import { authorize, canSetOrderStatus } from "@/lib/auth";
+import { ProofError } from "@/lib/proof";
+import models from "@/models";
+
+// Review Proof, body { status: "approved" | "changes_requested", comment }
+export async function PUT(req: Request) {
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	// /[id]/proofs/[key]
+	const params = req.url.split("/").pop();
+	const body = await req.json();
+
+	const orderId = req.url.split("/").slice(-3, -2)[0];
+	const proof = params ? await models.OrderProof.getProofById(parseInt(params)) : null;
+
+	if (params && proof?.orderId === orderId) {
+		try {
+			// The approval only moves the order into production for those allowed to set that status
+			const advance = await canSetOrderStatus(session?.user, "processing");
+			const db = await models.OrderProof.reviewProof(parseInt(params), body?.status, body?.comment, { userId: id, advance });
+			if (session && db) {
+				return new Response(
+					JSON.stringify({
+						message: "Proof reviewed successfully",
+						data: db,
+						success: "success",
+					}),
+					{
+						status: 200,
+						headers: {
+							"content-type": "application/json",
+						},
+					},
+				);
+			}
+		} catch (error) {
+			if (error instanceof ProofError) {
+				return Response.json({ message: error.message }, { status: 422 });
+			}
+			throw error;
+		}
+	}
+	return Response.json({ message: "Can not update the data" }, { status: 401 });
+}
@@ -0,0 +1,69 @@
+import { authorize } from "@/lib/auth";
+import { ProofError } from "@/lib/proof";
+import models from "@/models";
+
+// get all Proofs
+export async function GET(req: Request) {
+	const { session, error } = await authorize("orders", "read");
+	if (error) {
+		return error;
+	}
+	// /[id]/proofs
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	const db = await models.OrderProof.getProofsByOrderId(params);
+
+	if (session) {
+		return new Response(
+			JSON.stringify({
+				message: "Data fetched successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+
+	return Response.json({ message: "Can not fetch the data" }, { status: 401 });
+}
+
+// Create Proof, body { fileId, note }
+export async function POST(req: Request) {
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	const body = await req.json();
+	const params = req.url.split("/").slice(-2, -1)[0];
+	try {
+		const db = await models.OrderProof.createProof(params, body, id);
+		if (session && db) {
+			return new Response(
+				JSON.stringify({
+					message: "Proof created successfully",
+					data: db,
+					success: "success",
+				}),
+				{
+					status: 200,
+					headers: {
+						"content-type": "application/json",
+					},
+				},
+			);
+		}
+	} catch (error) {
+		if (error instanceof ProofError) {
+			return Response.json({ message: error.message }, { status: 422 });
+		}
+		throw error;
+	}
+
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
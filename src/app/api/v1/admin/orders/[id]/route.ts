@@ -1,16 +1,18 @@
-import { auth } from "@/auth";
+import { authorize, canSetOrderStatus } from "@/lib/auth";
+import { OrderStatusError } from "@/lib/order";
+import { orderStatusDenied } from "@/lib/permission";
 import models from "@/models";
 
 // Delete Order
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
 
-	if (params && role === "ADMIN") {
+	if (params) {
 		const db = await models.Order.deleteOrder(params);
 		if (session && db) {
 			return new Response(
@@ -33,16 +35,27 @@ export async function DELETE(req: Request) {
 
 // Update Order
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
 	const body = await req.json();
 
 	if (params) {
-		const db = await models.Order.updateOrder(params, body);
+		if (!(await canSetOrderStatus(session?.user, body?.status, [params]))) {
+			return Response.json({ message: orderStatusDenied(body.status) }, { status: 403 });
+		}
+		let db;
+		try {
+			db = await models.Order.updateOrder(params, body, id);
+		} catch (error) {
+			if (error instanceof OrderStatusError) {
+				return Response.json({ message: error.message }, { status: 422 });
+			}
+			throw error;
+		}
 		if (session && db) {
 			return new Response(
 				JSON.stringify({
@@ -64,9 +77,9 @@ export async function PUT(req: Request) {
 
 // Get Order
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
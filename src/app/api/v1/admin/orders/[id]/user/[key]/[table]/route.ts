@@ -1,11 +1,11 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
 import models from "@/models";
 
 // Disconect the customer
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const table = req.url.split("/").pop() || "user";
@@ -17,7 +17,7 @@ export async function PUT(req: Request) {
 		return Response.json({ message: "Invalid order or customer ID" }, { status: 400 });
 	}
 
-	const db = await models.Order.disconnectUserFromOrder(orderId, customerId, table);
+	const db = await models.Order.disconnectUserFromOrder(orderId, customerId, table, id);
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
@@ -39,9 +39,9 @@ export async function PUT(req: Request) {
 
 // Connect the customer
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const table = req.url.split("/").pop() || "user";
@@ -53,7 +53,7 @@ export async function POST(req: Request) {
 		return Response.json({ message: "Invalid order or customer ID" }, { status: 400 });
 	}
 
-	const db = await models.Order.connectUserToOrder(orderId, customerId, table);
+	const db = await models.Order.connectUserToOrder(orderId, customerId, table, id);
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
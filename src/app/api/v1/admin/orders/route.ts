@@ -1,11 +1,13 @@
-import { auth } from "@/auth";
+import { authorize, canSetOrderStatus } from "@/lib/auth";
+import { OrderStatusError } from "@/lib/order";
+import { orderStatusDenied } from "@/lib/permission";
 import models from "@/models";
 
 // get all users
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// QUERY PARAMS
@@ -43,13 +45,24 @@ export async function GET(req: Request) {
 
 // Create User
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "create");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
-	const db = await models.Order.createOrder(body);
+	if (!(await canSetOrderStatus(session?.user, body?.status, []))) {
+		return Response.json({ message: orderStatusDenied(body.status) }, { status: 403 });
+	}
+	let db;
+	try {
+		db = await models.Order.createOrder(body, id);
+	} catch (error) {
+		if (error instanceof OrderStatusError) {
+			return Response.json({ message: error.message }, { status: 422 });
+		}
+		throw error;
+	}
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
@@ -71,9 +84,9 @@ export async function POST(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -99,14 +112,29 @@ export async function DELETE(req: Request) {
 
 // UPDATE Multiple
 export async function PATCH(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("orders", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
 	const { ids, ...rest } = body;
-	const db = await models.Order.updateMulti(ids, rest);
+	// Without ids the update would match every order
+	if (!Array.isArray(ids) || ids.length === 0 || ids.some((item) => typeof item !== "string")) {
+		return Response.json({ message: "ids must be a non-empty list of order IDs" }, { status: 400 });
+	}
+	if (!(await canSetOrderStatus(session?.user, rest?.status, ids))) {
+		return Response.json({ message: orderStatusDenied(rest.status) }, { status: 403 });
+	}
+	let db;
+	try {
+		db = await models.Order.updateMulti(ids, rest, id);
+	} catch (error) {
+		if (error instanceof OrderStatusError) {
+			return Response.json({ message: error.message }, { status: 422 });
+		}
+		throw error;
+	}
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
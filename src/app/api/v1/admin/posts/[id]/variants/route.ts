@@ -0,0 +1,103 @@
+import { authorize } from "@/lib/auth";
+import { ProductVariantError } from "@/lib/product";
+import models from "@/models";
+
+// Get the variants of a product
+export async function GET(req: Request) {
+	const { session, error } = await authorize("products", "read");
+	if (error) {
+		return error;
+	}
+	// /[id]/variants
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	const db = await models.ProductVariant.getVariantsByProductId(Number(params));
+
+	if (session) {
+		return new Response(
+			JSON.stringify({
+				message: "Variants fetched successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Generate variants, body is { attribute: { id, title }, groups: [{ id, title, values }], price }
+export async function POST(req: Request) {
+	const { session, error } = await authorize("products", "update");
+	if (error) {
+		return error;
+	}
+	const body = await req.json();
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	if (!Array.isArray(body?.groups)) {
+		return Response.json({ message: "groups is required" }, { status: 400 });
+	}
+	const db = await models.ProductVariant.generateVariants(Number(params), body.attribute ?? {}, body.groups, Number(body.price) || 0);
+	if (session && db) {
+		return new Response(
+			JSON.stringify({
+				message: "Variants generated successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Update the SKU, price, cost and stock of variants, body is an array of { id, ... }
+export async function PUT(req: Request) {
+	const { session, error } = await authorize("products", "update");
+	if (error) {
+		return error;
+	}
+	const body = await req.json();
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	if (!Array.isArray(body)) {
+		return Response.json({ message: "An array of variants is required" }, { status: 400 });
+	}
+	let db;
+	try {
+		db = await models.ProductVariant.saveVariants(Number(params), body, session?.user?.id);
+	} catch (error) {
+		if (error instanceof ProductVariantError) {
+			return Response.json({ message: error.message }, { status: 422 });
+		}
+		throw error;
+	}
+	if (session && db !== null) {
+		return new Response(
+			JSON.stringify({
+				message: "Variants updated successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
@@ -0,0 +1,26 @@
+import { authorize } from "@/lib/auth";
+import { getPurchaseOrderDocument, renderInvoicePdf } from "@/lib/invoice";
+
+// Download the purchase order PDF for the vendor
+export async function GET(req: Request) {
+	const { session, error } = await authorize("purchases", "read");
+	if (error) {
+		return error;
+	}
+	// /[id]/document
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	const doc = params ? await getPurchaseOrderDocument(params) : null;
+	if (session && doc) {
+		const pdf = await renderInvoicePdf(doc);
+		const filename = `purchase-order-${doc.number}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+		return new Response(Buffer.from(pdf), {
+			status: 200,
+			headers: {
+				"content-type": "application/pdf",
+				"content-disposition": `attachment; filename="${filename}.pdf"`,
+			},
+		});
+	}
+	return Response.json({ message: "Can not find the data" }, { status: 404 });
+}
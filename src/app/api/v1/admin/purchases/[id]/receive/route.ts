@@ -0,0 +1,41 @@
+import { authorize } from "@/lib/auth";
+import { PurchaseOrderError } from "@/lib/purchase";
+import models from "@/models";
+
+// Receive delivered units, body is { [itemId]: quantity }
+export async function POST(req: Request) {
+	const { session, error } = await authorize("purchases", "update");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	// /[id]/receive
+	const params = req.url.split("/").slice(-2, -1)[0];
+	const body = await req.json();
+
+	let db;
+	try {
+		db = await models.PurchaseOrder.receivePurchaseOrder(params, body ?? {}, id);
+	} catch (error) {
+		if (error instanceof PurchaseOrderError) {
+			return Response.json({ message: error.message }, { status: 422 });
+		}
+		throw error;
+	}
+	if (session && db) {
+		return new Response(
+			JSON.stringify({
+				message: "Purchase order received successfully",
+				data: db,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
@@ -0,0 +1,99 @@
+import { authorize } from "@/lib/auth";
+import { PurchaseOrderError } from "@/lib/purchase";
+import models from "@/models";
+
+// Delete PurchaseOrder
+export async function DELETE(req: Request) {
+	const { session, error } = await authorize("purchases", "delete");
+	if (error) {
+		return error;
+	}
+	const params = req.url.split("/").pop();
+
+	if (params) {
+		const db = await models.PurchaseOrder.deletePurchaseOrder(params);
+		if (session && db) {
+			return new Response(
+				JSON.stringify({
+					message: "Purchase order deleted successfully",
+					data: db,
+					success: "success",
+				}),
+				{
+					status: 200,
+					headers: {
+						"content-type": "application/json",
+					},
+				},
+			);
+		}
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Update PurchaseOrder: status, note, date_expected and, for drafts, items
+export async function PUT(req: Request) {
+	const { session, error } = await authorize("purchases", "update");
+	if (error) {
+		return error;
+	}
+	const params = req.url.split("/").pop();
+	const body = await req.json();
+
+	if (params) {
+		let db;
+		try {
+			db = await models.PurchaseOrder.updatePurchaseOrder(params, body);
+		} catch (error) {
+			if (error instanceof PurchaseOrderError) {
+				return Response.json({ message: error.message }, { status: 422 });
+			}
+			throw error;
+		}
+		if (session && db) {
+			return new Response(
+				JSON.stringify({
+					message: "Purchase order updated successfully",
+					data: db,
+					success: "success",
+				}),
+				{
+					status: 200,
+					headers: {
+						"content-type": "application/json",
+					},
+				},
+			);
+		}
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Get PurchaseOrder
+export async function GET(req: Request) {
+	const { session, error } = await authorize("purchases", "read");
+	if (error) {
+		return error;
+	}
+	const params = req.url.split("/").pop();
+
+	if (params) {
+		const db = await models.PurchaseOrder.getPurchaseOrderById(params);
+		if (session && db) {
+			return new Response(
+				JSON.stringify({
+					message: "Purchase order fetched successfully",
+					data: db,
+					success: "success",
+				}),
+				{
+					status: 200,
+					headers: {
+						"content-type": "application/json",
+					},
+				},
+			);
+		}
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
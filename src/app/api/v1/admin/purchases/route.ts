@@ -0,0 +1,74 @@
+import { authorize } from "@/lib/auth";
+import models from "@/models";
+
+// get all purchase orders
+export async function GET(req: Request) {
+	const { session, error } = await authorize("purchases", "read");
+	if (error) {
+		return error;
+	}
+	// QUERY PARAMS
+	const query = {
+		s: new URL(req.url).searchParams.get("s") || "",
+		skip: parseInt(new URL(req.url).searchParams.get("skip") ?? "0"),
+		take: parseInt(new URL(req.url).searchParams.get("take") ?? "10"),
+		orderBy: new URL(req.url).searchParams.get("orderBy") || "createdAt",
+		filterBy: new URL(req.url).searchParams.get("status") || "",
+		vendorId: new URL(req.url).searchParams.get("vendorId") || null,
+		orderId: new URL(req.url).searchParams.get("orderId") || null,
+	};
+
+	const count = await models.PurchaseOrder.getPurchaseOrdersCount(query);
+	const db = await models.PurchaseOrder.getAllPurchaseOrders(query);
+
+	if (session) {
+		return new Response(
+			JSON.stringify({
+				message: "Data fetched successfully",
+				data: db,
+				count: count,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
+
+// Generate draft purchase orders from customer orders, body is { orderIds: [] }
+export async function POST(req: Request) {
+	const { session, error } = await authorize("purchases", "create");
+	if (error) {
+		return error;
+	}
+	const { id } = session?.user || {};
+	const body = await req.json();
+
+	if (!Array.isArray(body?.orderIds) || body.orderIds.length === 0) {
+		return Response.json({ message: "orderIds is required" }, { status: 400 });
+	}
+	const db = await models.PurchaseOrder.generatePurchaseOrders(body.orderIds.map(String), id);
+	if (session && db) {
+		return new Response(
+			JSON.stringify({
+				message: `${db.created.length} purchase orders created`,
+				data: db.created,
+				skipped: db.skipped,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
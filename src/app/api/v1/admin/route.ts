@@ -1,11 +1,14 @@
 import { UserRole } from "@prisma/client";
 
-import { currentRole } from "@/lib/auth";
+import { authorize } from "@/lib/auth";
 
 export async function GET() {
-	const role = await currentRole();
+	const { session, error } = await authorize("dashboard", "read");
+	if (error) {
+		return error;
+	}
 
-	if (role === UserRole.ADMIN) {
+	if (session?.user?.role === UserRole.ADMIN) {
 		return Response.json(
 			{ message: "Authorized" },
 			{
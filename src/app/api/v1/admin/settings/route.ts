@@ -1,11 +1,12 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
+import { isValidOrderKey } from "@/lib/order";
 import models from "@/models";
 
 // get all Settings
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("settings", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 
@@ -32,12 +33,15 @@ export async function GET(req: Request) {
 
 // Update Settings
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("settings", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
+	if (typeof body?.order_key === "string" && !isValidOrderKey(body.order_key.trim())) {
+		return Response.json({ message: "Order prefix can only contain letters and numbers and needs at least one letter" }, { status: 422 });
+	}
 	const db = await models.Setting.updateSetting(body);
 
 	if (session && db) {
@@ -0,0 +1,87 @@
+import { authorize } from "@/lib/auth";
+import { abortUpload, completeUpload, getUpload, UploadError, uploadPart, uploadStatus } from "@/lib/chunked";
+
+const json = (message: string, data: any) => {
+	return new Response(
+		JSON.stringify({
+			message,
+			data,
+			success: "success",
+		}),
+		{
+			status: 200,
+			headers: {
+				"content-type": "application/json",
+			},
+		},
+	);
+};
+
+const failed = (error: unknown, message: string) => {
+	if (!(error instanceof UploadError)) {
+		console.error(message, error);
+	}
+	return Response.json({ message: error instanceof UploadError ? error.message : message }, { status: error instanceof UploadError ? error.status : 500 });
+};
+
+// Parts already stored, the client resumes from there
+export async function GET(req: Request) {
+	const { session, error } = await authorize("files", "create");
+	if (error) {
+		return error;
+	}
+	const params = new URL(req.url).pathname.split("/").pop() as string;
+	try {
+		const db = await getUpload(params, session?.user.id as string);
+		return json("Data fetched successfully", uploadStatus(db));
+	} catch (error) {
+		return failed(error, "Can not get the upload");
+	}
+}
+
+// Send one part as the raw request body: PUT /uploads/[id]?part=N
+export async function PUT(req: Request) {
+	const { session, error } = await authorize("files", "create");
+	if (error) {
+		return error;
+	}
+	const params = new URL(req.url).pathname.split("/").pop() as string;
+	const part = Number(new URL(req.url).searchParams.get("part"));
+	try {
+		const body = Buffer.from(await req.arrayBuffer());
+		const db = await uploadPart(params, part, body, { id: session?.user.id as string, role: session?.user.role, permissions: session?.user.permissions });
+		return json(`Part ${part} uploaded`, uploadStatus(db));
+	} catch (error) {
+		return failed(error, `Can not upload part ${part}`);
+	}
+}
+
+// Finish the upload once every part is stored
+export async function POST(req: Request) {
+	const { session, error } = await authorize("files", "create");
+	if (error) {
+		return error;
+	}
+	const params = new URL(req.url).pathname.split("/").pop() as string;
+	try {
+		const db = await completeUpload(params, { id: session?.user.id as string, role: session?.user.role, permissions: session?.user.permissions });
+		return json("File uploaded successfully", db);
+	} catch (error) {
+		return failed(error, "Can not complete the upload");
+	}
+}
+
+// Cancel the upload and drop its parts
+export async function DELETE(req: Request) {
+	const { session, error } = await authorize("files", "create");
+	if (error) {
+		return error;
+	}
+	const params = new URL(req.url).pathname.split("/").pop() as string;
+	try {
+		const db = await abortUpload(params, { id: session?.user.id as string });
+		return json("Upload cancelled", uploadStatus(db));
+	} catch (error) {
+		return failed(error, "Can not cancel the upload");
+	}
+}
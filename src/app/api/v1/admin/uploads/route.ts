@@ -0,0 +1,29 @@
+import { authorize } from "@/lib/auth";
+import { initUpload, UploadError, uploadStatus } from "@/lib/chunked";
+
+// Start a chunked upload, parts are sent to /uploads/[id]?part=N
+export async function POST(req: Request) {
+	const { session, error } = await authorize("files", "create");
+	if (error) {
+		return error;
+	}
+	const body = await req.json().catch(() => ({}));
+	try {
+		const db = await initUpload(body, { id: session?.user.id as string, role: session?.user.role, permissions: session?.user.permissions });
+		return new Response(
+			JSON.stringify({
+				message: "Upload started",
+				data: uploadStatus(db),
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	} catch (error) {
+		return Response.json({ message: error instanceof UploadError ? error.message : "Can not start the upload" }, { status: error instanceof UploadError ? error.status : 500 });
+	}
+}
@@ -1,16 +1,17 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
+import { userUpdateData } from "@/lib/permission";
 import models from "@/models";
 
 // Delete User
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
 
-	if (params && role === "ADMIN") {
+	if (params) {
 		const db = await models.User.deleteUser(params);
 		if (session && db) {
 			return new Response(
@@ -33,16 +34,16 @@ export async function POST(req: Request) {
 
 // Update User
 export async function PUT(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
 	const body = await req.json();
 
 	if (params) {
-		const db = await models.User.updateUser(params, body);
+		const db = await models.User.updateUser(params, userUpdateData(session?.user, body));
 		if (session && db) {
 			return new Response(
 				JSON.stringify({
@@ -64,9 +65,9 @@ export async function PUT(req: Request) {
 
 // Get User
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const params = req.url.split("/").pop();
@@ -1,11 +1,12 @@
-import { auth } from "@/auth";
+import { authorize } from "@/lib/auth";
+import { userCreateData, userUpdateData } from "@/lib/permission";
 import models from "@/models";
 
 // get all users
 export async function GET(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "read");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	// QUERY PARAMS
@@ -43,13 +44,13 @@ export async function GET(req: Request) {
 
 // Create User
 export async function POST(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "create");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
-	const db = await models.User.createUser(body);
+	const db = await models.User.createUser(userCreateData(session?.user, body));
 
 	if (session && db) {
 		return new Response(
@@ -72,9 +73,9 @@ export async function POST(req: Request) {
 
 // DELETE Multiple
 export async function DELETE(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "delete");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
@@ -101,14 +102,14 @@ export async function DELETE(req: Request) {
 
 // UPDATE Multiple
 export async function PATCH(req: Request) {
-	const session = await auth();
-	if (!session) {
-		return Response.json({ message: "Not authenticated" }, { status: 401 });
+	const { session, error } = await authorize("users", "update");
+	if (error) {
+		return error;
 	}
 	const { id, role } = session?.user || {};
 	const body = await req.json();
 	const { ids, ...rest } = body;
-	const db = await models.User.updateMulti(ids, rest);
+	const db = await models.User.updateMulti(ids, userUpdateData(session?.user, rest));
 	if (session && db) {
 		return new Response(
 			JSON.stringify({
@@ -0,0 +1,41 @@
+import { authorize } from "@/lib/auth";
+import models from "@/models";
+
+// get all variants, lowStock lists the ones with at most that many in stock
+export async function GET(req: Request) {
+	const { session, error } = await authorize("products", "read");
+	if (error) {
+		return error;
+	}
+	// QUERY PARAMS
+	const query = {
+		s: new URL(req.url).searchParams.get("s") || "",
+		skip: parseInt(new URL(req.url).searchParams.get("skip") ?? "0"),
+		take: parseInt(new URL(req.url).searchParams.get("take") ?? "10"),
+		orderBy: new URL(req.url).searchParams.get("orderBy") || null,
+		productId: new URL(req.url).searchParams.get("productId") || null,
+		lowStock: new URL(req.url).searchParams.get("lowStock") || null,
+	};
+
+	const count = await models.ProductVariant.getVariantsCount(query);
+	const db = await models.ProductVariant.getAllVariants(query);
+
+	if (session) {
+		return new Response(
+			JSON.stringify({
+				message: "Data fetched successfully",
+				data: db,
+				count: count,
+				success: "success",
+			}),
+			{
+				status: 200,
+				headers: {
+					"content-type": "application/json",
+				},
+			},
+		);
+	}
+
+	return Response.json({ message: "Can not create the data" }, { status: 401 });
+}
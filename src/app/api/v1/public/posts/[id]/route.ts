@@ -7,10 +7,11 @@ export async function GET(req: Request) {
 	if (params) {
 		const db = await models.Post.getPostBySlug(params);
 		if (db) {
+			const variants = await models.File.getFileVariantsByUrls([db.image ?? ""]);
 			return new Response(
 				JSON.stringify({
 					message: "Post fetched successfully",
-					data: db,
+					data: { ...db, imageVariants: variants[db.image ?? ""] ?? null },
 					success: "success",
 				}),
 				{
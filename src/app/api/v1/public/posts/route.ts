@@ -15,7 +15,10 @@ export async function GET(req: Request) {
 	};
 
 	const count = await models.Post.getPostsCount(query);
-	const db = await models.Post.getAllPosts(query);
+	const posts = await models.Post.getAllPosts(query);
+	// Resized copies of the cover images for srcset
+	const variants = await models.File.getFileVariantsByUrls((posts ?? []).map((post: any) => post.image));
+	const db = posts?.map((post: any) => ({ ...post, imageVariants: variants[post.image] ?? null }));
 
 	return new Response(
 		JSON.stringify({
@@ -0,0 +1,241 @@
+"use server";
+
+import bcrypt from "bcrypt";
+import { AuthError, CredentialsSignin } from "next-auth";
+import { z } from "zod";
+
+import { signIn } from "@/auth";
+import { generatePasswordResetToken, generateVerificationToken, isTokenExpired, sendPasswordResetEmail, sendVerificationEmail } from "@/lib/tokens";
+import models from "@/models";
+import { DEFAULT_LOGIN_REDIRECT } from "@/routes";
+
+import { LoginSchema, NewPasswordSchema, RegisterSchema, ResetSchema } from "./schema";
+
+const twoFactorMessages: Record<string, string> = {
+	two_factor_required: "Enter the code we sent to your email.",
+	two_factor_invalid: "Invalid code. Please try again.",
+	two_factor_expired: "Code has expired. Sign in again to receive a new one.",
+	two_factor_locked: "Too many wrong codes. Try again in 15 minutes.",
+	two_factor_totp_required: "Enter the code from your authenticator app or a recovery code.",
+	two_factor_totp_invalid: "Invalid code. Please try again.",
+	two_factor_totp_locked: "Too many wrong codes. Try again in 15 minutes.",
+};
+
+// Sign in with email and password, asking for the emailed code when two factor is enabled
+export async function login(values: z.infer<typeof LoginSchema>) {
+	const validated = LoginSchema.safeParse(values);
+	if (!validated.success) {
+		return {
+			success: "error",
+			message: validated.error.errors[0]?.message ?? "Invalid fields",
+		};
+	}
+	const { email, password, code } = validated.data;
+	try {
+		await signIn("credentials", {
+			email,
+			password,
+			code: code ?? "",
+			redirectTo: DEFAULT_LOGIN_REDIRECT,
+		});
+		return {
+			success: "success",
+			message: "Signed in successfully",
+		};
+	} catch (error) {
+		if (error instanceof CredentialsSignin && error.code === "email_not_verified") {
+			return {
+				success: "error",
+				message: "Please verify your email. A new verification link has been sent.",
+			};
+		}
+		if (error instanceof CredentialsSignin && twoFactorMessages[error.code]) {
+			return {
+				// Expired and locked codes restart from the password step
+				success: ["two_factor_expired", "two_factor_locked", "two_factor_totp_locked"].includes(error.code) ? "error" : "two_factor",
+				message: twoFactorMessages[error.code],
+			};
+		}
+		if (error instanceof AuthError) {
+			return {
+				success: "error",
+				message: error.type === "CredentialsSignin" ? "Invalid email or password" : "Something went wrong",
+			};
+		}
+		// Redirect after a successful sign in
+		throw error;
+	}
+}
+
+// Sign up with email and password, the account stays locked until the email is verified
+export async function register(values: z.infer<typeof RegisterSchema>) {
+	const validated = RegisterSchema.safeParse(values);
+	if (!validated.success) {
+		return {
+			success: "error",
+			message: validated.error.errors[0]?.message ?? "Invalid fields",
+		};
+	}
+	const { name, password } = validated.data;
+	const email = validated.data.email.toLowerCase();
+	try {
+		const existingUser = await models.User.getUserByEmail(email);
+		if (existingUser) {
+			return {
+				success: "error",
+				message: "Email already in use",
+			};
+		}
+		const user = await models.User.createUser({
+			name,
+			email,
+			password: await bcrypt.hash(password, 10),
+			role: "USER",
+		});
+		if (!user) {
+			return {
+				success: "error",
+				message: "Error creating account",
+			};
+		}
+		const verificationToken = await generateVerificationToken(email);
+		if (verificationToken) {
+			await sendVerificationEmail(email, verificationToken.token);
+		}
+		return {
+			success: "success",
+			message: "Account created. Check your email to confirm your address.",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error creating account",
+		};
+	}
+}
+
+// Confirm the email address from the verification link
+export async function newVerification(token: string) {
+	try {
+		const existingToken = token ? await models.Auth.getVerificationTokenByToken(token) : null;
+		if (!existingToken) {
+			return {
+				success: "error",
+				message: "Verification link is invalid or has already been used",
+			};
+		}
+		if (isTokenExpired(existingToken)) {
+			await models.Auth.deleteVerificationToken(existingToken.id);
+			return {
+				success: "error",
+				message: "Verification link has expired. Sign in again to receive a new one.",
+			};
+		}
+		const existingUser = await models.User.getUserByEmail(existingToken.email);
+		if (!existingUser) {
+			return {
+				success: "error",
+				message: "Email does not exist",
+			};
+		}
+		await models.User.updateUser(existingUser.id, {
+			emailVerified: new Date(),
+			email: existingToken.email,
+		});
+		await models.Auth.deleteVerificationToken(existingToken.id);
+		return {
+			success: "success",
+			message: "Email verified. You can now sign in.",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error verifying email",
+		};
+	}
+}
+
+// Request a password reset link; the answer is the same whether the email exists or not
+export async function reset(values: z.infer<typeof ResetSchema>) {
+	const validated = ResetSchema.safeParse(values);
+	if (!validated.success) {
+		return {
+			success: "error",
+			message: validated.error.errors[0]?.message ?? "Invalid email",
+		};
+	}
+	const email = validated.data.email.toLowerCase();
+	try {
+		const existingUser = await models.User.getUserByEmail(email);
+		if (existingUser) {
+			const passwordResetToken = await generatePasswordResetToken(email);
+			if (passwordResetToken) {
+				await sendPasswordResetEmail(email, passwordResetToken.token);
+			}
+		}
+		return {
+			success: "success",
+			message: "If an account exists for this email, a reset link has been sent.",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error sending reset email",
+		};
+	}
+}
+
+// Set a new password from the reset link
+export async function newPassword(values: z.infer<typeof NewPasswordSchema>, token?: string | null) {
+	if (!token) {
+		return {
+			success: "error",
+			message: "Reset link is invalid",
+		};
+	}
+	const validated = NewPasswordSchema.safeParse(values);
+	if (!validated.success) {
+		return {
+			success: "error",
+			message: validated.error.errors[0]?.message ?? "Invalid fields",
+		};
+	}
+	try {
+		const existingToken = await models.Auth.getPasswordResetTokenByToken(token);
+		if (!existingToken) {
+			return {
+				success: "error",
+				message: "Reset link is invalid or has already been used",
+			};
+		}
+		if (isTokenExpired(existingToken)) {
+			await models.Auth.deletePasswordResetToken(existingToken.id);
+			return {
+				success: "error",
+				message: "Reset link has expired. Please request a new one.",
+			};
+		}
+		const existingUser = await models.User.getUserByEmail(existingToken.email);
+		if (!existingUser) {
+			return {
+				success: "error",
+				message: "Email does not exist",
+			};
+		}
+		// The reset link proves ownership of the email, so it also verifies it
+		await models.User.updateUser(existingUser.id, {
+			password: await bcrypt.hash(validated.data.password, 10),
+			emailVerified: existingUser.emailVerified ?? new Date(),
+		});
+		await models.Auth.deletePasswordResetToken(existingToken.id);
+		return {
+			success: "success",
+			message: "Password updated. You can now sign in.",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error updating password",
+		};
+	}
+}
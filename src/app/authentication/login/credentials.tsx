@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Form as FormRoot, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+import { login } from "../actions";
+import { LoginSchema } from "../schema";
+
+export function CredentialsForm() {
+	const [message, setMessage] = useState<{ success: string; message: string } | null>(null);
+	const [showTwoFactor, setShowTwoFactor] = useState(false);
+	const [isPending, startTransition] = useTransition();
+
+	const form = useForm<z.infer<typeof LoginSchema>>({
+		resolver: zodResolver(LoginSchema),
+		defaultValues: {
+			email: "",
+			password: "",
+			code: "",
+		},
+	});
+
+	function onSubmit(values: z.infer<typeof LoginSchema>) {
+		setMessage(null);
+		startTransition(async () => {
+			const res = await login(values);
+			if (!res) return;
+			setMessage(res);
+			if (res.success === "two_factor") {
+				setShowTwoFactor(true);
+				form.setValue("code", "");
+			} else if (res.success === "error") {
+				setShowTwoFactor(false);
+				form.setValue("code", "");
+			}
+		});
+	}
+
+	return (
+		<FormRoot {...form}>
+			<form
+				onSubmit={form.handleSubmit(onSubmit)}
+				className="space-y-4 mb-10">
+				{/* Message */}
+				{message && <div className={message.success === "error" ? "text-red-500 text-sm text-center" : "text-green-600 text-sm text-center"}>{message.message}</div>}
+				{showTwoFactor && (
+					<FormField
+						control={form.control}
+						name="code"
+						render={({ field }) => (
+							<FormItem>
+								<FormControl>
+									<Input
+										{...field}
+										autoComplete="one-time-code"
+										maxLength={11}
+										placeholder="Enter the code"
+										disabled={isPending}
+									/>
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				)}
+				{!showTwoFactor && (
+					<>
+						<FormField
+							control={form.control}
+							name="email"
+							render={({ field }) => (
+								<FormItem>
+									<FormControl>
+										<Input
+											{...field}
+											type="email"
+											placeholder="Enter your email"
+											disabled={isPending}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="password"
+							render={({ field }) => (
+								<FormItem className="flex flex-col">
+									<FormControl>
+										<Input
+											{...field}
+											type="password"
+											placeholder="Enter your password"
+											disabled={isPending}
+										/>
+									</FormControl>
+									<FormMessage />
+									<Link
+										href="/authentication/reset"
+										className="text-xs text-right text-muted-foreground underline-offset-4 hover:underline">
+										Forgot password?
+									</Link>
+								</FormItem>
+							)}
+						/>
+					</>
+				)}
+				<Button
+					type="submit"
+					disabled={isPending}
+					className="w-full dark:bg-gray-900 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-white dark:hover:text-gray-900">
+					{showTwoFactor ? "Confirm" : "Sign in"}
+				</Button>
+			</form>
+		</FormRoot>
+	);
+}
@@ -6,10 +6,11 @@ import { AuthError } from "next-auth";
 import { signIn } from "@/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import { DEFAULT_LOGIN_REDIRECT, SIGNIN_ERROR_URL } from "@/routes";
 
+import { CredentialsForm } from "./credentials";
+
 export async function Form({ className, ...props }: React.ComponentPropsWithoutRef<"div">) {
 	const query = await headers();
 	const { callbackUrl } = { callbackUrl: query.get("x-callbackUrl") ?? "/" };
@@ -43,27 +44,6 @@ export async function Form({ className, ...props }: React.ComponentPropsWithoutR
 		}
 	}
 
-	async function singInCredentialsForm(formData: FormData) {
-		"use server";
-		const email = formData.get("email");
-		const password = formData.get("password");
-		if (!email || !password) {
-			return redirect(`${SIGNIN_ERROR_URL}?error=CredentialsSignin`);
-		}
-		try {
-			(await signIn("credentials", {
-				email,
-				password,
-				redirectTo: DEFAULT_LOGIN_REDIRECT,
-			})) as { user?: { name?: string } };
-		} catch (error) {
-			if (error instanceof AuthError) {
-				return redirect(`${SIGNIN_ERROR_URL}?error=${error.type}`);
-			}
-			throw error;
-		}
-	}
-
 	return (
 		<div
 			className={cn("flex flex-col gap-6", className)}
@@ -78,44 +58,9 @@ export async function Form({ className, ...props }: React.ComponentPropsWithoutR
 					<div className="grid gap-6">
 						<div className="flex flex-col gap-4">
 							{/* Error */}
-							{error && <div className="text-red-500 text-sm text-center">{error === "CredentialsSignin" ? "Invalid email or password" : error === "OAuthAccountNotLinked" ? "Email already exists. Please login with your email and password." : error}</div>}
+							{error && <div className="text-red-500 text-sm text-center">{error === "CredentialsSignin" ? "Invalid email or password" : error === "OAuthAccountNotLinked" ? "Email already exists. Please login with your email and password." : error === "TwoFactorRequired" ? "This account uses two-factor authentication. Please login with your email and password." : error}</div>}
 							{/* Credentials */}
-							<form action={singInCredentialsForm}>
-								<input
-									type="hidden"
-									name="callbackUrl"
-									value={callbackUrl}
-								/>
-								<div className="space-y-4 mb-10">
-									<div className="flex flex-col gap-2">
-										<Input
-											id="email"
-											name="email"
-											type="email"
-											placeholder="Enter your email"
-											className="w-full"
-											required
-										/>
-									</div>
-									<div className="flex flex-col gap-2">
-										<Input
-											id="password"
-											name="password"
-											type="password"
-											placeholder="Enter your password"
-											className="w-full"
-											required
-										/>
-									</div>
-									<div className="flex items-center justify-between">
-										<Button
-											type="submit"
-											className="w-full dark:bg-gray-900 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-white dark:hover:text-gray-900">
-											Sign in
-										</Button>
-									</div>
-								</div>
-							</form>
+							<CredentialsForm />
 							<form action={singInGitHubForm}>
 								<input
 									type="hidden"
@@ -146,6 +91,14 @@ export async function Form({ className, ...props }: React.ComponentPropsWithoutR
 					</div>
 				</CardContent>
 			</Card>
+			<div className="text-center text-sm">
+				Don&apos;t have an account?{" "}
+				<Link
+					href="/authentication/register"
+					className="underline underline-offset-4">
+					Create account
+				</Link>
+			</div>
 			<div className="text-balance text-center text-xs text-muted-foreground [&_a]:underline [&_a]:underline-offset-4 [&_a]:hover:text-primary  ">
 				By clicking continue, you agree to our <Link href="/terms">Terms of Service</Link> and <Link href="/policy">Privacy Policy</Link>.
 			</div>
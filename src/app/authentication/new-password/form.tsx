@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form as FormRoot, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+import { newPassword } from "../actions";
+import { NewPasswordSchema } from "../schema";
+
+export function Form(props: { token: string }) {
+	const { token } = props;
+	const [message, setMessage] = useState<{ success: string; message: string } | null>(token ? null : { success: "error", message: "Reset link is invalid" });
+	const [isPending, startTransition] = useTransition();
+
+	const form = useForm<z.infer<typeof NewPasswordSchema>>({
+		resolver: zodResolver(NewPasswordSchema),
+		defaultValues: {
+			password: "",
+			confirm: "",
+		},
+	});
+
+	function onSubmit(values: z.infer<typeof NewPasswordSchema>) {
+		setMessage(null);
+		startTransition(async () => {
+			const res = await newPassword(values, token);
+			setMessage(res);
+			if (res?.success === "success") {
+				form.reset();
+			}
+		});
+	}
+
+	return (
+		<div className="flex flex-col gap-6">
+			<Card className="dark:bg-gray-800 w-full max-w-sm rounded-lg border border-gray-300 bg-white shadow-md dark:border-gray-700 dark:bg-gray-800">
+				{/* Header */}
+				<CardHeader className="text-center">
+					<CardTitle className="text-xl">Choose a new password</CardTitle>
+					<CardDescription>Enter and confirm your new password</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<FormRoot {...form}>
+						<form
+							onSubmit={form.handleSubmit(onSubmit)}
+							className="space-y-4">
+							{/* Message */}
+							{message && <div className={message.success === "success" ? "text-green-600 text-sm text-center" : "text-red-500 text-sm text-center"}>{message.message}</div>}
+							<FormField
+								control={form.control}
+								name="password"
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												{...field}
+												type="password"
+												placeholder="Enter your new password"
+												disabled={isPending || !token}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="confirm"
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												{...field}
+												type="password"
+												placeholder="Confirm your new password"
+												disabled={isPending || !token}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type="submit"
+								disabled={isPending || !token}
+								className="w-full dark:bg-gray-900 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-white dark:hover:text-gray-900">
+								Update password
+							</Button>
+						</form>
+					</FormRoot>
+				</CardContent>
+			</Card>
+			<div className="text-center text-sm">
+				<Link
+					href="/authentication/login"
+					className="underline underline-offset-4">
+					Back to sign in
+				</Link>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+
+import AppLoading from "@/components/AppLoading";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+import { newVerification } from "../actions";
+
+export function Form(props: { token: string }) {
+	const { token } = props;
+	const [message, setMessage] = useState<{ success: string; message: string } | null>(null);
+	const submitted = useRef(false);
+
+	useEffect(() => {
+		// Tokens are single use, so only submit once (React strict mode runs effects twice)
+		if (submitted.current) return;
+		submitted.current = true;
+		if (!token) {
+			setMessage({ success: "error", message: "Verification link is invalid" });
+			return;
+		}
+		newVerification(token).then((res) => setMessage(res));
+	}, [token]);
+
+	return (
+		<div className="flex flex-col gap-6">
+			<Card className="dark:bg-gray-800 w-full max-w-sm rounded-lg border border-gray-300 bg-white shadow-md dark:border-gray-700 dark:bg-gray-800">
+				{/* Header */}
+				<CardHeader className="text-center">
+					<CardTitle className="text-xl">Verify your email</CardTitle>
+					<CardDescription>Confirming your email address</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{!message && <AppLoading />}
+					{message && <div className={message.success === "success" ? "text-green-600 text-sm text-center" : "text-red-500 text-sm text-center"}>{message.message}</div>}
+				</CardContent>
+			</Card>
+			<div className="text-center text-sm">
+				<Link
+					href="/authentication/login"
+					className="underline underline-offset-4">
+					Back to sign in
+				</Link>
+			</div>
+		</div>
+	);
+}
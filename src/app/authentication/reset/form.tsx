@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form as FormRoot, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+import { reset } from "../actions";
+import { ResetSchema } from "../schema";
+
+export function Form() {
+	const [message, setMessage] = useState<{ success: string; message: string } | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	const form = useForm<z.infer<typeof ResetSchema>>({
+		resolver: zodResolver(ResetSchema),
+		defaultValues: {
+			email: "",
+		},
+	});
+
+	function onSubmit(values: z.infer<typeof ResetSchema>) {
+		setMessage(null);
+		startTransition(async () => {
+			const res = await reset(values);
+			setMessage(res);
+		});
+	}
+
+	return (
+		<div className="flex flex-col gap-6">
+			<Card className="dark:bg-gray-800 w-full max-w-sm rounded-lg border border-gray-300 bg-white shadow-md dark:border-gray-700 dark:bg-gray-800">
+				{/* Header */}
+				<CardHeader className="text-center">
+					<CardTitle className="text-xl">Forgot your password?</CardTitle>
+					<CardDescription>We will email you a link to reset it</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<FormRoot {...form}>
+						<form
+							onSubmit={form.handleSubmit(onSubmit)}
+							className="space-y-4">
+							{/* Message */}
+							{message && <div className={message.success === "success" ? "text-green-600 text-sm text-center" : "text-red-500 text-sm text-center"}>{message.message}</div>}
+							<FormField
+								control={form.control}
+								name="email"
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												{...field}
+												type="email"
+												placeholder="Enter your email"
+												disabled={isPending}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type="submit"
+								disabled={isPending}
+								className="w-full dark:bg-gray-900 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-white dark:hover:text-gray-900">
+								Send reset link
+							</Button>
+						</form>
+					</FormRoot>
+				</CardContent>
+			</Card>
+			<div className="text-center text-sm">
+				<Link
+					href="/authentication/login"
+					className="underline underline-offset-4">
+					Back to sign in
+				</Link>
+			</div>
+		</div>
+	);
+}
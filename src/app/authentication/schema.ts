@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+export const LoginSchema = z.object({
+	email: z.string().email({ message: "Invalid email address." }),
+	password: z.string().min(1, { message: "Password is required." }),
+	code: z.string().optional(),
+});
+
+export const RegisterSchema = z
+	.object({
+		name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+		email: z.string().email({ message: "Invalid email address." }),
+		password: z.string().min(8, { message: "Password must be at least 8 characters." }).max(72, { message: "Password must be less than 72 characters." }),
+		confirm: z.string(),
+	})
+	.refine((data) => data.password === data.confirm, { message: "Passwords do not match.", path: ["confirm"] });
+
+export const ResetSchema = z.object({
+	email: z.string().email({ message: "Invalid email address." }),
+});
+
+export const NewPasswordSchema = z
+	.object({
+		password: z.string().min(8, { message: "Password must be at least 8 characters." }).max(72, { message: "Password must be less than 72 characters." }),
+		confirm: z.string(),
+	})
+	.refine((data) => data.password === data.confirm, { message: "Passwords do not match.", path: ["confirm"] });
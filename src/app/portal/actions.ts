@@ -0,0 +1,102 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { z } from "zod";
+
+import { getPortalCustomer, sendPortalLink, signInWithPortalLink, signOutPortal } from "@/lib/portal";
+import { ProofError } from "@/lib/proof";
+import models from "@/models";
+
+import { PortalLoginSchema } from "./schema";
+
+// Email a sign in link, the answer is the same whether the customer exists or not
+export async function requestLink(values: z.infer<typeof PortalLoginSchema>) {
+	const validated = PortalLoginSchema.safeParse(values);
+	if (!validated.success) {
+		return {
+			success: "error",
+			message: validated.error.errors[0]?.message ?? "Invalid email",
+		};
+	}
+	try {
+		const customer = await models.Customer.getCustomerByEmailInsensitive(validated.data.email.trim());
+		if (customer) {
+			await sendPortalLink(customer);
+		}
+		return {
+			success: "success",
+			message: "If we have orders for this email, a sign in link has been sent.",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error sending sign in link",
+		};
+	}
+}
+
+// Sign in from the emailed link
+export async function verifyLink(token: string) {
+	try {
+		const result = await signInWithPortalLink(token);
+		if (result === "expired") {
+			return {
+				success: "error",
+				message: "Sign in link has expired. Ask for a new one.",
+			};
+		}
+		if (result === "invalid") {
+			return {
+				success: "error",
+				message: "Sign in link is invalid or has already been used",
+			};
+		}
+		return {
+			success: "success",
+			message: "Signed in",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error signing in",
+		};
+	}
+}
+
+export async function signOut() {
+	await signOutPortal();
+	redirect("/portal/login");
+}
+
+// Approve a proof round or request changes with a comment
+export async function reviewProof(id: number, decision: string, comment?: string) {
+	const customer = await getPortalCustomer();
+	if (!customer) {
+		return {
+			success: "error",
+			status: 401,
+			message: "Sign in to review this proof",
+		};
+	}
+	try {
+		const proof = await models.OrderProof.getProofById(id);
+		const order = proof ? await models.Order.getCustomerOrderById(customer.id, proof.orderId) : null;
+		if (!order) {
+			return {
+				success: "error",
+				message: "Proof not found",
+			};
+		}
+		const db = await models.OrderProof.reviewProof(id, decision, comment, { customerId: customer.id, advance: true });
+		return {
+			success: db ? "success" : "error",
+			data: db,
+			message: db ? (decision === "approved" ? "Thank you, the design is approved" : "Thank you, we will send a new proof") : "Error reviewing proof",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: error instanceof ProofError ? error.message : "Error reviewing proof",
+		};
+	}
+}
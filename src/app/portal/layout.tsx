@@ -0,0 +1,39 @@
+import { LogOut } from "lucide-react";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { appState } from "@/lib/appConst";
+import { getPortalCustomer } from "@/lib/portal";
+
+import { signOut } from "./actions";
+
+export default async function PortalLayout({ children }: React.PropsWithChildren) {
+	const customer = await getPortalCustomer();
+	return (
+		<main className="flex min-h-screen flex-col bg-muted">
+			<header className="border-b bg-white dark:border-gray-700 dark:bg-gray-900">
+				<div className="mx-auto flex w-full max-w-4xl items-center justify-between px-4 py-3">
+					<Link
+						href="/portal"
+						className="font-semibold">
+						{appState.appName}
+					</Link>
+					{customer && (
+						<form
+							action={signOut}
+							className="flex items-center gap-3">
+							<span className="text-sm text-gray-500">{customer.name ?? customer.email}</span>
+							<Button
+								type="submit"
+								variant="ghost"
+								size="sm">
+								<LogOut /> Sign out
+							</Button>
+						</form>
+					)}
+				</div>
+			</header>
+			<div className="mx-auto w-full max-w-4xl flex-1 px-4 py-8">{children}</div>
+		</main>
+	);
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form as FormRoot, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+import { requestLink } from "../actions";
+import { PortalLoginSchema } from "../schema";
+
+export function Form() {
+	const [message, setMessage] = useState<{ success: string; message: string } | null>(null);
+	const [isPending, startTransition] = useTransition();
+
+	const form = useForm<z.infer<typeof PortalLoginSchema>>({
+		resolver: zodResolver(PortalLoginSchema),
+		defaultValues: {
+			email: "",
+		},
+	});
+
+	function onSubmit(values: z.infer<typeof PortalLoginSchema>) {
+		setMessage(null);
+		startTransition(async () => {
+			const res = await requestLink(values);
+			setMessage(res);
+		});
+	}
+
+	return (
+		<div className="flex flex-col gap-6">
+			<Card className="dark:bg-gray-800 w-full max-w-sm rounded-lg border border-gray-300 bg-white shadow-md dark:border-gray-700 dark:bg-gray-800">
+				{/* Header */}
+				<CardHeader className="text-center">
+					<CardTitle className="text-xl">Track your orders</CardTitle>
+					<CardDescription>Enter the email you order with and we will send you a sign in link</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<FormRoot {...form}>
+						<form
+							onSubmit={form.handleSubmit(onSubmit)}
+							className="space-y-4">
+							{/* Message */}
+							{message && <div className={message.success === "success" ? "text-green-600 text-sm text-center" : "text-red-500 text-sm text-center"}>{message.message}</div>}
+							<FormField
+								control={form.control}
+								name="email"
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Input
+												{...field}
+												type="email"
+												placeholder="Enter your email"
+												disabled={isPending}
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<Button
+								type="submit"
+								disabled={isPending}
+								className="w-full dark:bg-gray-900 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-white dark:hover:text-gray-900">
+								Send sign in link
+							</Button>
+						</form>
+					</FormRoot>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
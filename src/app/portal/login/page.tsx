@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+
+import { meta } from "@/lib/appConst";
+import { getPortalCustomer } from "@/lib/portal";
+
+import { Form } from "./form";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Sign in to your orders",
+		description: "Get a sign in link to track your orders",
+	}),
+};
+
+export default async function PortalLoginPage() {
+	if (await getPortalCustomer()) {
+		redirect("/portal");
+	}
+	return (
+		<div className="flex flex-col items-center justify-center gap-6 py-10">
+			<div className="flex w-full max-w-sm flex-col gap-6">
+				<Form />
+			</div>
+		</div>
+	);
+}
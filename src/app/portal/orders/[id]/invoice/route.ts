@@ -0,0 +1,28 @@
+import { getInvoiceDocument, renderInvoicePdf } from "@/lib/invoice";
+import { getPortalCustomer } from "@/lib/portal";
+import models from "@/models";
+
+// Download the invoice of an order of the signed in customer
+export async function GET(req: Request) {
+	const customer = await getPortalCustomer();
+	if (!customer) {
+		return Response.json({ message: "Sign in to download the invoice" }, { status: 401 });
+	}
+	// /[id]/invoice
+	const params = req.url.split("/").slice(-2, -1)[0];
+
+	const order = params ? await models.Order.getCustomerOrderById(customer.id, params) : null;
+	const doc = order ? await getInvoiceDocument(order.id, "invoice", "customer") : null;
+	if (doc) {
+		const pdf = await renderInvoicePdf(doc);
+		const filename = `invoice-${doc.number}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+		return new Response(Buffer.from(pdf), {
+			status: 200,
+			headers: {
+				"content-type": "application/pdf",
+				"content-disposition": `attachment; filename="${filename}.pdf"`,
+			},
+		});
+	}
+	return Response.json({ message: "Can not find the data" }, { status: 404 });
+}
@@ -0,0 +1,215 @@
+import { ArrowLeft, FileText, Printer } from "lucide-react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+import AppStatus from "@/components/AppStatus";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { meta } from "@/lib/appConst";
+import { canApproveOrder, formatMoney } from "@/lib/order";
+import { getPortalCustomer } from "@/lib/portal";
+import { ProofStatus, proofStatusLabels } from "@/lib/proof";
+import { convertStringToJson, dateFormat } from "@/lib/utils";
+import models from "@/models";
+
+import Review from "./review";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Order",
+	}),
+};
+
+const eventLabels: Record<string, string> = {
+	created: "Order placed",
+	status_changed: "Status changed",
+	proof_uploaded: "New proof ready",
+	proof_approved: "Proof approved",
+	proof_changes_requested: "Changes requested",
+};
+
+const proofStatusClass: Record<string, string> = {
+	pending: "text-orange-700",
+	approved: "text-green-700",
+	changes_requested: "text-red-700",
+};
+
+export default async function PortalOrderPage({ params }: any) {
+	const customer = await getPortalCustomer();
+	if (!customer) {
+		redirect("/portal/login");
+	}
+	const { id } = await params;
+	const order = await models.Order.getCustomerOrderById(customer.id, id);
+	if (!order) {
+		notFound();
+	}
+
+	return (
+		<div className="flex flex-col gap-8">
+			<div className="flex flex-wrap items-center justify-between gap-3">
+				<div className="flex flex-col gap-1">
+					<Link
+						href="/portal"
+						className="flex items-center gap-1 text-sm text-gray-500">
+						<ArrowLeft className="w-4 h-4" /> My orders
+					</Link>
+					<div className="flex items-center gap-3">
+						<h1 className="text-2xl font-bold">{order.number ?? order.title}</h1>
+						<AppStatus data={order.status} />
+					</div>
+					<div className="text-sm text-gray-500">Placed {dateFormat((order.date_created ?? order.createdAt)?.toString() ?? "")}</div>
+				</div>
+				<Button
+					variant="outline"
+					asChild>
+					<a href={`/portal/orders/${order.id}/invoice`}>
+						<Printer /> Invoice
+					</a>
+				</Button>
+			</div>
+
+			<section className="flex flex-col gap-3 rounded-lg border bg-white p-5 dark:border-gray-700 dark:bg-gray-900">
+				<div className="flex flex-wrap items-center justify-between gap-3">
+					<h2 className="text-lg font-bold">Proofs</h2>
+					{order.date_approved && <span className="text-sm text-green-700">Approved {dateFormat(order.date_approved.toString())}</span>}
+				</div>
+				{order.proofs.length === 0 && <p className="text-sm text-gray-500">Proofs will show here when they are ready for your review.</p>}
+				{order.proofs.map((proof) => (
+					<div
+						key={proof.id}
+						className="flex flex-col gap-3 rounded-md border p-3 md:flex-row dark:border-gray-700">
+						<a
+							href={proof.file?.url ?? "#"}
+							target="_blank"
+							className="flex w-full shrink-0 flex-col gap-2 text-sm md:w-48">
+							{proof.file?.type?.startsWith("image/") ? (
+								<img
+									src={proof.file.url}
+									alt={proof.file.name}
+									className="h-32 w-full rounded object-cover"
+								/>
+							) : (
+								<div className="flex h-32 items-center justify-center rounded bg-gray-50 dark:bg-gray-800">
+									<FileText className="w-8 h-8 text-gray-400" />
+								</div>
+							)}
+							<span className="truncate">{proof.file?.name ?? "File removed"}</span>
+						</a>
+						<div className="flex flex-1 flex-col gap-2 text-sm">
+							<div className="flex flex-wrap items-center gap-2">
+								<span className="font-semibold">Version {proof.version}</span>
+								<span className={proofStatusClass[proof.status] ?? "text-gray-500"}>{proofStatusLabels[proof.status as ProofStatus] ?? proof.status}</span>
+								<span className="text-xs text-gray-500">{dateFormat(proof.createdAt.toString())}</span>
+							</div>
+							{proof.note && <p className="whitespace-pre-line">{proof.note}</p>}
+							{proof.comment && (
+								<p className="whitespace-pre-line rounded bg-gray-50 p-2 dark:bg-gray-800">
+									<span className="font-medium">Your comment: </span>
+									{proof.comment}
+								</p>
+							)}
+							{proof.status === "pending" && canApproveOrder(order.status) && (
+								<Review
+									id={proof.id}
+									version={proof.version}
+								/>
+							)}
+						</div>
+					</div>
+				))}
+			</section>
+
+			<section className="flex flex-col gap-3">
+				<h2 className="text-lg font-bold">Items</h2>
+				<div className="rounded-lg border bg-white dark:border-gray-700 dark:bg-gray-900">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Item</TableHead>
+								<TableHead className="text-right">Qty</TableHead>
+								<TableHead className="text-right">Unit price</TableHead>
+								<TableHead className="text-right">Total</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{order.items.map((item) => {
+								const options = convertStringToJson(item.data ?? "")?.options ?? [];
+								return (
+									<TableRow key={item.id}>
+										<TableCell className="whitespace-normal">
+											<div className="font-medium">{item.title}</div>
+											{options.length > 0 && (
+												<div className="text-xs text-gray-500">
+													{options
+														.filter((option: any) => option.value)
+														.map((option: any) => `${option.title}: ${option.value}`)
+														.join(", ")}
+												</div>
+											)}
+										</TableCell>
+										<TableCell className="text-right">{item.quantity}</TableCell>
+										<TableCell className="text-right">{formatMoney(item.price)}</TableCell>
+										<TableCell className="text-right">{formatMoney(item.total)}</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+						<TableFooter>
+							<TableRow>
+								<TableCell colSpan={3}>Subtotal</TableCell>
+								<TableCell className="text-right">{formatMoney(order.subtotal)}</TableCell>
+							</TableRow>
+							{(order.discount ?? 0) > 0 && (
+								<TableRow>
+									<TableCell colSpan={3}>Discount</TableCell>
+									<TableCell className="text-right">-{formatMoney(order.discount)}</TableCell>
+								</TableRow>
+							)}
+							<TableRow>
+								<TableCell colSpan={3}>Tax ({order.tax_rate ?? 0}%)</TableCell>
+								<TableCell className="text-right">{formatMoney(order.tax)}</TableCell>
+							</TableRow>
+							<TableRow>
+								<TableCell
+									colSpan={3}
+									className="font-bold">
+									Total
+								</TableCell>
+								<TableCell className="text-right font-bold">{formatMoney(order.total)}</TableCell>
+							</TableRow>
+						</TableFooter>
+					</Table>
+				</div>
+			</section>
+
+			<section className="flex flex-col gap-3">
+				<h2 className="text-lg font-bold">Timeline</h2>
+				<ol className="relative border-s border-gray-200 dark:border-gray-700 ms-3">
+					{order.events.map((event) => {
+						const diff = convertStringToJson(event.data ?? "") ?? {};
+						return (
+							<li
+								key={event.id}
+								className="mb-6 ms-6">
+								<span className="absolute -start-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300 dark:border-gray-900 dark:bg-gray-600" />
+								<div className="flex flex-wrap items-center gap-2">
+									<span className="font-semibold">{eventLabels[event.type] ?? event.type}</span>
+									{event.type === "status_changed" && diff?.after?.status && (
+										<AppStatus
+											size="small"
+											data={diff.after.status}
+										/>
+									)}
+									{event.type.startsWith("proof_") && diff?.after?.version && <span className="text-sm text-gray-500">Version {diff.after.version}</span>}
+								</div>
+								<time className="text-xs text-gray-500">{dateFormat(event.createdAt?.toString() ?? "")}</time>
+							</li>
+						);
+					})}
+				</ol>
+			</section>
+		</div>
+	);
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { BadgeCheck, MessageSquareWarning } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+import { reviewProof } from "../../actions";
+
+// Approve the proof round waiting for review or send it back with comments
+export default function Review(props: { id: number; version: number }) {
+	const { id, version } = props;
+	const [changes, setChanges] = useState(false);
+	const [comment, setComment] = useState("");
+	const [isPending, startTransition] = useTransition();
+	const router = useRouter();
+
+	function review(decision: string) {
+		if (decision === "approved" && !confirm(`Approve version ${version}? Production starts from the approved proof.`)) return;
+		startTransition(async () => {
+			const res = await reviewProof(id, decision, comment);
+			if (res?.success !== "success") {
+				toast.error(res?.message);
+				return;
+			}
+			toast.success(res.message);
+			setChanges(false);
+			setComment("");
+			router.refresh();
+		});
+	}
+
+	if (changes) {
+		return (
+			<div className="flex w-full flex-col gap-2">
+				<Textarea
+					value={comment}
+					placeholder="Tell us what to change"
+					disabled={isPending}
+					onChange={(e) => setComment(e.target.value)}
+				/>
+				<div className="flex justify-end gap-2">
+					<Button
+						type="button"
+						variant="outline"
+						disabled={isPending}
+						onClick={() => setChanges(false)}>
+						Cancel
+					</Button>
+					<Button
+						type="button"
+						disabled={isPending || !comment.trim()}
+						onClick={() => review("changes_requested")}>
+						<MessageSquareWarning /> Send changes
+					</Button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex flex-wrap gap-2">
+			<Button
+				type="button"
+				variant="outline"
+				disabled={isPending}
+				onClick={() => setChanges(true)}>
+				<MessageSquareWarning /> Request changes
+			</Button>
+			<Button
+				type="button"
+				disabled={isPending}
+				onClick={() => review("approved")}>
+				<BadgeCheck /> Approve design
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,76 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import AppStatus from "@/components/AppStatus";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { meta } from "@/lib/appConst";
+import { formatMoney } from "@/lib/order";
+import { getPortalCustomer } from "@/lib/portal";
+import { dateFormat } from "@/lib/utils";
+import models from "@/models";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "My orders",
+	}),
+};
+
+export default async function PortalPage() {
+	const customer = await getPortalCustomer();
+	if (!customer) {
+		redirect("/portal/login");
+	}
+	const orders = (await models.Order.getCustomerOrders(customer.id)) ?? [];
+
+	return (
+		<div className="flex flex-col gap-5">
+			<h1 className="text-2xl font-bold">My orders</h1>
+			<div className="rounded-lg border bg-white dark:border-gray-700 dark:bg-gray-900">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Order</TableHead>
+							<TableHead>Status</TableHead>
+							<TableHead>Design</TableHead>
+							<TableHead className="text-right">Total</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{orders.length === 0 && (
+							<TableRow>
+								<TableCell
+									colSpan={4}
+									className="text-center text-gray-500">
+									You have no orders yet.
+								</TableCell>
+							</TableRow>
+						)}
+						{orders.map((order) => (
+							<TableRow key={order.id}>
+								<TableCell>
+									<Link
+										href={`/portal/orders/${order.id}`}
+										className="font-medium underline">
+										{order.number ?? order.title}
+									</Link>
+									<div className="text-xs text-gray-500">
+										{order._count.items} items · {dateFormat((order.date_created ?? order.createdAt)?.toString() ?? "")}
+									</div>
+								</TableCell>
+								<TableCell>
+									<AppStatus
+										size="small"
+										data={order.status}
+									/>
+								</TableCell>
+								<TableCell className="text-sm">{order.date_approved ? <span className="text-green-700">Approved</span> : order._count.proofs > 0 ? <span className="text-orange-700">Waiting for your review</span> : <span className="text-gray-500">-</span>}</TableCell>
+								<TableCell className="text-right font-medium">{formatMoney(order.total)}</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</div>
+		</div>
+	);
+}
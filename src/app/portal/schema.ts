@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const PortalLoginSchema = z.object({
+	email: z.string().email({ message: "Invalid email address." }),
+});
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import AppLoading from "@/components/AppLoading";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+import { verifyLink } from "../actions";
+
+export function Form(props: { token: string }) {
+	const { token } = props;
+	const [message, setMessage] = useState<{ success: string; message: string } | null>(null);
+	const submitted = useRef(false);
+	const router = useRouter();
+
+	useEffect(() => {
+		// Tokens are single use, so only submit once (React strict mode runs effects twice)
+		if (submitted.current) return;
+		submitted.current = true;
+		if (!token) {
+			setMessage({ success: "error", message: "Sign in link is invalid" });
+			return;
+		}
+		verifyLink(token).then((res) => {
+			setMessage(res);
+			if (res.success === "success") {
+				router.replace("/portal");
+			}
+		});
+	}, [token, router]);
+
+	return (
+		<div className="flex flex-col gap-6">
+			<Card className="dark:bg-gray-800 w-full max-w-sm rounded-lg border border-gray-300 bg-white shadow-md dark:border-gray-700 dark:bg-gray-800">
+				{/* Header */}
+				<CardHeader className="text-center">
+					<CardTitle className="text-xl">Signing you in</CardTitle>
+					<CardDescription>Checking your sign in link</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{!message && <AppLoading />}
+					{message && <div className={message.success === "success" ? "text-green-600 text-sm text-center" : "text-red-500 text-sm text-center"}>{message.message}</div>}
+				</CardContent>
+			</Card>
+			<div className="text-center text-sm">
+				<Link
+					href="/portal/login"
+					className="underline underline-offset-4">
+					Ask for a new link
+				</Link>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from "next";
+
+import { meta } from "@/lib/appConst";
+
+import { Form } from "./form";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Sign in",
+		description: "Sign in to your orders",
+	}),
+};
+
+export default async function PortalVerifyPage(props: { searchParams: Promise<{ token?: string }> }) {
+	const { token } = await props.searchParams;
+	return (
+		<div className="flex flex-col items-center justify-center gap-6 py-10">
+			<div className="flex w-full max-w-sm flex-col gap-6">
+				<Form token={token ?? ""} />
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,133 @@
+import { documentParties, InvoiceDocument } from "@/lib/invoice";
+import { formatMoney } from "@/lib/order";
+
+// Printable invoice, packing slip or purchase order
+export default function PrintDocument(props: { doc: InvoiceDocument }) {
+	const { doc } = props;
+	const showPrices = doc.type !== "packing";
+
+	return (
+		<>
+			<div className="mt-6 flex justify-between gap-10 print:mt-0">
+				<div className="space-y-1">
+					{doc.company.logo && (
+						<img
+							src={doc.company.logo}
+							alt={doc.company.name}
+							className="mb-3 max-h-12 max-w-[140px] object-contain"
+						/>
+					)}
+					<div className="text-base font-bold">{doc.company.name}</div>
+					<div className="whitespace-pre-line text-gray-500">{doc.company.address}</div>
+					<div className="whitespace-pre-line text-gray-500">{doc.company.info}</div>
+					{doc.company.phone && <div className="text-gray-500">{doc.company.phone}</div>}
+				</div>
+				<div className="text-right space-y-1">
+					<div className="text-2xl font-bold uppercase">{doc.title}</div>
+					<div>No. {doc.number}</div>
+					<div className="text-gray-500">Date: {doc.date}</div>
+					<div className="text-gray-500 capitalize">Status: {doc.status}</div>
+					{doc.expected && <div className="text-gray-500">Expected: {doc.expected}</div>}
+				</div>
+			</div>
+
+			<div className="mt-10 grid grid-cols-2 gap-10">
+				{documentParties(doc).map((block) => (
+					<div
+						key={block.label}
+						className="space-y-1">
+						<label className="text-xs font-semibold mb-2 uppercase text-gray-500">{block.label}</label>
+						{block.party ? (
+							<>
+								<div className="font-semibold">{block.party.name}</div>
+								{block.party.address.map((line) => (
+									<div key={line}>{line}</div>
+								))}
+								{block.party.email && <div>{block.party.email}</div>}
+								{block.party.phone && <div>{block.party.phone}</div>}
+							</>
+						) : (
+							<div>-</div>
+						)}
+					</div>
+				))}
+			</div>
+
+			<table className="mt-10 w-full">
+				<thead>
+					<tr className="border-b text-xs uppercase text-gray-500">
+						<th className="py-2 text-left">Item</th>
+						<th className="py-2 text-right">Qty</th>
+						{showPrices && (
+							<>
+								<th className="py-2 text-right">{doc.type === "purchase" ? "Unit cost" : "Unit price"}</th>
+								<th className="py-2 text-right">Discount</th>
+								<th className="py-2 text-right">Total</th>
+							</>
+						)}
+					</tr>
+				</thead>
+				<tbody>
+					{doc.items.length === 0 && (
+						<tr>
+							<td
+								colSpan={showPrices ? 5 : 2}
+								className="py-3 text-gray-500">
+								No items
+							</td>
+						</tr>
+					)}
+					{doc.items.map((item, index) => (
+						<tr
+							key={index}
+							className="border-b align-top">
+							<td className="py-2">
+								<div className="font-semibold">{item.title}</div>
+								{item.options && <div className="text-xs text-gray-500">{item.options}</div>}
+							</td>
+							<td className="py-2 text-right">{item.quantity}</td>
+							{showPrices && (
+								<>
+									<td className="py-2 text-right">{formatMoney(item.price)}</td>
+									<td className="py-2 text-right">{item.discount ? `-${formatMoney(item.discount)}` : "-"}</td>
+									<td className="py-2 text-right">{formatMoney(item.total)}</td>
+								</>
+							)}
+						</tr>
+					))}
+				</tbody>
+			</table>
+
+			<div className="mt-6 flex justify-end">
+				{showPrices ? (
+					<div className="w-64 space-y-1">
+						<div className="flex justify-between">
+							<span className="text-gray-500">Subtotal</span>
+							<span>{formatMoney(doc.totals.subtotal)}</span>
+						</div>
+						{doc.totals.discount > 0 && (
+							<div className="flex justify-between">
+								<span className="text-gray-500">Discount</span>
+								<span>-{formatMoney(doc.totals.discount)}</span>
+							</div>
+						)}
+						{doc.type !== "purchase" && (
+							<div className="flex justify-between">
+								<span className="text-gray-500">Tax ({doc.totals.tax_rate}%)</span>
+								<span>{formatMoney(doc.totals.tax)}</span>
+							</div>
+						)}
+						<div className="flex justify-between border-t pt-1 text-base font-bold">
+							<span>Total</span>
+							<span>{formatMoney(doc.totals.total)}</span>
+						</div>
+					</div>
+				) : (
+					<div className="font-bold">Total quantity: {doc.items.reduce((sum, item) => sum + (item.quantity || 0), 0)}</div>
+				)}
+			</div>
+
+			{doc.company.note && <div className="mt-10 whitespace-pre-line text-gray-500">{doc.company.note}</div>}
+		</>
+	);
+}
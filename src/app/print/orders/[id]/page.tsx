@@ -0,0 +1,45 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+
+import PrintDocument from "@/app/print/document";
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { getInvoiceDocument } from "@/lib/invoice";
+import { can } from "@/lib/permission";
+
+import PrintActions from "./print";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Invoice",
+	}),
+};
+
+export default async function Index({ params, searchParams }: any) {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (!session) {
+		redirect("/authentication/login");
+	}
+	if (checkRole && !can(session?.user, "orders", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const { id } = await params;
+	const { type } = await searchParams;
+	const doc = await getInvoiceDocument(id, type === "packing" ? "packing" : "invoice");
+	if (!doc) {
+		notFound();
+	}
+
+	return (
+		<div className="mx-auto max-w-4xl p-8 text-sm text-gray-900 bg-white print:p-0">
+			<PrintActions
+				id={id}
+				type={doc.type}
+			/>
+			<PrintDocument doc={doc} />
+		</div>
+	);
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { Download, Printer } from "lucide-react";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+
+export default function PrintActions(props: any) {
+	const { id, type } = props;
+
+	return (
+		<div className="flex justify-end gap-2 print:hidden">
+			<Button
+				variant="outline"
+				asChild>
+				<Link href={`/print/orders/${id}?type=${type === "packing" ? "invoice" : "packing"}`}>{type === "packing" ? "Invoice" : "Packing slip"}</Link>
+			</Button>
+			<Button
+				variant="outline"
+				asChild>
+				<a href={`/api/v1/admin/orders/${id}/invoice?type=${type}`}>
+					<Download /> PDF
+				</a>
+			</Button>
+			<Button onClick={() => window.print()}>
+				<Printer /> Print
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,41 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+
+import PrintDocument from "@/app/print/document";
+import { auth } from "@/auth";
+import { meta } from "@/lib/appConst";
+import { getPurchaseOrderDocument } from "@/lib/invoice";
+import { can } from "@/lib/permission";
+
+import PrintActions from "./print";
+
+export const metadata: Metadata = {
+	...meta({
+		title: "Purchase Order",
+	}),
+};
+
+export default async function Index({ params }: any) {
+	const session = await auth();
+	const checkRole = session?.user?.role;
+
+	if (!session) {
+		redirect("/authentication/login");
+	}
+	if (checkRole && !can(session?.user, "purchases", "read")) {
+		redirect("/admin/deny");
+	}
+
+	const { id } = await params;
+	const doc = await getPurchaseOrderDocument(id);
+	if (!doc) {
+		notFound();
+	}
+
+	return (
+		<div className="mx-auto max-w-4xl p-8 text-sm text-gray-900 bg-white print:p-0">
+			<PrintActions id={id} />
+			<PrintDocument doc={doc} />
+		</div>
+	);
+}
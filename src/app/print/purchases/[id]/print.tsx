@@ -0,0 +1,24 @@
+"use client";
+
+import { Download, Printer } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+export default function PrintActions(props: any) {
+	const { id } = props;
+
+	return (
+		<div className="flex justify-end gap-2 print:hidden">
+			<Button
+				variant="outline"
+				asChild>
+				<a href={`/api/v1/admin/purchases/${id}/document`}>
+					<Download /> PDF
+				</a>
+			</Button>
+			<Button onClick={() => window.print()}>
+				<Printer /> Print
+			</Button>
+		</div>
+	);
+}
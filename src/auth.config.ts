@@ -10,11 +10,25 @@ import { z } from "zod";
 const FormSchema = z.object({
 	email: z.string({ required_error: "Email is required" }).min(1, "Email is required").email("Invalid email"),
 	password: z.string({ required_error: "Password is required" }).min(1, "Password is required"),
+	code: z.string().optional(),
 	// You might remove min/max length checks here if you prefer the API to handle all validation
 	// .min(8, "Password must be more than 8 characters")
 	// .max(32, "Password must be less than 32 characters"),
 });
 
+// Thrown when the password matches but the email has not been verified yet
+export class EmailNotVerified extends CredentialsSignin {
+	code = "email_not_verified";
+}
+
+// Thrown when a two factor code is required, wrong, expired or locked
+export class TwoFactorError extends CredentialsSignin {
+	constructor(code: string, message?: string) {
+		super(message);
+		this.code = code;
+	}
+}
+
 export default {
 	providers: [
 		GitHub({
@@ -36,7 +50,7 @@ export default {
 				// credentials type is any, which is okay here
 				try {
 					// 1. Validate input using Zod
-					const { email, password } = await FormSchema.parseAsync(credentials);
+					const { email, password, code } = await FormSchema.parseAsync(credentials);
 
 					// 2. Call your custom sign-in API endpoint
 					// Ensure PUBLIC_SITE_URL is correctly set in your environment variables
@@ -48,12 +62,18 @@ export default {
 						headers: {
 							"Content-Type": "application/json",
 						},
-						body: JSON.stringify({ email, password }),
+						body: JSON.stringify({ email, password, code }),
 					});
 
 					const responseBody = await res.json();
 
 					// 3. Check the response from your API
+					if (responseBody.code === "email_not_verified") {
+						throw new EmailNotVerified(responseBody.message);
+					}
+					if (typeof responseBody.code === "string" && responseBody.code.startsWith("two_factor_")) {
+						throw new TwoFactorError(responseBody.code, responseBody.message);
+					}
 					if (!res.ok || !responseBody.user) {
 						// Log the error message from the API if available
 						console.error("API Sign-in failed:", responseBody.message || `Status code: ${res.status}`);
@@ -3,9 +3,11 @@ import { render } from "@react-email/render";
 import NextAuth from "next-auth";
 
 import WelcomeEmail from "@/email/WelcomeEmail";
-import { db } from "@/lib/db";
-import MailService from "@/lib/email";
+import { queueMail } from "@/lib/email";
+import { enrollmentPermissions, parsePermissions, resolvePermissions } from "@/lib/permission";
+import { requiresTotp } from "@/lib/totp";
 import models from "@/models";
+import { SIGNIN_ERROR_URL } from "@/routes";
 
 import "next-auth/jwt";
 
@@ -43,8 +45,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
 							name: user.name!,
 						}),
 					);
-					const mailService = MailService.getInstance();
-					mailService.sendMail("welcomeEmail", {
+					await queueMail("welcomeEmail", {
 						to: user.email!,
 						subject: Subject,
 						text: emailTemplate || "",
@@ -52,15 +53,6 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
 					});
 				}
 				if (existingUser && !existingUser?.emailVerified) return;
-				if (existingUser?.isTwoFactorEnabled) {
-					const twoFactorConfirmation = await models.Auth.getTwoFactorConfirmationByUserId(existingUser?.id);
-					if (!twoFactorConfirmation) return;
-					await db.twoFactorConfirmation.delete({
-						where: {
-							id: twoFactorConfirmation.id,
-						},
-					});
-				}
 				// IF exits user update avatar
 				if (existingUser && user.image) {
 					await models.User.updateUser(existingUser?.id, {
@@ -73,6 +65,27 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
 		},
 	},
 	callbacks: {
+		async signIn({ user, account }) {
+			const existingUser = await models.User.getUserByEmail(user?.email || "");
+			// OAuth can not ask for a second factor, accounts protected by one (or whose role requires one) sign in with email and password
+			if (account?.provider !== "credentials") {
+				if (!existingUser) return true;
+				const totpCredential = await models.Auth.getTotpCredentialByUserId(existingUser.id);
+				if (existingUser.isTwoFactorEnabled || totpCredential?.enabledAt || requiresTotp(existingUser.role)) {
+					return `${SIGNIN_ERROR_URL}?error=TwoFactorRequired`;
+				}
+				return true;
+			}
+			if (!existingUser?.emailVerified) return false;
+			const totpCredential = await models.Auth.getTotpCredentialByUserId(existingUser.id);
+			if (existingUser.isTwoFactorEnabled || totpCredential?.enabledAt) {
+				// The sign in API leaves a confirmation once the code was checked, each one is good for a single sign in
+				const twoFactorConfirmation = await models.Auth.getTwoFactorConfirmationByUserId(existingUser.id);
+				if (!twoFactorConfirmation) return false;
+				await models.Auth.deleteTwoFactorConfirmation(twoFactorConfirmation.id);
+			}
+			return true;
+		},
 		async authorized({ request, auth }) {
 			// console.log("Authorized callback:", auth?.user?.role);
 			const { pathname } = request.nextUrl;
@@ -85,6 +98,12 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
 				token.id = existingUser.id;
 				token.isTwoFactorEnabled = existingUser.isTwoFactorEnabled;
 				token.role = existingUser.role;
+				const customRole = existingUser.roleId ? await models.Role.getRoleById(existingUser.roleId) : null;
+				token.roleId = customRole?.published ? customRole.id : null;
+				// Roles that must use an authenticator app can only reach their account until it is enrolled
+				const totpCredential = requiresTotp(existingUser.role) ? await models.Auth.getTotpCredentialByUserId(existingUser.id) : null;
+				token.totpRequired = requiresTotp(existingUser.role) && !totpCredential?.enabledAt;
+				token.permissions = token.totpRequired ? enrollmentPermissions : resolvePermissions(existingUser.role, customRole?.published ? parsePermissions(customRole.permissions) : []);
 			}
 			return token;
 		},
@@ -94,6 +113,9 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
 				session.user.role = token.role as UserRole;
 				session.user.id = token.id as string;
 				session.user.isTwoFactorEnabled = token.isTwoFactorEnabled as boolean;
+				session.user.roleId = token.roleId ?? null;
+				session.user.permissions = token.permissions ?? [];
+				session.user.totpRequired = token.totpRequired ?? false;
 			}
 			return session;
 		},
@@ -110,5 +132,8 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
 	interface JWT {
 		accessToken?: string;
+		roleId?: number | null;
+		permissions?: string[];
+		totpRequired?: boolean;
 	}
 }
@@ -4,9 +4,10 @@ import { useEffect, useState } from "react";
 import Image from "next/image";
 
 import { appState } from "@/lib/appConst";
+import { variantLoader } from "@/lib/variants";
 
 export default function AppImage(props: any) {
-	const { src, alt, className, width, height, id } = props;
+	const { src, alt, className, width, height, id, sizes, variants } = props;
 	const [imgSrc, setImgSrc] = useState(src);
 
 	useEffect(() => {
@@ -31,6 +32,8 @@ export default function AppImage(props: any) {
 			className={`object-cover ${className}`}
 			width={width}
 			height={height}
+			sizes={sizes}
+			loader={imgSrc === src ? variantLoader(variants) : undefined}
 		/>
 	);
 }
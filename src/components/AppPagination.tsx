@@ -8,7 +8,10 @@ import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, Pagi
 const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; pageSize: string; currentPage: number; url: string }) => {
 	const searchParams = useSearchParams();
 	const pagesCount = Math.ceil(items / Number(pageSize));
-	const s = searchParams.get("s") || "";
+	// Keep the search, order and filters when changing page
+	const params = new URLSearchParams(searchParams.toString());
+	params.set("s", searchParams.get("s") || "");
+	const query = params.toString();
 	if (pagesCount === 1) return null;
 	const pages = Array.from({ length: pagesCount }, (_, i) => i + 1);
 	return (
@@ -18,7 +21,7 @@ const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; p
 					{pagesCount > 3 && currentPage > 1 && (
 						<PaginationItem>
 							<PaginationLink
-								href={`${url}?s=${s}`}
+								href={`${url}?${query}`}
 								className="bg-gray-100 rounded hover:bg-black hover:text-white  dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-600 dark:hover:text-gray-100">
 								<ChevronsLeft />
 							</PaginationLink>
@@ -27,7 +30,7 @@ const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; p
 					{pagesCount > 3 && currentPage > 1 && (
 						<PaginationItem>
 							<PaginationLink
-								href={`${url}/${currentPage - 1}?s=${s}`}
+								href={`${url}/${currentPage - 1}?${query}`}
 								className="bg-gray-100 rounded hover:bg-black hover:text-white  dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-600 dark:hover:text-gray-100">
 								<ChevronLeft />
 							</PaginationLink>
@@ -57,7 +60,7 @@ const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; p
 									key={index}>
 									<PaginationLink
 										className={`${page == currentPage ? "bg-black text-white hover:bg-black hover:text-white dark:bg-gray-500 dark:text-gray-100 dark:hover:bg-gray-500 dark:hover:text-gray-100" : "bg-gray-100 rounded"}`}
-										href={`${url}/${page}?s=${s}`}>
+										href={`${url}/${page}?${query}`}>
 										{page}
 									</PaginationLink>
 								</PaginationItem>
@@ -67,7 +70,7 @@ const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; p
 							return (
 								<PaginationItem key={index}>
 									<PaginationLink
-										href={`${url}/${page}?s=${s}`}
+										href={`${url}/${page}?${query}`}
 										className="bg-gray-100 rounded hover:bg-black hover:text-white  dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-600 dark:hover:text-gray-100">
 										{page}
 									</PaginationLink>
@@ -79,7 +82,7 @@ const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; p
 					{pagesCount > 3 && currentPage < pagesCount && (
 						<PaginationItem>
 							<PaginationLink
-								href={`${url}/${currentPage + 1}?s=${s}`}
+								href={`${url}/${currentPage + 1}?${query}`}
 								className="bg-gray-100 rounded hover:bg-black hover:text-white  dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-600 dark:hover:text-gray-100">
 								<ChevronRight />
 							</PaginationLink>
@@ -88,7 +91,7 @@ const AppPagination = ({ items, pageSize, currentPage, url }: { items: number; p
 					{pagesCount > 3 && currentPage < pagesCount && (
 						<PaginationItem>
 							<PaginationLink
-								href={`${url}/${pagesCount}?s=${s}`}
+								href={`${url}/${pagesCount}?${query}`}
 								className="bg-gray-100 rounded hover:bg-black hover:text-white  dark:bg-gray-800 dark:text-gray-100 dark:hover:bg-gray-600 dark:hover:text-gray-100">
 								<ChevronsRight />
 							</PaginationLink>
@@ -0,0 +1,25 @@
+// Progress of the files being uploaded, by file name from 0 to 1
+export default function AppProgress(props: { items: Record<string, number> }) {
+	const { items } = props;
+
+	return (
+		<div className="flex flex-col gap-2 w-full">
+			{Object.entries(items).map(([name, progress]) => (
+				<div
+					key={name}
+					className="flex flex-col gap-1">
+					<div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+						<span className="truncate">{name}</span>
+						<span>{Math.round(progress * 100)}%</span>
+					</div>
+					<div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+						<div
+							className="h-full bg-primary transition-all"
+							style={{ width: `${Math.round(progress * 100)}%` }}
+						/>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
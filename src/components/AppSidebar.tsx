@@ -10,8 +10,9 @@ import { z } from "zod";
 
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Sidebar, SidebarContent, SidebarFooter, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarHeader, SidebarInput, SidebarInset, SidebarMenu, SidebarMenuButton, SidebarMenuItem, SidebarMenuSub, SidebarMenuSubButton, SidebarMenuSubItem } from "@/components/ui/sidebar";
-import { useCurrentRole } from "@/hooks/useCurrentRole";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { appState, FooterItems, MenuItems } from "@/lib/appConst";
+import { can } from "@/lib/permission";
 import { useAppSelector } from "@/store";
 
 const FormSchema = z.object({
@@ -23,7 +24,7 @@ const FormSchema = z.object({
 export function AppSidebar() {
 	const router = useRouter();
 	const pathname = usePathname();
-	const role = useCurrentRole();
+	const user = useCurrentUser();
 	const _state = useAppSelector((state) => state.appState) as { title?: string };
 	const form = useForm<z.infer<typeof FormSchema>>({
 		resolver: zodResolver(FormSchema),
@@ -94,7 +95,7 @@ export function AppSidebar() {
 						<SidebarMenu>
 							{MenuItems.map((item: any) => (
 								<Fragment key={item.title}>
-									{role && (item?.role ?? []).includes(role) && (
+									{user && (!item?.resource || can(user, item.resource, "read")) && (
 										<SidebarMenuItem>
 											<SidebarMenuButton
 												asChild
@@ -108,21 +109,23 @@ export function AppSidebar() {
 											</SidebarMenuButton>
 											{item.items?.length ? (
 												<SidebarMenuSub>
-													{item.items.map((item: any) => (
-														<SidebarMenuSubItem key={item.title}>
-															<SidebarMenuSubButton
-																asChild
-																isActive={checkActiveMenu(item)}
-																onClick={() => router.push(item.url)}>
-																<div
-																	className="cursor-pointer"
+													{item.items
+														.filter((item: any) => !item?.resource || can(user, item.resource, "read"))
+														.map((item: any) => (
+															<SidebarMenuSubItem key={item.title}>
+																<SidebarMenuSubButton
+																	asChild
+																	isActive={checkActiveMenu(item)}
 																	onClick={() => router.push(item.url)}>
-																	<item.icon />
-																	<span>{item.title}</span>
-																</div>
-															</SidebarMenuSubButton>
-														</SidebarMenuSubItem>
-													))}
+																	<div
+																		className="cursor-pointer"
+																		onClick={() => router.push(item.url)}>
+																		<item.icon />
+																		<span>{item.title}</span>
+																	</div>
+																</SidebarMenuSubButton>
+															</SidebarMenuSubItem>
+														))}
 												</SidebarMenuSub>
 											) : null}
 										</SidebarMenuItem>
@@ -139,7 +142,7 @@ export function AppSidebar() {
 					<SidebarMenu>
 						{FooterItems.map((item: any) => (
 							<Fragment key={item.title}>
-								{role && (item?.role ?? []).includes(role) && (
+								{user && (!item?.resource || can(user, item.resource, "read")) && (
 									<SidebarMenuItem>
 										<SidebarMenuButton asChild>
 											<div
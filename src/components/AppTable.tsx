@@ -24,7 +24,7 @@ export default function AppTable(props: any) {
 	const [open, setOpen] = useState(false);
 	const [openorder, setOpenOrder] = useState(false);
 	const [value, setValue] = useState("");
-	const { data, columns, count, page, pageSize, url, onChange, multipleDisable, actions } = props;
+	const { data, columns, count, page, pageSize, url, onChange, multipleDisable, actions, bulkActions } = props;
 	const searchVal = useSearchParams();
 	const query = {
 		take: Number(pageSize),
@@ -33,6 +33,7 @@ export default function AppTable(props: any) {
 		orderBy: searchVal.get("orderBy") || "id",
 		filterBy: searchVal.get("filterBy") || "",
 		cat: searchVal.get("cat") || "",
+		tag: searchVal.get("tag") || "",
 	};
 
 	const checlAll: ColumnDef<any> = {
@@ -116,13 +117,13 @@ export default function AppTable(props: any) {
 
 	const doFilterBy = (filter: string) => {
 		if (filter) {
-			window.location.href = `${url}?s=${query.s}&orderBy=${query.orderBy}&filterBy=${filter}&cat=${query.cat}&skip=${query.skip}&take=${query.take}`;
+			window.location.href = `${url}?s=${query.s}&orderBy=${query.orderBy}&filterBy=${filter}&cat=${query.cat}&tag=${query.tag}&skip=${query.skip}&take=${query.take}`;
 		}
 	};
 
 	const doOrderBy = (order: string) => {
 		if (order) {
-			window.location.href = `${url}?s=${query.s}&orderBy=${order}&filterBy=${query.filterBy}&cat=${query.cat}&skip=${query.skip}&take=${query.take}`;
+			window.location.href = `${url}?s=${query.s}&orderBy=${order}&filterBy=${query.filterBy}&cat=${query.cat}&tag=${query.tag}&skip=${query.skip}&take=${query.take}`;
 		}
 	};
 
@@ -147,6 +148,21 @@ export default function AppTable(props: any) {
 		}
 	};
 
+	// Extra actions on the selected rows, e.g. [{ label: "Move to folder", onClick: (ids) => ... }]
+	const runBulkAction = async (action: { onClick: (ids: string[]) => any }) => {
+		const arrayID: string[] = [];
+		Object.keys(rowSelection).forEach((key) => {
+			const row = table.getRowModel().rowsById[key];
+			if (row) {
+				const originalRow = row.original as { id: string };
+				arrayID.push(originalRow.id);
+			}
+		});
+		if ((await action.onClick(arrayID)) !== false) {
+			setRowSelection({});
+		}
+	};
+
 	const publishSelected = async (rowSelection: any, all: boolean = false) => {
 		if (confirm("Are you sure you want to unpublish this record?")) {
 			const arrayID: string[] = [];
@@ -233,6 +249,17 @@ export default function AppTable(props: any) {
 											Publish
 										</DropdownMenuItem>
 									)}
+									{(bulkActions ?? []).map((action: any) => (
+										<DropdownMenuItem
+											key={action.label}
+											className="capitalize"
+											onClick={() => {
+												runBulkAction(action);
+											}}
+											disabled={Object.keys(rowSelection).length === 0}>
+											{action.label}
+										</DropdownMenuItem>
+									))}
 								</DropdownMenuContent>
 							</DropdownMenu>
 						)}
@@ -1,6 +1,7 @@
 "use server";
 
 import { auth } from "@/auth";
+import { authorizeAction } from "@/lib/auth";
 import models from "@/models";
 
 export async function searchAttribute(attributeId: string, s: string) {
@@ -43,3 +44,45 @@ export async function getAttribute(attributeId: number, value: string) {
 		};
 	}
 }
+
+// Files of the media library for the pickers, browsed by folder and tag
+export async function getLibrary(query: any) {
+	const { error } = await authorizeAction("files", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const [db, count] = await Promise.all([models.File.getAllFiles(query), models.File.getFilesCount(query)]);
+		return {
+			data: db,
+			count,
+			success: "success",
+			message: "Files fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching files",
+		};
+	}
+}
+
+export async function getLibraryFolders() {
+	const { error } = await authorizeAction("files", "read");
+	if (error) {
+		return error;
+	}
+	try {
+		const [folders, tags] = await Promise.all([models.Category.getFolders(), models.File.getFileTags()]);
+		return {
+			data: { folders, tags },
+			success: "success",
+			message: "Folders fetched successfully",
+		};
+	} catch (error) {
+		return {
+			success: "error",
+			message: "Error fetching folders",
+		};
+	}
+}
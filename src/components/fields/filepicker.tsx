@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from "react";
+import { Check, FileText, FolderOpen } from "lucide-react";
+import { toast } from "sonner";
+
+import AppImage from "@/components/AppImage";
+import { getLibrary, getLibraryFolders } from "@/components/fields/actions";
+import { FolderTree } from "@/components/fields/folders";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { appState } from "@/lib/appConst";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 24;
+
+// Browse the media library by folder and tag and pick files, type limits the list to some MIME types
+function Library(props: { type?: string[]; onSelect: (files: any[]) => void }) {
+	const { type, onSelect } = props;
+	const types = type?.join(",");
+	const [library, setLibrary] = useState<any>({ folders: [], tags: [] });
+	const [files, setFiles] = useState<any[]>([]);
+	const [count, setCount] = useState(0);
+	const [folder, setFolder] = useState("");
+	const [tag, setTag] = useState("");
+	const [s, setS] = useState("");
+	const [selected, setSelected] = useState<any[]>([]);
+	const [loading, setLoading] = useState(false);
+
+	const fetchFiles = useCallback(
+		async (skip: number) => {
+			setLoading(true);
+			const res = await getLibrary({ take: PAGE_SIZE, skip, s, byCat: folder, tag, type: types });
+			setLoading(false);
+			if (res?.success !== "success") {
+				toast.error(res?.message);
+				return;
+			}
+			setFiles((prev) => (skip === 0 ? (res.data ?? []) : [...prev, ...(res.data ?? [])]));
+			setCount(res.count ?? 0);
+		},
+		[folder, tag, s, types],
+	);
+
+	useEffect(() => {
+		fetchFiles(0);
+	}, [fetchFiles]);
+
+	useEffect(() => {
+		getLibraryFolders().then((res) => {
+			if (res?.success === "success" && res?.data) {
+				setLibrary(res.data);
+			}
+		});
+	}, []);
+
+	const toggle = (file: any) => {
+		setSelected((prev) => (prev.some((item) => item.id === file.id) ? prev.filter((item) => item.id !== file.id) : [...prev, file]));
+	};
+
+	return (
+		<div className="flex flex-col md:flex-row gap-4">
+			<div className="md:w-48 shrink-0 max-h-[60vh] overflow-y-auto">
+				<FolderTree
+					folders={library.folders}
+					tags={library.tags}
+					folder={folder}
+					tag={tag}
+					onSelect={(folder, tag) => {
+						setFolder(folder);
+						setTag(tag);
+					}}
+				/>
+			</div>
+			<div className="flex flex-col gap-4 flex-1 min-w-0">
+				<form
+					onSubmit={(e: any) => {
+						e.preventDefault();
+						setS(e.target[0].value);
+					}}>
+					<Input
+						type="text"
+						placeholder="Search"
+						defaultValue={s}
+					/>
+				</form>
+				<div className="grid grid-cols-3 lg:grid-cols-4 gap-3 max-h-[50vh] overflow-y-auto">
+					{files.map((file) => (
+						<button
+							key={file.id}
+							type="button"
+							title={file.name}
+							onClick={() => toggle(file)}
+							className={cn("relative flex flex-col gap-1 rounded-lg border-2 p-1 text-left", selected.some((item) => item.id === file.id) ? "border-primary" : "border-transparent hover:border-gray-300")}>
+							{appState.ACCEPTED_IMG_FILE_TYPES.includes(file.type) ? (
+								<AppImage
+									src={file.url}
+									variants={file.variants}
+									alt={file.name}
+									width={200}
+									height={200}
+									sizes="200px"
+									className="h-24 w-full rounded object-cover"
+								/>
+							) : (
+								<div className="flex h-24 w-full items-center justify-center rounded bg-gray-100 text-xs uppercase text-gray-500 dark:bg-gray-800">
+									<FileText className="mr-1 h-4 w-4" />
+									{file.ext}
+								</div>
+							)}
+							<span className="truncate text-xs">{file.name}</span>
+							{selected.some((item) => item.id === file.id) && <Check className="absolute top-2 right-2 h-5 w-5 rounded-full bg-primary p-0.5 text-white" />}
+						</button>
+					))}
+				</div>
+				{!loading && files.length === 0 && <p className="text-sm text-gray-500">No files here</p>}
+				<div className="flex items-center justify-between">
+					{files.length < count ? (
+						<Button
+							type="button"
+							variant="outline"
+							disabled={loading}
+							onClick={() => fetchFiles(files.length)}>
+							Load more
+						</Button>
+					) : (
+						<span />
+					)}
+					<Button
+						type="button"
+						disabled={selected.length === 0}
+						onClick={() => {
+							onSelect(selected);
+							setSelected([]);
+						}}>
+						Add {selected.length > 0 ? selected.length : ""} files
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+// "Choose from library" button opening the media library
+export function FilePicker(props: { type?: string[]; onSelect: (files: any[]) => void }) {
+	const { type, onSelect } = props;
+	const [open, setOpen] = useState(false);
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button
+					type="button"
+					variant="outline"
+					className="mb-4">
+					<FolderOpen />
+					Choose from library
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="w-full sm:max-w-[900px]">
+				<DialogHeader>
+					<DialogTitle>Media library</DialogTitle>
+				</DialogHeader>
+				<Library
+					type={type}
+					onSelect={(files) => {
+						onSelect(files);
+						setOpen(false);
+					}}
+				/>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,43 @@
+import { Folder, FolderOpen, Tag } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+// Folders and tags of the media library; folder is a category id, "none" for files outside folders or "" for every file
+export function FolderTree(props: { folders: any[]; tags: any[]; folder: string; tag: string; onSelect: (folder: string, tag: string) => void }) {
+	const { folders, tags, folder, tag, onSelect } = props;
+
+	const entry = (key: string, label: string, active: boolean, onClick: () => void, icon: any, count?: number, depth = 0) => (
+		<button
+			key={key}
+			type="button"
+			onClick={onClick}
+			style={{ paddingLeft: `${0.5 + depth}rem` }}
+			className={cn("flex w-full items-center gap-2 rounded-md py-1 pr-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800", active && "bg-gray-100 font-semibold dark:bg-gray-800")}>
+			{icon}
+			<span className="truncate">{label}</span>
+			{count !== undefined && <span className="ml-auto text-xs text-gray-500">{count}</span>}
+		</button>
+	);
+
+	// Folders under a parent, a folder whose parent is gone is shown at the top
+	const branch = (parent: number, depth: number): any[] => {
+		return folders.filter((item) => (parent === 0 ? !item.parent || !folders.some((other) => other.id === item.parent) : item.parent === parent)).flatMap((child) => [entry(`folder-${child.id}`, child.title, folder === String(child.id), () => onSelect(String(child.id), tag), folder === String(child.id) ? <FolderOpen className="w-4 h-4 shrink-0" /> : <Folder className="w-4 h-4 shrink-0" />, child._count?.files, depth), ...(depth < 8 ? branch(child.id, depth + 1) : [])]);
+	};
+
+	return (
+		<div className="flex flex-col gap-4">
+			<div className="flex flex-col gap-1">
+				<p className="px-2 text-xs font-semibold uppercase text-gray-500">Folders</p>
+				{entry("all", "All files", !folder, () => onSelect("", tag), <Folder className="w-4 h-4 shrink-0" />)}
+				{entry("none", "No folder", folder === "none", () => onSelect("none", tag), <Folder className="w-4 h-4 shrink-0" />)}
+				{branch(0, 0)}
+			</div>
+			{tags.length > 0 && (
+				<div className="flex flex-col gap-1">
+					<p className="px-2 text-xs font-semibold uppercase text-gray-500">Tags</p>
+					{tags.map((item) => entry(`tag-${item.id}`, item.name, tag === item.name, () => onSelect(folder, tag === item.name ? "" : item.name), <Tag className="w-4 h-4 shrink-0" />, item._count?.files))}
+				</div>
+			)}
+		</div>
+	);
+}
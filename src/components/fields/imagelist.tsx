@@ -5,6 +5,7 @@ import Link from "next/link";
 import { toast } from "sonner";
 
 import AppImage from "@/components/AppImage";
+import { FilePicker } from "@/components/fields/filepicker";
 
 import { Button } from "../ui/button";
 
@@ -12,18 +13,26 @@ import { Button } from "../ui/button";
 import "lightgallery/css/lightgallery.css";
 import "lightgallery/css/lg-zoom.css";
 
-export function ImageList(props: { role?: any; data?: any; thumbnail?: any; setThumbnail?: any; fetchData?: any; onChange?: any; viewOnly?: boolean }) {
-	const { role, data, thumbnail, setThumbnail, fetchData, onChange, viewOnly } = props;
+// onPick adds a "Choose from library" button; picked are the files chosen there, shown until they are saved with the record
+export function ImageList(props: { role?: any; data?: any; thumbnail?: any; setThumbnail?: any; fetchData?: any; onChange?: any; viewOnly?: boolean; picked?: any[]; onPick?: (files: any[]) => void; pickType?: string[] }) {
+	const { role, data, thumbnail, setThumbnail, fetchData, onChange, viewOnly, picked, onPick, pickType } = props;
+	const files = [...(data?.files ?? []), ...(picked ?? []).filter((file) => !data?.files?.some((item: any) => item.id === file.id))];
 
 	return (
 		<>
-			{data && data.files && data.files.length > 0 ? (
+			{onPick && !viewOnly && (
+				<FilePicker
+					type={pickType}
+					onSelect={(selected) => onPick([...(picked ?? []), ...selected.filter((file) => !picked?.some((item) => item.id === file.id))])}
+				/>
+			)}
+			{files.length > 0 ? (
 				<div className="gallery">
 					<LightGallery
 						speed={500}
 						plugins={[lgZoom]}
 						elementClassNames="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
-						{data.files.map((item: any) => (
+						{files.map((item: any) => (
 							<Link
 								key={item.id}
 								href={item.url}
@@ -37,6 +46,7 @@ export function ImageList(props: { role?: any; data?: any; thumbnail?: any; setT
 								<div className="relative">
 									<AppImage
 										src={item.url}
+										variants={item.variants}
 										alt={item?.name || ""}
 										title={item?.name || ""}
 										width={200}
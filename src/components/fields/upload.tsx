@@ -1,12 +1,20 @@
 import { useState } from "react";
+import { toast } from "sonner";
 
 import AppImage from "@/components/AppImage";
+import AppProgress from "@/components/AppProgress";
 import { FormControl, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { uploadFile } from "@/lib/upload";
+import { appState } from "@/lib/appConst";
+import { uploadAccept, UploadContext, uploadTypeLabels } from "@/lib/mime";
+import { uploadWithProgress } from "@/lib/resumable";
 
 export function FieldUpload(props: any) {
 	const { field, data, thumbnail, preview, multiple, accept, onChange } = props;
+	// image (the default), attachment or media, the server checks the content against it
+	const context: UploadContext = props.context ?? "image";
+	const [errors, setErrors] = useState<string[]>([]);
+	const [progress, setProgress] = useState<Record<string, number>>({});
 
 	// Set default values
 	const defaultValues = {
@@ -52,15 +60,16 @@ export function FieldUpload(props: any) {
 								<p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
 									<span className="font-semibold">Click to upload</span> or drag and drop
 								</p>
-								<p className="text-xs text-gray-500 dark:text-gray-400">SVG, PNG, JPG or GIF</p>
+								<p className="text-xs text-gray-500 dark:text-gray-400">{uploadTypeLabels(context)}</p>
 							</div>
 							<Input
 								type="file"
 								placeholder="Image"
 								multiple={defaultValues.multiple}
-								accept={accept?.join(",")}
+								accept={accept ? accept.join(",") : uploadAccept(context)}
 								onChange={async (e) => {
 									const db = [];
+									const rejected: string[] = [];
 									field.onChange(e.target.files);
 									const files = e.target.files;
 									const previewImg = document.getElementById("previewimgsrc") as HTMLImageElement;
@@ -90,13 +99,21 @@ export function FieldUpload(props: any) {
 													wrapper.appendChild(checkIcon);
 												}
 											};
-											reader.readAsDataURL(file);
-											const up = await uploadFile([file]);
-											if (up) {
-												db.push(up);
+											const up = await uploadWithProgress(file, context, (value) => setProgress((prev) => ({ ...prev, [file.name]: value })));
+											if (up?.success !== "success") {
+												rejected.push(up?.message ?? `Can not upload "${file.name}"`);
+												continue;
 											}
+											// Artwork and documents have no preview, large ones would be read into memory for nothing
+											if (appState.ACCEPTED_IMG_FILE_TYPES.includes(file.type)) {
+												reader.readAsDataURL(file);
+											}
+											db.push(up);
 										}
 									}
+									setProgress({});
+									setErrors(rejected);
+									rejected.forEach((message) => toast.error(message));
 									if (onChange && db.length > 0) {
 										onChange(db);
 									}
@@ -109,11 +126,23 @@ export function FieldUpload(props: any) {
 							/>
 						</label>
 					</div>
+					{Object.keys(progress).length > 0 && <AppProgress items={progress} />}
 					<div
 						id="previewimgList"
 						className="grid grid-cols-3 lg:grid-cols-5 gap-10"></div>
 				</div>
 			</FormControl>
+			{errors.length > 0 && (
+				<div className="flex flex-col gap-1">
+					{errors.map((message) => (
+						<p
+							key={message}
+							className="text-destructive text-sm">
+							{message}
+						</p>
+					))}
+				</div>
+			)}
 			<FormMessage />
 		</div>
 	);
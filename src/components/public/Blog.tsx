@@ -34,6 +34,8 @@ export default function Blog(props: any) {
 								aspectRatio="16 / 9"
 								alt={data?.title}
 								src={data?.image}
+								variants={data?.imageVariants}
+								sizes="(max-width: 1024px) 100vw, 1020px"
 								width={1020}
 								height={800}
 							/>
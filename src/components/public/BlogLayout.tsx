@@ -31,6 +31,8 @@ export default function BlogLayout(props: any) {
 											aspectRatio="16 / 9"
 											alt={item?.title}
 											src={item?.image}
+											variants={item?.imageVariants}
+											sizes="(max-width: 1024px) 100vw, 1020px"
 											width={1020}
 											height={800}
 										/>
@@ -51,6 +53,8 @@ export default function BlogLayout(props: any) {
 										aspectRatio="16 / 9"
 										alt={item?.title}
 										src={item?.image}
+										variants={item?.imageVariants}
+										sizes="(max-width: 640px) 100vw, (max-width: 1280px) 50vw, 33vw"
 										width={1020}
 										height={800}
 									/>
@@ -5,13 +5,14 @@ import Image from "next/image";
 
 import { Skeleton } from "@/components/ui/skeleton";
 import { appState } from "@/lib/appConst";
+import { variantLoader } from "@/lib/variants";
 
 const SmartImage = (props: any) => {
 	const [isLoading, setIsLoading] = useState(true);
 	const [isError, setIsError] = useState(false);
 	const imageRef = useRef<HTMLImageElement>(null);
 
-	const { src, alt, width, height, className, style } = props;
+	const { src, alt, width, height, className, style, sizes, variants } = props;
 
 	const imageSrc = isError ? appState.placeholder : src;
 	const imageAlt = alt || "Image";
@@ -34,6 +35,8 @@ const SmartImage = (props: any) => {
 					alt={imageAlt}
 					width={imageWidth}
 					height={imageHeight}
+					sizes={sizes}
+					loader={variantLoader(variants)}
 					className={`object-cover ${className}`}
 					style={{ aspectRatio: imageAspectRatio, ...style }}
 					onLoad={() => {
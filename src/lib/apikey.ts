@@ -0,0 +1,61 @@
+import { createHash, randomBytes } from "crypto";
+import { Session } from "next-auth";
+
+import { enrollmentPermissions, parsePermissions, resolvePermissions } from "@/lib/permission";
+import { requiresTotp } from "@/lib/totp";
+import models from "@/models";
+
+// Personal API keys look like "npk_<random>"; only a hash is stored
+export const API_KEY_PREFIX = "npk_";
+// lastUsedAt is written at most once per interval
+const API_KEY_TOUCH_INTERVAL = 60 * 1000;
+
+// Hash an API key for lookup
+export const hashApiKey = (token: string) => {
+	return createHash("sha256").update(token).digest("hex");
+};
+
+// Create a new API key, the token is only returned once
+export const generateApiKey = () => {
+	const token = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+	return {
+		token,
+		prefix: token.slice(0, API_KEY_PREFIX.length + 6),
+		tokenHash: hashApiKey(token),
+	};
+};
+
+// Resolve a bearer token to a session: the key scopes, limited to what the user can still do
+export const authenticateApiKey = async (token: string): Promise<Session | null> => {
+	if (!token.startsWith(API_KEY_PREFIX)) {
+		return null;
+	}
+	const apiKey = await models.ApiKey.getApiKeyByHash(hashApiKey(token));
+	if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() < Date.now())) {
+		return null;
+	}
+	const { user } = apiKey;
+	// Same rules as the session: custom role permissions, or only the account while an authenticator app is required
+	const customRole = user.roleId ? await models.Role.getRoleById(user.roleId) : null;
+	const totpCredential = requiresTotp(user.role) ? await models.Auth.getTotpCredentialByUserId(user.id) : null;
+	const totpRequired = requiresTotp(user.role) && !totpCredential?.enabledAt;
+	const userPermissions = totpRequired ? enrollmentPermissions : resolvePermissions(user.role, customRole?.published ? parsePermissions(customRole.permissions) : []);
+	if (!apiKey.lastUsedAt || Date.now() - new Date(apiKey.lastUsedAt).getTime() > API_KEY_TOUCH_INTERVAL) {
+		await models.ApiKey.touchApiKey(apiKey.id);
+	}
+	return {
+		user: {
+			id: user.id,
+			name: user.name,
+			email: user.email ?? "",
+			image: user.avatar ?? user.image,
+			role: user.role ?? "USER",
+			isTwoFactorEnabled: user.isTwoFactorEnabled,
+			roleId: customRole?.published ? customRole.id : null,
+			permissions: parsePermissions(apiKey.scopes).filter((key) => userPermissions.includes(key)),
+			totpRequired,
+			isOAuth: false,
+		},
+		expires: (apiKey.expiresAt ?? new Date(Date.now() + 60 * 60 * 1000)).toISOString(),
+	};
+};
@@ -1,70 +1,78 @@
-import { BookOpen, FerrisWheel, File, Home, HomeIcon, Image, LayoutDashboard, Map, Package, Settings, ShoppingCart, Store, User, Users } from "lucide-react";
+import { BookOpen, ClipboardList, FerrisWheel, File, Home, HomeIcon, Image, KeyRound, LayoutDashboard, ListChecks, Map, Package, Settings, ShieldCheck, ShoppingCart, Store, User, Users, Webhook } from "lucide-react";
 
 // title: String
 // url: String
 // icon: String
-// role: Array of String => This role will show/hide the menu item
+// resource: String => Show the menu item when the role can read this permission resource
 
 export const MenuItems = [
 	{
 		title: "Dashboard",
 		url: "/admin",
 		icon: LayoutDashboard,
-		role: ["USER", "ADMIN", "MODERATOR"],
+		resource: "dashboard",
 	},
 	{
 		title: "Orders",
 		url: "/admin/orders",
 		icon: ShoppingCart,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "orders",
+		items: [
+			{
+				title: "Purchase orders",
+				url: "/admin/purchases",
+				icon: ClipboardList,
+				resource: "purchases",
+			},
+		],
 	},
 	{
 		title: "Products",
 		url: "/admin/products",
 		icon: Package,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "products",
 	},
 	{
 		title: "Customers",
 		url: "/admin/customers",
 		icon: Users,
-		role: ["ADMIN"],
+		resource: "customers",
 	},
 	{
 		title: "Vendors",
 		url: "/admin/vendors",
 		icon: Store,
-		role: ["ADMIN"],
+		resource: "vendors",
 	},
 	{
 		title: "Files",
 		url: "/admin/files",
 		icon: Image,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "files",
 	},
 	{
 		title: "Posts",
 		url: "/admin/posts",
 		icon: File,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "posts",
 	},
 	{
 		title: "Categories",
 		url: "/admin/categories",
 		icon: BookOpen,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "categories",
 	},
 	{
 		title: "Attribute",
 		url: "/admin/attributes",
 		icon: FerrisWheel,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "attributes",
 		items: [
 			{
 				title: "Mapping",
 				url: "/admin/attributes/mapping",
 				icon: Map,
-				role: ["ADMIN", "MODERATOR"],
+				resource: "attributes",
 			},
 		],
 	},
@@ -72,7 +80,21 @@ export const MenuItems = [
 		title: "User",
 		url: "/admin/users",
 		icon: User,
-		role: ["ADMIN"],
+		resource: "users",
+		items: [
+			{
+				title: "Roles",
+				url: "/admin/users/roles",
+				icon: ShieldCheck,
+				resource: "roles",
+			},
+			{
+				title: "API Keys",
+				url: "/admin/users/api-keys",
+				icon: KeyRound,
+				resource: "apikeys",
+			},
+		],
 	},
 ];
 
@@ -81,13 +103,24 @@ export const FooterItems = [
 		title: "Settings",
 		url: "/admin/settings",
 		icon: Settings,
-		role: ["ADMIN", "MODERATOR"],
+		resource: "settings",
+	},
+	{
+		title: "Webhooks",
+		url: "/admin/settings/webhooks",
+		icon: Webhook,
+		resource: "webhooks",
+	},
+	{
+		title: "Jobs",
+		url: "/admin/jobs",
+		icon: ListChecks,
+		resource: "jobs",
 	},
 	{
 		title: "Back to Home",
 		url: "/",
 		icon: HomeIcon,
-		role: ["USER", "ADMIN", "MODERATOR"],
 	},
 ];
 
@@ -1,4 +1,10 @@
+import { headers } from "next/headers";
+import { Session } from "next-auth";
+
 import { auth } from "@/auth";
+import { authenticateApiKey } from "@/lib/apikey";
+import { can, PERMISSION_DENIED, PermissionAction, PermissionResource, PermissionSubject } from "@/lib/permission";
+import models from "@/models";
 
 export const currentUser = async () => {
 	const session = await auth();
@@ -9,3 +15,62 @@ export const currentRole = async () => {
 	const session = await auth();
 	return session?.user.role;
 };
+
+// Check the current session, or a personal API key sent as "Authorization: Bearer", against the permission policy for API handlers
+export const authorize = async (resource: PermissionResource, action: PermissionAction) => {
+	const bearer = (await headers()).get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+	if (bearer) {
+		const session = await authenticateApiKey(bearer);
+		if (!session) {
+			return { session, error: Response.json({ message: "Invalid or expired API key" }, { status: 401 }) };
+		}
+		if (!can(session.user, resource, action)) {
+			return { session, error: Response.json({ message: PERMISSION_DENIED }, { status: 403 }) };
+		}
+		return { session, error: null };
+	}
+	const session = await auth();
+	if (!session) {
+		return { session, error: Response.json({ message: "Not authenticated" }, { status: 401 }) };
+	}
+	if (!can(session.user, resource, action)) {
+		return { session, error: Response.json({ message: PERMISSION_DENIED }, { status: 403 }) };
+	}
+	return { session, error: null };
+};
+
+export interface ActionDenied {
+	success: "error";
+	status: 401 | 403;
+	message: string;
+	data?: undefined;
+	count?: undefined;
+}
+
+// Check the current session against the permission policy for server actions
+export const authorizeAction = async (resource: PermissionResource, action: PermissionAction): Promise<{ session: Session | null; error: ActionDenied | null }> => {
+	const session = await auth();
+	if (!session || !can(session.user, resource, action)) {
+		return {
+			session,
+			error: {
+				success: "error",
+				status: session ? 403 : 401,
+				message: session ? PERMISSION_DENIED : "Not authenticated",
+			},
+		};
+	}
+	return { session, error: null };
+};
+
+// Check the status permission for every order whose status actually changes; new orders may always start as pending
+export const canSetOrderStatus = async (user: PermissionSubject, status: string | null | undefined, ids: string[] = []) => {
+	if (!status || can(user, "orders", `status.${status}`)) {
+		return true;
+	}
+	if (ids.length === 0) {
+		return status === "pending";
+	}
+	const orders = await Promise.all(ids.map((id) => models.Order.getOrderById(id)));
+	return orders.every((order) => (order?.status || "pending") === status);
+};
@@ -0,0 +1,226 @@
+import { Upload } from "@prisma/client";
+import { randomBytes } from "crypto";
+
+import { streamChecksum } from "@/lib/files";
+import { isResizableImage } from "@/lib/image";
+import { allowedUploadTypes, MIME_EXTENSIONS, sniffMimeType, UPLOAD_CHUNK_SIZE, UploadContext, uploadPolicies } from "@/lib/mime";
+import { enqueueJob } from "@/lib/queue";
+import { fileExists, getStorageDriver, openFile, removeFile, UploadedPart } from "@/lib/storage";
+import { createFile, getFileByChecksum } from "@/models/query/file";
+import { createUpload, deleteFinishedUploads, getExpiredUploads, getUploadById, updateUpload } from "@/models/query/upload";
+
+// An unfinished upload can be resumed for this long
+export const UPLOAD_EXPIRES = 24 * 60 * 60 * 1000;
+
+// The signed in user or API key, types are checked against its permissions
+export type UploadUser = { id: string; role?: string | null; permissions?: string[] | null };
+
+export const MAX_UPLOAD_SIZE = Number(process.env.MAX_UPLOAD_SIZE) || 1024 * 1024 * 1024;
+
+export class UploadError extends Error {
+	constructor(
+		message: string,
+		public status = 400,
+	) {
+		super(message);
+		this.name = "UploadError";
+	}
+}
+
+const sizeLabel = (size: number) => `${(size / (1024 * 1024)).toFixed(1).replace(/\.0$/, "")}MB`;
+
+const parseParts = (upload: Upload): UploadedPart[] => {
+	try {
+		return JSON.parse(upload.parts || "[]");
+	} catch (error) {
+		return [];
+	}
+};
+
+const partCount = (size: number) => Math.max(Math.ceil(size / UPLOAD_CHUNK_SIZE), 1);
+
+// What the client needs to resume: the parts already stored
+export const uploadStatus = (upload: Upload) => {
+	return {
+		id: upload.id,
+		name: upload.name,
+		size: upload.size,
+		status: upload.status,
+		chunkSize: UPLOAD_CHUNK_SIZE,
+		parts: parseParts(upload).map((part) => part.number),
+		fileId: upload.fileId,
+		expiresAt: upload.expiresAt,
+	};
+};
+
+// Load an upload of the user that is still open
+const getOpenUpload = async (id: string, userId: string) => {
+	const upload = await getUploadById(id);
+	if (!upload || upload.userId !== userId) {
+		throw new UploadError("Upload not found", 404);
+	}
+	if (upload.status !== "uploading" || upload.expiresAt < new Date()) {
+		throw new UploadError(`Upload is ${upload.status === "uploading" ? "expired" : upload.status}`, 409);
+	}
+	return upload;
+};
+
+export const getUpload = async (id: string, userId: string) => {
+	const upload = await getUploadById(id);
+	if (!upload || upload.userId !== userId) {
+		throw new UploadError("Upload not found", 404);
+	}
+	return upload;
+};
+
+// Start an upload, the type is known once the first part arrives
+export const initUpload = async (data: { name: string; size: number; context?: UploadContext }, user: UploadUser) => {
+	const context = data.context ?? "media";
+	const name = String(data.name ?? "").replaceAll(" ", "_");
+	const size = Number(data.size);
+	if (!uploadPolicies[context]?.chunked || allowedUploadTypes(context, user).length === 0) {
+		throw new UploadError("You do not have permission to upload files here", 403);
+	}
+	if (!name || !Number.isInteger(size) || size <= 0) {
+		throw new UploadError("Invalid file");
+	}
+	if (size > MAX_UPLOAD_SIZE) {
+		throw new UploadError(`"${name}" is larger than the ${sizeLabel(MAX_UPLOAD_SIZE)} limit`);
+	}
+	const driver = await getStorageDriver();
+	const upload = await createUpload({
+		name,
+		size,
+		context,
+		driver: driver.name,
+		expiresAt: new Date(Date.now() + UPLOAD_EXPIRES),
+		userId: user.id,
+	});
+	if (!upload) {
+		throw new UploadError(`Can not start uploading "${name}"`, 500);
+	}
+	return upload;
+};
+
+// Store one part; the first one decides the type and opens the upload on the storage
+export const uploadPart = async (id: string, number: number, body: Buffer, user: UploadUser) => {
+	let upload = await getOpenUpload(id, user.id);
+	const total = partCount(upload.size);
+	const expected = number < total ? UPLOAD_CHUNK_SIZE : upload.size - UPLOAD_CHUNK_SIZE * (total - 1);
+	if (!Number.isInteger(number) || number < 1 || number > total) {
+		throw new UploadError(`Part ${number} is out of range`);
+	}
+	if (body.length !== expected) {
+		throw new UploadError(`Part ${number} should be ${expected} bytes, got ${body.length}`);
+	}
+	const driver = await getStorageDriver();
+	if (driver.name !== upload.driver) {
+		throw new UploadError("The storage changed during the upload, please upload the file again", 409);
+	}
+	if (!upload.uploadId || !upload.key) {
+		if (number !== 1) {
+			throw new UploadError("The first part must be sent first");
+		}
+		const type = sniffMimeType(body);
+		const allowed = allowedUploadTypes(upload.context as UploadContext, user);
+		// SVG has to be sanitized as a whole, it goes through the regular upload
+		if (!type || type === "image/svg+xml") {
+			await updateUpload(id, { status: "aborted" });
+			throw new UploadError(`"${upload.name}" is not a supported file type`);
+		}
+		if (!allowed.includes(type)) {
+			await updateUpload(id, { status: "aborted" });
+			throw new UploadError(`"${upload.name}" is a ${MIME_EXTENSIONS[type].toUpperCase()} file, allowed here: ${allowed.map((item) => (MIME_EXTENSIONS[item] ?? item).toUpperCase()).join(", ")}`);
+		}
+		const key = `${process.env.UPLOAD_DIR || "uploads"}/${randomBytes(16).toString("hex")}.${MIME_EXTENSIONS[type]}`;
+		const uploadId = await driver.multipart.create(key, type);
+		upload = (await updateUpload(id, { type, key, uploadId })) ?? upload;
+	}
+	const etag = await driver.multipart.uploadPart(upload.key as string, upload.uploadId as string, number, body);
+	// A part sent again after a dropped connection replaces the earlier one
+	const parts = parseParts(upload).filter((part) => part.number !== number);
+	parts.push({ number, etag, size: body.length });
+	const saved = await updateUpload(id, { parts: JSON.stringify(parts.sort((a, b) => a.number - b.number)) });
+	return saved ?? upload;
+};
+
+// Put the parts together and create the File record
+export const completeUpload = async (id: string, user: UploadUser) => {
+	const upload = await getOpenUpload(id, user.id);
+	const parts = parseParts(upload);
+	const total = partCount(upload.size);
+	const missing = Array.from({ length: total }, (_, i) => i + 1).filter((number) => !parts.some((part) => part.number === number));
+	if (missing.length > 0 || !upload.key || !upload.uploadId || !upload.type) {
+		throw new UploadError(`Parts ${missing.join(", ")} of "${upload.name}" are missing`);
+	}
+	const driver = await getStorageDriver();
+	const url = await driver.multipart.complete(upload.key, upload.uploadId, parts);
+	const hash = upload.key.split("/").pop()?.split(".")[0];
+	// The same content uploaded before references the stored object, this copy is removed before its URL is handed out.
+	// A storage error while reading it back leaves the copy and the checksum to the file.check job
+	const checksum = await streamChecksum(await openFile(url)).catch(() => null);
+	const match = checksum ? await getFileByChecksum(checksum) : null;
+	const existing = match && match.url !== url && (await fileExists(match.url).catch(() => false)) ? match : null;
+	if (existing) {
+		try {
+			await removeFile(url);
+		} catch (error) {
+			console.error(`Error removing the copy of upload ${upload.id}:`, error);
+		}
+	}
+	const file = await createFile({
+		name: upload.name,
+		hash: existing?.hash ?? hash,
+		userId: user.id,
+		type: upload.type,
+		size: upload.size,
+		ext: MIME_EXTENSIONS[upload.type],
+		published: true,
+		url: existing?.url ?? url,
+		width: existing?.width,
+		height: existing?.height,
+		variants: existing?.variants,
+		...(checksum ? { checksum, integrity: "ok", checkedAt: new Date() } : {}),
+	});
+	if (!file) {
+		throw new UploadError(`Can not save "${upload.name}"`, 500);
+	}
+	await updateUpload(id, { status: "completed", fileId: file.id });
+	if (!checksum) {
+		await enqueueJob("file.check", { id: file.id }, { key: `file.check:${file.id}` });
+	}
+	if (isResizableImage(upload.type) && !file.variants) {
+		await enqueueJob("file.variants", { id: file.id }, { key: `file.variants:${file.id}` });
+	}
+	return file;
+};
+
+export const abortUpload = async (id: string, user: { id: string }) => {
+	const upload = await getOpenUpload(id, user.id);
+	return (await cancelUpload(upload)) ?? upload;
+};
+
+// Drop the stored parts of an upload, a storage error leaves them for the bucket's own cleanup
+const cancelUpload = async (upload: Upload) => {
+	if (upload.key && upload.uploadId) {
+		try {
+			const driver = await getStorageDriver();
+			if (driver.name === upload.driver) {
+				await driver.multipart.abort(upload.key, upload.uploadId);
+			}
+		} catch (error) {
+			console.error(`Error aborting upload ${upload.id}:`, error);
+		}
+	}
+	return updateUpload(upload.id, { status: "aborted" });
+};
+
+// Abort expired uploads and forget finished ones after a week
+export const cleanupUploads = async () => {
+	const expired = await getExpiredUploads(new Date());
+	for (const upload of expired) {
+		await cancelUpload(upload);
+	}
+	const deleted = await deleteFinishedUploads(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
+	return { aborted: expired.length, deleted };
+};
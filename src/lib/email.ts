@@ -1,9 +1,10 @@
 import nodemailer from "nodemailer";
 
 import Logging from "@/lib/logging";
+import { enqueueJob } from "@/lib/queue";
 import { removeTags } from "@/lib/utils";
 
-interface MailInterface {
+export interface MailInterface {
 	from?: string;
 	to: string | string[];
 	cc?: string | string[];
@@ -81,3 +82,22 @@ export default class MailService {
 		return this.transporter;
 	}
 }
+
+// Queue a mail for the job worker instead of sending it during the request
+export const queueMail = async (requestId: string, options: MailInterface) => {
+	return enqueueJob("mail.send", { requestId, ...options });
+};
+
+// Send a mail the user is waiting for (sign in codes and links) during the request, so it does not depend on a running worker.
+// A failed send is queued for a retry
+export const sendMailNow = async (requestId: string, options: MailInterface) => {
+	try {
+		const info = await MailService.getInstance().sendMail(requestId, options);
+		if (info) {
+			return info;
+		}
+	} catch (error) {
+		Logging.error(error);
+	}
+	return queueMail(requestId, options);
+};
@@ -156,3 +156,145 @@ export const enumFieldType = [
 		value: "checkbox",
 	},
 ];
+
+export const enumApiKeyExpiry = [
+	{
+		label: "30 days",
+		value: "30",
+	},
+	{
+		label: "90 days",
+		value: "90",
+	},
+	{
+		label: "1 year",
+		value: "365",
+	},
+	{
+		label: "No expiration",
+		value: "never",
+	},
+];
+
+export const enumWebhookEvents = [
+	{
+		label: "Order created",
+		value: "order.created",
+	},
+	{
+		label: "Order status changed",
+		value: "order.status_changed",
+	},
+	{
+		label: "Order approved by the customer",
+		value: "order.approved",
+	},
+	{
+		label: "Customer updated",
+		value: "customer.updated",
+	},
+	{
+		label: "Post published",
+		value: "post.published",
+	},
+];
+
+export const enumJobStatus = [
+	{
+		label: "Pending",
+		value: "pending",
+	},
+	{
+		label: "Running",
+		value: "running",
+	},
+	{
+		label: "Completed",
+		value: "completed",
+	},
+	{
+		label: "Failed",
+		value: "failed",
+	},
+];
+
+export const enumPurchaseStatus = [
+	{
+		label: "Draft",
+		value: "draft",
+		className: "text-gray-700",
+	},
+	{
+		label: "Sent",
+		value: "sent",
+		className: "text-blue-700",
+	},
+	{
+		label: "Confirmed",
+		value: "confirmed",
+		className: "text-teal-700",
+	},
+	{
+		label: "Partially received",
+		value: "partial",
+		className: "text-orange-700",
+	},
+	{
+		label: "Received",
+		value: "received",
+		className: "text-green-700",
+	},
+	{
+		label: "Cancelled",
+		value: "cancelled",
+		className: "text-red-700",
+	},
+];
+
+export const enumStorageDriver = [
+	{
+		label: "Local disk",
+		value: "local",
+	},
+	{
+		label: "S3-compatible (AWS S3, MinIO...)",
+		value: "s3",
+	},
+	{
+		label: "Cloudflare R2",
+		value: "r2",
+	},
+	{
+		label: "Supabase Storage",
+		value: "supabase",
+	},
+];
+
+export const enumFileFilter = [
+	{
+		label: "Files",
+		value: "active",
+	},
+	{
+		label: "Trash",
+		value: "trash",
+	},
+];
+
+export const enumFileIntegrity = [
+	{
+		label: "Intact",
+		value: "ok",
+		className: "text-green-700",
+	},
+	{
+		label: "Mismatch",
+		value: "mismatch",
+		className: "text-red-700",
+	},
+	{
+		label: "Missing",
+		value: "missing",
+		className: "text-red-700",
+	},
+];
@@ -0,0 +1,106 @@
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+import { fileExists, listStoredFiles, openFile, removeFile } from "@/lib/storage";
+import { parseVariants } from "@/lib/variants";
+import { getAllFileUrls, getFileById, purgeTrashedFiles, updateFile } from "@/models/query/file";
+
+// Days a deleted file can be restored before its row and objects are removed
+export const FILE_TRASH_DAYS = Number(process.env.FILE_TRASH_DAYS) || 30;
+
+// Objects newer than this may belong to an upload whose row is not saved yet
+const ORPHAN_MIN_AGE = 60 * 60 * 1000;
+
+// sha256 of the content, finds identical uploads and checks stored objects
+export const fileChecksum = (buffer: Buffer) => {
+	return createHash("sha256").update(buffer).digest("hex");
+};
+
+// Same checksum read from a stream, large files are never held in memory
+export const streamChecksum = async (stream: Readable) => {
+	const hash = createHash("sha256");
+	for await (const chunk of stream) {
+		hash.update(chunk);
+	}
+	return hash.digest("hex");
+};
+
+// Read the object back and compare it with the checksum taken at upload, files uploaded before checksums get theirs now
+export const checkFileIntegrity = async (id: number) => {
+	const file = await getFileById(id);
+	if (!file) {
+		return null;
+	}
+	let checksum = file.checksum;
+	let integrity = "missing";
+	try {
+		const actual = await streamChecksum(await openFile(file.url));
+		checksum = checksum ?? actual;
+		integrity = actual === checksum ? "ok" : "mismatch";
+	} catch (error) {
+		// A storage outage is not a missing file, let the job retry
+		if (await fileExists(file.url).catch(() => true)) {
+			throw error;
+		}
+	}
+	return updateFile(id, {
+		checksum,
+		integrity,
+		checkedAt: new Date(),
+	});
+};
+
+// Tags from a comma separated list or an array: trimmed, lower case, without duplicates
+export const parseTags = (tags: string | string[]) => {
+	const list = Array.isArray(tags) ? tags : String(tags ?? "").split(",");
+	return Array.from(new Set(list.map((tag) => tag.trim().toLowerCase().slice(0, 64)).filter(Boolean)));
+};
+
+// Purge files whose restore window has passed, returns how many were removed
+export const purgeExpiredTrash = async (days = FILE_TRASH_DAYS) => {
+	return purgeTrashedFiles(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+};
+
+// Compare the upload directory with the File rows: objects no row points to, and rows whose object is gone
+export const scanStorage = async () => {
+	const [{ driver, objects }, files] = await Promise.all([listStoredFiles(), getAllFileUrls()]);
+	const stored = new Set(objects.map((object) => object.key));
+	const referenced = new Set<string>();
+	const missing = [];
+	for (const file of files) {
+		for (const url of [file.url, ...parseVariants(file.variants).map((variant) => variant.url)]) {
+			const key = driver.keyFromUrl(url);
+			if (key) {
+				referenced.add(key);
+			}
+		}
+		if (file.deletedAt) {
+			continue;
+		}
+		// Files kept on a previous driver are not in the listing, ask their own driver
+		const key = driver.keyFromUrl(file.url);
+		const exists = key ? stored.has(key) : await fileExists(file.url).catch(() => false);
+		if (!exists) {
+			missing.push({ id: file.id, name: file.name, url: file.url });
+		}
+	}
+	const cutoff = Date.now() - ORPHAN_MIN_AGE;
+	const orphans = objects
+		.filter((object) => !referenced.has(object.key) && (!object.lastModified || object.lastModified.getTime() < cutoff))
+		.map((object) => ({
+			url: driver.url(object.key),
+			size: object.size,
+			lastModified: object.lastModified,
+		}));
+	return { driver: driver.name, objects: objects.length, orphans, missing };
+};
+
+// Delete orphaned objects, only the ones a fresh scan still reports
+export const removeOrphans = async (urls: string[]) => {
+	const { orphans } = await scanStorage();
+	const confirmed = orphans.filter((orphan) => urls.includes(orphan.url));
+	for (const orphan of confirmed) {
+		await removeFile(orphan.url);
+	}
+	return confirmed.length;
+};
@@ -0,0 +1,55 @@
+import sharp from "sharp";
+
+import { getFile, putFile } from "@/lib/storage";
+import { IMAGE_VARIANTS, ImageVariant, RESIZABLE_IMAGE_TYPES } from "@/lib/variants";
+import { getFileById, getFilesWithoutVariants, updateFile } from "@/models/query/file";
+
+const WEBP_QUALITY = 80;
+
+// Check if variants can be made for a MIME type
+export const isResizableImage = (type: string | null | undefined) => {
+	return !!type && RESIZABLE_IMAGE_TYPES.includes(type);
+};
+
+// Resize the original into every variant narrower than it and store them next to it
+export const generateFileVariants = async (id: number) => {
+	const file = await getFileById(id);
+	if (!file || !isResizableImage(file.type)) {
+		return null;
+	}
+	const original = await getFile(file.url);
+	const metadata = await sharp(original).metadata();
+	// EXIF orientations 5 to 8 are rotated a quarter turn
+	const rotated = (metadata.orientation ?? 1) >= 5;
+	const width = (rotated ? metadata.height : metadata.width) ?? 0;
+	const height = (rotated ? metadata.width : metadata.height) ?? 0;
+	const variants: Record<string, ImageVariant> = {};
+	for (const variant of IMAGE_VARIANTS) {
+		if (variant.width && width <= variant.width) {
+			continue;
+		}
+		const { data, info } = await sharp(original)
+			.rotate()
+			.resize(variant.width ? { width: variant.width, withoutEnlargement: true } : undefined)
+			.webp({ quality: WEBP_QUALITY })
+			.toBuffer({ resolveWithObject: true });
+		const url = await putFile(`${file.hash}-${variant.name}.webp`, data, "image/webp");
+		variants[variant.name] = {
+			url,
+			width: info.width,
+			height: info.height,
+			size: info.size,
+			type: "image/webp",
+		};
+	}
+	return updateFile(id, {
+		width,
+		height,
+		variants: JSON.stringify(variants),
+	});
+};
+
+// Files uploaded before variants existed, to queue them in batches
+export const getImagesWithoutVariants = async (take?: number) => {
+	return getFilesWithoutVariants(RESIZABLE_IMAGE_TYPES, take);
+};
@@ -0,0 +1,408 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "pdf-lib";
+
+import { formatMoney } from "@/lib/order";
+import { getFile } from "@/lib/storage";
+import { convertStringToJson, dateFormat, removeTags } from "@/lib/utils";
+import models from "@/models";
+
+export type InvoiceType = "invoice" | "packing" | "purchase";
+// Who the document is for, customers never see the vendor of their order
+export type InvoiceAudience = "internal" | "customer";
+
+export interface InvoiceParty {
+	name: string;
+	email?: string | null;
+	phone?: string | null;
+	address: string[];
+}
+
+export interface InvoiceLine {
+	title: string;
+	options: string;
+	quantity: number;
+	price: number;
+	discount: number;
+	total: number;
+}
+
+export interface InvoiceDocument {
+	type: InvoiceType;
+	audience?: InvoiceAudience;
+	title: string;
+	number: string;
+	date: string;
+	status: string;
+	expected?: string;
+	company: {
+		name: string;
+		address: string;
+		info: string;
+		phone: string;
+		logo: string;
+		note: string;
+	};
+	customer: InvoiceParty | null;
+	vendor: InvoiceParty | null;
+	items: InvoiceLine[];
+	totals: {
+		subtotal: number;
+		discount: number;
+		tax_rate: number;
+		tax: number;
+		total: number;
+	};
+}
+
+const toParty = (item: any): InvoiceParty | null => {
+	if (!item) {
+		return null;
+	}
+	return {
+		name: item.name ?? "",
+		email: item.email,
+		phone: item.phone,
+		address: [item.address, [item.city, item.state, item.zip].filter(Boolean).join(", "), item.country].filter(Boolean),
+	};
+};
+
+const lineOptions = (data: any) => {
+	const parsed = convertStringToJson(data);
+	if (!parsed || !Array.isArray(parsed?.options)) {
+		return "";
+	}
+	return parsed.options
+		.filter((option: any) => option?.value)
+		.map((option: any) => `${option.title}: ${option.value}`)
+		.join(", ");
+};
+
+// Address blocks of a document, a purchase order only needs the vendor since the company is in the header and customers only get their own
+export const documentParties = (doc: InvoiceDocument) => {
+	if (doc.type === "purchase") {
+		return [{ label: "Vendor", party: doc.vendor }];
+	}
+	const customer = { label: doc.type === "packing" ? "Ship to" : "Bill to", party: doc.customer };
+	if (doc.audience === "customer") {
+		return [customer];
+	}
+	return [customer, { label: "Vendor", party: doc.vendor }];
+};
+
+const companyInfo = (settings: any[] | null) => {
+	const setting = (key: string) => settings?.find((item: any) => item.key === key)?.value ?? "";
+	return {
+		name: setting("bill_company_name"),
+		address: setting("bill_company_address"),
+		info: setting("bill_company_info"),
+		phone: setting("bill_company_phone"),
+		logo: setting("bill_logo"),
+		note: removeTags(setting("bill_note")),
+	};
+};
+
+// Build the invoice / packing slip content for an order from the order and bill settings
+export const getInvoiceDocument = async (orderId: string, type: InvoiceType = "invoice", audience: InvoiceAudience = "internal"): Promise<InvoiceDocument | null> => {
+	const [order, settings] = await Promise.all([models.Order.getOrderById(orderId), models.Setting.getAllSettings()]);
+	if (!order) {
+		return null;
+	}
+	return {
+		type,
+		audience,
+		title: type === "packing" ? "Packing Slip" : "Invoice",
+		number: order.number ?? order.title ?? order.id,
+		date: dateFormat((order.date_created ?? order.createdAt ?? new Date()).toString()),
+		status: order.status ?? "pending",
+		company: companyInfo(settings),
+		customer: toParty(order.customer?.[0]),
+		vendor: audience === "customer" ? null : toParty(order.vendor?.[0]),
+		items: (order.items ?? []).map((item: any) => ({
+			title: item.title ?? item.product?.title ?? "",
+			options: lineOptions(item.data),
+			quantity: item.quantity,
+			price: item.price,
+			discount: item.discount,
+			total: item.total,
+		})),
+		totals: {
+			subtotal: order.subtotal ?? 0,
+			discount: order.discount ?? 0,
+			tax_rate: order.tax_rate ?? 0,
+			tax: order.tax ?? 0,
+			total: order.total ?? 0,
+		},
+	};
+};
+
+// Build the vendor-facing purchase order, priced at cost
+export const getPurchaseOrderDocument = async (purchaseId: string): Promise<InvoiceDocument | null> => {
+	const [purchase, settings] = await Promise.all([models.PurchaseOrder.getPurchaseOrderById(purchaseId), models.Setting.getAllSettings()]);
+	if (!purchase) {
+		return null;
+	}
+
+	return {
+		type: "purchase",
+		title: "Purchase Order",
+		number: purchase.number ?? purchase.id,
+		date: dateFormat((purchase.date_sent ?? purchase.createdAt ?? new Date()).toString()),
+		status: purchase.status,
+		expected: purchase.date_expected ? dateFormat(purchase.date_expected.toString()) : undefined,
+		company: companyInfo(settings),
+		customer: null,
+		vendor: toParty(purchase.vendor),
+		items: purchase.items.map((item: any) => ({
+			title: [item.title, item.variant?.sku].filter(Boolean).join(" - "),
+			options: lineOptions(item.data),
+			quantity: item.quantity,
+			price: item.cost,
+			discount: 0,
+			total: item.total,
+		})),
+		totals: {
+			subtotal: purchase.total,
+			discount: 0,
+			tax_rate: 0,
+			tax: 0,
+			total: purchase.total,
+		},
+	};
+};
+
+// Standard PDF fonts only cover WinAnsi, replace anything else
+const safeText = (text: any) => {
+	return String(text ?? "")
+		.replace(/[\r\t]/g, " ")
+		.replace(/[^\x20-\x7E\xA0-\xFF\n]/g, "?");
+};
+
+const wrapText = (text: string, font: PDFFont, size: number, width: number) => {
+	const lines: string[] = [];
+	safeText(text)
+		.split("\n")
+		.forEach((paragraph) => {
+			let line = "";
+			paragraph.split(" ").forEach((word) => {
+				const next = line ? `${line} ${word}` : word;
+				if (font.widthOfTextAtSize(next, size) > width && line) {
+					lines.push(line);
+					line = word;
+				} else {
+					line = next;
+				}
+			});
+			lines.push(line);
+		});
+	return lines;
+};
+
+// The logo comes from the file storage or the public folder, other hosts are never fetched while the PDF is made
+const readLogo = async (logo: string) => {
+	try {
+		return await getFile(logo);
+	} catch (error) {
+		if (/^[a-z][a-z0-9+.-]*:/i.test(logo)) {
+			return null;
+		}
+		const publicDir = path.join(process.cwd(), "public");
+		const file = path.join(publicDir, logo);
+		return file.startsWith(publicDir + path.sep) ? await readFile(file) : null;
+	}
+};
+
+const loadLogo = async (pdf: PDFDocument, logo: string) => {
+	if (!logo) {
+		return null;
+	}
+	try {
+		const file = await readLogo(logo);
+		if (!file) {
+			return null;
+		}
+		const bytes = new Uint8Array(file);
+		// PNG signature, otherwise try JPEG
+		if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+			return await pdf.embedPng(bytes);
+		}
+		if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+			return await pdf.embedJpg(bytes);
+		}
+	} catch (error) {
+		// The logo is optional, render without it
+	}
+	return null;
+};
+
+// Render the invoice / packing slip as a PDF
+export const renderInvoicePdf = async (doc: InvoiceDocument) => {
+	const pdf = await PDFDocument.create();
+	pdf.setTitle(`${doc.title} ${doc.number}`);
+	const font = await pdf.embedFont(StandardFonts.Helvetica);
+	const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+	const logo = await loadLogo(pdf, doc.company.logo);
+	const gray = rgb(0.42, 0.45, 0.5);
+	const black = rgb(0.07, 0.09, 0.15);
+	const margin = 48;
+	const showPrices = doc.type !== "packing";
+
+	let page: PDFPage = pdf.addPage([595.28, 841.89]);
+	const { width, height } = page.getSize();
+	let y = height - margin;
+
+	const text = (value: string, x: number, size = 10, options: { font?: PDFFont; color?: any; align?: "right" } = {}) => {
+		const face = options.font ?? font;
+		const content = safeText(value);
+		const left = options.align === "right" ? x - face.widthOfTextAtSize(content, size) : x;
+		page.drawText(content, { x: left, y, size, font: face, color: options.color ?? black });
+	};
+	const ensureSpace = (space: number) => {
+		if (y - space < margin) {
+			page = pdf.addPage([595.28, 841.89]);
+			y = height - margin;
+		}
+	};
+
+	// Header: logo + company block on the left, document title on the right
+	const top = y;
+	if (logo) {
+		const scaled = logo.scaleToFit(140, 48);
+		page.drawImage(logo, { x: margin, y: y - scaled.height, width: scaled.width, height: scaled.height });
+		y -= scaled.height + 12;
+	}
+	text(doc.company.name, margin, 12, { font: bold });
+	y -= 14;
+	[...wrapText(doc.company.address, font, 9, 240), ...wrapText(doc.company.info, font, 9, 240), ...(doc.company.phone ? [doc.company.phone] : [])].forEach((line) => {
+		text(line, margin, 9, { color: gray });
+		y -= 12;
+	});
+	const bottom = y;
+
+	y = top;
+	text(doc.title.toUpperCase(), width - margin, 20, { font: bold, align: "right" });
+	y -= 24;
+	text(`No. ${doc.number}`, width - margin, 10, { align: "right" });
+	y -= 14;
+	text(`Date: ${doc.date}`, width - margin, 10, { align: "right", color: gray });
+	y -= 14;
+	text(`Status: ${doc.status}`, width - margin, 10, { align: "right", color: gray });
+	if (doc.expected) {
+		y -= 14;
+		text(`Expected: ${doc.expected}`, width - margin, 10, { align: "right", color: gray });
+	}
+	y = Math.min(y, bottom) - 24;
+
+	// Customer / vendor blocks
+	const parties = documentParties(doc);
+	const partiesTop = y;
+	let partiesBottom = y;
+	parties.forEach((block, index) => {
+		y = partiesTop;
+		const x = margin + index * ((width - margin * 2) / 2);
+		text(block.label.toUpperCase(), x, 8, { font: bold, color: gray });
+		y -= 14;
+		if (!block.party) {
+			text("-", x, 10);
+			y -= 14;
+		} else {
+			text(block.party.name, x, 10, { font: bold });
+			y -= 13;
+			[...block.party.address, block.party.email, block.party.phone].filter(Boolean).forEach((line) => {
+				text(String(line), x, 9);
+				y -= 12;
+			});
+		}
+		partiesBottom = Math.min(partiesBottom, y);
+	});
+	y = partiesBottom - 20;
+
+	// Line items
+	const columns = showPrices
+		? [
+				{ label: "Item", x: margin, align: undefined },
+				{ label: "Qty", x: 330, align: "right" as const },
+				{ label: doc.type === "purchase" ? "Unit cost" : "Unit price", x: 400, align: "right" as const },
+				{ label: "Discount", x: 470, align: "right" as const },
+				{ label: "Total", x: width - margin, align: "right" as const },
+			]
+		: [
+				{ label: "Item", x: margin, align: undefined },
+				{ label: "Qty", x: width - margin, align: "right" as const },
+			];
+	const itemWidth = showPrices ? 230 : width - margin * 2 - 60;
+	const header = () => {
+		columns.forEach((column) => text(column.label.toUpperCase(), column.x, 8, { font: bold, color: gray, align: column.align }));
+		y -= 8;
+		page.drawLine({ start: { x: margin, y }, end: { x: width - margin, y }, thickness: 0.5, color: gray });
+		y -= 14;
+	};
+	header();
+	if (doc.items.length === 0) {
+		text("No items", margin, 10, { color: gray });
+		y -= 16;
+	}
+	doc.items.forEach((item) => {
+		const titleLines = wrapText(item.title, bold, 10, itemWidth);
+		const optionLines = item.options ? wrapText(item.options, font, 8, itemWidth) : [];
+		const rowHeight = titleLines.length * 13 + optionLines.length * 11 + 6;
+		if (y - rowHeight < margin) {
+			page = pdf.addPage([595.28, 841.89]);
+			y = height - margin;
+			header();
+		}
+		const rowTop = y;
+		if (showPrices) {
+			text(String(item.quantity), columns[1].x, 10, { align: "right" });
+			text(formatMoney(item.price), columns[2].x, 10, { align: "right" });
+			text(item.discount ? `-${formatMoney(item.discount)}` : "-", columns[3].x, 10, { align: "right" });
+			text(formatMoney(item.total), columns[4].x, 10, { align: "right" });
+		} else {
+			text(String(item.quantity), columns[1].x, 10, { align: "right" });
+		}
+		titleLines.forEach((line) => {
+			text(line, margin, 10, { font: bold });
+			y -= 13;
+		});
+		optionLines.forEach((line) => {
+			text(line, margin, 8, { color: gray });
+			y -= 11;
+		});
+		y = Math.min(y, rowTop - 13) - 6;
+		page.drawLine({ start: { x: margin, y: y + 8 }, end: { x: width - margin, y: y + 8 }, thickness: 0.25, color: rgb(0.85, 0.86, 0.88) });
+	});
+
+	// Totals
+	if (showPrices) {
+		ensureSpace(90);
+		y -= 6;
+		[["Subtotal", formatMoney(doc.totals.subtotal)], ...(doc.totals.discount > 0 ? [["Discount", `-${formatMoney(doc.totals.discount)}`]] : []), ...(doc.type === "purchase" ? [] : [[`Tax (${doc.totals.tax_rate}%)`, formatMoney(doc.totals.tax)]])].forEach(([label, value]) => {
+			text(label, 470, 10, { color: gray, align: "right" });
+			text(value, width - margin, 10, { align: "right" });
+			y -= 14;
+		});
+		text("Total", 470, 12, { font: bold, align: "right" });
+		text(formatMoney(doc.totals.total), width - margin, 12, { font: bold, align: "right" });
+		y -= 28;
+	} else {
+		const count = doc.items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+		ensureSpace(40);
+		y -= 6;
+		text(`Total quantity: ${count}`, width - margin, 10, { font: bold, align: "right" });
+		y -= 28;
+	}
+
+	// Note
+	if (doc.company.note) {
+		const lines = wrapText(doc.company.note, font, 9, width - margin * 2);
+		ensureSpace(Math.min(lines.length, 3) * 12 + 10);
+		lines.forEach((line) => {
+			// Long notes continue on the next page
+			ensureSpace(12);
+			text(line, margin, 9, { color: gray });
+			y -= 12;
+		});
+	}
+
+	return await pdf.save();
+};
@@ -0,0 +1,72 @@
+import { cleanupUploads } from "@/lib/chunked";
+import MailService from "@/lib/email";
+import { checkFileIntegrity, purgeExpiredTrash } from "@/lib/files";
+import { generateFileVariants } from "@/lib/image";
+import { enqueueJob, JobHandler, processJobs } from "@/lib/queue";
+import { deliverWebhook } from "@/lib/webhook";
+import { deleteFinishedJobs } from "@/models/query/job";
+
+// Handlers by job type; enqueueJob(type, payload) runs them on the worker
+export const jobHandlers: Record<string, JobHandler> = {
+	"mail.send": async ({ requestId, ...options }) => {
+		const info = await MailService.getInstance().sendMail(requestId, options);
+		if (!info) {
+			throw new Error("Mail transporter is not available");
+		}
+		return { messageId: info.messageId, response: info.response };
+	},
+	"file.variants": async ({ id }) => {
+		const file = await generateFileVariants(id);
+		return { variants: file?.variants ? Object.keys(JSON.parse(file.variants)) : [] };
+	},
+	"file.check": async ({ id }) => {
+		const file = await checkFileIntegrity(id);
+		return { integrity: file?.integrity ?? null };
+	},
+	"files.purge": async () => {
+		const purged = await purgeExpiredTrash();
+		return { purged };
+	},
+	"uploads.cleanup": async () => {
+		return cleanupUploads();
+	},
+	"webhook.deliver": async ({ id }) => {
+		const delivery = await deliverWebhook(id);
+		return { status: delivery?.status ?? null };
+	},
+	"jobs.cleanup": async ({ days }) => {
+		const deleted = await deleteFinishedJobs(new Date(Date.now() - (days ?? 30) * 24 * 60 * 60 * 1000));
+		return { deleted };
+	},
+};
+
+// Recurring jobs the worker keeps queued, repeat is in seconds
+export const jobSchedules = [
+	{
+		type: "jobs.cleanup",
+		payload: { days: 30 },
+		repeat: 24 * 60 * 60,
+	},
+	{
+		type: "files.purge",
+		payload: {},
+		repeat: 24 * 60 * 60,
+	},
+	{
+		type: "uploads.cleanup",
+		payload: {},
+		repeat: 60 * 60,
+	},
+];
+
+// Make sure every recurring job has a pending run
+export const scheduleJobs = async () => {
+	for (const schedule of jobSchedules) {
+		await enqueueJob(schedule.type, schedule.payload, { key: `schedule:${schedule.type}`, repeat: schedule.repeat });
+	}
+};
+
+// Run a batch of due jobs with the registered handlers
+export const runJobs = async (workerId: string) => {
+	return processJobs(jobHandlers, workerId);
+};
@@ -0,0 +1,165 @@
+import { appState } from "@/lib/appConst";
+import { can, PermissionAction, PermissionSubject } from "@/lib/permission";
+
+// Browsers and older code use these names, uploads are stored under the standard ones
+const MIME_ALIASES: Record<string, string> = {
+	"image/jpg": "image/jpeg",
+	"video/avi": "video/x-msvideo",
+	"video/mov": "video/quicktime",
+	"video/wmv": "video/x-ms-wmv",
+	"video/flv": "video/x-flv",
+	"audio/mp3": "audio/mpeg",
+	"audio/wave": "audio/wav",
+	"audio/x-wav": "audio/wav",
+	"application/x-zip-compressed": "application/zip",
+	"application/x-zip": "application/zip",
+};
+
+// Extension saved with each detected type, the name given by the browser is not trusted
+export const MIME_EXTENSIONS: Record<string, string> = {
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"image/svg+xml": "svg",
+	"image/tiff": "tif",
+	"image/vnd.adobe.photoshop": "psd",
+	"application/postscript": "eps",
+	"video/mp4": "mp4",
+	"video/quicktime": "mov",
+	"video/x-msvideo": "avi",
+	"video/x-ms-wmv": "wmv",
+	"video/x-flv": "flv",
+	"audio/mpeg": "mp3",
+	"audio/wav": "wav",
+	"audio/ogg": "ogg",
+	"application/pdf": "pdf",
+	"application/msword": "doc",
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+	"application/zip": "zip",
+};
+
+export const normalizeMimeType = (type: string | null | undefined) => {
+	const value = (type ?? "").toLowerCase().split(";")[0].trim();
+	return MIME_ALIASES[value] ?? value;
+};
+
+const startsWith = (bytes: Uint8Array, signature: (number | null)[], offset = 0) => {
+	return bytes.length >= offset + signature.length && signature.every((byte, i) => byte === null || bytes[offset + i] === byte);
+};
+
+const ascii = (value: string) => Array.from(value, (char) => char.charCodeAt(0));
+
+const latin1 = (bytes: Uint8Array, length: number) => String.fromCharCode(...Array.from(bytes.subarray(0, length)));
+
+// Detect the type from the first bytes of the content, null when it is none of the types uploads accept
+export const sniffMimeType = (bytes: Uint8Array): string | null => {
+	if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+		return "image/jpeg";
+	}
+	if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return "image/png";
+	}
+	if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) {
+		return "image/gif";
+	}
+	if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+		return "image/tiff";
+	}
+	if (startsWith(bytes, ascii("8BPS"))) {
+		return "image/vnd.adobe.photoshop";
+	}
+	if (startsWith(bytes, ascii("%!PS")) || startsWith(bytes, [0xc5, 0xd0, 0xd3, 0xc6])) {
+		return "application/postscript";
+	}
+	if (startsWith(bytes, ascii("RIFF"))) {
+		const format = latin1(bytes.subarray(8), 4);
+		return { WEBP: "image/webp", "AVI ": "video/x-msvideo", WAVE: "audio/wav" }[format] ?? null;
+	}
+	if (startsWith(bytes, ascii("ftyp"), 4)) {
+		return latin1(bytes.subarray(8), 4) === "qt  " ? "video/quicktime" : "video/mp4";
+	}
+	if (startsWith(bytes, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) {
+		return "video/x-ms-wmv";
+	}
+	if (startsWith(bytes, ascii("FLV"))) {
+		return "video/x-flv";
+	}
+	if (startsWith(bytes, ascii("ID3")) || startsWith(bytes, [0xff, 0xfb]) || startsWith(bytes, [0xff, 0xf3]) || startsWith(bytes, [0xff, 0xf2])) {
+		return "audio/mpeg";
+	}
+	if (startsWith(bytes, ascii("OggS"))) {
+		return "audio/ogg";
+	}
+	if (startsWith(bytes, ascii("%PDF-"))) {
+		return "application/pdf";
+	}
+	if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+		return "application/msword";
+	}
+	if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+		// Word documents are zip archives with a word/ folder, its entries are listed by name in the first kilobytes
+		const head = latin1(bytes, Math.min(bytes.length, 64 * 1024));
+		return head.includes("[Content_Types].xml") && head.includes("word/") ? "application/vnd.openxmlformats-officedocument.wordprocessingml.document" : "application/zip";
+	}
+	// SVG is text: an optional BOM, XML declaration, comments or doctype, then the svg root
+	const text = new TextDecoder().decode(bytes.subarray(0, 4096)).replace(/^\uFEFF/, "");
+	if (/^\s*(<\?xml[\s\S]*?\?>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(text)) {
+		return "image/svg+xml";
+	}
+	return null;
+};
+
+export type UploadContext = "image" | "attachment" | "media";
+
+export interface UploadPolicy {
+	types: string[];
+	// Types that also need a files permission, on top of "files.create"
+	restricted?: Record<string, PermissionAction>;
+	// Large files are sent in parts (see lib/resumable)
+	chunked?: boolean;
+}
+
+// Size of each part of a chunked upload; S3 needs 5MB or more for every part but the last
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const IMAGE_TYPES = [...appState.ACCEPTED_IMG_FILE_TYPES, "image/svg+xml"];
+// Print files designers attach to orders, Illustrator files are PDFs
+const ARTWORK_TYPES = ["image/tiff", "image/vnd.adobe.photoshop", "application/postscript"];
+
+// What can be uploaded where: post and product images, order attachments, and the media library
+export const uploadPolicies: Record<UploadContext, UploadPolicy> = {
+	image: {
+		types: IMAGE_TYPES,
+		// SVG is sanitized but still markup, only "files.svg" (admins by default) adds it
+		restricted: { "image/svg+xml": "svg" },
+	},
+	attachment: {
+		types: [...appState.ACCEPTED_IMG_FILE_TYPES, ...ARTWORK_TYPES, ...appState.ACCEPTED_DOC_FILE_TYPES],
+		chunked: true,
+	},
+	media: {
+		types: [...IMAGE_TYPES, ...ARTWORK_TYPES, ...appState.ACCEPTED_VIDEO_FILE_TYPES, ...appState.ACCEPTED_AUDIO_FILE_TYPES, ...appState.ACCEPTED_DOC_FILE_TYPES],
+		restricted: { "image/svg+xml": "svg" },
+		chunked: true,
+	},
+};
+
+// Standard types a user may upload in a context, nothing without "files.create"
+export const allowedUploadTypes = (context: UploadContext, user: PermissionSubject) => {
+	const policy = uploadPolicies[context];
+	if (!policy || !can(user, "files", "create")) {
+		return [];
+	}
+	return Array.from(new Set(policy.types.map(normalizeMimeType))).filter((type) => !policy.restricted?.[type] || can(user, "files", policy.restricted[type]));
+};
+
+// Value for the accept attribute of file inputs, with the aliases browsers may report
+export const uploadAccept = (context: UploadContext) => {
+	return Array.from(new Set(uploadPolicies[context].types)).join(",");
+};
+
+// File types of a context as shown to users, e.g. "JPG, PNG, GIF"
+export const uploadTypeLabels = (context: UploadContext) => {
+	return Array.from(new Set(uploadPolicies[context].types.map((type) => (MIME_EXTENSIONS[normalizeMimeType(type)] ?? type).toUpperCase()))).join(", ");
+};
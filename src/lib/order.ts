@@ -0,0 +1,110 @@
+// Round money values to cents
+export const roundMoney = (value: number) => {
+	return Math.round((Number(value) || 0) * 100) / 100;
+};
+
+// Format money values for display
+export const formatMoney = (value: any) => {
+	return `$${roundMoney(value).toFixed(2)}`;
+};
+
+// Line total: quantity x unit price minus the line discount, never below zero
+export const calcLineTotal = (item: { quantity?: any; price?: any; discount?: any }) => {
+	const quantity = Math.max(parseInt(item?.quantity ?? 0) || 0, 0);
+	const price = Number(item?.price) || 0;
+	const discount = Number(item?.discount) || 0;
+	return roundMoney(Math.max(quantity * price - discount, 0));
+};
+
+// Order totals from the line items and the tax rate (percent)
+export const calcOrderTotals = (items: { quantity?: any; price?: any; discount?: any }[], taxRate: any) => {
+	const rate = Number(taxRate) || 0;
+	const gross = roundMoney((items ?? []).reduce((sum, item) => sum + Math.max(parseInt(item?.quantity ?? 0) || 0, 0) * (Number(item?.price) || 0), 0));
+	const subtotal = roundMoney((items ?? []).reduce((sum, item) => sum + calcLineTotal(item), 0));
+	const tax = roundMoney((subtotal * rate) / 100);
+	return {
+		subtotal,
+		discount: roundMoney(gross - subtotal),
+		tax_rate: rate,
+		tax,
+		total: roundMoney(subtotal + tax),
+	};
+};
+
+// Allowed order status moves; anything not listed here is rejected server-side
+export const orderStatusTransitions: Record<string, string[]> = {
+	pending: ["waiting", "processing", "cancelled"],
+	waiting: ["pending", "processing", "cancelled"],
+	processing: ["waiting", "shipped", "completed", "cancelled"],
+	shipped: ["delivered", "cancelled"],
+	delivered: ["completed", "refunded"],
+	completed: ["refunded"],
+	cancelled: ["refunded"],
+	refunded: [],
+};
+
+// Date column stamped when an order enters a status
+export const orderStatusDates: Record<string, string> = {
+	processing: "date_production",
+	shipped: "date_shipped",
+	delivered: "date_delivered",
+	completed: "date_completed",
+	cancelled: "date_cancelled",
+	refunded: "date_refunded",
+};
+
+// Customers can approve the design of an order until it is closed
+export const canApproveOrder = (status: string | null | undefined) => {
+	return !["cancelled", "refunded"].includes(status || "pending");
+};
+
+export class OrderStatusError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "OrderStatusError";
+	}
+}
+
+export class OrderItemError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "OrderItemError";
+	}
+}
+
+// Check if an order can move from one status to another
+export const canTransitionOrderStatus = (from: string | null | undefined, to: string) => {
+	const current = from || "pending";
+	if (!(to in orderStatusTransitions)) {
+		return false;
+	}
+	return current === to || (orderStatusTransitions[current] ?? []).includes(to);
+};
+
+// Throw when the status move is not allowed
+export const assertOrderStatusTransition = (from: string | null | undefined, to: string) => {
+	if (!canTransitionOrderStatus(from, to)) {
+		throw new OrderStatusError(to in orderStatusTransitions ? `Order status cannot change from "${from || "pending"}" to "${to}"` : `Unknown order status "${to}"`);
+	}
+};
+
+// Date fields to stamp for a status move, unless the caller sets them explicitly
+export const orderStatusTimestamps = (from: string | null | undefined, to: string, data?: any) => {
+	const field = orderStatusDates[to];
+	if (!field || (from || "pending") === to || data?.[field] !== undefined) {
+		return {};
+	}
+	return { [field]: new Date() };
+};
+
+const DEFAULT_ORDER_PREFIX = "NP";
+
+// Order prefixes are letters and numbers with at least one letter, so a number never reads like a plain counter
+export const isValidOrderKey = (key: string) => {
+	return /^[A-Za-z0-9]*$/.test(key) && !/^\d+$/.test(key);
+};
+
+// Human friendly order number prefixed by the order_key setting, e.g. NP-2026-000123
+export const formatOrderNumber = (prefix: string | null | undefined, year: number, value: number) => {
+	return [prefix?.trim() || DEFAULT_ORDER_PREFIX, year, String(value).padStart(6, "0")].join("-");
+};
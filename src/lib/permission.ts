@@ -0,0 +1,124 @@
+import { orderStatusTransitions } from "@/lib/order";
+
+// Central permission policy: resource x action x role
+// Used by the API handlers, the server actions, the admin pages and the sidebar
+
+export const permissionResources = ["dashboard", "account", "orders", "purchases", "products", "customers", "vendors", "files", "posts", "categories", "attributes", "users", "roles", "apikeys", "webhooks", "jobs", "settings", "search"] as const;
+export const permissionActions = ["read", "create", "update", "delete"] as const;
+
+export type PermissionResource = (typeof permissionResources)[number];
+// Orders also have "items" (edit line items and totals) and "status.<status>" (move an order to that status), users have "assign" (change roles and passwords), files have "svg" (upload SVG images)
+export type PermissionAction = (typeof permissionActions)[number] | "items" | "assign" | "svg" | `status.${string}`;
+export type PermissionPolicy = Record<PermissionResource, Partial<Record<PermissionAction, string[]>>>;
+export type PermissionSubject = { role?: string | null; permissions?: string[] | null } | null | undefined;
+
+const ALL = ["USER", "ADMIN", "MODERATOR"];
+const STAFF = ["ADMIN", "MODERATOR"];
+const ADMIN = ["ADMIN"];
+
+export const permissionPolicy: PermissionPolicy = {
+	dashboard: { read: ALL },
+	account: { read: ALL, update: ALL },
+	orders: {
+		read: STAFF,
+		create: STAFF,
+		update: STAFF,
+		delete: ADMIN,
+		items: STAFF,
+		...Object.fromEntries(Object.keys(orderStatusTransitions).map((status) => [`status.${status}`, STAFF])),
+	},
+	purchases: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	products: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	customers: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	vendors: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	files: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN, svg: ADMIN },
+	posts: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	categories: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	attributes: { read: STAFF, create: STAFF, update: STAFF, delete: ADMIN },
+	users: { read: STAFF, create: ADMIN, update: STAFF, delete: ADMIN, assign: ADMIN },
+	roles: { read: STAFF, create: ADMIN, update: ADMIN, delete: ADMIN },
+	// Every user manages their own keys from the account page, this covers all keys
+	apikeys: { read: ADMIN, delete: ADMIN },
+	webhooks: { read: ADMIN, create: ADMIN, update: ADMIN, delete: ADMIN },
+	jobs: { read: ADMIN, update: ADMIN, delete: ADMIN },
+	settings: { read: STAFF, update: ADMIN },
+	search: { read: STAFF },
+};
+
+export const PERMISSION_DENIED = "You do not have permission to perform this action";
+
+export const orderStatusDenied = (status: string) => `You do not have permission to set the order status to "${status}"`;
+
+// Permission key stored on roles and sessions, e.g. "orders.update" or "orders.status.shipped"
+export const permissionKey = (resource: PermissionResource, action: PermissionAction) => {
+	return `${resource}.${action}`;
+};
+
+// Every permission key an admin can grant to a custom role, grouped by resource
+export const permissionGroups = permissionResources.map((resource) => ({
+	resource,
+	actions: Object.keys(permissionPolicy[resource]) as PermissionAction[],
+}));
+
+// Permission keys granted to a built-in role by the policy
+export const rolePermissions = (role: string | null | undefined) => {
+	if (!role) {
+		return [];
+	}
+	return permissionGroups.flatMap(({ resource, actions }) => actions.filter((action) => (permissionPolicy[resource][action] ?? []).includes(role)).map((action) => permissionKey(resource, action)));
+};
+
+// Built-in role permissions plus the permissions of the custom role assigned to the user
+export const resolvePermissions = (role: string | null | undefined, custom?: string[] | null) => {
+	const known = new Set(permissionGroups.flatMap(({ resource, actions }) => actions.map((action) => permissionKey(resource, action))));
+	return Array.from(new Set([...rolePermissions(role), ...(custom ?? []).filter((key) => known.has(key))]));
+};
+
+// Permissions left to a user who still has to enroll a required authenticator app
+export const enrollmentPermissions = [permissionKey("dashboard", "read"), permissionKey("account", "read"), permissionKey("account", "update")];
+
+// Parse the permissions stored on a Role record
+export const parsePermissions = (value: string | null | undefined): string[] => {
+	try {
+		const parsed = JSON.parse(value || "[]");
+		return Array.isArray(parsed) ? parsed.filter((key) => typeof key === "string") : [];
+	} catch (error) {
+		return [];
+	}
+};
+
+// Check if a user (or session user) is allowed to perform an action on a resource
+export const can = (user: PermissionSubject, resource: PermissionResource, action: PermissionAction = "read") => {
+	if (!user?.role && !user?.permissions) {
+		return false;
+	}
+	const permissions = user.permissions ?? rolePermissions(user.role);
+	return permissions.includes(permissionKey(resource, action));
+};
+
+// Fields of a user record that grant access, only "users.assign" (admins by default) may set them
+const userAccessFields = ["role", "roleId", "password"];
+// Fields that change only through their own flows (email verification, two-factor setup), on other users they also need "users.assign": a password reset goes to the email
+const userAccountFields = ["email", "emailVerified", "isTwoFactorEnabled"];
+
+const omitFields = (data: any, fields: string[]) => {
+	if (!data || typeof data !== "object") {
+		return data;
+	}
+	return Object.fromEntries(Object.entries(data).filter(([key]) => !fields.includes(key)));
+};
+
+// Data a user is allowed to create a user record with, access fields are dropped for everyone else
+export const userCreateData = (user: PermissionSubject, data: any) => {
+	return can(user, "users", "assign") ? data : omitFields(data, userAccessFields);
+};
+
+// Update data a user is allowed to write to a user record, access and account fields are dropped for everyone else
+export const userUpdateData = (user: PermissionSubject, data: any) => {
+	return can(user, "users", "assign") ? data : omitFields(data, [...userAccessFields, ...userAccountFields]);
+};
+
+// Update data for the own account, email and two-factor only change through verification and the two-factor setup
+export const accountUpdateData = (data: any) => {
+	return omitFields(data, [...userAccessFields, ...userAccountFields]);
+};
@@ -0,0 +1,122 @@
+import { render } from "@react-email/render";
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+
+import PortalLinkEmail from "@/email/PortalLinkEmail";
+import { sendMailNow } from "@/lib/email";
+import { isTokenExpired } from "@/lib/tokens";
+import models from "@/models";
+
+// Token lifetimes in milliseconds
+export const PORTAL_LINK_TTL = 15 * 60 * 1000;
+export const PORTAL_SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+// Minimum delay before a new sign in link is emailed
+export const PORTAL_LINK_RESEND_INTERVAL = 60 * 1000;
+// lastUsedAt is written at most once per interval
+const PORTAL_TOUCH_INTERVAL = 60 * 1000;
+// The portal session lives in its own cookie, separate from the admin session
+export const PORTAL_COOKIE = "portal_session";
+
+// Hash a portal token for lookup
+export const hashPortalToken = (token: string) => {
+	return createHash("sha256").update(token).digest("hex");
+};
+
+// Email a single use sign in link to the customer, unless one was sent less than a minute ago
+export const sendPortalLink = async (customer: { id: string; email: string | null; name?: string | null }) => {
+	if (!customer.email) {
+		return null;
+	}
+	const existingToken = await models.CustomerToken.getLatestCustomerToken(customer.id, "link");
+	if (existingToken && !isTokenExpired(existingToken) && Date.now() - new Date(existingToken.createdAt).getTime() < PORTAL_LINK_RESEND_INTERVAL) {
+		return existingToken;
+	}
+	const token = randomBytes(32).toString("base64url");
+	const link = await models.CustomerToken.createCustomerToken({
+		customerId: customer.id,
+		type: "link",
+		tokenHash: hashPortalToken(token),
+		expires: new Date(Date.now() + PORTAL_LINK_TTL),
+	});
+	if (!link) {
+		return null;
+	}
+	const host = process.env.PUBLIC_SITE_NAME ?? "";
+	const emailTemplate = await render(
+		PortalLinkEmail({
+			url: `${process.env.PUBLIC_SITE_URL ?? ""}/portal/verify?token=${token}`,
+			host,
+			name: customer.name ?? undefined,
+		}),
+	);
+	await sendMailNow("portalLinkEmail", {
+		to: customer.email,
+		subject: `Your sign in link for ${host}`,
+		text: emailTemplate || "",
+		html: emailTemplate,
+	});
+	return link;
+};
+
+// Exchange a sign in link for a portal session cookie, the link is consumed either way
+export const signInWithPortalLink = async (token: string): Promise<"valid" | "invalid" | "expired"> => {
+	const link = token ? await models.CustomerToken.getCustomerTokenByHash(hashPortalToken(token)) : null;
+	if (!link || link.type !== "link") {
+		return "invalid";
+	}
+	await models.CustomerToken.deleteCustomerToken(link.id);
+	if (isTokenExpired(link)) {
+		return "expired";
+	}
+	const sessionToken = randomBytes(32).toString("base64url");
+	const session = await models.CustomerToken.createCustomerToken({
+		customerId: link.customerId,
+		type: "session",
+		tokenHash: hashPortalToken(sessionToken),
+		expires: new Date(Date.now() + PORTAL_SESSION_TTL),
+	});
+	if (!session) {
+		return "invalid";
+	}
+	// Opening the link proves the customer owns the email
+	if (!link.customer.emailVerified) {
+		await models.Customer.updateCustomer(link.customerId, { emailVerified: new Date() });
+	}
+	const cookieStore = await cookies();
+	cookieStore.set(PORTAL_COOKIE, sessionToken, {
+		httpOnly: true,
+		secure: process.env.NODE_ENV === "production",
+		sameSite: "lax",
+		path: "/portal",
+		expires: session.expires,
+	});
+	return "valid";
+};
+
+// Customer signed in to the portal, or null
+export const getPortalCustomer = async () => {
+	const cookieStore = await cookies();
+	const token = cookieStore.get(PORTAL_COOKIE)?.value;
+	if (!token) {
+		return null;
+	}
+	const session = await models.CustomerToken.getCustomerTokenByHash(hashPortalToken(token));
+	// Vendors share the customer table but have no portal
+	if (!session || session.type !== "session" || isTokenExpired(session) || (session.customer.type ?? "customer") !== "customer") {
+		return null;
+	}
+	if (!session.lastUsedAt || Date.now() - new Date(session.lastUsedAt).getTime() > PORTAL_TOUCH_INTERVAL) {
+		await models.CustomerToken.touchCustomerToken(session.id);
+	}
+	return session.customer;
+};
+
+// End the portal session
+export const signOutPortal = async () => {
+	const cookieStore = await cookies();
+	const token = cookieStore.get(PORTAL_COOKIE)?.value;
+	if (token) {
+		await models.CustomerToken.deleteCustomerTokenByHash(hashPortalToken(token));
+	}
+	cookieStore.delete({ name: PORTAL_COOKIE, path: "/portal" });
+};
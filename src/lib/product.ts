@@ -0,0 +1,68 @@
+// Option of a variant, same shape as the options of an order line
+export interface VariantOption {
+	id: string;
+	title: string;
+	value: string;
+}
+
+export interface VariantData {
+	attribute?: { id: string; title: string };
+	options: VariantOption[];
+}
+
+// Values chosen for each option of an attribute group, e.g. Color: [Black, White], Size: [S, M]
+export interface VariantGroup {
+	id: string;
+	title: string;
+	values: string[];
+}
+
+export class ProductVariantError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ProductVariantError";
+	}
+}
+
+// Every combination of the chosen values, in the order of the groups
+export const variantCombinations = (groups: VariantGroup[]): VariantOption[][] => {
+	const used = groups.filter((group) => group.values.length > 0);
+	if (used.length === 0) {
+		return [];
+	}
+	return used.reduce<VariantOption[][]>((combinations, group) => combinations.flatMap((options) => group.values.map((value) => [...options, { id: String(group.id), title: group.title, value }])), [[]]);
+};
+
+// "Black / M"
+export const variantTitle = (options: VariantOption[]) => {
+	return options.map((option) => option.value).join(" / ");
+};
+
+// Same combination whatever the order of the options, used to keep variants when they are generated again
+export const variantKey = (options: VariantOption[]) => {
+	return options
+		.map((option) => `${option.id}=${option.value.trim().toLowerCase()}`)
+		.sort()
+		.join("&");
+};
+
+const skuPart = (value: string) => {
+	return value
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[^a-zA-Z0-9]+/g, "")
+		.toUpperCase()
+		.slice(0, 12);
+};
+
+// SKU from the product and option values, e.g. TSHIRT-BLACK-M; the server adds a suffix when it is taken
+export const variantSku = (product: string, options: VariantOption[]) => {
+	return [skuPart(product) || "SKU", ...options.map((option) => skuPart(option.value)).filter(Boolean)].join("-").slice(0, 60);
+};
+
+// Margin of a variant in percent of its price
+export const variantMargin = (variant: { price?: any; cost?: any }) => {
+	const price = Number(variant?.price) || 0;
+	const cost = Number(variant?.cost) || 0;
+	return price > 0 ? Math.round(((price - cost) / price) * 1000) / 10 : 0;
+};
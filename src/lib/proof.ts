@@ -0,0 +1,71 @@
+import { render } from "@react-email/render";
+
+import ProofEmail from "@/email/ProofEmail";
+import { queueMail } from "@/lib/email";
+import { canApproveOrder, canTransitionOrderStatus } from "@/lib/order";
+
+// A round waits for review until it is approved, sent back, or replaced by a newer version
+export const proofStatuses = ["pending", "approved", "changes_requested", "superseded"] as const;
+export type ProofStatus = (typeof proofStatuses)[number];
+
+export const proofStatusLabels: Record<ProofStatus, string> = {
+	pending: "Waiting for review",
+	approved: "Approved",
+	changes_requested: "Changes requested",
+	superseded: "Superseded",
+};
+
+// Decisions a reviewer can take on a pending round
+export const proofDecisions = ["approved", "changes_requested"];
+
+export class ProofError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ProofError";
+	}
+}
+
+// Order status an approved proof moves the order to, null when it stays where it is
+export const orderStatusAfterApproval = (status: string | null | undefined) => {
+	const current = status || "pending";
+	return ["pending", "waiting"].includes(current) && canTransitionOrderStatus(current, "processing") ? "processing" : null;
+};
+
+// Throw unless the round can take the decision
+export const assertProofReview = (proof: { status: string; version: number }, orderStatus: string | null | undefined, decision: string, comment?: string | null) => {
+	if (!proofDecisions.includes(decision)) {
+		throw new ProofError(`Unknown proof decision "${decision}"`);
+	}
+	if (proof.status !== "pending") {
+		throw new ProofError(`Version ${proof.version} is no longer waiting for review`);
+	}
+	if (decision === "changes_requested" && !comment?.trim()) {
+		throw new ProofError("Describe the changes you need");
+	}
+	if (decision === "approved" && !canApproveOrder(orderStatus)) {
+		throw new ProofError(`A ${orderStatus} order can not be approved`);
+	}
+};
+
+// Email the people who act next on a proof round; never throws into the caller
+export const sendProofEmail = async (recipients: { email?: string | null; name?: string | null }[], values: { title: string; message: string; url: string; action: string }) => {
+	try {
+		for (const recipient of recipients) {
+			if (!recipient.email) continue;
+			const emailTemplate = await render(
+				ProofEmail({
+					...values,
+					name: recipient.name ?? undefined,
+				}),
+			);
+			await queueMail("proofEmail", {
+				to: recipient.email,
+				subject: values.title,
+				text: emailTemplate || "",
+				html: emailTemplate,
+			});
+		}
+	} catch (error) {
+		console.error("Proof email error:", error);
+	}
+};
@@ -0,0 +1,67 @@
+import { roundMoney } from "@/lib/order";
+
+// Allowed purchase order status moves; partial and received are only reached by receiving the items
+export const purchaseStatusTransitions: Record<string, string[]> = {
+	draft: ["sent", "cancelled"],
+	sent: ["confirmed", "partial", "received", "cancelled"],
+	confirmed: ["partial", "received", "cancelled"],
+	partial: ["received", "cancelled"],
+	received: [],
+	cancelled: [],
+};
+
+// Statuses an admin can pick by hand
+export const purchaseManualStatuses = ["draft", "sent", "confirmed", "cancelled"];
+
+// Date column stamped when a purchase order enters a status
+export const purchaseStatusDates: Record<string, string> = {
+	sent: "date_sent",
+	confirmed: "date_confirmed",
+	received: "date_received",
+	cancelled: "date_cancelled",
+};
+
+export class PurchaseOrderError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PurchaseOrderError";
+	}
+}
+
+// Check if a purchase order can move from one status to another
+export const canTransitionPurchaseStatus = (from: string | null | undefined, to: string) => {
+	const current = from || "draft";
+	if (!(to in purchaseStatusTransitions)) {
+		return false;
+	}
+	return current === to || (purchaseStatusTransitions[current] ?? []).includes(to);
+};
+
+// Throw when the status move is not allowed
+export const assertPurchaseStatusTransition = (from: string | null | undefined, to: string) => {
+	if (!canTransitionPurchaseStatus(from, to)) {
+		throw new PurchaseOrderError(to in purchaseStatusTransitions ? `Purchase order status cannot change from "${from || "draft"}" to "${to}"` : `Unknown purchase order status "${to}"`);
+	}
+};
+
+// Date fields to stamp for a status move
+export const purchaseStatusTimestamps = (from: string | null | undefined, to: string) => {
+	const field = purchaseStatusDates[to];
+	if (!field || (from || "draft") === to) {
+		return {};
+	}
+	return { [field]: new Date() };
+};
+
+// Items can be received once the vendor has the order
+export const canReceivePurchaseOrder = (status: string | null | undefined) => {
+	return ["sent", "confirmed", "partial"].includes(status || "draft");
+};
+
+export const calcPurchaseItemTotal = (item: { quantity?: any; cost?: any }) => {
+	return roundMoney((parseInt(item?.quantity) || 0) * (Number(item?.cost) || 0));
+};
+
+export const calcPurchaseTotal = (items: { quantity?: any; cost?: any }[]) => {
+	return roundMoney(items.reduce((sum, item) => sum + calcPurchaseItemTotal(item), 0));
+};
@@ -0,0 +1,92 @@
+import { Job } from "@prisma/client";
+
+import { claimJobs, createJob, getPendingJobByKey, releaseStaleJobs, updateJob } from "@/models/query/job";
+
+export type JobHandler = (payload: any, job: Job) => Promise<any>;
+
+interface EnqueueOptions {
+	// Run at a given time, or after a delay in milliseconds
+	runAt?: Date;
+	delay?: number;
+	maxAttempts?: number;
+	// Skip the job when one with the same key is still pending
+	key?: string;
+	// Queue the job again this many seconds after each run
+	repeat?: number;
+}
+
+// A running job whose lock is older than this is considered abandoned
+export const JOB_LOCK_TIMEOUT = 15 * 60 * 1000;
+export const JOB_BATCH_SIZE = 10;
+
+// Delay before the next attempt: 30s, 1m, 2m, 4m... capped at 6 hours
+export const jobBackoff = (attempts: number) => {
+	return Math.min(30 * 1000 * 2 ** Math.max(attempts - 1, 0), 6 * 60 * 60 * 1000);
+};
+
+// Add a job to the queue, returns the pending job when its key is already queued
+export const enqueueJob = async (type: string, payload: any = {}, options: EnqueueOptions = {}) => {
+	const { runAt, delay, maxAttempts, key, repeat } = options;
+	if (key) {
+		const existing = await getPendingJobByKey(key);
+		if (existing) {
+			return existing;
+		}
+	}
+	return createJob({
+		type,
+		key,
+		payload: JSON.stringify(payload ?? {}),
+		runAt: runAt ?? new Date(Date.now() + (delay ?? 0)),
+		maxAttempts,
+		repeat,
+	});
+};
+
+// Run one claimed job and record the outcome, failed attempts go back to the queue until maxAttempts
+export const runJob = async (job: Job, handlers: Record<string, JobHandler>) => {
+	let payload: any = {};
+	let status: "completed" | "retrying" | "failed";
+	try {
+		payload = JSON.parse(job.payload || "{}");
+		const handler = handlers[job.type];
+		if (!handler) {
+			throw new Error(`No handler for job type "${job.type}"`);
+		}
+		const result = await handler(payload, job);
+		await updateJob(job.id, {
+			status: "completed",
+			completedAt: new Date(),
+			lockedAt: null,
+			lockedBy: null,
+			lastError: null,
+			result: result === undefined ? null : JSON.stringify(result).slice(0, 5000),
+		});
+		status = "completed";
+	} catch (error) {
+		const failed = job.attempts >= job.maxAttempts;
+		await updateJob(job.id, {
+			status: failed ? "failed" : "pending",
+			runAt: failed ? undefined : new Date(Date.now() + jobBackoff(job.attempts)),
+			lockedAt: null,
+			lockedBy: null,
+			lastError: error instanceof Error ? (error.stack ?? error.message) : String(error),
+		});
+		status = failed ? "failed" : "retrying";
+	}
+	// Recurring jobs keep their schedule even when a run fails for good
+	if (job.repeat && status !== "retrying") {
+		await enqueueJob(job.type, payload, { key: job.key ?? undefined, repeat: job.repeat, maxAttempts: job.maxAttempts, delay: job.repeat * 1000 });
+	}
+	return status;
+};
+
+// Claim a batch of due jobs and run them one after another, returns how many ran
+export const processJobs = async (handlers: Record<string, JobHandler>, workerId: string, take = JOB_BATCH_SIZE) => {
+	await releaseStaleJobs(new Date(Date.now() - JOB_LOCK_TIMEOUT));
+	const jobs = await claimJobs(workerId, take);
+	for (const job of jobs) {
+		await runJob(job, handlers);
+	}
+	return jobs.length;
+};
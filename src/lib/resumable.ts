@@ -0,0 +1,118 @@
+import { UPLOAD_CHUNK_SIZE, UploadContext, uploadPolicies } from "@/lib/mime";
+import { uploadFile } from "@/lib/upload";
+
+// Smaller files go through the uploadFile action in one request
+const RESUMABLE_MIN_SIZE = 1024 * 1024;
+
+const PART_ATTEMPTS = 5;
+
+const API = "/api/v1/admin/uploads";
+
+// Same shape as the uploadFile action
+export interface UploadResult {
+	success: string;
+	message: string;
+	data?: any[];
+}
+
+// Upload id kept per file so a reload or dropped connection picks up where it stopped
+const storageKey = (file: File, context: UploadContext) => `upload:${context}:${file.name}:${file.size}:${file.lastModified}`;
+
+const request = async (url: string, init?: RequestInit) => {
+	const res = await fetch(url, init);
+	const json = await res.json().catch(() => ({}));
+	if (!res.ok) {
+		throw Object.assign(new Error(json?.message ?? `Upload failed (${res.status})`), { status: res.status });
+	}
+	return json.data;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitOnline = () => {
+	if (typeof navigator === "undefined" || navigator.onLine) {
+		return Promise.resolve();
+	}
+	return new Promise<void>((resolve) => window.addEventListener("online", () => resolve(), { once: true }));
+};
+
+// Send one part, retrying network and server errors with a growing delay
+const sendPart = async (id: string, number: number, body: Blob) => {
+	for (let attempt = 1; ; attempt++) {
+		await waitOnline();
+		try {
+			return await request(`${API}/${id}?part=${number}`, { method: "PUT", body, headers: { "content-type": "application/octet-stream" } });
+		} catch (error: any) {
+			// 4xx means the server refused the part, sending it again will not help
+			if (attempt >= PART_ATTEMPTS || (error?.status >= 400 && error?.status < 500)) {
+				throw error;
+			}
+			await sleep(Math.min(1000 * 2 ** attempt, 30000));
+		}
+	}
+};
+
+// An upload started earlier for the same file that can still take parts
+const resumeUpload = async (key: string) => {
+	const id = localStorage.getItem(key);
+	if (!id) {
+		return null;
+	}
+	try {
+		const upload = await request(`${API}/${id}`);
+		if (upload.status === "uploading" && new Date(upload.expiresAt) > new Date()) {
+			return upload;
+		}
+	} catch (error) {}
+	localStorage.removeItem(key);
+	return null;
+};
+
+// Upload a large file in parts, onProgress gets the fraction already stored
+export const uploadResumable = async (file: File, context: UploadContext, onProgress?: (progress: number) => void): Promise<UploadResult> => {
+	const key = storageKey(file, context);
+	try {
+		const upload = (await resumeUpload(key)) ?? (await request(API, { method: "POST", body: JSON.stringify({ name: file.name, size: file.size, context }), headers: { "content-type": "application/json" } }));
+		localStorage.setItem(key, upload.id);
+		const chunkSize = upload.chunkSize ?? UPLOAD_CHUNK_SIZE;
+		const total = Math.max(Math.ceil(file.size / chunkSize), 1);
+		const done = new Set<number>(upload.parts);
+		onProgress?.(done.size / total);
+		for (let number = 1; number <= total; number++) {
+			if (done.has(number)) {
+				continue;
+			}
+			await sendPart(upload.id, number, file.slice((number - 1) * chunkSize, number * chunkSize));
+			done.add(number);
+			onProgress?.(done.size / total);
+		}
+		const db = await request(`${API}/${upload.id}`, { method: "POST" });
+		localStorage.removeItem(key);
+		return {
+			success: "success",
+			message: "File uploaded successfully",
+			data: [db],
+		};
+	} catch (error: any) {
+		// A refused upload can not be resumed, start over next time
+		if (error?.status >= 400 && error?.status < 500) {
+			localStorage.removeItem(key);
+		}
+		return {
+			success: "error",
+			message: error?.message ?? `Can not upload "${file.name}"`,
+		};
+	}
+};
+
+// Upload one file, in parts when the context allows it and the file is large
+export const uploadWithProgress = async (file: File, context: UploadContext, onProgress?: (progress: number) => void): Promise<UploadResult | undefined> => {
+	// SVG is sanitized as a whole by the uploadFile action
+	if (uploadPolicies[context]?.chunked && file.size > RESUMABLE_MIN_SIZE && file.type !== "image/svg+xml") {
+		return uploadResumable(file, context, onProgress);
+	}
+	onProgress?.(0);
+	const up = await uploadFile([file], context);
+	onProgress?.(1);
+	return up;
+};
@@ -1,5 +1,4 @@
 import { S3Client } from "@aws-sdk/client-s3";
-import memoizeOne from "memoize-one";
 
 export const Bucket = {
 	dev: process.env.R2_BUCKET_DEV,
@@ -7,19 +6,31 @@ export const Bucket = {
 	public: process.env.R2_BUCKET_PUBLIC,
 };
 
-const getClient = memoizeOne(() => {
-	const endpoint = `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`;
+export const r2Endpoint = () => {
+	return `https://${process.env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`;
+};
 
-	return new S3Client({
-		region: "auto",
-		credentials: {
-			accessKeyId: process.env.S3_COMPATIBLE_ACCESS_ID as string,
-			secretAccessKey: process.env.S3_COMPATIBLE_SECRET_KEY as string,
-		},
-		endpoint,
-		forcePathStyle: true,
-		apiVersion: "v4",
-	});
-});
+const clients = new Map<string, S3Client>();
 
-export const s3Client = getClient();
+// One client per endpoint, R2 and any S3-compatible service (AWS, MinIO...) share the same credentials
+export const getS3Client = (endpoint?: string, region = "auto") => {
+	const cacheKey = `${endpoint ?? ""}|${region}`;
+	let client = clients.get(cacheKey);
+	if (!client) {
+		client = new S3Client({
+			region,
+			credentials: {
+				accessKeyId: process.env.S3_COMPATIBLE_ACCESS_ID as string,
+				secretAccessKey: process.env.S3_COMPATIBLE_SECRET_KEY as string,
+			},
+			endpoint: endpoint || undefined,
+			forcePathStyle: !!endpoint,
+			// Not every S3-compatible service accepts the default CRC32 checksum headers
+			requestChecksumCalculation: "WHEN_REQUIRED",
+			responseChecksumValidation: "WHEN_REQUIRED",
+			apiVersion: "v4",
+		});
+		clients.set(cacheKey, client);
+	}
+	return client;
+};
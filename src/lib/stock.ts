@@ -0,0 +1,41 @@
+// Movements of the stock ledger
+export const stockMovementTypes = ["receipt", "adjustment", "reservation", "release", "deduction"] as const;
+
+export type StockMovementType = (typeof stockMovementTypes)[number];
+
+export const stockMovementLabels: Record<StockMovementType, string> = {
+	receipt: "Received",
+	adjustment: "Adjusted",
+	reservation: "Reserved",
+	release: "Released",
+	deduction: "Shipped",
+};
+
+// What the items of an order do to the stock in each status: open orders hold it, shipped ones consumed it, cancelled ones let it go
+export const orderStockStates: Record<string, "reserve" | "deduct" | "release"> = {
+	pending: "reserve",
+	waiting: "reserve",
+	processing: "reserve",
+	shipped: "deduct",
+	delivered: "deduct",
+	completed: "deduct",
+	cancelled: "release",
+	refunded: "release",
+};
+
+export class StockError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "StockError";
+	}
+}
+
+// Units that can still be sold
+export const availableStock = (variant: { stock?: any; reserved?: any }) => {
+	return (Number(variant?.stock) || 0) - (Number(variant?.reserved) || 0);
+};
+
+export const isLowStock = (variant: { stock?: any; reserved?: any; lowStock?: any }) => {
+	const threshold = Number(variant?.lowStock) || 0;
+	return threshold > 0 && availableStock(variant) <= threshold;
+};
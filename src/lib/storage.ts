@@ -0,0 +1,459 @@
+import { AbortMultipartUploadCommand, CompleteMultipartUploadCommand, CreateMultipartUploadCommand, DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, ListObjectsV2Command, PutObjectCommand, UploadPartCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createClient } from "@supabase/supabase-js";
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { access, mkdir, readdir, readFile, rm, stat, unlink, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { finished, pipeline } from "stream/promises";
+
+import { Bucket, getS3Client, r2Endpoint } from "@/lib/s3";
+import { parseVariants } from "@/lib/variants";
+import { getAllSettings } from "@/models/query/setting";
+
+export type StorageDriverName = "local" | "s3" | "r2" | "supabase";
+
+// Objects are addressed by key ("uploads/<name>"), the public URL is what gets saved on File rows
+export interface StorageDriver {
+	name: StorageDriverName;
+	url: (key: string) => string;
+	// The key of a URL made by this driver, null when the URL belongs elsewhere
+	keyFromUrl: (url: string) => string | null;
+	put: (key: string, body: Buffer, type: string) => Promise<string>;
+	get: (key: string) => Promise<Buffer>;
+	delete: (key: string) => Promise<void>;
+	exists: (key: string) => Promise<boolean>;
+	// Temporary link for private buckets, in seconds
+	signedUrl: (key: string, expiresIn?: number) => Promise<string>;
+	// Every object under a prefix, for the orphan scan
+	list: (prefix: string) => Promise<StorageObject[]>;
+	// Read an object without holding it in memory
+	stream: (key: string) => Promise<Readable>;
+	multipart: MultipartStore;
+}
+
+export interface UploadedPart {
+	number: number;
+	etag: string;
+	size: number;
+}
+
+// Chunked uploads: parts are sent one by one, then put together under the key
+export interface MultipartStore {
+	create: (key: string, type: string) => Promise<string>;
+	uploadPart: (key: string, uploadId: string, number: number, body: Buffer) => Promise<string>;
+	complete: (key: string, uploadId: string, parts: UploadedPart[]) => Promise<string>;
+	abort: (key: string, uploadId: string) => Promise<void>;
+}
+
+export interface StorageObject {
+	key: string;
+	size: number;
+	lastModified: Date | null;
+}
+
+interface BucketConfig {
+	bucket: string;
+	publicUrl: string;
+	endpoint?: string;
+	region?: string;
+}
+
+// Settings are read again after this long, or right away after resetStorageDriver()
+const DRIVER_CACHE_TTL = 60 * 1000;
+const SIGNED_URL_EXPIRES = 3600;
+
+const trimSlash = (value: string) => value.replace(/\/+$/, "");
+
+const uploadDir = () => process.env.UPLOAD_DIR || "uploads";
+
+// Parts wait here until the upload is completed, outside of the public upload folder
+const stagingDir = (uploadId: string) => {
+	if (!/^[a-zA-Z0-9-]+$/.test(uploadId)) {
+		throw new Error(`Invalid upload id ${uploadId}`);
+	}
+	return path.join(path.resolve(process.env.UPLOAD_TMP_PATH || path.join(os.tmpdir(), "nplatform-uploads")), uploadId);
+};
+
+// Multipart for drivers without their own: part files on the local disk, handed to assemble in order
+const stagedMultipart = (assemble: (key: string, files: string[], type: string) => Promise<string>): MultipartStore => {
+	return {
+		create: async (key, type) => {
+			const uploadId = randomUUID();
+			await mkdir(stagingDir(uploadId), { recursive: true });
+			await writeFile(path.join(stagingDir(uploadId), "type"), type);
+			return uploadId;
+		},
+		uploadPart: async (key, uploadId, number, body) => {
+			await writeFile(path.join(stagingDir(uploadId), `${number}.part`), body);
+			return createHash("md5").update(body).digest("hex");
+		},
+		complete: async (key, uploadId, parts) => {
+			const files = [...parts].sort((a, b) => a.number - b.number).map((part) => path.join(stagingDir(uploadId), `${part.number}.part`));
+			const type = await readFile(path.join(stagingDir(uploadId), "type"), "utf8").catch(() => "application/octet-stream");
+			const url = await assemble(key, files, type);
+			await rm(stagingDir(uploadId), { recursive: true, force: true });
+			return url;
+		},
+		abort: async (key, uploadId) => {
+			await rm(stagingDir(uploadId), { recursive: true, force: true });
+		},
+	};
+};
+
+// Local files live in UPLOAD_PATH and are served from /UPLOAD_DIR
+export const localDriver = (): StorageDriver => {
+	const root = path.resolve(process.cwd(), process.env.UPLOAD_PATH || "");
+	const filePath = (key: string) => {
+		const name = key.startsWith(uploadDir() + "/") ? key.slice(uploadDir().length + 1) : key;
+		const file = path.resolve(root, name);
+		if (!file.startsWith(root + path.sep)) {
+			throw new Error(`Invalid storage key ${key}`);
+		}
+		return file;
+	};
+	const url = (key: string) => "/" + key;
+	return {
+		name: "local",
+		url,
+		keyFromUrl: (value) => (value.startsWith("/" + uploadDir() + "/") ? value.slice(1) : null),
+		put: async (key, body) => {
+			await writeFile(filePath(key), body);
+			return url(key);
+		},
+		get: async (key) => readFile(filePath(key)),
+		delete: async (key) => {
+			await unlink(filePath(key)).catch((error) => {
+				if (error?.code !== "ENOENT") {
+					throw error;
+				}
+			});
+		},
+		exists: async (key) =>
+			access(filePath(key))
+				.then(() => true)
+				.catch(() => false),
+		// Local files are public, there is nothing to sign
+		signedUrl: async (key) => url(key),
+		list: async (prefix) => {
+			const dir = path.dirname(filePath(`${prefix}/_`));
+			const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+			const objects: StorageObject[] = [];
+			for (const entry of entries) {
+				if (entry.isFile() && !entry.name.startsWith(".")) {
+					const info = await stat(path.join(dir, entry.name));
+					objects.push({ key: `${prefix}/${entry.name}`, size: info.size, lastModified: info.mtime });
+				}
+			}
+			return objects;
+		},
+		stream: async (key) => createReadStream(filePath(key)),
+		// Parts are appended to the final file one after another
+		multipart: stagedMultipart(async (key, files) => {
+			const out = createWriteStream(filePath(key));
+			for (const file of files) {
+				await pipeline(createReadStream(file), out, { end: false });
+			}
+			out.end();
+			await finished(out);
+			return url(key);
+		}),
+	};
+};
+
+// Any S3-compatible service: AWS S3, Cloudflare R2, MinIO...
+export const s3Driver = (name: "s3" | "r2", config: BucketConfig): StorageDriver => {
+	const client = getS3Client(config.endpoint, config.region);
+	const publicUrl = trimSlash(config.publicUrl);
+	const url = (key: string) => `${publicUrl}/${key}`;
+	return {
+		name,
+		url,
+		keyFromUrl: (value) => (publicUrl && value.startsWith(publicUrl + "/") ? value.slice(publicUrl.length + 1) : null),
+		put: async (key, body, type) => {
+			await client.send(
+				new PutObjectCommand({
+					Bucket: config.bucket,
+					Key: key,
+					Body: body,
+					ContentType: type,
+					ContentLength: body.length,
+				}),
+			);
+			return url(key);
+		},
+		get: async (key) => {
+			const res = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+			if (!res.Body) {
+				throw new Error(`File ${key} not found in ${name}`);
+			}
+			return Buffer.from(await res.Body.transformToByteArray());
+		},
+		delete: async (key) => {
+			await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+		},
+		exists: async (key) =>
+			client
+				.send(new HeadObjectCommand({ Bucket: config.bucket, Key: key }))
+				.then(() => true)
+				.catch((error) => {
+					if (error?.$metadata?.httpStatusCode === 404) {
+						return false;
+					}
+					throw error;
+				}),
+		signedUrl: async (key, expiresIn = SIGNED_URL_EXPIRES) => getSignedUrl(client, new GetObjectCommand({ Bucket: config.bucket, Key: key }), { expiresIn }),
+		list: async (prefix) => {
+			const objects: StorageObject[] = [];
+			let token: string | undefined;
+			do {
+				const res = await client.send(new ListObjectsV2Command({ Bucket: config.bucket, Prefix: prefix + "/", ContinuationToken: token }));
+				for (const item of res.Contents ?? []) {
+					if (item.Key) {
+						objects.push({ key: item.Key, size: item.Size ?? 0, lastModified: item.LastModified ?? null });
+					}
+				}
+				token = res.IsTruncated ? res.NextContinuationToken : undefined;
+			} while (token);
+			return objects;
+		},
+		stream: async (key) => {
+			const res = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+			if (!res.Body) {
+				throw new Error(`File ${key} not found in ${name}`);
+			}
+			return res.Body as Readable;
+		},
+		multipart: {
+			create: async (key, type) => {
+				const res = await client.send(new CreateMultipartUploadCommand({ Bucket: config.bucket, Key: key, ContentType: type }));
+				if (!res.UploadId) {
+					throw new Error(`Can not start a multipart upload for ${key}`);
+				}
+				return res.UploadId;
+			},
+			uploadPart: async (key, uploadId, number, body) => {
+				const res = await client.send(new UploadPartCommand({ Bucket: config.bucket, Key: key, UploadId: uploadId, PartNumber: number, Body: body, ContentLength: body.length }));
+				return res.ETag ?? "";
+			},
+			complete: async (key, uploadId, parts) => {
+				await client.send(
+					new CompleteMultipartUploadCommand({
+						Bucket: config.bucket,
+						Key: key,
+						UploadId: uploadId,
+						MultipartUpload: {
+							Parts: [...parts].sort((a, b) => a.number - b.number).map((part) => ({ ETag: part.etag, PartNumber: part.number })),
+						},
+					}),
+				);
+				return url(key);
+			},
+			abort: async (key, uploadId) => {
+				await client.send(new AbortMultipartUploadCommand({ Bucket: config.bucket, Key: key, UploadId: uploadId }));
+			},
+		},
+	};
+};
+
+// Supabase Storage, needs the service role key to write past the bucket policies
+export const supabaseDriver = (config: BucketConfig): StorageDriver => {
+	const storage = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL ?? "", process.env.SUPABASE_SERVICE_ROLE_KEY ?? "", {
+		auth: { persistSession: false },
+	}).storage.from(config.bucket);
+	const publicUrl = trimSlash(config.publicUrl || `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${config.bucket}`);
+	const url = (key: string) => `${publicUrl}/${key}`;
+	const put = async (key: string, body: Buffer, type: string) => {
+		const { error } = await storage.upload(key, body, { contentType: type, upsert: true });
+		if (error) {
+			throw error;
+		}
+		return url(key);
+	};
+	const get = async (key: string) => {
+		const { data, error } = await storage.download(key);
+		if (error || !data) {
+			throw error ?? new Error(`File ${key} not found in supabase`);
+		}
+		return Buffer.from(await data.arrayBuffer());
+	};
+	return {
+		name: "supabase",
+		url,
+		keyFromUrl: (value) => (value.startsWith(publicUrl + "/") ? value.slice(publicUrl.length + 1) : null),
+		put,
+		get,
+		delete: async (key) => {
+			const { error } = await storage.remove([key]);
+			if (error) {
+				throw error;
+			}
+		},
+		exists: async (key) => {
+			const { data, error } = await storage.exists(key);
+			if (error && !data) {
+				return false;
+			}
+			return data;
+		},
+		signedUrl: async (key, expiresIn = SIGNED_URL_EXPIRES) => {
+			const { data, error } = await storage.createSignedUrl(key, expiresIn);
+			if (error || !data) {
+				throw error ?? new Error(`Can not sign ${key}`);
+			}
+			return data.signedUrl;
+		},
+		list: async (prefix) => {
+			const objects: StorageObject[] = [];
+			const limit = 1000;
+			for (let offset = 0; ; offset += limit) {
+				const { data, error } = await storage.list(prefix, { limit, offset });
+				if (error) {
+					throw error;
+				}
+				// Folders come back without an id
+				for (const item of data.filter((item) => item.id)) {
+					objects.push({ key: `${prefix}/${item.name}`, size: item.metadata?.size ?? 0, lastModified: item.updated_at ? new Date(item.updated_at) : null });
+				}
+				if (data.length < limit) {
+					return objects;
+				}
+			}
+		},
+		stream: async (key) => Readable.from(await get(key)),
+		// Supabase Storage has no multipart API here, the assembled file is sent in one request
+		multipart: stagedMultipart(async (key, files, type) => put(key, Buffer.concat(await Promise.all(files.map((file) => readFile(file)))), type)),
+	};
+};
+
+// R2 comes from the R2_* variables, a bucket or public URL in settings overrides them
+const r2Driver = (settings: Record<string, string> = {}) => {
+	return s3Driver("r2", {
+		endpoint: r2Endpoint(),
+		region: "auto",
+		bucket: settings.storage_bucket || (process.env.NODE_ENV === "production" ? Bucket.prod : Bucket.dev) || "",
+		publicUrl: settings.storage_public_url || Bucket.public || "",
+	});
+};
+
+const createDriver = (name: string, settings: Record<string, string>): StorageDriver => {
+	const bucket = settings.storage_bucket || "";
+	const publicUrl = settings.storage_public_url || "";
+	switch (name) {
+		case "r2":
+			return r2Driver(settings);
+		case "s3": {
+			const endpoint = trimSlash(settings.storage_endpoint || process.env.S3_ENDPOINT || "");
+			const region = settings.storage_region || process.env.S3_REGION || "us-east-1";
+			const s3Bucket = bucket || process.env.S3_BUCKET || "";
+			return s3Driver("s3", {
+				endpoint: endpoint || undefined,
+				region,
+				bucket: s3Bucket,
+				// Path-style URLs for custom endpoints, virtual-hosted ones for AWS
+				publicUrl: publicUrl || process.env.S3_PUBLIC_URL || (endpoint ? `${endpoint}/${s3Bucket}` : `https://${s3Bucket}.s3.${region}.amazonaws.com`),
+			});
+		}
+		case "supabase":
+			return supabaseDriver({
+				bucket: bucket || process.env.SUPABASE_STORAGE_BUCKET || "uploads",
+				publicUrl,
+			});
+		default:
+			return localDriver();
+	}
+};
+
+// Driver chosen in settings, then STORAGE_DRIVER, then the older ENABLE_R2 flag
+const defaultDriverName = () => {
+	if (process.env.STORAGE_DRIVER) {
+		return process.env.STORAGE_DRIVER;
+	}
+	return process.env.ENABLE_R2 === "true" || process.env.ENABLE_R2 === "1" ? "r2" : "local";
+};
+
+let cached: { driver: StorageDriver; expires: number } | null = null;
+
+export const getStorageDriver = async () => {
+	if (cached && cached.expires > Date.now()) {
+		return cached.driver;
+	}
+	const settings = Object.fromEntries((await getAllSettings())?.filter((item) => item.key.startsWith("storage_")).map((item) => [item.key, item.value ?? ""]) ?? []);
+	const driver = createDriver(settings.storage_driver || defaultDriverName(), settings);
+	cached = { driver, expires: Date.now() + DRIVER_CACHE_TTL };
+	return driver;
+};
+
+// Call after the storage settings change
+export const resetStorageDriver = () => {
+	cached = null;
+};
+
+// Files saved before a driver switch keep their old URLs, so look for the driver that made the URL
+const resolveUrl = async (url: string) => {
+	const drivers = [await getStorageDriver(), localDriver()];
+	if (Bucket.public) {
+		drivers.push(r2Driver());
+	}
+	for (const driver of drivers) {
+		const key = driver.keyFromUrl(url);
+		if (key) {
+			return { driver, key };
+		}
+	}
+	throw new Error(`No storage driver for ${url}`);
+};
+
+// Objects in the upload directory of the current driver
+export const listStoredFiles = async () => {
+	const driver = await getStorageDriver();
+	return { driver, objects: await driver.list(uploadDir()) };
+};
+
+// Store a file under the upload directory and return its public URL
+export const putFile = async (name: string, buffer: Buffer, type: string) => {
+	const driver = await getStorageDriver();
+	return driver.put(`${uploadDir()}/${name}`, buffer, type);
+};
+
+// Read a stored file back from its public URL
+export const getFile = async (url: string) => {
+	const { driver, key } = await resolveUrl(url);
+	return driver.get(key);
+};
+
+// Remove a stored file by its public URL, missing files are not an error
+export const removeFile = async (url: string) => {
+	const { driver, key } = await resolveUrl(url);
+	await driver.delete(key);
+};
+
+export const fileExists = async (url: string) => {
+	const { driver, key } = await resolveUrl(url);
+	return driver.exists(key);
+};
+
+// Stream a stored file by its public URL
+export const openFile = async (url: string) => {
+	const { driver, key } = await resolveUrl(url);
+	return driver.stream(key);
+};
+
+export const signedFileUrl = async (url: string, expiresIn?: number) => {
+	const { driver, key } = await resolveUrl(url);
+	return driver.signedUrl(key, expiresIn);
+};
+
+// Remove the objects of deleted File rows with their variants, a failure is logged and does not stop the others
+export const removeStoredFiles = async (files: { url: string | null; variants?: string | null }[]) => {
+	const urls = files.flatMap((file) => [file.url, ...parseVariants(file.variants).map((variant) => variant.url)]).filter((url): url is string => !!url);
+	for (const url of urls) {
+		try {
+			await removeFile(url);
+		} catch (error) {
+			console.error(`Error removing ${url}:`, error);
+		}
+	}
+};
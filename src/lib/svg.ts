@@ -0,0 +1,53 @@
+// Elements that run scripts, embed other documents or change attributes after load
+const BLOCKED_ELEMENTS = ["script", "foreignObject", "iframe", "embed", "object", "audio", "video", "canvas", "handler", "listener", "set", "animate", "animateMotion", "animateTransform", "discard"].join("|");
+
+// Attributes that load a URL, only fragments and inline raster images are kept
+const URL_ATTRIBUTES = ["href", "xlink:href", "src", "action", "formaction"];
+const SAFE_URL = /^(#|data:image\/(png|jpeg|gif|webp);)/i;
+
+const TAG = /<[a-zA-Z][^\s/>]*(?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*\s*\/?>/g;
+const ATTRIBUTE = /\s+([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+const cleanCss = (css: string) => {
+	return css.replace(/@import[^;]*;?/gi, "").replace(/url\(\s*(?!['"]?#)[^)]*\)/gi, "none");
+};
+
+// Strip scripts, event handlers and external references from an SVG, null when it can not be made safe
+export const sanitizeSvg = (source: string) => {
+	// Entities can expand to huge documents or read local files
+	if (/<!ENTITY/i.test(source)) {
+		return null;
+	}
+	let svg = source
+		.replace(/<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>/gi, "")
+		.replace(/<\?(?!xml\s)[\s\S]*?\?>/g, "")
+		.replace(/<!--[\s\S]*?-->/g, "");
+	let previous;
+	// Repeat so that removing one element can not put a new one together
+	do {
+		previous = svg;
+		svg = svg.replace(new RegExp(`<(${BLOCKED_ELEMENTS})\\b[\\s\\S]*?<\\/\\1\\s*>`, "gi"), "").replace(new RegExp(`<\\/?(${BLOCKED_ELEMENTS})\\b[^>]*>`, "gi"), "");
+	} while (svg !== previous);
+	svg = svg.replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style\s*>)/gi, (_, open, css, close) => open + cleanCss(css) + close);
+	svg = svg.replace(TAG, (tag) =>
+		tag.replace(ATTRIBUTE, (attribute, name: string, value = "") => {
+			const key = name.toLowerCase();
+			const text = value.replace(/^["']|["']$/g, "");
+			if (key.startsWith("on")) {
+				return "";
+			}
+			if (URL_ATTRIBUTES.includes(key) && !SAFE_URL.test(text.trim())) {
+				return "";
+			}
+			if (key === "style") {
+				return ` style="${cleanCss(text).replace(/"/g, "&quot;")}"`;
+			}
+			return attribute;
+		}),
+	);
+	// Anything left that still looks active means the markup was built to get around the rules above
+	if (/<\s*script|javascript:|<[^>]*\son[a-z]+\s*=/i.test(svg)) {
+		return null;
+	}
+	return svg;
+};
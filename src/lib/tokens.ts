@@ -0,0 +1,133 @@
+import { render } from "@react-email/render";
+import { createHash, randomInt, randomUUID } from "crypto";
+
+import ResetPasswordEmail from "@/email/ResetPasswordEmail";
+import TwoFactorEmail from "@/email/TwoFactorEmail";
+import VerifyEmail from "@/email/VerifyEmail";
+import { sendMailNow } from "@/lib/email";
+import models from "@/models";
+
+// Token lifetimes in milliseconds
+export const VERIFICATION_TOKEN_TTL = 24 * 60 * 60 * 1000;
+export const PASSWORD_RESET_TOKEN_TTL = 60 * 60 * 1000;
+export const TWO_FACTOR_TOKEN_TTL = 10 * 60 * 1000;
+// Minimum delay before a new two factor code is emailed
+export const TWO_FACTOR_RESEND_INTERVAL = 60 * 1000;
+// Wrong codes allowed before the code is locked, no new code is sent until TWO_FACTOR_LOCK_TIME has passed
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+export const TWO_FACTOR_LOCK_TIME = 15 * 60 * 1000;
+
+// Check if a stored token has expired
+export const isTokenExpired = (token: { expires: Date }) => {
+	return new Date(token.expires).getTime() < Date.now();
+};
+
+// Create a new email verification token for the email
+export const generateVerificationToken = async (email: string) => {
+	return models.Auth.createVerificationToken(email, randomUUID(), new Date(Date.now() + VERIFICATION_TOKEN_TTL));
+};
+
+// Create a new password reset token for the email
+export const generatePasswordResetToken = async (email: string) => {
+	return models.Auth.createPasswordResetToken(email, randomUUID(), new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL));
+};
+
+// Send the email verification link
+export const sendVerificationEmail = async (email: string, token: string) => {
+	const host = process.env.PUBLIC_SITE_NAME ?? "";
+	const emailTemplate = await render(
+		VerifyEmail({
+			url: `${process.env.PUBLIC_SITE_URL ?? ""}/authentication/new-verification?token=${token}`,
+			host,
+		}),
+	);
+	return sendMailNow("verificationEmail", {
+		to: email,
+		subject: `Confirm your email for ${host}`,
+		text: emailTemplate || "",
+		html: emailTemplate,
+	});
+};
+
+// Send the password reset link
+export const sendPasswordResetEmail = async (email: string, token: string) => {
+	const host = process.env.PUBLIC_SITE_NAME ?? "";
+	const emailTemplate = await render(
+		ResetPasswordEmail({
+			url: `${process.env.PUBLIC_SITE_URL ?? ""}/authentication/new-password?token=${token}`,
+			host,
+		}),
+	);
+	return sendMailNow("passwordResetEmail", {
+		to: email,
+		subject: `Reset your password for ${host}`,
+		text: emailTemplate || "",
+		html: emailTemplate,
+	});
+};
+
+// Two factor codes are short, so only a hash bound to the email is stored
+export const hashTwoFactorCode = (email: string, code: string) => {
+	return createHash("sha256").update(`${email.toLowerCase()}:${code}`).digest("hex");
+};
+
+// Check if a two factor code used up its attempts and still blocks new codes
+export const isTwoFactorLocked = (token: { attempts: number; createdAt: Date }) => {
+	return token.attempts >= TWO_FACTOR_MAX_ATTEMPTS && Date.now() - new Date(token.createdAt).getTime() < TWO_FACTOR_LOCK_TIME;
+};
+
+// Email a new 6 digit sign in code, unless one was sent less than a minute ago or the last one is locked
+export const sendTwoFactorCode = async (email: string) => {
+	const existingToken = await models.Auth.getTwoFactorTokenByEmail(email);
+	if (existingToken && isTwoFactorLocked(existingToken)) {
+		return existingToken;
+	}
+	if (existingToken && !isTokenExpired(existingToken) && Date.now() - new Date(existingToken.createdAt).getTime() < TWO_FACTOR_RESEND_INTERVAL) {
+		return existingToken;
+	}
+	const code = randomInt(0, 1000000).toString().padStart(6, "0");
+	const twoFactorToken = await models.Auth.createTwoFactorToken(email, hashTwoFactorCode(email, code), new Date(Date.now() + TWO_FACTOR_TOKEN_TTL));
+	if (!twoFactorToken) {
+		return null;
+	}
+	const host = process.env.PUBLIC_SITE_NAME ?? "";
+	const emailTemplate = await render(
+		TwoFactorEmail({
+			code,
+			host,
+		}),
+	);
+	await sendMailNow("twoFactorEmail", {
+		to: email,
+		subject: `Your sign in code for ${host}`,
+		text: emailTemplate || "",
+		html: emailTemplate,
+	});
+	return twoFactorToken;
+};
+
+// Check a two factor code: "valid" consumes it, too many wrong codes lock it until TWO_FACTOR_LOCK_TIME has passed
+export const verifyTwoFactorCode = async (email: string, code: string): Promise<"valid" | "invalid" | "expired" | "locked"> => {
+	const existingToken = await models.Auth.getTwoFactorTokenByEmail(email);
+	if (!existingToken) {
+		return "invalid";
+	}
+	// A locked code is kept so sendTwoFactorCode holds back new codes
+	if (existingToken.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+		return "locked";
+	}
+	if (isTokenExpired(existingToken)) {
+		await models.Auth.deleteTwoFactorToken(existingToken.id);
+		return "expired";
+	}
+	// The attempt is taken before comparing, parallel guesses can not go past the limit
+	const attempt = await models.Auth.incrementTwoFactorAttempts(existingToken.id, TWO_FACTOR_MAX_ATTEMPTS);
+	if (!attempt) {
+		return "locked";
+	}
+	if (existingToken.token !== hashTwoFactorCode(email, code.trim())) {
+		return attempt.attempts >= TWO_FACTOR_MAX_ATTEMPTS ? "locked" : "invalid";
+	}
+	// Only the request that deletes the code signs in
+	return (await models.Auth.deleteTwoFactorToken(existingToken.id)) ? "valid" : "invalid";
+};
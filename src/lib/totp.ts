@@ -0,0 +1,180 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+
+import models from "@/models";
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 seconds), compatible with Google Authenticator
+export const TOTP_PERIOD = 30;
+export const TOTP_DIGITS = 6;
+// Accepted clock drift in steps on each side
+export const TOTP_WINDOW = 1;
+// Wrong codes allowed before the authenticator is locked for TOTP_LOCK_TIME
+export const TOTP_MAX_ATTEMPTS = 5;
+export const TOTP_LOCK_TIME = 15 * 60 * 1000;
+export const RECOVERY_CODES_COUNT = 10;
+
+// Roles that must enroll an authenticator app before using the admin
+export const TOTP_REQUIRED_ROLES = ["ADMIN"];
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Check if the role has to use an authenticator app
+export const requiresTotp = (role: string | null | undefined) => {
+	return !!role && TOTP_REQUIRED_ROLES.includes(role);
+};
+
+// RFC 4648 base32 without padding, the format authenticator apps expect
+export const base32Encode = (buffer: Buffer) => {
+	let bits = 0;
+	let value = 0;
+	let output = "";
+	for (const byte of buffer) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) {
+		output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+	}
+	return output;
+};
+
+export const base32Decode = (input: string) => {
+	const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+	let bits = 0;
+	let value = 0;
+	const output: number[] = [];
+	for (const char of clean) {
+		value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+		bits += 5;
+		if (bits >= 8) {
+			output.push((value >>> (bits - 8)) & 255);
+			bits -= 8;
+		}
+	}
+	return Buffer.from(output);
+};
+
+// New random 160-bit secret, base32 encoded
+export const generateTotpSecret = () => {
+	return base32Encode(randomBytes(20));
+};
+
+// RFC 4226 HOTP value for a counter
+const hotp = (secret: string, counter: number) => {
+	const message = Buffer.alloc(8);
+	message.writeBigUInt64BE(BigInt(counter));
+	const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+	const offset = hmac[hmac.length - 1] & 15;
+	const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+	return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+// Current time step
+export const totpStep = (time = Date.now()) => {
+	return Math.floor(time / 1000 / TOTP_PERIOD);
+};
+
+// Check a code against the secret, returns the matched step or null; steps up to lastUsedStep are rejected to stop replays
+export const verifyTotp = (secret: string, code: string, lastUsedStep?: number | null) => {
+	const token = code.replace(/\s/g, "");
+	if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(token)) {
+		return null;
+	}
+	const current = totpStep();
+	for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+		if (lastUsedStep != null && step <= lastUsedStep) {
+			continue;
+		}
+		if (timingSafeEqual(Buffer.from(hotp(secret, step)), Buffer.from(token))) {
+			return step;
+		}
+	}
+	return null;
+};
+
+// otpauth:// URI shown as a QR code during enrollment
+export const totpUri = (secret: string, account: string, issuer = process.env.PUBLIC_SITE_NAME ?? "nPlatform") => {
+	const label = encodeURIComponent(`${issuer}:${account}`);
+	const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: `${TOTP_DIGITS}`, period: `${TOTP_PERIOD}` });
+	return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Secrets are stored encrypted with a key derived from AUTH_SECRET
+const secretKey = () => {
+	return createHash("sha256")
+		.update(process.env.AUTH_SECRET ?? "")
+		.digest();
+};
+
+export const encryptTotpSecret = (secret: string) => {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv("aes-256-gcm", secretKey(), iv);
+	const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+	return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+};
+
+export const decryptTotpSecret = (value: string) => {
+	try {
+		const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64url"));
+		const decipher = createDecipheriv("aes-256-gcm", secretKey(), iv);
+		decipher.setAuthTag(tag);
+		return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+	} catch (error) {
+		return null;
+	}
+};
+
+// Recovery codes look like "k3m9q-x7w2p"; only their hash is stored
+export const normalizeRecoveryCode = (code: string) => {
+	return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+};
+
+export const hashRecoveryCode = (code: string) => {
+	return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+};
+
+export const generateRecoveryCodes = (count = RECOVERY_CODES_COUNT) => {
+	const alphabet = BASE32_ALPHABET.toLowerCase();
+	return Array.from({ length: count }, () => {
+		const code = Array.from({ length: 10 }, () => alphabet[randomInt(alphabet.length)]).join("");
+		return `${code.slice(0, 5)}-${code.slice(5)}`;
+	});
+};
+
+// Create new recovery codes for the user, returns the plain codes to show once
+export const issueRecoveryCodes = async (userId: string) => {
+	const codes = generateRecoveryCodes();
+	const saved = await models.Auth.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+	return saved ? codes : null;
+};
+
+// Check a sign in code for a user with an authenticator app: a TOTP code or an unused recovery code
+export const verifyTotpSignIn = async (userId: string, code: string): Promise<"valid" | "invalid" | "locked"> => {
+	const credential = await models.Auth.getTotpCredentialByUserId(userId);
+	if (!credential?.enabledAt) {
+		return "invalid";
+	}
+	if (credential.lockedUntil && new Date(credential.lockedUntil).getTime() > Date.now()) {
+		return "locked";
+	}
+	const secret = decryptTotpSecret(credential.secret);
+	const step = secret ? verifyTotp(secret, code, credential.lastUsedStep) : null;
+	// The step is claimed in one write, two requests with the same code can not both pass
+	if (step !== null && (await models.Auth.claimTotpStep(credential.id, step))) {
+		return "valid";
+	}
+	if (normalizeRecoveryCode(code).length === 10 && (await models.Auth.consumeRecoveryCode(userId, hashRecoveryCode(code)))) {
+		await models.Auth.updateTotpCredential(credential.id, { failedAttempts: 0, lockedUntil: null });
+		return "valid";
+	}
+	// Failures are counted with an atomic increment so parallel guesses still reach the lock
+	const failedAttempts = await models.Auth.incrementTotpAttempts(credential.id);
+	if ((failedAttempts ?? TOTP_MAX_ATTEMPTS) >= TOTP_MAX_ATTEMPTS) {
+		await models.Auth.lockTotpCredential(credential.id, TOTP_MAX_ATTEMPTS, new Date(Date.now() + TOTP_LOCK_TIME));
+		return "locked";
+	}
+	return "invalid";
+};
@@ -1,144 +1,106 @@
 "use server";
 
-import { PutObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { createHash } from "crypto";
-import { writeFile } from "fs/promises";
-import path from "path";
-
-import { auth } from "@/auth";
-import { Bucket, s3Client } from "@/lib/s3";
+import { authorizeAction } from "@/lib/auth";
+import { fileChecksum } from "@/lib/files";
+import { isResizableImage } from "@/lib/image";
+import { allowedUploadTypes, MIME_EXTENSIONS, sniffMimeType, UploadContext } from "@/lib/mime";
+import { enqueueJob } from "@/lib/queue";
+import { fileExists, putFile } from "@/lib/storage";
+import { sanitizeSvg } from "@/lib/svg";
 import models from "@/models";
 
-// Upload File
-export async function uploadFile(files: any) {
-	const session = await auth();
-	const { id, role } = session?.user || {};
+// Same wording for every rejected file, the upload field shows it as is
+const rejectUpload = (message: string) => {
+	return {
+		success: "error",
+		message,
+	};
+};
+
+const typeLabel = (type: string) => (MIME_EXTENSIONS[type] ?? type).toUpperCase();
+
+// Upload File, the context decides which types are accepted (see uploadPolicies)
+export async function uploadFile(files: any, context: UploadContext = "media") {
+	const { session, error } = await authorizeAction("files", "create");
+	if (error) {
+		return rejectUpload(error.message);
+	}
+	const { id } = session?.user || {};
 	// UPLOAD
 	const upload_path = process.env.UPLOAD_PATH;
-	const upload_dir = process.env.UPLOAD_DIR;
 	if (!upload_path) {
-		return {
-			success: "error",
-			message: "Upload path not found",
-		};
+		return rejectUpload("Upload path not found");
+	}
+	const allowed = allowedUploadTypes(context, session?.user);
+	if (allowed.length === 0) {
+		return rejectUpload("You do not have permission to upload files here");
 	}
+	const maxSize = Number(process.env.MAX_FILE_SIZE) || 2 * 1024 * 1024;
 
 	try {
 		if (files.length === 0) return;
 		const db = [];
 		for (const file of files) {
-			if (!(file instanceof File)) {
-				return {
-					success: "error",
-					message: "Invalid file",
-				};
+			if (!(file instanceof File) || !file.name) {
+				return rejectUpload("Invalid file");
 			}
 			const fileName = file.name.replaceAll(" ", "_");
-			const randomString = Math.random().toString(36).substring(2, 15);
-			const fileHash = createHash("sha256")
-				.update(fileName + randomString)
-				.digest("hex");
-			const fileBuffer = Buffer.from(await file.arrayBuffer());
-			const fileSize = file.size;
-			const fileSizeInMB = fileSize / (1024 * 1024);
-			const fileExtension = fileName.split(".").pop();
-			const fileType = file.type;
-			const fileMimeType = fileType || "application/octet-stream";
-			const fileURL = "";
-			if (fileSizeInMB > Number(process.env.MAX_FILE_SIZE)) {
-				return {
-					success: "error",
-					message: `File size exceeds ${Number(process.env.MAX_FILE_SIZE) / (1024 * 1024)}MB`,
-				};
+			if (file.size > maxSize) {
+				return rejectUpload(`"${fileName}" is larger than the ${(maxSize / (1024 * 1024)).toFixed(1).replace(/\.0$/, "")}MB limit`);
 			}
-			if (!file) {
-				return {
-					success: "error",
-					message: "File not found",
-				};
+			let fileBuffer = Buffer.from(await file.arrayBuffer());
+			// The browser's type and the extension are only claims, the content decides
+			const fileMimeType = sniffMimeType(fileBuffer);
+			if (!fileMimeType) {
+				return rejectUpload(`"${fileName}" is not a supported file type`);
 			}
-			if (!fileName) {
-				return {
-					success: "error",
-					message: "Invalid file",
-				};
+			if (!allowed.includes(fileMimeType)) {
+				return rejectUpload(`"${fileName}" is a ${typeLabel(fileMimeType)} file, allowed here: ${allowed.map(typeLabel).join(", ")}`);
 			}
-			if (!fileBuffer) {
-				return {
-					success: "error",
-					message: "Invalid file data",
-				};
+			if (fileMimeType === "image/svg+xml") {
+				const svg = sanitizeSvg(fileBuffer.toString("utf8"));
+				if (svg === null) {
+					return rejectUpload(`"${fileName}" contains markup that can not be made safe`);
+				}
+				fileBuffer = Buffer.from(svg, "utf8");
 			}
+			const fileHash = fileChecksum(fileBuffer);
+			const fileSize = fileBuffer.length;
+			const fileExtension = MIME_EXTENSIONS[fileMimeType];
 
 			try {
-				if (process.env.ENABLE_R2 === "true" || process.env.ENABLE_R2 === "1") {
-					const data = {
-						Bucket: process.env.NODE_ENV === "production" ? Bucket.prod : Bucket.dev,
-						Key: `${upload_dir}/${fileHash}.${fileExtension}`,
-					};
-
-					const signedUrl = await getSignedUrl(s3Client, new PutObjectCommand(data), {
-						expiresIn: 3600,
-					});
-
-					await fetch(signedUrl, {
-						method: "PUT",
-						headers: {
-							"Content-Type": fileMimeType,
-							"Content-Length": fileSize.toString(),
-						},
-						body: fileBuffer,
-					});
-					const response = Bucket.public + "/" + data.Key;
-					const fileDataToSave = {
-						name: fileName,
-						hash: fileHash,
-						userId: id,
-						type: fileMimeType,
-						size: fileSize,
-						ext: fileExtension,
-						published: true,
-						url: response,
-					};
-					const item = await models.File.createFile(fileDataToSave);
-					if (item) {
-						db.push(item);
-					}
-					if (!item) {
-						return {
-							success: "error",
-							message: "Can not upload the file",
-						};
-					}
-				} else {
-					await writeFile(path.join(process.cwd(), upload_path || "", "/" + fileHash + "." + fileExtension), fileBuffer);
-					const fileDataToSave = {
-						name: fileName,
-						hash: fileHash,
-						userId: id,
-						type: fileMimeType,
-						size: fileSize,
-						ext: fileExtension,
-						published: true,
-						url: "/" + upload_dir + "/" + fileHash + "." + fileExtension,
-					};
-					const item = await models.File.createFile(fileDataToSave);
-					if (item) {
-						db.push(item);
-					} else {
-						return {
-							success: "error",
-							message: "Can not upload the file",
-						};
-					}
+				// The same content uploaded again references the stored object instead of a copy
+				const match = await models.File.getFileByChecksum(fileHash);
+				const existing = match && (await fileExists(match.url).catch(() => false)) ? match : null;
+				const url = existing ? existing.url : await putFile(`${fileHash}.${fileExtension}`, fileBuffer, fileMimeType);
+				const fileDataToSave = {
+					name: fileName,
+					hash: existing?.hash ?? fileHash,
+					checksum: fileHash,
+					integrity: "ok",
+					checkedAt: new Date(),
+					userId: id,
+					type: fileMimeType,
+					size: fileSize,
+					ext: fileExtension,
+					published: true,
+					url,
+					width: existing?.width,
+					height: existing?.height,
+					variants: existing?.variants,
+				};
+				const item = await models.File.createFile(fileDataToSave);
+				if (!item) {
+					return rejectUpload(`Can not save "${fileName}"`);
+				}
+				db.push(item);
+				// Thumbnails and other sizes are made by the job worker
+				if (isResizableImage(fileMimeType) && !item.variants) {
+					await enqueueJob("file.variants", { id: item.id }, { key: `file.variants:${item.id}` });
 				}
 			} catch (error) {
 				console.error("Error writing file:", error);
-				return {
-					success: "error",
-					message: "Error writing file",
-				};
+				return rejectUpload(`Can not store "${fileName}"`);
 			}
 		}
 
@@ -0,0 +1,44 @@
+// Resized WebP copies made for uploaded images, smallest first; "webp" keeps the original size
+export const IMAGE_VARIANTS = [
+	{ name: "thumbnail", width: 320 },
+	{ name: "medium", width: 768 },
+	{ name: "large", width: 1536 },
+	{ name: "webp", width: null },
+] as const;
+
+// Image types that get variants; GIFs keep their animation and SVGs scale on their own
+export const RESIZABLE_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+export type ImageVariantName = (typeof IMAGE_VARIANTS)[number]["name"];
+
+export interface ImageVariant {
+	url: string;
+	width: number;
+	height: number;
+	size: number;
+	type: string;
+}
+
+// Variants are stored as JSON text on the File row, returns them by increasing width
+export const parseVariants = (value: any): ImageVariant[] => {
+	try {
+		const variants = typeof value === "string" ? JSON.parse(value) : value;
+		if (!variants || typeof variants !== "object") {
+			return [];
+		}
+		return (Object.values(variants) as ImageVariant[]).filter((variant) => variant?.url && variant?.width).sort((a, b) => a.width - b.width);
+	} catch (error) {
+		return [];
+	}
+};
+
+// next/image loader serving the smallest variant at least as wide as requested
+export const variantLoader = (value: any) => {
+	const variants = parseVariants(value);
+	if (variants.length === 0) {
+		return undefined;
+	}
+	return ({ width }: { width: number }) => {
+		return (variants.find((variant) => variant.width >= width) ?? variants[variants.length - 1]).url;
+	};
+};
@@ -0,0 +1,86 @@
+import { createHmac, randomBytes } from "crypto";
+
+import { enqueueJob } from "@/lib/queue";
+import { createWebhookDelivery, getWebhookDeliveryById, getWebhooksByEvent, updateWebhookDelivery } from "@/models/query/webhook";
+
+// Events an endpoint can subscribe to
+export const webhookEvents = ["order.created", "order.status_changed", "order.approved", "customer.updated", "post.published"] as const;
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+// Delay before each retry; a delivery fails for good after the last one
+export const WEBHOOK_BACKOFF = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 12 * 60 * 60 * 1000];
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+// New signing secret for an endpoint
+export const generateWebhookSecret = () => {
+	return `whsec_${randomBytes(24).toString("base64url")}`;
+};
+
+// Signature sent as "X-Webhook-Signature: sha256=<hex>" over "<timestamp>.<body>"
+export const signWebhookPayload = (secret: string, timestamp: string, body: string) => {
+	return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+};
+
+// POST a delivery to its endpoint and record the result, queueing a retry on failure
+export const deliverWebhook = async (id: string) => {
+	const delivery = await getWebhookDeliveryById(id);
+	if (!delivery?.webhook || delivery.status === "success") {
+		return delivery;
+	}
+	const timestamp = Math.floor(Date.now() / 1000).toString();
+	const attempts = delivery.attempts + 1;
+	let result: { responseStatus?: number; responseBody?: string; error?: string } = {};
+	try {
+		const res = await fetch(delivery.webhook.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "nPlatform-Webhook",
+				"X-Webhook-Id": delivery.id,
+				"X-Webhook-Event": delivery.event,
+				"X-Webhook-Timestamp": timestamp,
+				"X-Webhook-Signature": `sha256=${signWebhookPayload(delivery.webhook.secret, timestamp, delivery.payload)}`,
+			},
+			body: delivery.payload,
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+		});
+		result = { responseStatus: res.status, responseBody: (await res.text()).slice(0, 2000) };
+	} catch (error) {
+		result = { error: error instanceof Error ? error.message : String(error) };
+	}
+	const ok = !!result.responseStatus && result.responseStatus >= 200 && result.responseStatus < 300;
+	const delay = WEBHOOK_BACKOFF[attempts - 1];
+	const status = ok ? "success" : delay ? "retrying" : "failed";
+	const updated = await updateWebhookDelivery(id, {
+		attempts,
+		status,
+		responseStatus: result.responseStatus ?? null,
+		responseBody: result.responseBody ?? null,
+		error: result.error ?? null,
+		deliveredAt: ok ? new Date() : null,
+		nextAttemptAt: status === "retrying" ? new Date(Date.now() + delay) : null,
+	});
+	if (status === "retrying") {
+		await enqueueJob("webhook.deliver", { id }, { key: `webhook:${id}`, runAt: new Date(Date.now() + delay) });
+	}
+	return updated;
+};
+
+// Queue a delivery for every endpoint subscribed to the event; never throws into the caller
+export const dispatchWebhook = async (event: WebhookEvent, data: any) => {
+	try {
+		const webhooks = await getWebhooksByEvent(event);
+		for (const webhook of webhooks) {
+			// The delivery id is sent as X-Webhook-Id so receivers can drop duplicates
+			const delivery = await createWebhookDelivery({
+				webhookId: webhook.id,
+				event,
+				payload: JSON.stringify({ event, createdAt: new Date(), data }),
+			});
+			if (!delivery) continue;
+			await enqueueJob("webhook.deliver", { id: delivery.id }, { key: `webhook:${delivery.id}` });
+		}
+	} catch (error) {
+		console.error("Webhook dispatch error:", error);
+	}
+};
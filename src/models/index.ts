@@ -1,33 +1,57 @@
 import * as Account from "./query/account";
+import * as ApiKey from "./query/apikey";
 import * as Attribute from "./query/attribute";
 import * as AttributeMeta from "./query/attributemeta";
 import * as Auth from "./query/auth";
 import * as Category from "./query/category";
 import * as Customer from "./query/customer";
+import * as CustomerToken from "./query/customertoken";
 import * as File from "./query/file";
+import * as Job from "./query/job";
 import * as Order from "./query/order";
+import * as OrderEvent from "./query/orderevent";
+import * as OrderItem from "./query/orderitem";
 import * as OrderMeta from "./query/ordermeta";
 import * as Post from "./query/post";
 import * as PostMeta from "./query/postmeta";
+import * as OrderProof from "./query/proof";
+import * as PurchaseOrder from "./query/purchase";
+import * as Role from "./query/role";
 import * as Search from "./query/search";
 import * as Setting from "./query/setting";
+import * as StockMovement from "./query/stock";
+import * as Upload from "./query/upload";
 import * as User from "./query/user";
+import * as ProductVariant from "./query/variant";
+import * as Webhook from "./query/webhook";
 
 const models = {
 	Auth,
 	Account,
+	ApiKey,
 	Category,
 	Customer,
+	CustomerToken,
 	User,
+	Role,
 	File,
 	Post,
 	PostMeta,
+	ProductVariant,
+	StockMovement,
 	Setting,
 	Search,
 	Order,
+	OrderItem,
+	OrderEvent,
 	OrderMeta,
+	OrderProof,
+	PurchaseOrder,
 	Attribute,
 	AttributeMeta,
+	Webhook,
+	Job,
+	Upload,
 };
 
 export default models;
@@ -0,0 +1,160 @@
+import { db } from "@/lib/db";
+
+// Fields returned to the UI, never the hash
+const apiKeySelect = {
+	id: true,
+	createdAt: true,
+	title: true,
+	prefix: true,
+	scopes: true,
+	expiresAt: true,
+	lastUsedAt: true,
+	revokedAt: true,
+	userId: true,
+};
+
+// Get API key by token hash, with its user
+export const getApiKeyByHash = async (tokenHash: string) => {
+	try {
+		const apiKey = await db.apiKey.findUnique({
+			where: {
+				tokenHash,
+			},
+			include: {
+				user: true,
+			},
+		});
+		return apiKey;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get API keys of a user
+export const getApiKeysByUserId = async (userId: string) => {
+	try {
+		const apiKeys = await db.apiKey.findMany({
+			where: {
+				userId,
+			},
+			select: apiKeySelect,
+			orderBy: { createdAt: "desc" },
+		});
+		return apiKeys;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all API keys
+export const getAllApiKeys = async (query: any) => {
+	const { take, skip, s, orderBy } = query ?? {};
+	try {
+		const apiKeys = await db.apiKey.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: {
+				OR: s ? [{ title: { contains: s, mode: "insensitive" } }, { prefix: { contains: s } }, { user: { email: { contains: s, mode: "insensitive" } } }] : undefined,
+			},
+			select: {
+				...apiKeySelect,
+				user: {
+					select: {
+						id: true,
+						name: true,
+						email: true,
+					},
+				},
+			},
+			orderBy: orderBy ? { [orderBy]: orderBy === "title" ? "asc" : "desc" } : { createdAt: "desc" },
+		});
+		return apiKeys;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all API keys count
+export const getApiKeysCount = async (query: any) => {
+	const { s } = query ?? {};
+	try {
+		const count = await db.apiKey.count({
+			where: {
+				OR: s ? [{ title: { contains: s, mode: "insensitive" } }, { prefix: { contains: s } }, { user: { email: { contains: s, mode: "insensitive" } } }] : undefined,
+			},
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create API key
+export const createApiKey = async (data: any) => {
+	try {
+		const apiKey = await db.apiKey.create({
+			data,
+			select: apiKeySelect,
+		});
+		return apiKey;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Revoke API key, limited to the owner when userId is given
+export const revokeApiKey = async (id: string, userId?: string) => {
+	try {
+		const apiKey = await db.apiKey.updateMany({
+			where: {
+				id,
+				userId: userId ? userId : undefined,
+				revokedAt: null,
+			},
+			data: {
+				revokedAt: new Date(),
+			},
+		});
+		return apiKey.count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Revoke multiple API keys
+export const revokeMulti = async (ids: string[]) => {
+	try {
+		const apiKeys = await db.apiKey.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+				revokedAt: null,
+			},
+			data: {
+				revokedAt: new Date(),
+			},
+		});
+		return apiKeys;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Record when an API key was last used
+export const touchApiKey = async (id: string) => {
+	try {
+		const apiKey = await db.apiKey.update({
+			where: {
+				id,
+			},
+			data: {
+				lastUsedAt: new Date(),
+			},
+			select: apiKeySelect,
+		});
+		return apiKey;
+	} catch (error) {
+		return null;
+	}
+};
@@ -15,6 +15,42 @@ export const getAttributeById = async (id: number) => {
 	}
 };
 
+// Get an attribute group with its options and their values, for product variants
+export const getAttributeOptions = async (id: number) => {
+	try {
+		const attribute = await db.attribute.findUnique({
+			where: {
+				id,
+			},
+			select: {
+				id: true,
+				title: true,
+				mapto: true,
+				children: {
+					select: {
+						id: true,
+						title: true,
+						type: true,
+						meta: {
+							select: {
+								id: true,
+								key: true,
+								value: true,
+							},
+							orderBy: [{ order: "asc" }, { id: "asc" }],
+						},
+					},
+					orderBy: [{ order: "asc" }, { id: "asc" }],
+				},
+			},
+		});
+
+		return attribute;
+	} catch (error) {
+		return null;
+	}
+};
+
 // Create Attribute
 export const createAttribute = async (data: any) => {
 	const { title, content, type, parent, mapto } = data;
@@ -96,3 +96,246 @@ export const getVerificationTokenByToken = async (token: string) => {
 		return null;
 	}
 };
+
+// Create verification token, replacing any previous token for the email
+export const createVerificationToken = async (email: string, token: string, expires: Date) => {
+	try {
+		await db.verificationToken.deleteMany({
+			where: { email },
+		});
+		const verificationToken = await db.verificationToken.create({
+			data: { email, token, expires },
+		});
+		return verificationToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete verification token
+export const deleteVerificationToken = async (id: string) => {
+	try {
+		const verificationToken = await db.verificationToken.delete({
+			where: { id },
+		});
+		return verificationToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create password reset token, replacing any previous token for the email
+export const createPasswordResetToken = async (email: string, token: string, expires: Date) => {
+	try {
+		await db.passwordResetToken.deleteMany({
+			where: { email },
+		});
+		const passwordResetToken = await db.passwordResetToken.create({
+			data: { email, token, expires },
+		});
+		return passwordResetToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete password reset token
+export const deletePasswordResetToken = async (id: string) => {
+	try {
+		const passwordResetToken = await db.passwordResetToken.delete({
+			where: { id },
+		});
+		return passwordResetToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create two factor token, replacing any previous token for the email
+export const createTwoFactorToken = async (email: string, token: string, expires: Date) => {
+	try {
+		await db.twoFactorToken.deleteMany({
+			where: { email },
+		});
+		const twoFactorToken = await db.twoFactorToken.create({
+			data: { email, token, expires },
+		});
+		return twoFactorToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Take an attempt on a two factor token in one write, returns null once the attempts are used up
+export const incrementTwoFactorAttempts = async (id: string, maxAttempts: number) => {
+	try {
+		const twoFactorToken = await db.twoFactorToken.update({
+			where: { id, attempts: { lt: maxAttempts } },
+			data: { attempts: { increment: 1 } },
+		});
+		return twoFactorToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete two factor token
+export const deleteTwoFactorToken = async (id: string) => {
+	try {
+		const twoFactorToken = await db.twoFactorToken.delete({
+			where: { id },
+		});
+		return twoFactorToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create two factor confirmation for the user, consumed by the next sign in
+export const createTwoFactorConfirmation = async (userId: string) => {
+	try {
+		const twoFactorConfirmation = await db.twoFactorConfirmation.upsert({
+			where: { userId },
+			update: {},
+			create: { userId },
+		});
+		return twoFactorConfirmation;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete two factor confirmation
+export const deleteTwoFactorConfirmation = async (id: string) => {
+	try {
+		const twoFactorConfirmation = await db.twoFactorConfirmation.delete({
+			where: { id },
+		});
+		return twoFactorConfirmation;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get TOTP credential by User ID
+export const getTotpCredentialByUserId = async (userId: string) => {
+	try {
+		const totpCredential = await db.totpCredential.findUnique({
+			where: { userId },
+		});
+		return totpCredential;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Start a new TOTP enrollment, replacing any pending secret
+export const upsertTotpCredential = async (userId: string, secret: string) => {
+	try {
+		const totpCredential = await db.totpCredential.upsert({
+			where: { userId },
+			update: { secret, enabledAt: null, lastUsedStep: null, failedAttempts: 0, lockedUntil: null },
+			create: { userId, secret },
+		});
+		return totpCredential;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Update TOTP credential
+export const updateTotpCredential = async (id: string, data: any) => {
+	try {
+		const totpCredential = await db.totpCredential.update({
+			where: { id },
+			data,
+		});
+		return totpCredential;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Claim a time step for a sign in, fails when the same or a later step was already used
+export const claimTotpStep = async (id: string, step: number) => {
+	try {
+		const totpCredential = await db.totpCredential.updateMany({
+			where: { id, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+			data: { lastUsedStep: step, failedAttempts: 0, lockedUntil: null },
+		});
+		return totpCredential.count > 0;
+	} catch (error) {
+		return false;
+	}
+};
+
+// Count a failed TOTP attempt, returns the new count
+export const incrementTotpAttempts = async (id: string) => {
+	try {
+		const totpCredential = await db.totpCredential.update({
+			where: { id },
+			data: { failedAttempts: { increment: 1 } },
+		});
+		return totpCredential.failedAttempts;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Lock the credential once the failed attempts reached the limit, only one of several parallel failures locks it
+export const lockTotpCredential = async (id: string, maxAttempts: number, lockedUntil: Date) => {
+	try {
+		const totpCredential = await db.totpCredential.updateMany({
+			where: { id, failedAttempts: { gte: maxAttempts } },
+			data: { failedAttempts: 0, lockedUntil },
+		});
+		return totpCredential.count > 0;
+	} catch (error) {
+		return false;
+	}
+};
+
+// Remove the TOTP credential and recovery codes of a user
+export const deleteTotpCredential = async (userId: string) => {
+	try {
+		const [totpCredential] = await db.$transaction([db.totpCredential.deleteMany({ where: { userId } }), db.twoFactorRecoveryCode.deleteMany({ where: { userId } })]);
+		return totpCredential;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Replace the recovery codes of a user with new hashes
+export const replaceRecoveryCodes = async (userId: string, codeHashes: string[]) => {
+	try {
+		const [, recoveryCodes] = await db.$transaction([db.twoFactorRecoveryCode.deleteMany({ where: { userId } }), db.twoFactorRecoveryCode.createMany({ data: codeHashes.map((codeHash) => ({ userId, codeHash })) })]);
+		return recoveryCodes;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Mark an unused recovery code as used, returns false if it does not exist
+export const consumeRecoveryCode = async (userId: string, codeHash: string) => {
+	try {
+		const recoveryCode = await db.twoFactorRecoveryCode.updateMany({
+			where: { userId, codeHash, usedAt: null },
+			data: { usedAt: new Date() },
+		});
+		return recoveryCode.count > 0;
+	} catch (error) {
+		return false;
+	}
+};
+
+// Count unused recovery codes
+export const getRecoveryCodesCount = async (userId: string) => {
+	try {
+		const count = await db.twoFactorRecoveryCode.count({
+			where: { userId, usedAt: null },
+		});
+		return count;
+	} catch (error) {
+		return 0;
+	}
+};
@@ -167,3 +167,32 @@ export const updateMulti = async (ids: number[], data: any) => {
 		return null;
 	}
 };
+
+// Folders of the media library with their number of files, parent is 0 at the top level
+export const getFolders = async () => {
+	try {
+		const folders = await db.category.findMany({
+			where: {
+				type: "media",
+			},
+			select: {
+				id: true,
+				title: true,
+				parent: true,
+				_count: {
+					select: {
+						files: {
+							where: {
+								deletedAt: null,
+							},
+						},
+					},
+				},
+			},
+			orderBy: [{ setorder: "asc" }, { title: "asc" }],
+		});
+		return folders;
+	} catch (error) {
+		return [];
+	}
+};
@@ -1,4 +1,5 @@
 import { db } from "@/lib/db";
+import { dispatchWebhook } from "@/lib/webhook";
 
 // Get Customer by Email
 export const getCustomerByEmail = async (email: string) => {
@@ -15,6 +16,26 @@ export const getCustomerByEmail = async (email: string) => {
 	}
 };
 
+// Get the customer (not vendor) with an email, ignoring case
+export const getCustomerByEmailInsensitive = async (email: string) => {
+	try {
+		const customers = await db.customer.findMany({
+			where: {
+				email: {
+					equals: email,
+					mode: "insensitive",
+				},
+				OR: [{ type: "customer" }, { type: null }],
+			},
+			take: 2,
+		});
+		// Emails that only differ by case can belong to two customers, neither is picked
+		return customers.length === 1 ? customers[0] : null;
+	} catch (error) {
+		return null;
+	}
+};
+
 // Get Customer by ID
 export const getCustomerById = async (id: string) => {
 	try {
@@ -120,6 +141,7 @@ export const updateCustomer = async (id: string, data: any) => {
 			},
 			data,
 		});
+		await dispatchWebhook("customer.updated", customer);
 		return customer;
 	} catch (error) {
 		return null;
@@ -153,6 +175,16 @@ export const updateMulti = async (ids: string[], data: any) => {
 			},
 			data,
 		});
+		const updated = await db.customer.findMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+		});
+		for (const customer of updated) {
+			await dispatchWebhook("customer.updated", customer);
+		}
 		return customers;
 	} catch (error) {
 		return null;
@@ -0,0 +1,100 @@
+import { db } from "@/lib/db";
+
+// Get customer token by hash, with its customer
+export const getCustomerTokenByHash = async (tokenHash: string) => {
+	try {
+		const customerToken = await db.customerToken.findUnique({
+			where: {
+				tokenHash,
+			},
+			include: {
+				customer: true,
+			},
+		});
+		return customerToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get the newest token of a type for a customer
+export const getLatestCustomerToken = async (customerId: string, type: string) => {
+	try {
+		const customerToken = await db.customerToken.findFirst({
+			where: {
+				customerId,
+				type,
+			},
+			orderBy: {
+				createdAt: "desc",
+			},
+		});
+		return customerToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create customer token, a new link replaces the previous ones and expired tokens are cleaned up
+export const createCustomerToken = async (values: { customerId: string; type: string; tokenHash: string; expires: Date }) => {
+	const { customerId, type } = values;
+	try {
+		await db.customerToken.deleteMany({
+			where: {
+				customerId,
+				OR: [{ expires: { lt: new Date() } }, ...(type === "link" ? [{ type }] : [])],
+			},
+		});
+		const customerToken = await db.customerToken.create({
+			data: values,
+		});
+		return customerToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Mark customer token as used now
+export const touchCustomerToken = async (id: string) => {
+	try {
+		const customerToken = await db.customerToken.update({
+			where: {
+				id,
+			},
+			data: {
+				lastUsedAt: new Date(),
+			},
+		});
+		return customerToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete customer token
+export const deleteCustomerToken = async (id: string) => {
+	try {
+		const customerToken = await db.customerToken.delete({
+			where: {
+				id,
+			},
+		});
+		return customerToken;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete customer token by hash
+export const deleteCustomerTokenByHash = async (tokenHash: string) => {
+	try {
+		const customerTokens = await db.customerToken.deleteMany({
+			where: {
+				tokenHash,
+			},
+		});
+		return customerTokens;
+	} catch (error) {
+		return null;
+	}
+};
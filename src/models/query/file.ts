@@ -1,4 +1,5 @@
 import { db } from "@/lib/db";
+import { removeStoredFiles } from "@/lib/storage";
 
 // Get File by ID
 export const getFileById = async (id: number) => {
@@ -14,6 +15,11 @@ export const getFileById = async (id: number) => {
 						name: true,
 					},
 				},
+				tags: {
+					select: {
+						name: true,
+					},
+				},
 			},
 		});
 
@@ -35,15 +41,45 @@ export const createFile = async (data: any) => {
 	}
 };
 
+// Get a sound file with the same content, to reference its object instead of storing a copy
+export const getFileByChecksum = async (checksum: string) => {
+	try {
+		const file = await db.file.findFirst({
+			where: {
+				checksum,
+				OR: [{ integrity: null }, { integrity: "ok" }],
+			},
+			orderBy: {
+				id: "asc",
+			},
+		});
+		return file;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Folder to list: a category id, "none" for files outside any folder, empty or "all" for every file
+const folderFilter = (folder: any) => {
+	if (!folder || folder === "all") {
+		return undefined;
+	}
+	return folder === "none" ? null : Number(folder);
+};
+
 // get all files
 export const getAllFiles = async (query: any) => {
-	const { take, skip, s, orderBy, filterBy, byCat, type, published } = query;
+	const { take, skip, s, orderBy, filterBy, byCat, tag, type, published } = query;
 	try {
 		const files = await db.file.findMany({
 			take: take ? take : undefined,
 			skip: skip ? skip : undefined,
 			where: {
 				published: published ? published : undefined,
+				deletedAt: filterBy === "trash" ? { not: null } : null,
+				folderId: folderFilter(byCat),
+				tags: tag ? { some: { name: tag } } : undefined,
+				type: type ? { in: String(type).split(",") } : undefined,
 				OR: s ? [{ name: { contains: s, mode: "insensitive" } }] : undefined,
 			},
 			select: {
@@ -55,6 +91,24 @@ export const getAllFiles = async (query: any) => {
 				createdAt: true,
 				ext: true,
 				size: true,
+				integrity: true,
+				checkedAt: true,
+				deletedAt: true,
+				variants: true,
+				folder: {
+					select: {
+						id: true,
+						title: true,
+					},
+				},
+				tags: {
+					select: {
+						name: true,
+					},
+					orderBy: {
+						name: "asc",
+					},
+				},
 				user: {
 					select: {
 						id: true,
@@ -72,11 +126,15 @@ export const getAllFiles = async (query: any) => {
 
 // get all files count
 export const getFilesCount = async (query: any) => {
-	const { s, byCat, type, filterBy, published } = query;
+	const { s, byCat, tag, type, filterBy, published } = query;
 	try {
 		const count = await db.file.count({
 			where: {
 				published: published ? published : undefined,
+				deletedAt: filterBy === "trash" ? { not: null } : null,
+				folderId: folderFilter(byCat),
+				tags: tag ? { some: { name: tag } } : undefined,
+				type: type ? { in: String(type).split(",") } : undefined,
 				OR: s ? [{ name: { contains: s, mode: "insensitive" } }] : undefined,
 			},
 		});
@@ -86,13 +144,16 @@ export const getFilesCount = async (query: any) => {
 	}
 };
 
-// delete file
+// move file to the trash
 export const deleteFile = async (id: number) => {
 	try {
-		const file = await db.file.delete({
+		const file = await db.file.update({
 			where: {
 				id,
 			},
+			data: {
+				deletedAt: new Date(),
+			},
 		});
 		return file;
 	} catch (error) {
@@ -115,9 +176,59 @@ export const updateFile = async (id: number, data: any) => {
 	}
 };
 
-// delete multiple files
+// move multiple files to the trash
 export const deleteMulti = async (ids: number[]) => {
 	try {
+		const files = await db.file.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+				deletedAt: null,
+			},
+			data: {
+				deletedAt: new Date(),
+			},
+		});
+		return files;
+	} catch (error) {
+		return null;
+	}
+};
+
+// take files out of the trash
+export const restoreMulti = async (ids: number[]) => {
+	try {
+		const files = await db.file.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+			data: {
+				deletedAt: null,
+			},
+		});
+		return files;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete files for good with their stored objects
+export const purgeMulti = async (ids: number[]) => {
+	try {
+		const stored = await db.file.findMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+			select: {
+				url: true,
+				variants: true,
+			},
+		});
 		const files = await db.file.deleteMany({
 			where: {
 				id: {
@@ -125,12 +236,66 @@ export const deleteMulti = async (ids: number[]) => {
 				},
 			},
 		});
+		// Objects shared with files that are still there stay in the storage
+		const kept = await db.file.findMany({
+			where: {
+				url: {
+					in: stored.map((file) => file.url),
+				},
+			},
+			select: {
+				url: true,
+			},
+		});
+		const keptUrls = new Set(kept.map((file) => file.url));
+		await removeStoredFiles(stored.filter((file) => !keptUrls.has(file.url)));
 		return files;
 	} catch (error) {
 		return null;
 	}
 };
 
+// purge files that have been in the trash since before a date
+export const purgeTrashedFiles = async (before: Date) => {
+	try {
+		const files = await db.file.findMany({
+			where: {
+				deletedAt: {
+					lt: before,
+				},
+			},
+			select: {
+				id: true,
+			},
+		});
+		if (files.length === 0) {
+			return 0;
+		}
+		const purged = await purgeMulti(files.map((file) => file.id));
+		return purged?.count ?? 0;
+	} catch (error) {
+		return 0;
+	}
+};
+
+// URLs of every file row, trashed ones included, to compare with the storage
+export const getAllFileUrls = async () => {
+	try {
+		const files = await db.file.findMany({
+			select: {
+				id: true,
+				name: true,
+				url: true,
+				variants: true,
+				deletedAt: true,
+			},
+		});
+		return files;
+	} catch (error) {
+		return [];
+	}
+};
+
 // updateMulti
 export const updateMulti = async (ids: number[], data: any) => {
 	try {
@@ -147,3 +312,199 @@ export const updateMulti = async (ids: number[], data: any) => {
 		return null;
 	}
 };
+
+// Move files to a folder, null takes them out of any folder
+export const moveMulti = async (ids: number[], folderId: number | null) => {
+	try {
+		const files = await db.file.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+			data: {
+				folderId,
+			},
+		});
+		return files;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Add tags to files, creating the ones that do not exist yet
+export const tagMulti = async (ids: number[], names: string[]) => {
+	try {
+		const files = await db.$transaction(
+			ids.map((id) =>
+				db.file.update({
+					where: {
+						id,
+					},
+					data: {
+						tags: {
+							connectOrCreate: names.map((name) => ({
+								where: { name },
+								create: { name },
+							})),
+						},
+					},
+				}),
+			),
+		);
+		return files;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Remove tags from files
+export const untagMulti = async (ids: number[], names: string[]) => {
+	try {
+		const tags = await db.fileTag.findMany({
+			where: {
+				name: {
+					in: names,
+				},
+			},
+		});
+		const files = await db.$transaction(
+			ids.map((id) =>
+				db.file.update({
+					where: {
+						id,
+					},
+					data: {
+						tags: {
+							disconnect: tags.map((tag) => ({ id: tag.id })),
+						},
+					},
+				}),
+			),
+		);
+		return files;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Replace the tags of a file
+export const setFileTags = async (id: number, names: string[]) => {
+	try {
+		const file = await db.file.update({
+			where: {
+				id,
+			},
+			data: {
+				tags: {
+					set: [],
+					connectOrCreate: names.map((name) => ({
+						where: { name },
+						create: { name },
+					})),
+				},
+			},
+		});
+		return file;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Tags in use with their number of files, for the library browser
+export const getFileTags = async () => {
+	try {
+		const tags = await db.fileTag.findMany({
+			where: {
+				files: {
+					some: {
+						deletedAt: null,
+					},
+				},
+			},
+			select: {
+				id: true,
+				name: true,
+				_count: {
+					select: {
+						files: {
+							where: {
+								deletedAt: null,
+							},
+						},
+					},
+				},
+			},
+			orderBy: {
+				name: "asc",
+			},
+		});
+		return tags;
+	} catch (error) {
+		return [];
+	}
+};
+
+// Get the image variants of files by their URL
+export const getFileVariantsByUrls = async (urls: string[]) => {
+	try {
+		const files = await db.file.findMany({
+			where: {
+				url: {
+					in: urls.filter(Boolean),
+				},
+				variants: {
+					not: null,
+				},
+			},
+			select: {
+				url: true,
+				variants: true,
+			},
+		});
+		return Object.fromEntries(files.map((file) => [file.url, file.variants]));
+	} catch (error) {
+		return {};
+	}
+};
+
+// Get image files that have no variants yet
+export const getFilesWithoutVariants = async (types: string[], take: number = 100) => {
+	try {
+		const files = await db.file.findMany({
+			where: {
+				type: {
+					in: types,
+				},
+				variants: null,
+				deletedAt: null,
+			},
+			take,
+			select: {
+				id: true,
+			},
+		});
+		return files;
+	} catch (error) {
+		return [];
+	}
+};
+
+// Get files to check, never checked first then the oldest checks
+export const getFilesToCheck = async (take: number = 500) => {
+	try {
+		const files = await db.file.findMany({
+			where: {
+				deletedAt: null,
+			},
+			orderBy: [{ checkedAt: { sort: "asc", nulls: "first" } }, { id: "asc" }],
+			take,
+			select: {
+				id: true,
+			},
+		});
+		return files;
+	} catch (error) {
+		return [];
+	}
+};
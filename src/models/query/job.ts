@@ -0,0 +1,230 @@
+import { Job } from "@prisma/client";
+
+import { db } from "@/lib/db";
+
+// Get Job by ID
+export const getJobById = async (id: string) => {
+	try {
+		const job = await db.job.findUnique({
+			where: {
+				id,
+			},
+		});
+		return job;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get the pending job holding a key
+export const getPendingJobByKey = async (key: string) => {
+	try {
+		const job = await db.job.findFirst({
+			where: {
+				key,
+				status: "pending",
+			},
+		});
+		return job;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all jobs
+export const getAllJobs = async (query: any) => {
+	const { take, skip, s, orderBy, filterBy } = query ?? {};
+	try {
+		const jobs = await db.job.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: {
+				status: filterBy ? filterBy : undefined,
+				OR: s ? [{ id: s }, { type: { contains: s, mode: "insensitive" } }, { key: { contains: s, mode: "insensitive" } }] : undefined,
+			},
+			orderBy: orderBy ? { [orderBy]: orderBy === "type" ? "asc" : "desc" } : { createdAt: "desc" },
+		});
+		return jobs;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all jobs count
+export const getJobsCount = async (query: any) => {
+	const { s, filterBy } = query ?? {};
+	try {
+		const count = await db.job.count({
+			where: {
+				status: filterBy ? filterBy : undefined,
+				OR: s ? [{ id: s }, { type: { contains: s, mode: "insensitive" } }, { key: { contains: s, mode: "insensitive" } }] : undefined,
+			},
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Count jobs by status
+export const getJobStats = async () => {
+	try {
+		const stats = await db.job.groupBy({
+			by: ["status"],
+			_count: {
+				_all: true,
+			},
+		});
+		return Object.fromEntries(stats.map((item) => [item.status, item._count._all]));
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create Job
+export const createJob = async (data: any) => {
+	try {
+		const job = await db.job.create({
+			data,
+		});
+		return job;
+	} catch (error) {
+		return null;
+	}
+};
+
+// update job
+export const updateJob = async (id: string, data: any) => {
+	try {
+		const job = await db.job.update({
+			where: {
+				id,
+			},
+			data,
+		});
+		return job;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Lock due jobs for a worker; SKIP LOCKED lets several workers poll the table without taking the same job
+export const claimJobs = async (workerId: string, take: number) => {
+	try {
+		const jobs = await db.$queryRaw<Job[]>`
+			UPDATE "Job"
+			SET "status" = 'running', "attempts" = "attempts" + 1, "lockedAt" = (NOW() AT TIME ZONE 'UTC'), "lockedBy" = ${workerId}, "updatedAt" = (NOW() AT TIME ZONE 'UTC')
+			WHERE "id" IN (
+				SELECT "id" FROM "Job"
+				WHERE "status" = 'pending' AND "runAt" <= (NOW() AT TIME ZONE 'UTC')
+				ORDER BY "runAt" ASC
+				LIMIT ${take}
+				FOR UPDATE SKIP LOCKED
+			)
+			RETURNING *`;
+		return jobs;
+	} catch (error) {
+		return [];
+	}
+};
+
+// Put back jobs whose worker stopped while running them
+export const releaseStaleJobs = async (before: Date) => {
+	try {
+		const failed = await db.job.updateMany({
+			where: {
+				status: "running",
+				lockedAt: { lt: before },
+				attempts: { gte: db.job.fields.maxAttempts },
+			},
+			data: {
+				status: "failed",
+				lockedAt: null,
+				lockedBy: null,
+				lastError: "Worker stopped while running the job",
+			},
+		});
+		const released = await db.job.updateMany({
+			where: {
+				status: "running",
+				lockedAt: { lt: before },
+			},
+			data: {
+				status: "pending",
+				lockedAt: null,
+				lockedBy: null,
+			},
+		});
+		return failed.count + released.count;
+	} catch (error) {
+		return 0;
+	}
+};
+
+// Queue failed jobs again with a fresh set of attempts
+export const retryMulti = async (ids: string[]) => {
+	try {
+		const jobs = await db.job.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+				status: "failed",
+			},
+			data: {
+				status: "pending",
+				attempts: 0,
+				runAt: new Date(),
+				lastError: null,
+			},
+		});
+		return jobs;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete job
+export const deleteJob = async (id: string) => {
+	try {
+		const job = await db.job.delete({
+			where: {
+				id,
+			},
+		});
+		return job;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete multiple jobs
+export const deleteMulti = async (ids: string[]) => {
+	try {
+		const jobs = await db.job.deleteMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+		});
+		return jobs;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete completed and failed jobs finished before a date
+export const deleteFinishedJobs = async (before: Date) => {
+	try {
+		const jobs = await db.job.deleteMany({
+			where: {
+				status: { in: ["completed", "failed"] },
+				updatedAt: { lt: before },
+			},
+		});
+		return jobs.count;
+	} catch (error) {
+		return null;
+	}
+};
@@ -1,4 +1,73 @@
+import { Order, Prisma } from "@prisma/client";
+
 import { db } from "@/lib/db";
+import { assertOrderStatusTransition, calcOrderTotals, formatOrderNumber, OrderStatusError, orderStatusTimestamps } from "@/lib/order";
+import { dispatchWebhook } from "@/lib/webhook";
+
+import { createOrderEvent, diffValues } from "./orderevent";
+import { writeOrderStock } from "./stock";
+
+// Order fields a client may write. Totals are always computed from the line items, order numbers are allocated once
+// and items only change through orderitem.ts, so none of them are taken from the client
+const orderFields = ["title", "content", "image", "published", "data", "status", "date_created", "date_production", "date_paid", "date_shipped", "date_delivered", "date_completed", "date_cancelled", "date_refunded", "date_failed", "date_closed", "date_approved"];
+// Relations a client may link or unlink, nested creates, updates and deletes are dropped
+const orderRelations = ["files", "categories", "customer", "vendor", "user", "user_product", "user_sales", "user_shipping", "user_delivery", "user_manager", "user_quality", "user_designer", "user_financial", "user_technical", "user_packaging"];
+const orderRelationOperations = ["connect", "disconnect", "set"];
+
+const orderData = (data: any) => {
+	return Object.fromEntries(
+		Object.entries(data ?? {}).flatMap(([key, value]: [string, any]) => {
+			if (orderFields.includes(key)) {
+				return [[key, value]];
+			}
+			if (orderRelations.includes(key) && value && typeof value === "object") {
+				return [[key, Object.fromEntries(Object.entries(value).filter(([operation]) => orderRelationOperations.includes(operation)))]];
+			}
+			return [];
+		}),
+	);
+};
+
+// A status move that found the order in another status than the one it was checked against, another request moved it first
+const statusConflict = (error: unknown) => {
+	if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+		return new OrderStatusError("The order status was changed by someone else, reload and try again");
+	}
+	return error;
+};
+
+// Record an order change on the timeline, skipping updates that changed nothing, and notify webhooks of status moves
+export const logOrderChange = async (before: any, after: any, actorId?: string) => {
+	const diff = diffValues(
+		before,
+		after,
+		Object.keys(after ?? {}).filter((key) => key !== "updatedAt"),
+	);
+	if (Object.keys(diff.after).length === 0) {
+		return;
+	}
+	await createOrderEvent({
+		orderId: after.id,
+		type: before?.status !== after?.status ? "status_changed" : "updated",
+		before: diff.before,
+		after: diff.after,
+		userId: actorId,
+	});
+	if (before?.status !== after?.status) {
+		await dispatchWebhook("order.status_changed", { order: after, from: before?.status ?? null, to: after.status });
+	}
+};
+
+// Record a customer or user assignment on the timeline
+const logAssignment = async (orderId: string, table: string, name: string | null | undefined, connected: boolean, actorId?: string) => {
+	await createOrderEvent({
+		orderId,
+		type: connected ? "assigned" : "unassigned",
+		before: connected ? null : { [table]: name },
+		after: connected ? { [table]: name } : null,
+		userId: actorId,
+	});
+};
 
 // Get Order by ID
 export const getOrderById = async (id: string) => {
@@ -62,6 +131,44 @@ export const getOrderById = async (id: string) => {
 						name: true,
 					},
 				},
+				user_sales: {
+					select: {
+						id: true,
+						name: true,
+					},
+				},
+				user_shipping: {
+					select: {
+						id: true,
+						name: true,
+					},
+				},
+				items: {
+					include: {
+						product: {
+							select: {
+								id: true,
+								title: true,
+								image: true,
+							},
+						},
+						variant: {
+							select: {
+								id: true,
+								sku: true,
+								stock: true,
+								reserved: true,
+							},
+						},
+						vendor: {
+							select: {
+								id: true,
+								name: true,
+							},
+						},
+					},
+					orderBy: [{ setorder: "asc" }, { id: "asc" }],
+				},
 				categories: {
 					select: {
 						id: true,
@@ -117,13 +224,44 @@ export const getOrderById = async (id: string) => {
 };
 
 // Create Order
-export const createOrder = async (data: any) => {
+export const createOrder = async (data: any, actorId?: string) => {
 	try {
-		const order = await db.order.create({
-			data,
+		const status = data?.status || "pending";
+		assertOrderStatusTransition(status, status);
+		const order = await db.$transaction(async (tx) => {
+			// The upsert locks the year row, so concurrent orders never share a number
+			const year = new Date().getFullYear();
+			const [sequence] = await tx.$queryRaw<{ value: number }[]>`INSERT INTO "OrderSequence" ("year", "value") VALUES (${year}, 1) ON CONFLICT ("year") DO UPDATE SET "value" = "OrderSequence"."value" + 1 RETURNING "value"`;
+			const prefix = await tx.setting.findFirst({
+				where: {
+					key: "order_key",
+				},
+			});
+			const created = await tx.order.create({
+				data: {
+					...orderData(data),
+					number: formatOrderNumber(prefix?.value, year, sequence.value),
+					date_created: data?.date_created ?? new Date(),
+					...orderStatusTimestamps(null, status, data),
+				},
+			});
+			await writeOrderStock(tx, created.id, actorId);
+			return created;
+		});
+		await createOrderEvent({
+			orderId: order.id,
+			type: "created",
+			after: {
+				number: order.number,
+				title: order.title,
+				status: order.status,
+			},
+			userId: actorId,
 		});
+		await dispatchWebhook("order.created", order);
 		return order;
 	} catch (error) {
+		if (error instanceof OrderStatusError) throw error;
 		return null;
 	}
 };
@@ -137,15 +275,18 @@ export const getAllOrders = async (query: any) => {
 			skip: skip ? skip : undefined,
 			where: {
 				published: published ? published : undefined,
-				OR: s ? [{ title: { contains: s, mode: "insensitive" } }, { content: { contains: s, mode: "insensitive" } }] : undefined,
+				OR: s ? [{ number: { contains: s, mode: "insensitive" } }, { title: { contains: s, mode: "insensitive" } }, { content: { contains: s, mode: "insensitive" } }] : undefined,
 			},
 			select: {
 				id: true,
+				number: true,
 				createdAt: true,
 				title: true,
 				image: true,
 				published: true,
 				status: true,
+				subtotal: true,
+				total: true,
 				categories: {
 					select: {
 						id: true,
@@ -253,7 +394,7 @@ export const getOrdersCount = async (query: any) => {
 		const count = await db.order.count({
 			where: {
 				published: published ? published : undefined,
-				OR: s ? [{ title: { contains: s, mode: "insensitive" } }, { content: { contains: s, mode: "insensitive" } }] : undefined,
+				OR: s ? [{ number: { contains: s, mode: "insensitive" } }, { title: { contains: s, mode: "insensitive" } }, { content: { contains: s, mode: "insensitive" } }] : undefined,
 			},
 		});
 		return count;
@@ -262,13 +403,143 @@ export const getOrdersCount = async (query: any) => {
 	}
 };
 
-// delete order
-export const deleteOrder = async (id: string) => {
+// Timeline events a customer can see in the portal
+const portalEventTypes = ["created", "status_changed", "proof_uploaded", "proof_approved", "proof_changes_requested"];
+
+// Orders of a customer for the portal, without internal assignments
+export const getCustomerOrders = async (customerId: string) => {
+	try {
+		const orders = await db.order.findMany({
+			where: {
+				customer: {
+					some: {
+						id: customerId,
+					},
+				},
+			},
+			select: {
+				id: true,
+				number: true,
+				title: true,
+				status: true,
+				total: true,
+				createdAt: true,
+				date_created: true,
+				date_approved: true,
+				_count: {
+					select: {
+						items: true,
+						proofs: {
+							where: {
+								status: "pending",
+							},
+						},
+					},
+				},
+			},
+			orderBy: { createdAt: "desc" },
+		});
+		return orders;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Order of a customer for the portal: items, proof rounds and the status timeline
+export const getCustomerOrderById = async (customerId: string, id: string) => {
 	try {
-		const order = await db.order.delete({
+		const order = await db.order.findFirst({
 			where: {
 				id,
+				customer: {
+					some: {
+						id: customerId,
+					},
+				},
 			},
+			select: {
+				id: true,
+				number: true,
+				title: true,
+				status: true,
+				subtotal: true,
+				discount: true,
+				tax_rate: true,
+				tax: true,
+				total: true,
+				createdAt: true,
+				date_created: true,
+				date_production: true,
+				date_shipped: true,
+				date_delivered: true,
+				date_completed: true,
+				date_cancelled: true,
+				date_approved: true,
+				items: {
+					select: {
+						id: true,
+						title: true,
+						quantity: true,
+						price: true,
+						discount: true,
+						total: true,
+						data: true,
+					},
+					orderBy: [{ setorder: "asc" }, { id: "asc" }],
+				},
+				proofs: {
+					select: {
+						id: true,
+						version: true,
+						status: true,
+						note: true,
+						comment: true,
+						createdAt: true,
+						date_reviewed: true,
+						file: {
+							select: {
+								id: true,
+								name: true,
+								ext: true,
+								url: true,
+								type: true,
+							},
+						},
+					},
+					orderBy: { version: "desc" },
+				},
+				events: {
+					where: {
+						type: {
+							in: portalEventTypes,
+						},
+					},
+					select: {
+						id: true,
+						type: true,
+						data: true,
+						createdAt: true,
+					},
+					orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				},
+			},
+		});
+		return order;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete order, its reserved stock is released first
+export const deleteOrder = async (id: string) => {
+	try {
+		const order = await db.$transaction(async (tx) => {
+			await writeOrderStock(tx, id, undefined, "release");
+			return await tx.order.delete({
+				where: {
+					id,
+				},
+			});
 		});
 		return order;
 	} catch (error) {
@@ -276,23 +547,54 @@ export const deleteOrder = async (id: string) => {
 	}
 };
 
+// Write an order change in the caller's transaction. A status move only applies to the status it was checked against
+// and the stock follows it, errors are thrown so the transaction rolls back
+export const writeOrder = async (tx: Prisma.TransactionClient, current: Order, data: any, actorId?: string) => {
+	if (data?.status) {
+		assertOrderStatusTransition(current.status, data.status);
+	}
+	const order = await tx.order
+		.update({
+			where: {
+				id: current.id,
+				...(data?.status ? { status: current.status } : {}),
+			},
+			data: {
+				...orderData(data),
+				...(data?.status ? orderStatusTimestamps(current.status, data.status, data) : {}),
+			},
+		})
+		.catch((error) => {
+			throw statusConflict(error);
+		});
+	if (current.status !== order.status) {
+		await writeOrderStock(tx, current.id, actorId);
+	}
+	return order;
+};
+
 // update order
-export const updateOrder = async (id: string, data: any) => {
+export const updateOrder = async (id: string, data: any, actorId?: string) => {
 	try {
-		const order = await db.order.update({
+		const current = await db.order.findUnique({
 			where: {
 				id,
 			},
-			data,
 		});
+		if (!current) {
+			return null;
+		}
+		const order = await db.$transaction(async (tx) => await writeOrder(tx, current, data, actorId));
+		await logOrderChange(current, order, actorId);
 		return order;
 	} catch (error) {
+		if (error instanceof OrderStatusError) throw error;
 		return null;
 	}
 };
 
 // Disconnect customer from order
-export const disconnectCustomerFromOrder = async (orderId: string, customerId: string) => {
+export const disconnectCustomerFromOrder = async (orderId: string, customerId: string, actorId?: string) => {
 	try {
 		const order = await db.order.update({
 			where: {
@@ -306,6 +608,16 @@ export const disconnectCustomerFromOrder = async (orderId: string, customerId: s
 				},
 			},
 		});
+		const customer = await db.customer.findUnique({
+			where: {
+				id: customerId,
+			},
+			select: {
+				name: true,
+				email: true,
+			},
+		});
+		await logAssignment(orderId, "customer", customer?.name ?? customer?.email ?? customerId, false, actorId);
 		return order;
 	} catch (error) {
 		return null;
@@ -313,7 +625,7 @@ export const disconnectCustomerFromOrder = async (orderId: string, customerId: s
 };
 
 // Connect customer to order
-export const connectCustomerToOrder = async (orderId: string, customerId: string) => {
+export const connectCustomerToOrder = async (orderId: string, customerId: string, actorId?: string) => {
 	try {
 		const order = await db.order.update({
 			where: {
@@ -327,6 +639,16 @@ export const connectCustomerToOrder = async (orderId: string, customerId: string
 				},
 			},
 		});
+		const customer = await db.customer.findUnique({
+			where: {
+				id: customerId,
+			},
+			select: {
+				name: true,
+				email: true,
+			},
+		});
+		await logAssignment(orderId, "customer", customer?.name ?? customer?.email ?? customerId, true, actorId);
 		return order;
 	} catch (error) {
 		return null;
@@ -334,7 +656,7 @@ export const connectCustomerToOrder = async (orderId: string, customerId: string
 };
 
 // Disconnect user from order
-export const disconnectUserFromOrder = async (orderId: string, userId: string, table?: any) => {
+export const disconnectUserFromOrder = async (orderId: string, userId: string, table?: any, actorId?: string) => {
 	try {
 		const order = await db.order.update({
 			where: {
@@ -344,6 +666,18 @@ export const disconnectUserFromOrder = async (orderId: string, userId: string, t
 				...(table ? { [table]: { disconnect: { id: userId } } } : {}),
 			},
 		});
+		if (table) {
+			const user = await db.user.findUnique({
+				where: {
+					id: userId,
+				},
+				select: {
+					name: true,
+					email: true,
+				},
+			});
+			await logAssignment(orderId, table, user?.name ?? user?.email ?? userId, false, actorId);
+		}
 		return order;
 	} catch (error) {
 		return null;
@@ -351,7 +685,7 @@ export const disconnectUserFromOrder = async (orderId: string, userId: string, t
 };
 
 // Connect user to order
-export const connectUserToOrder = async (orderId: string, userId: string, table: any) => {
+export const connectUserToOrder = async (orderId: string, userId: string, table: any, actorId?: string) => {
 	try {
 		const order = await db.order.update({
 			where: {
@@ -361,6 +695,18 @@ export const connectUserToOrder = async (orderId: string, userId: string, table:
 				...(table ? { [table]: { connect: { id: userId } } } : {}),
 			},
 		});
+		if (table) {
+			const user = await db.user.findUnique({
+				where: {
+					id: userId,
+				},
+				select: {
+					name: true,
+					email: true,
+				},
+			});
+			await logAssignment(orderId, table, user?.name ?? user?.email ?? userId, true, actorId);
+		}
 		return order;
 	} catch (error) {
 		return null;
@@ -370,12 +716,17 @@ export const connectUserToOrder = async (orderId: string, userId: string, table:
 // Delete multiple orders
 export const deleteMulti = async (ids: string[]) => {
 	try {
-		const orders = await db.order.deleteMany({
-			where: {
-				id: {
-					in: ids,
+		const orders = await db.$transaction(async (tx) => {
+			for (const id of ids) {
+				await writeOrderStock(tx, id, undefined, "release");
+			}
+			return await tx.order.deleteMany({
+				where: {
+					id: {
+						in: ids,
+					},
 				},
-			},
+			});
 		});
 		return orders;
 	} catch (error) {
@@ -384,17 +735,70 @@ export const deleteMulti = async (ids: string[]) => {
 };
 
 // Update multiple orders
-export const updateMulti = async (ids: string[], data: any) => {
+export const updateMulti = async (ids: string[], data: any, actorId?: string) => {
 	try {
-		const orders = await db.order.updateMany({
+		if (!Array.isArray(ids) || ids.length === 0) {
+			return null;
+		}
+		const current = await db.order.findMany({
 			where: {
 				id: {
 					in: ids,
 				},
 			},
-			data,
 		});
-		return orders;
+		if (data?.status) {
+			// Every order must accept the move, otherwise nothing is updated
+			current.forEach((order) => assertOrderStatusTransition(order.status, data.status));
+		}
+		const orders = await db.$transaction(async (tx) => {
+			const updated = [];
+			for (const order of current) {
+				updated.push(await writeOrder(tx, order, data, actorId));
+			}
+			return updated;
+		});
+		for (const order of orders) {
+			await logOrderChange(
+				current.find((item) => item.id === order.id),
+				order,
+				actorId,
+			);
+		}
+		return { count: orders.length };
+	} catch (error) {
+		if (error instanceof OrderStatusError) throw error;
+		return null;
+	}
+};
+
+// Write order subtotal, tax and total from its line items, errors are thrown so a transaction rolls back
+export const writeOrderTotals = async (tx: Prisma.TransactionClient, id: string) => {
+	const [items, setting] = await Promise.all([
+		tx.orderItem.findMany({
+			where: {
+				orderId: id,
+			},
+		}),
+		tx.setting.findFirst({
+			where: {
+				key: "tax",
+			},
+		}),
+	]);
+	return await tx.order.update({
+		where: {
+			id,
+		},
+		data: calcOrderTotals(items, setting?.value),
+	});
+};
+
+// Recalculate order subtotal, tax and total from its line items
+export const recalculateOrder = async (id: string) => {
+	try {
+		const order = await writeOrderTotals(db, id);
+		return order;
 	} catch (error) {
 		return null;
 	}
@@ -0,0 +1,62 @@
+import { db } from "@/lib/db";
+
+// Changed scalar values between two records, limited to the given keys
+export const diffValues = (before: any, after: any, keys?: string[]) => {
+	const diff: { before: any; after: any } = { before: {}, after: {} };
+	const fields = keys ?? Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+	fields.forEach((key) => {
+		const prev = before?.[key] ?? null;
+		const next = after?.[key] ?? null;
+		if ((prev !== null && typeof prev === "object" && !(prev instanceof Date)) || (next !== null && typeof next === "object" && !(next instanceof Date))) {
+			return;
+		}
+		if (JSON.stringify(prev) !== JSON.stringify(next)) {
+			diff.before[key] = prev;
+			diff.after[key] = next;
+		}
+	});
+	return diff;
+};
+
+// Get OrderEvents by OrderID
+export const getOrderEventsByOrderID = async (orderId: string) => {
+	try {
+		const orderEvents = await db.orderEvent.findMany({
+			where: {
+				orderId,
+			},
+			include: {
+				user: {
+					select: {
+						id: true,
+						name: true,
+						email: true,
+					},
+				},
+			},
+			orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+		});
+
+		return orderEvents;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create OrderEvent
+export const createOrderEvent = async (values: { orderId: string; type: string; before?: any; after?: any; userId?: string | null }) => {
+	const { orderId, type, before, after, userId } = values;
+	try {
+		const orderEvent = await db.orderEvent.create({
+			data: {
+				orderId,
+				type,
+				userId: userId || null,
+				data: JSON.stringify({ before: before ?? null, after: after ?? null }),
+			},
+		});
+		return orderEvent;
+	} catch (error) {
+		return null;
+	}
+};
@@ -0,0 +1,192 @@
+import { Prisma } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { calcLineTotal, OrderItemError } from "@/lib/order";
+
+import { writeOrderTotals } from "./order";
+import { createOrderEvent, diffValues } from "./orderevent";
+import { writeOrderStock } from "./stock";
+
+const lineFields = ["title", "quantity", "price", "discount", "total", "data", "variantId", "vendorId"];
+
+// Normalize line values and compute the line total
+const lineData = (data: any) => {
+	const { id, orderId, total, order, product, variant, vendor, ...rest } = data ?? {};
+	const line = {
+		...rest,
+		...(rest.quantity !== undefined ? { quantity: Math.max(parseInt(rest.quantity) || 0, 1) } : {}),
+		...(rest.price !== undefined ? { price: Number(rest.price) || 0 } : {}),
+		...(rest.discount !== undefined ? { discount: Number(rest.discount) || 0 } : {}),
+		...(rest.productId !== undefined ? { productId: rest.productId ? parseInt(rest.productId) : null } : {}),
+		...(rest.variantId !== undefined ? { variantId: rest.variantId ? parseInt(rest.variantId) : null } : {}),
+		...(rest.vendorId !== undefined ? { vendorId: rest.vendorId || null } : {}),
+		...(rest.data !== undefined && typeof rest.data !== "string" ? { data: JSON.stringify(rest.data) } : {}),
+	};
+	return line;
+};
+
+// Only products can become order lines
+const assertProduct = async (tx: Prisma.TransactionClient, productId: number | null | undefined) => {
+	if (!productId) {
+		return;
+	}
+	const product = await tx.post.findUnique({
+		where: {
+			id: productId,
+		},
+		select: {
+			type: true,
+		},
+	});
+	if (product?.type !== "product") {
+		throw new OrderItemError("The selected product does not exist");
+	}
+};
+
+// Get OrderItem by ID
+export const getOrderItemById = async (id: number) => {
+	try {
+		const orderItem = await db.orderItem.findUnique({
+			where: {
+				id,
+			},
+		});
+
+		return orderItem;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get OrderItems by OrderID
+export const getOrderItemsByOrderID = async (orderId: string) => {
+	try {
+		const orderItems = await db.orderItem.findMany({
+			where: {
+				orderId,
+			},
+			include: {
+				product: {
+					select: {
+						id: true,
+						title: true,
+						image: true,
+					},
+				},
+				variant: {
+					select: {
+						id: true,
+						sku: true,
+						stock: true,
+						reserved: true,
+					},
+				},
+			},
+			orderBy: [{ setorder: "asc" }, { id: "asc" }],
+		});
+
+		return orderItems;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create OrderItem
+export const createOrderItem = async (orderId: string, data: any, actorId?: string) => {
+	try {
+		const line = lineData(data);
+		// The line, the order totals and the reserved stock are written together
+		const orderItem = await db.$transaction(async (tx) => {
+			await assertProduct(tx, line.productId);
+			const item = await tx.orderItem.create({
+				data: {
+					...line,
+					orderId,
+					total: calcLineTotal(line),
+				},
+			});
+			await writeOrderTotals(tx, orderId);
+			await writeOrderStock(tx, orderId, actorId);
+			return item;
+		});
+		await createOrderEvent({
+			orderId,
+			type: "item_added",
+			after: diffValues(null, orderItem, lineFields).after,
+			userId: actorId,
+		});
+		return orderItem;
+	} catch (error) {
+		if (error instanceof OrderItemError) throw error;
+		return null;
+	}
+};
+
+// Update OrderItem
+export const updateOrderItem = async (id: number, data: any, actorId?: string) => {
+	try {
+		const current = await db.orderItem.findUnique({
+			where: {
+				id,
+			},
+		});
+		if (!current) {
+			return null;
+		}
+		const line = lineData(data);
+		const orderItem = await db.$transaction(async (tx) => {
+			await assertProduct(tx, line.productId);
+			const item = await tx.orderItem.update({
+				where: {
+					id,
+				},
+				data: {
+					...line,
+					total: calcLineTotal({ ...current, ...line }),
+				},
+			});
+			await writeOrderTotals(tx, item.orderId);
+			await writeOrderStock(tx, item.orderId, actorId);
+			return item;
+		});
+		const diff = diffValues(current, orderItem, lineFields);
+		if (Object.keys(diff.after).length > 0) {
+			await createOrderEvent({
+				orderId: orderItem.orderId,
+				type: "item_updated",
+				before: { title: current.title, ...diff.before },
+				after: { title: orderItem.title, ...diff.after },
+				userId: actorId,
+			});
+		}
+		return orderItem;
+	} catch (error) {
+		if (error instanceof OrderItemError) throw error;
+		return null;
+	}
+};
+
+// Delete OrderItem
+export const deleteOrderItem = async (id: number, actorId?: string) => {
+	try {
+		const orderItem = await db.$transaction(async (tx) => {
+			const item = await tx.orderItem.delete({
+				where: {
+					id,
+				},
+			});
+			await writeOrderTotals(tx, item.orderId);
+			await writeOrderStock(tx, item.orderId, actorId);
+			return item;
+		});
+		await createOrderEvent({
+			orderId: orderItem.orderId,
+			type: "item_removed",
+			before: diffValues(orderItem, null, lineFields).before,
+			userId: actorId,
+		});
+		return orderItem;
+	} catch (error) {
+		return null;
+	}
+};
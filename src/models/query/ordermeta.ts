@@ -1,5 +1,7 @@
 import { db } from "@/lib/db";
 
+import { createOrderEvent } from "./orderevent";
+
 // Get OrderMeta by ID
 export const getOrderMetaById = async (id: number) => {
 	try {
@@ -46,9 +48,11 @@ export const getOrderMetaByKey = async (key: string) => {
 };
 
 // Create OrderMeta
-export const createOrderMeta = async (values: any) => {
+export const createOrderMeta = async (values: any, actorId?: string) => {
 	const { orderId, data } = values;
 	const res: any = [];
+	const before: any = {};
+	const after: any = {};
 	try {
 		for (let i = 0; i < data.length; i++) {
 			// check if the key already exists
@@ -58,6 +62,10 @@ export const createOrderMeta = async (values: any) => {
 					key: data[i].key,
 				},
 			});
+			if ((orderMeta?.value ?? null) !== (data[i].value ?? null)) {
+				before[data[i].key] = orderMeta?.value ?? null;
+				after[data[i].key] = data[i].value ?? null;
+			}
 			if (orderMeta) {
 				// update the orderMeta
 				const updatedOrderMeta = await db.orderMeta.update({
@@ -82,6 +90,9 @@ export const createOrderMeta = async (values: any) => {
 				res.push(createdOrderMeta);
 			}
 		}
+		if (Object.keys(after).length > 0) {
+			await createOrderEvent({ orderId, type: "meta_updated", before, after, userId: actorId });
+		}
 		return res;
 	} catch (error) {
 		return null;
@@ -89,13 +100,19 @@ export const createOrderMeta = async (values: any) => {
 };
 
 // delete orderMeta
-export const deleteOrderMeta = async (id: number) => {
+export const deleteOrderMeta = async (id: number, actorId?: string) => {
 	try {
 		const orderMeta = await db.orderMeta.delete({
 			where: {
 				id,
 			},
 		});
+		await createOrderEvent({
+			orderId: orderMeta.orderId,
+			type: "meta_deleted",
+			before: { [orderMeta.key ?? orderMeta.id]: orderMeta.value },
+			userId: actorId,
+		});
 		return orderMeta;
 	} catch (error) {
 		return null;
@@ -103,14 +120,28 @@ export const deleteOrderMeta = async (id: number) => {
 };
 
 // update orderMeta
-export const updateOrderMeta = async (id: number, data: any) => {
+export const updateOrderMeta = async (id: number, data: any, actorId?: string) => {
 	try {
+		const current = await db.orderMeta.findUnique({
+			where: {
+				id,
+			},
+		});
 		const orderMeta = await db.orderMeta.update({
 			where: {
 				id,
 			},
 			data,
 		});
+		if (current?.value !== orderMeta.value) {
+			await createOrderEvent({
+				orderId: orderMeta.orderId,
+				type: "meta_updated",
+				before: { [orderMeta.key ?? orderMeta.id]: current?.value ?? null },
+				after: { [orderMeta.key ?? orderMeta.id]: orderMeta.value },
+				userId: actorId,
+			});
+		}
 		return orderMeta;
 	} catch (error) {
 		return null;
@@ -1,4 +1,5 @@
 import { db } from "@/lib/db";
+import { dispatchWebhook } from "@/lib/webhook";
 
 // Get Post by ID
 export const getPostById = async (id: number) => {
@@ -84,6 +85,9 @@ export const createPost = async (data: any) => {
 		const post = await db.post.create({
 			data,
 		});
+		if (post.published) {
+			await dispatchWebhook("post.published", post);
+		}
 		return post;
 	} catch (error) {
 		return null;
@@ -171,12 +175,23 @@ export const deletePost = async (id: number) => {
 // update post
 export const updatePost = async (id: number, data: any) => {
 	try {
+		const current = await db.post.findUnique({
+			where: {
+				id,
+			},
+			select: {
+				published: true,
+			},
+		});
 		const post = await db.post.update({
 			where: {
 				id,
 			},
 			data,
 		});
+		if (post.published && !current?.published) {
+			await dispatchWebhook("post.published", post);
+		}
 		return post;
 	} catch (error) {
 		return null;
@@ -202,6 +217,20 @@ export const deleteMulti = async (ids: number[]) => {
 // Update multiple
 export const updateMulti = async (ids: number[], data: any) => {
 	try {
+		// Only posts that were unpublished before trigger post.published
+		const unpublished = data?.published
+			? await db.post.findMany({
+					where: {
+						id: {
+							in: ids,
+						},
+						published: false,
+					},
+					select: {
+						id: true,
+					},
+				})
+			: [];
 		const posts = await db.post.updateMany({
 			where: {
 				id: {
@@ -210,6 +239,19 @@ export const updateMulti = async (ids: number[], data: any) => {
 			},
 			data,
 		});
+		if (unpublished.length > 0) {
+			const published = await db.post.findMany({
+				where: {
+					id: {
+						in: unpublished.map((post) => post.id),
+					},
+					published: true,
+				},
+			});
+			for (const post of published) {
+				await dispatchWebhook("post.published", post);
+			}
+		}
 		return posts;
 	} catch (error) {
 		return null;
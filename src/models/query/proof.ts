@@ -0,0 +1,292 @@
+import { db } from "@/lib/db";
+import { normalizeMimeType, uploadPolicies } from "@/lib/mime";
+import { canApproveOrder, OrderStatusError } from "@/lib/order";
+import { assertProofReview, orderStatusAfterApproval, ProofError, proofStatusLabels, sendProofEmail } from "@/lib/proof";
+import { dispatchWebhook } from "@/lib/webhook";
+
+import { logOrderChange, writeOrder } from "./order";
+import { createOrderEvent } from "./orderevent";
+
+const proofInclude = {
+	file: {
+		select: {
+			id: true,
+			name: true,
+			ext: true,
+			url: true,
+			type: true,
+		},
+	},
+	user: {
+		select: {
+			id: true,
+			name: true,
+		},
+	},
+	reviewer: {
+		select: {
+			id: true,
+			name: true,
+		},
+	},
+	customer: {
+		select: {
+			id: true,
+			name: true,
+		},
+	},
+};
+
+// People to notify about an order: customers review proofs, designers act on the review
+const orderContacts = async (orderId: string) => {
+	return db.order.findUnique({
+		where: {
+			id: orderId,
+		},
+		select: {
+			id: true,
+			number: true,
+			title: true,
+			customer: {
+				select: {
+					email: true,
+					name: true,
+				},
+			},
+			user_designer: {
+				select: {
+					email: true,
+					name: true,
+				},
+			},
+		},
+	});
+};
+
+// Get proof rounds of an order, newest version first
+export const getProofsByOrderId = async (orderId: string) => {
+	try {
+		const proofs = await db.orderProof.findMany({
+			where: {
+				orderId,
+			},
+			include: proofInclude,
+			orderBy: {
+				version: "desc",
+			},
+		});
+		return proofs;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get proof by ID
+export const getProofById = async (id: number) => {
+	try {
+		const proof = await db.orderProof.findUnique({
+			where: {
+				id,
+			},
+			include: proofInclude,
+		});
+		return proof;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Start a new proof round with the next version, a round still waiting for review is superseded.
+// The file is attached to the order and the order waits for a new approval
+export const createProof = async (orderId: string, data: { fileId: number | string; note?: string | null }, actorId?: string) => {
+	try {
+		const proof = await db.$transaction(async (tx) => {
+			await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+			const order = await tx.order.findUnique({
+				where: {
+					id: orderId,
+				},
+			});
+			if (!order) {
+				return null;
+			}
+			if (!canApproveOrder(order.status)) {
+				throw new ProofError(`A ${order.status} order can not get new proofs`);
+			}
+			const fileId = parseInt(String(data?.fileId ?? ""));
+			if (!fileId) {
+				throw new ProofError("Choose the proof file");
+			}
+			// Proofs are order attachments: the file must exist, be out of the trash and have an attachment type
+			const file = await tx.file.findUnique({
+				where: {
+					id: fileId,
+				},
+				select: {
+					id: true,
+					type: true,
+					deletedAt: true,
+				},
+			});
+			if (!file || file.deletedAt) {
+				throw new ProofError("The proof file does not exist or is in the trash");
+			}
+			if (!uploadPolicies.attachment.types.map(normalizeMimeType).includes(normalizeMimeType(file.type))) {
+				throw new ProofError("The proof file type can not be attached to an order");
+			}
+			const latest = await tx.orderProof.findFirst({
+				where: {
+					orderId,
+				},
+				orderBy: {
+					version: "desc",
+				},
+			});
+			await tx.orderProof.updateMany({
+				where: {
+					orderId,
+					status: "pending",
+				},
+				data: {
+					status: "superseded",
+				},
+			});
+			await tx.order.update({
+				where: {
+					id: orderId,
+				},
+				data: {
+					date_approved: null,
+					files: {
+						connect: [{ id: fileId }],
+					},
+				},
+			});
+			return await tx.orderProof.create({
+				data: {
+					orderId,
+					version: (latest?.version ?? 0) + 1,
+					fileId,
+					note: data?.note || null,
+					userId: actorId || null,
+				},
+				include: proofInclude,
+			});
+		});
+		if (!proof) {
+			return null;
+		}
+		await createOrderEvent({
+			orderId,
+			type: "proof_uploaded",
+			after: { version: proof.version, file: proof.file?.name ?? null, note: proof.note },
+			userId: actorId,
+		});
+		const order = await orderContacts(orderId);
+		await sendProofEmail(order?.customer ?? [], {
+			title: `Proof ${proof.version} for order ${order?.number ?? order?.title ?? ""} is ready`,
+			message: proof.note ?? "Please review the proof and approve it or tell us what to change.",
+			url: `${process.env.PUBLIC_SITE_URL ?? ""}/portal/orders/${orderId}`,
+			action: "Review proof",
+		});
+		return proof;
+	} catch (error) {
+		if (error instanceof ProofError) throw error;
+		return null;
+	}
+};
+
+// Approve a round or send it back with comments. Approval stamps date_approved and, with advance, moves a pending or waiting order into production.
+// The review and the order change are written together
+export const reviewProof = async (id: number, decision: string, comment: string | null | undefined, reviewer: { userId?: string; customerId?: string; advance?: boolean }) => {
+	try {
+		const current = await db.orderProof.findUnique({
+			where: {
+				id,
+			},
+			include: {
+				order: {
+					select: {
+						id: true,
+						status: true,
+					},
+				},
+			},
+		});
+		if (!current) {
+			return null;
+		}
+		assertProofReview(current, current.order.status, decision, comment);
+		const approval = await db.$transaction(async (tx) => {
+			// Only one review wins when two reviewers answer at the same time
+			const updated = await tx.orderProof.updateMany({
+				where: {
+					id,
+					status: "pending",
+				},
+				data: {
+					status: decision,
+					comment: comment?.trim() || null,
+					date_reviewed: new Date(),
+					reviewerId: reviewer.userId || null,
+					customerId: reviewer.customerId || null,
+				},
+			});
+			if (updated.count === 0) {
+				throw new ProofError(`Version ${current.version} is no longer waiting for review`);
+			}
+			if (decision !== "approved") {
+				return null;
+			}
+			const before = await tx.order.findUniqueOrThrow({
+				where: {
+					id: current.orderId,
+				},
+			});
+			const status = reviewer.advance ? orderStatusAfterApproval(before.status) : null;
+			const after = await writeOrder(tx, before, { date_approved: new Date(), ...(status ? { status } : {}) }, reviewer.userId);
+			return { before, after };
+		});
+		await createOrderEvent({
+			orderId: current.orderId,
+			type: decision === "approved" ? "proof_approved" : "proof_changes_requested",
+			before: { status: current.status },
+			after: { version: current.version, status: decision, comment: comment?.trim() || null },
+			userId: reviewer.userId,
+		});
+		if (approval) {
+			await logOrderChange(approval.before, approval.after, reviewer.userId);
+			await dispatchWebhook("order.approved", { order: approval.after, proof: { id, version: current.version }, customerId: reviewer.customerId ?? null });
+		}
+		const order = await orderContacts(current.orderId);
+		await sendProofEmail(order?.user_designer ?? [], {
+			title: `Proof ${current.version} for order ${order?.number ?? order?.title ?? ""}: ${proofStatusLabels[decision as keyof typeof proofStatusLabels]}`,
+			message: comment?.trim() || (decision === "approved" ? "The proof was approved, the order can go into production." : ""),
+			url: `${process.env.PUBLIC_SITE_URL ?? ""}/admin/orders?s=${order?.number ?? ""}`,
+			action: "Open order",
+		});
+		return await getProofById(id);
+	} catch (error) {
+		if (error instanceof ProofError) throw error;
+		if (error instanceof OrderStatusError) throw new ProofError(error.message);
+		return null;
+	}
+};
+
+// Latest round of an order that is waiting for review
+export const getPendingProof = async (orderId: string) => {
+	try {
+		const proof = await db.orderProof.findFirst({
+			where: {
+				orderId,
+				status: "pending",
+			},
+			orderBy: {
+				version: "desc",
+			},
+		});
+		return proof;
+	} catch (error) {
+		return null;
+	}
+};
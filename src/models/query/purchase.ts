@@ -0,0 +1,388 @@
+import { Prisma } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { formatOrderNumber } from "@/lib/order";
+import { assertPurchaseStatusTransition, calcPurchaseItemTotal, calcPurchaseTotal, canReceivePurchaseOrder, purchaseManualStatuses, PurchaseOrderError, purchaseStatusTimestamps } from "@/lib/purchase";
+
+import { recordMovement } from "./stock";
+
+const vendorSelect = {
+	id: true,
+	name: true,
+	email: true,
+	phone: true,
+	address: true,
+	city: true,
+	state: true,
+	zip: true,
+	country: true,
+	company: true,
+};
+
+// Allocate the next PO number, the upsert locks the year row like order numbers
+const nextPurchaseNumber = async (tx: Prisma.TransactionClient) => {
+	const year = new Date().getFullYear();
+	const [sequence] = await tx.$queryRaw<{ value: number }[]>`INSERT INTO "PurchaseOrderSequence" ("year", "value") VALUES (${year}, 1) ON CONFLICT ("year") DO UPDATE SET "value" = "PurchaseOrderSequence"."value" + 1 RETURNING "value"`;
+	return formatOrderNumber("PO", year, sequence.value);
+};
+
+// Get PurchaseOrder by ID
+export const getPurchaseOrderById = async (id: string) => {
+	try {
+		const purchase = await db.purchaseOrder.findUnique({
+			where: {
+				id,
+			},
+			include: {
+				vendor: {
+					select: vendorSelect,
+				},
+				user: {
+					select: {
+						id: true,
+						name: true,
+					},
+				},
+				orders: {
+					select: {
+						id: true,
+						number: true,
+						title: true,
+					},
+				},
+				items: {
+					include: {
+						variant: {
+							select: {
+								id: true,
+								sku: true,
+							},
+						},
+						orderItem: {
+							select: {
+								id: true,
+								order: {
+									select: {
+										id: true,
+										number: true,
+									},
+								},
+							},
+						},
+					},
+					orderBy: [{ setorder: "asc" }, { id: "asc" }],
+				},
+			},
+		});
+		return purchase;
+	} catch (error) {
+		return null;
+	}
+};
+
+const purchaseWhere = (query: any) => {
+	const { s, filterBy, vendorId, orderId } = query;
+	return {
+		status: filterBy ? filterBy : undefined,
+		vendorId: vendorId ? vendorId : undefined,
+		orders: orderId ? { some: { id: orderId } } : undefined,
+		OR: s ? [{ number: { contains: s, mode: "insensitive" as const } }, { note: { contains: s, mode: "insensitive" as const } }, { vendor: { name: { contains: s, mode: "insensitive" as const } } }] : undefined,
+	};
+};
+
+// get all purchase orders
+export const getAllPurchaseOrders = async (query: any) => {
+	const { take, skip, orderBy } = query;
+	try {
+		const purchases = await db.purchaseOrder.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: purchaseWhere(query),
+			include: {
+				vendor: {
+					select: {
+						id: true,
+						name: true,
+					},
+				},
+				orders: {
+					select: {
+						id: true,
+						number: true,
+					},
+				},
+				_count: {
+					select: {
+						items: true,
+					},
+				},
+			},
+			orderBy: orderBy && orderBy !== "id" ? { [orderBy]: "desc" } : { createdAt: "desc" },
+		});
+		return purchases;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all purchase orders count
+export const getPurchaseOrdersCount = async (query: any) => {
+	try {
+		const count = await db.purchaseOrder.count({
+			where: purchaseWhere(query),
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create draft purchase orders for the items of customer orders, one per vendor.
+// An item goes to its own vendor, or to the order's vendor when the order has exactly one; items already on an open purchase order are left out
+export const generatePurchaseOrders = async (orderIds: string[], actorId?: string) => {
+	try {
+		if (orderIds.length === 0) {
+			return { created: [], skipped: 0 };
+		}
+		// The selected orders stay locked until the purchase orders exist, a second submit waits and then finds their items taken
+		return await db.$transaction(async (tx) => {
+			await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" IN (${Prisma.join(orderIds)}) ORDER BY "id" FOR UPDATE`;
+			const orders = await tx.order.findMany({
+				where: {
+					id: {
+						in: orderIds,
+					},
+				},
+				include: {
+					vendor: {
+						select: {
+							id: true,
+						},
+					},
+					items: {
+						include: {
+							variant: {
+								select: {
+									cost: true,
+								},
+							},
+							purchaseItems: {
+								select: {
+									purchaseOrder: {
+										select: {
+											status: true,
+										},
+									},
+								},
+							},
+						},
+						orderBy: [{ setorder: "asc" }, { id: "asc" }],
+					},
+				},
+			});
+			const groups = new Map<string, { orderIds: Set<string>; items: any[] }>();
+			let skipped = 0;
+			orders.forEach((order) => {
+				order.items.forEach((item) => {
+					if (item.purchaseItems.some((purchaseItem) => purchaseItem.purchaseOrder.status !== "cancelled")) {
+						return;
+					}
+					const vendorId = item.vendorId ?? (order.vendor.length === 1 ? order.vendor[0].id : null);
+					if (!vendorId) {
+						skipped++;
+						return;
+					}
+					const group = groups.get(vendorId) ?? { orderIds: new Set<string>(), items: [] };
+					group.orderIds.add(order.id);
+					group.items.push({
+						title: item.title,
+						quantity: item.quantity,
+						cost: item.variant?.cost ?? 0,
+						total: calcPurchaseItemTotal({ quantity: item.quantity, cost: item.variant?.cost ?? 0 }),
+						data: item.data,
+						setorder: group.items.length,
+						orderItemId: item.id,
+						variantId: item.variantId,
+					});
+					groups.set(vendorId, group);
+				});
+			});
+			const created = [];
+			for (const [vendorId, group] of groups) {
+				const purchase = await tx.purchaseOrder.create({
+					data: {
+						number: await nextPurchaseNumber(tx),
+						vendorId,
+						userId: actorId,
+						total: calcPurchaseTotal(group.items),
+						orders: {
+							connect: Array.from(group.orderIds).map((id) => ({ id })),
+						},
+						items: {
+							create: group.items,
+						},
+					},
+				});
+				created.push(purchase);
+			}
+			return { created, skipped };
+		});
+	} catch (error) {
+		return null;
+	}
+};
+
+// Update a purchase order; items ({ id, quantity, cost }) can only change while it is a draft
+export const updatePurchaseOrder = async (id: string, data: any) => {
+	try {
+		const current = await db.purchaseOrder.findUnique({
+			where: {
+				id,
+			},
+		});
+		if (!current) {
+			return null;
+		}
+		const { status, note, date_expected, items } = data ?? {};
+		if (status && status !== current.status) {
+			if (!purchaseManualStatuses.includes(status)) {
+				throw new PurchaseOrderError(`Receive the items to mark a purchase order as "${status}"`);
+			}
+			assertPurchaseStatusTransition(current.status, status);
+		}
+		if (Array.isArray(items) && current.status !== "draft") {
+			throw new PurchaseOrderError("Items can only change while the purchase order is a draft");
+		}
+		const purchase = await db.$transaction(async (tx) => {
+			if (Array.isArray(items)) {
+				for (const item of items) {
+					const values = {
+						quantity: Math.max(parseInt(item.quantity) || 0, 1),
+						cost: Math.max(Number(item.cost) || 0, 0),
+					};
+					await tx.purchaseOrderItem.updateMany({
+						where: {
+							id: Number(item.id),
+							purchaseOrderId: id,
+						},
+						data: {
+							...values,
+							total: calcPurchaseItemTotal(values),
+						},
+					});
+				}
+			}
+			const rows = await tx.purchaseOrderItem.findMany({
+				where: {
+					purchaseOrderId: id,
+				},
+			});
+			return await tx.purchaseOrder.update({
+				where: {
+					id,
+				},
+				data: {
+					...(status ? { status, ...purchaseStatusTimestamps(current.status, status) } : {}),
+					...(note !== undefined ? { note } : {}),
+					...(date_expected !== undefined ? { date_expected: date_expected ? new Date(date_expected) : null } : {}),
+					total: calcPurchaseTotal(rows),
+				},
+			});
+		});
+		return purchase;
+	} catch (error) {
+		if (error instanceof PurchaseOrderError) throw error;
+		return null;
+	}
+};
+
+// Receive delivered units ({ [itemId]: quantity }), variants get a stock receipt and the status follows what is still missing
+export const receivePurchaseOrder = async (id: string, quantities: Record<string, any>, actorId?: string) => {
+	try {
+		return await db.$transaction(async (tx) => {
+			await tx.$queryRaw`SELECT "id" FROM "PurchaseOrder" WHERE "id" = ${id} FOR UPDATE`;
+			const purchase = await tx.purchaseOrder.findUnique({
+				where: {
+					id,
+				},
+				include: {
+					items: true,
+				},
+			});
+			if (!purchase) {
+				return null;
+			}
+			if (!canReceivePurchaseOrder(purchase.status)) {
+				throw new PurchaseOrderError(`A ${purchase.status} purchase order can not be received`);
+			}
+			let total = 0;
+			for (const item of purchase.items) {
+				const quantity = Math.min(parseInt(quantities?.[item.id]) || 0, item.quantity - item.received);
+				if (quantity <= 0) {
+					continue;
+				}
+				await tx.purchaseOrderItem.update({
+					where: {
+						id: item.id,
+					},
+					data: {
+						received: {
+							increment: quantity,
+						},
+					},
+				});
+				if (item.variantId) {
+					await recordMovement(tx, item.variantId, "receipt", quantity, { userId: actorId, note: `Purchase order ${purchase.number}` });
+				}
+				item.received += quantity;
+				total += quantity;
+			}
+			if (total === 0) {
+				throw new PurchaseOrderError("Nothing to receive");
+			}
+			const status = purchase.items.every((item) => item.received >= item.quantity) ? "received" : "partial";
+			return await tx.purchaseOrder.update({
+				where: {
+					id,
+				},
+				data: {
+					status,
+					...purchaseStatusTimestamps(purchase.status, status),
+				},
+			});
+		});
+	} catch (error) {
+		if (error instanceof PurchaseOrderError) throw error;
+		return null;
+	}
+};
+
+// delete purchase order
+export const deletePurchaseOrder = async (id: string) => {
+	try {
+		const purchase = await db.purchaseOrder.delete({
+			where: {
+				id,
+			},
+		});
+		return purchase;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Delete multiple purchase orders
+export const deleteMulti = async (ids: string[]) => {
+	try {
+		const purchases = await db.purchaseOrder.deleteMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+		});
+		return purchases;
+	} catch (error) {
+		return null;
+	}
+};
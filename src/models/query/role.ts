@@ -0,0 +1,141 @@
+import { db } from "@/lib/db";
+
+// Store the permission list as JSON text
+const roleData = (data: any) => {
+	const { id, users, _count, ...rest } = data ?? {};
+	return {
+		...rest,
+		...(rest.permissions !== undefined && typeof rest.permissions !== "string" ? { permissions: JSON.stringify(rest.permissions ?? []) } : {}),
+	};
+};
+
+// Get Role by ID
+export const getRoleById = async (id: number) => {
+	try {
+		const role = await db.role.findUnique({
+			where: {
+				id,
+			},
+		});
+
+		return role;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all roles
+export const getAllRoles = async (query: any) => {
+	const { take, skip, s, orderBy, published } = query ?? {};
+	try {
+		const roles = await db.role.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: {
+				published: published ? published : undefined,
+				title: s ? { contains: s, mode: "insensitive" } : undefined,
+			},
+			include: {
+				_count: {
+					select: {
+						users: true,
+					},
+				},
+			},
+			orderBy: orderBy ? { [orderBy]: orderBy === "title" ? "asc" : "desc" } : { title: "asc" },
+		});
+		return roles;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all roles count
+export const getRolesCount = async (query: any) => {
+	const { s, published } = query ?? {};
+	try {
+		const count = await db.role.count({
+			where: {
+				published: published ? published : undefined,
+				title: s ? { contains: s, mode: "insensitive" } : undefined,
+			},
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create Role
+export const createRole = async (data: any) => {
+	try {
+		const role = await db.role.create({
+			data: roleData(data),
+		});
+		return role;
+	} catch (error) {
+		return null;
+	}
+};
+
+// update role
+export const updateRole = async (id: number, data: any) => {
+	try {
+		const role = await db.role.update({
+			where: {
+				id,
+			},
+			data: roleData(data),
+		});
+		return role;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete role, users fall back to their built-in role
+export const deleteRole = async (id: number) => {
+	try {
+		const role = await db.role.delete({
+			where: {
+				id,
+			},
+		});
+		return role;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete multiple roles
+export const deleteMulti = async (ids: number[]) => {
+	try {
+		const roles = await db.role.deleteMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+		});
+		return roles;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Update multiple roles
+export const updateMulti = async (ids: number[], data: any) => {
+	try {
+		const roles = await db.role.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+			data: roleData(data),
+		});
+		return roles;
+	} catch (error) {
+		return null;
+	}
+};
@@ -23,6 +23,7 @@ export const searchAll = async (query: any) => {
 		});
 		const files = await db.file.findMany({
 			where: {
+				deletedAt: null,
 				OR: s ? [{ name: { contains: s, mode: "insensitive" } }] : undefined,
 			},
 			select: {
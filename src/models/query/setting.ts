@@ -44,6 +44,14 @@ export const updateSetting = async (data: any) => {
 						value: data[key],
 					},
 				});
+			} else {
+				// Keys added after the seed was run
+				await db.setting.create({
+					data: {
+						key,
+						value: data[key],
+					},
+				});
 			}
 		}
 		const setting = await db.setting.findMany();
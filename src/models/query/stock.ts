@@ -0,0 +1,249 @@
+import { Prisma } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { orderStockStates, StockError, StockMovementType } from "@/lib/stock";
+
+interface MovementSource {
+	orderId?: string | null;
+	userId?: string | null;
+	note?: string | null;
+}
+
+// Change the counters of a variant and write the movement with the values after it
+export const recordMovement = async (tx: Prisma.TransactionClient, variantId: number, type: StockMovementType, quantity: number, source: MovementSource = {}) => {
+	const stock = type === "receipt" || type === "adjustment" ? quantity : type === "deduction" ? -quantity : 0;
+	const reserved = type === "reservation" ? quantity : type === "release" || type === "deduction" ? -quantity : 0;
+	const variant = await tx.productVariant.update({
+		where: {
+			id: variantId,
+		},
+		data: {
+			stock: {
+				increment: stock,
+			},
+			reserved: {
+				increment: reserved,
+			},
+		},
+	});
+	return await tx.stockMovement.create({
+		data: {
+			type,
+			quantity,
+			stock: variant.stock,
+			reserved: variant.reserved,
+			note: source.note || null,
+			variantId,
+			orderId: source.orderId || null,
+			userId: source.userId || null,
+		},
+	});
+};
+
+// Set the units on hand of a variant, recording the difference as an adjustment
+export const setStock = async (tx: Prisma.TransactionClient, variantId: number, stock: number, source: MovementSource = {}) => {
+	const variant = await tx.productVariant.findUnique({
+		where: {
+			id: variantId,
+		},
+		select: {
+			stock: true,
+		},
+	});
+	if (!variant || variant.stock === stock) {
+		return null;
+	}
+	return await recordMovement(tx, variantId, "adjustment", stock - variant.stock, source);
+};
+
+// Bring the reservations and deductions of an order in line with its items and status; state overrides the status, e.g. release before a delete.
+// Runs in the transaction that changed the order, errors are thrown so the order change rolls back with the ledger
+export const writeOrderStock = async (tx: Prisma.TransactionClient, orderId: string, actorId?: string, state?: "reserve" | "deduct" | "release") => {
+	// Lock the order so two changes at once never reserve the same items twice. NO KEY UPDATE leaves the key share lock of a new item alone,
+	// the caller may have written one already in this transaction
+	await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR NO KEY UPDATE`;
+	const order = await tx.order.findUnique({
+		where: {
+			id: orderId,
+		},
+		select: {
+			status: true,
+			items: {
+				select: {
+					variantId: true,
+					quantity: true,
+				},
+			},
+			movements: {
+				select: {
+					variantId: true,
+					type: true,
+					quantity: true,
+				},
+			},
+		},
+	});
+	if (!order) {
+		return null;
+	}
+	const target = state ?? orderStockStates[order.status || "pending"] ?? "reserve";
+	const ordered = new Map<number, number>();
+	order.items.forEach((item) => {
+		if (item.variantId) {
+			ordered.set(item.variantId, (ordered.get(item.variantId) ?? 0) + item.quantity);
+		}
+	});
+	// What the ledger already holds for this order, per variant
+	const held = new Map<number, { reserved: number; deducted: number }>();
+	order.movements.forEach((movement) => {
+		const current = held.get(movement.variantId) ?? { reserved: 0, deducted: 0 };
+		if (movement.type === "reservation") current.reserved += movement.quantity;
+		if (movement.type === "release") current.reserved -= movement.quantity;
+		if (movement.type === "deduction") {
+			current.reserved -= movement.quantity;
+			current.deducted += movement.quantity;
+		}
+		held.set(movement.variantId, current);
+	});
+	const source = { orderId, userId: actorId };
+	const movements = [];
+	for (const variantId of new Set([...ordered.keys(), ...held.keys()])) {
+		const quantity = ordered.get(variantId) ?? 0;
+		let { reserved, deducted } = held.get(variantId) ?? { reserved: 0, deducted: 0 };
+		// Shipping consumes the reservation, items added later are reserved first so the ledger always adds up
+		if (target === "deduct" && quantity > deducted) {
+			const missing = quantity - deducted;
+			if (reserved < missing) {
+				movements.push(await recordMovement(tx, variantId, "reservation", missing - reserved, source));
+				reserved = missing;
+			}
+			movements.push(await recordMovement(tx, variantId, "deduction", missing, source));
+			reserved -= missing;
+			deducted += missing;
+		}
+		const wanted = target === "reserve" ? Math.max(quantity - deducted, 0) : 0;
+		if (wanted > reserved) {
+			movements.push(await recordMovement(tx, variantId, "reservation", wanted - reserved, source));
+		} else if (wanted < reserved) {
+			movements.push(await recordMovement(tx, variantId, "release", reserved - wanted, source));
+		}
+	}
+	return movements;
+};
+
+// Receive units into stock, e.g. a delivery from a vendor
+export const receiveStock = async (variantId: number, quantity: number, note?: string, actorId?: string) => {
+	try {
+		if (!Number.isInteger(quantity) || quantity <= 0) {
+			throw new StockError("Quantity must be a whole number above 0");
+		}
+		return await db.$transaction(async (tx) => await recordMovement(tx, variantId, "receipt", quantity, { note, userId: actorId }));
+	} catch (error) {
+		if (error instanceof StockError) throw error;
+		return null;
+	}
+};
+
+// Correct the units on hand after a count
+export const adjustStock = async (variantId: number, stock: number, note?: string, actorId?: string) => {
+	try {
+		if (!Number.isInteger(stock)) {
+			throw new StockError("Stock must be a whole number");
+		}
+		return await db.$transaction(async (tx) => await setStock(tx, variantId, stock, { note, userId: actorId }));
+	} catch (error) {
+		if (error instanceof StockError) throw error;
+		return null;
+	}
+};
+
+const movementWhere = (query: any) => {
+	const { productId, variantId, type } = query;
+	return {
+		variantId: variantId ? Number(variantId) : undefined,
+		variant: productId ? { productId: Number(productId) } : undefined,
+		type: type ? type : undefined,
+	};
+};
+
+// Stock movements, newest first
+export const getStockMovements = async (query: any) => {
+	const { take, skip } = query;
+	try {
+		const movements = await db.stockMovement.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: movementWhere(query),
+			include: {
+				variant: {
+					select: {
+						id: true,
+						title: true,
+						sku: true,
+					},
+				},
+				order: {
+					select: {
+						id: true,
+						number: true,
+					},
+				},
+				user: {
+					select: {
+						id: true,
+						name: true,
+					},
+				},
+			},
+			orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+		});
+		return movements;
+	} catch (error) {
+		return null;
+	}
+};
+
+export const getStockMovementsCount = async (query: any) => {
+	try {
+		const count = await db.stockMovement.count({
+			where: movementWhere(query),
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Variants whose available units fell to their threshold, the emptiest first
+export const getLowStockVariants = async (take: number = 10) => {
+	try {
+		const rows = await db.$queryRaw<{ id: number }[]>`SELECT "id" FROM "ProductVariant" WHERE "lowStock" > 0 AND "stock" - "reserved" <= "lowStock" ORDER BY "stock" - "reserved" ASC, "id" ASC LIMIT ${take}`;
+		const variants = await db.productVariant.findMany({
+			where: {
+				id: {
+					in: rows.map((row) => row.id),
+				},
+			},
+			include: {
+				product: {
+					select: {
+						id: true,
+						title: true,
+					},
+				},
+			},
+		});
+		return rows.map((row) => variants.find((variant) => variant.id === row.id)).filter((variant) => !!variant);
+	} catch (error) {
+		return null;
+	}
+};
+
+export const getLowStockCount = async () => {
+	try {
+		const [row] = await db.$queryRaw<{ count: number }[]>`SELECT COUNT(*)::int AS "count" FROM "ProductVariant" WHERE "lowStock" > 0 AND "stock" - "reserved" <= "lowStock"`;
+		return row?.count ?? 0;
+	} catch (error) {
+		return null;
+	}
+};
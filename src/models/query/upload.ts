@@ -0,0 +1,79 @@
+import { db } from "@/lib/db";
+
+// Get Upload by ID
+export const getUploadById = async (id: string) => {
+	try {
+		const upload = await db.upload.findUnique({
+			where: {
+				id,
+			},
+		});
+		return upload;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create Upload
+export const createUpload = async (data: any) => {
+	try {
+		const upload = await db.upload.create({
+			data,
+		});
+		return upload;
+	} catch (error) {
+		return null;
+	}
+};
+
+// update upload
+export const updateUpload = async (id: string, data: any) => {
+	try {
+		const upload = await db.upload.update({
+			where: {
+				id,
+			},
+			data,
+		});
+		return upload;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Uploads left unfinished past their expiry
+export const getExpiredUploads = async (before: Date, take: number = 100) => {
+	try {
+		const uploads = await db.upload.findMany({
+			where: {
+				status: "uploading",
+				expiresAt: {
+					lt: before,
+				},
+			},
+			take,
+		});
+		return uploads;
+	} catch (error) {
+		return [];
+	}
+};
+
+// delete finished or aborted uploads older than a date
+export const deleteFinishedUploads = async (before: Date) => {
+	try {
+		const uploads = await db.upload.deleteMany({
+			where: {
+				status: {
+					in: ["completed", "aborted"],
+				},
+				updatedAt: {
+					lt: before,
+				},
+			},
+		});
+		return uploads.count;
+	} catch (error) {
+		return 0;
+	}
+};
@@ -30,6 +30,38 @@ export const getUserById = async (id: string) => {
 	}
 };
 
+// Get the profile of a user for the account page, without the password or two-factor secrets
+export const getAccountById = async (id: string) => {
+	try {
+		const user = await db.user.findUnique({
+			where: {
+				id,
+			},
+			select: {
+				id: true,
+				name: true,
+				email: true,
+				phone: true,
+				first_name: true,
+				last_name: true,
+				image: true,
+				avatar: true,
+				address: true,
+				city: true,
+				state: true,
+				zip: true,
+				country: true,
+				role: true,
+				isTwoFactorEnabled: true,
+			},
+		});
+
+		return user;
+	} catch (error) {
+		return null;
+	}
+};
+
 // Create User
 export const createUser = async (data: any) => {
 	try {
@@ -67,6 +99,12 @@ export const getAllUsers = async (query: any) => {
 				isTwoFactorEnabled: true,
 				role: true,
 				published: true,
+				permission_role: {
+					select: {
+						id: true,
+						title: true,
+					},
+				},
 			},
 
 			orderBy: orderBy ? { [orderBy]: "desc" } : { createdAt: "desc" },
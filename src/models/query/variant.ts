@@ -0,0 +1,286 @@
+import { db } from "@/lib/db";
+import { roundMoney } from "@/lib/order";
+import { ProductVariantError, variantCombinations, VariantGroup, variantKey, variantSku, variantTitle } from "@/lib/product";
+import { convertStringToJson } from "@/lib/utils";
+
+import { setStock } from "./stock";
+
+// Normalize variant values from forms and the API
+const variantData = (data: any) => {
+	const rest = data ?? {};
+	return {
+		...(rest.published !== undefined ? { published: Boolean(rest.published) } : {}),
+		...(rest.setorder !== undefined ? { setorder: parseInt(rest.setorder) || 0 } : {}),
+		...(rest.title !== undefined ? { title: String(rest.title).trim().slice(0, 255) } : {}),
+		...(rest.sku !== undefined ? { sku: String(rest.sku).trim().toUpperCase().slice(0, 64) } : {}),
+		...(rest.price !== undefined ? { price: roundMoney(Math.max(Number(rest.price) || 0, 0)) } : {}),
+		...(rest.cost !== undefined ? { cost: roundMoney(Math.max(Number(rest.cost) || 0, 0)) } : {}),
+		...(rest.stock !== undefined ? { stock: parseInt(rest.stock) || 0 } : {}),
+		...(rest.lowStock !== undefined ? { lowStock: Math.max(parseInt(rest.lowStock) || 0, 0) } : {}),
+		...(rest.data !== undefined ? { data: typeof rest.data === "string" ? rest.data : JSON.stringify(rest.data) } : {}),
+	};
+};
+
+// Throw when another variant already uses the SKU
+const assertSkuAvailable = async (sku: string | undefined, id?: number) => {
+	if (sku === undefined) {
+		return;
+	}
+	if (!sku) {
+		throw new ProductVariantError("SKU is required");
+	}
+	const other = await db.productVariant.findUnique({
+		where: {
+			sku,
+		},
+		select: {
+			id: true,
+		},
+	});
+	if (other && other.id !== id) {
+		throw new ProductVariantError(`SKU "${sku}" is already used by another variant`);
+	}
+};
+
+// Get ProductVariant by ID
+export const getVariantById = async (id: number) => {
+	try {
+		const variant = await db.productVariant.findUnique({
+			where: {
+				id,
+			},
+		});
+		return variant;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get ProductVariant by SKU
+export const getVariantBySku = async (sku: string) => {
+	try {
+		const variant = await db.productVariant.findUnique({
+			where: {
+				sku: sku.trim().toUpperCase(),
+			},
+		});
+		return variant;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get the variants of a product
+export const getVariantsByProductId = async (productId: number) => {
+	try {
+		const variants = await db.productVariant.findMany({
+			where: {
+				productId,
+			},
+			orderBy: [{ setorder: "asc" }, { id: "asc" }],
+		});
+		return variants;
+	} catch (error) {
+		return [];
+	}
+};
+
+const variantWhere = (query: any) => {
+	const { s, productId, published, lowStock } = query;
+	return {
+		productId: productId ? Number(productId) : undefined,
+		published: published !== undefined && published !== null ? published : undefined,
+		stock: lowStock !== undefined && lowStock !== null ? { lte: Number(lowStock) } : undefined,
+		OR: s ? [{ sku: { contains: s, mode: "insensitive" as const } }, { title: { contains: s, mode: "insensitive" as const } }, { product: { title: { contains: s, mode: "insensitive" as const } } }] : undefined,
+	};
+};
+
+// get all variants, across products
+export const getAllVariants = async (query: any) => {
+	const { take, skip, orderBy } = query;
+	try {
+		const variants = await db.productVariant.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: variantWhere(query),
+			include: {
+				product: {
+					select: {
+						id: true,
+						title: true,
+						image: true,
+					},
+				},
+			},
+			orderBy: orderBy ? { [orderBy]: "desc" } : [{ productId: "desc" }, { setorder: "asc" }],
+		});
+		return variants;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all variants count
+export const getVariantsCount = async (query: any) => {
+	try {
+		const count = await db.productVariant.count({
+			where: variantWhere(query),
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create ProductVariant, the opening stock goes into the ledger
+export const createVariant = async (productId: number, data: any, actorId?: string) => {
+	try {
+		const { stock, ...values } = variantData(data);
+		await assertSkuAvailable(values.sku ?? "");
+		const variant = await db.$transaction(async (tx) => {
+			const variant = await tx.productVariant.create({
+				data: {
+					...values,
+					title: values.title ?? "",
+					sku: values.sku ?? "",
+					productId,
+				},
+			});
+			if (stock) {
+				await setStock(tx, variant.id, stock, { userId: actorId, note: "Opening stock" });
+			}
+			return variant;
+		});
+		return variant;
+	} catch (error) {
+		if (error instanceof ProductVariantError) throw error;
+		return null;
+	}
+};
+
+// Update ProductVariant, a new stock is recorded as an adjustment
+export const updateVariant = async (id: number, data: any, actorId?: string) => {
+	try {
+		const { stock, ...values } = variantData(data);
+		await assertSkuAvailable(values.sku, id);
+		const variant = await db.$transaction(async (tx) => {
+			if (stock !== undefined) {
+				await setStock(tx, id, stock, { userId: actorId });
+			}
+			return await tx.productVariant.update({
+				where: {
+					id,
+				},
+				data: values,
+			});
+		});
+		return variant;
+	} catch (error) {
+		if (error instanceof ProductVariantError) throw error;
+		return null;
+	}
+};
+
+// Save the edited variants of a product in one go, rows of other products are ignored
+export const saveVariants = async (productId: number, rows: any[], actorId?: string) => {
+	try {
+		const values = rows.map((row) => ({ id: Number(row.id), ...variantData(row) }));
+		const skus = values.map((row) => row.sku).filter(Boolean);
+		const duplicate = skus.find((sku, index) => skus.indexOf(sku) !== index);
+		if (duplicate) {
+			throw new ProductVariantError(`SKU "${duplicate}" is used twice`);
+		}
+		for (const row of values) {
+			await assertSkuAvailable(row.sku, row.id);
+		}
+		const count = await db.$transaction(async (tx) => {
+			let count = 0;
+			for (const { id, stock, ...data } of values) {
+				const result = await tx.productVariant.updateMany({
+					where: {
+						id,
+						productId,
+					},
+					data,
+				});
+				// Stock edits go through the ledger as adjustments
+				if (result.count > 0 && stock !== undefined) {
+					await setStock(tx, id, stock, { userId: actorId });
+				}
+				count += result.count;
+			}
+			return count;
+		});
+		return count;
+	} catch (error) {
+		if (error instanceof ProductVariantError) throw error;
+		return null;
+	}
+};
+
+// Delete ProductVariant
+export const deleteVariant = async (id: number) => {
+	try {
+		const variant = await db.productVariant.delete({
+			where: {
+				id,
+			},
+		});
+		return variant;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create the variants missing for the chosen option values; existing ones keep their SKU, price and stock
+export const generateVariants = async (productId: number, attribute: { id: string; title: string }, groups: VariantGroup[], price: number = 0) => {
+	try {
+		const product = await db.post.findUnique({
+			where: {
+				id: productId,
+			},
+			select: {
+				title: true,
+			},
+		});
+		if (!product) {
+			return null;
+		}
+		const existing = await getVariantsByProductId(productId);
+		const keys = new Set(existing.map((variant) => variantKey(convertStringToJson(variant.data ?? "")?.options ?? [])));
+		const combinations = variantCombinations(groups).filter((options) => !keys.has(variantKey(options)));
+		const created = [];
+		for (const [index, options] of combinations.entries()) {
+			const base = variantSku(product.title, options);
+			// SKUs are unique across the catalog, number the ones already taken
+			const taken = await db.productVariant.findMany({
+				where: {
+					sku: {
+						startsWith: base,
+					},
+				},
+				select: {
+					sku: true,
+				},
+			});
+			let sku = base;
+			for (let n = 2; taken.some((variant) => variant.sku === sku); n++) {
+				sku = `${base}-${n}`;
+			}
+			const variant = await db.productVariant.create({
+				data: {
+					productId,
+					title: variantTitle(options),
+					sku,
+					price: roundMoney(price),
+					data: JSON.stringify({ attribute, options }),
+					setorder: existing.length + index,
+				},
+			});
+			created.push(variant);
+		}
+		return created;
+	} catch (error) {
+		return null;
+	}
+};
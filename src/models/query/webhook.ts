@@ -0,0 +1,215 @@
+import { db } from "@/lib/db";
+
+// Store the event list as JSON text
+const webhookData = (data: any) => {
+	const { id, deliveries, _count, ...rest } = data ?? {};
+	return {
+		...rest,
+		...(rest.events !== undefined && typeof rest.events !== "string" ? { events: JSON.stringify(rest.events ?? []) } : {}),
+	};
+};
+
+// Get Webhook by ID
+export const getWebhookById = async (id: number) => {
+	try {
+		const webhook = await db.webhook.findUnique({
+			where: {
+				id,
+			},
+		});
+		return webhook;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get published webhooks subscribed to an event
+export const getWebhooksByEvent = async (event: string) => {
+	try {
+		const webhooks = await db.webhook.findMany({
+			where: {
+				published: true,
+				events: { contains: `"${event}"` },
+			},
+		});
+		return webhooks;
+	} catch (error) {
+		return [];
+	}
+};
+
+// get all webhooks
+export const getAllWebhooks = async (query: any) => {
+	const { take, skip, s, orderBy, published } = query ?? {};
+	try {
+		const webhooks = await db.webhook.findMany({
+			take: take ? take : undefined,
+			skip: skip ? skip : undefined,
+			where: {
+				published: published ? published : undefined,
+				OR: s ? [{ title: { contains: s, mode: "insensitive" } }, { url: { contains: s, mode: "insensitive" } }] : undefined,
+			},
+			include: {
+				_count: {
+					select: {
+						deliveries: true,
+					},
+				},
+			},
+			orderBy: orderBy ? { [orderBy]: orderBy === "title" ? "asc" : "desc" } : { title: "asc" },
+		});
+		return webhooks;
+	} catch (error) {
+		return null;
+	}
+};
+
+// get all webhooks count
+export const getWebhooksCount = async (query: any) => {
+	const { s, published } = query ?? {};
+	try {
+		const count = await db.webhook.count({
+			where: {
+				published: published ? published : undefined,
+				OR: s ? [{ title: { contains: s, mode: "insensitive" } }, { url: { contains: s, mode: "insensitive" } }] : undefined,
+			},
+		});
+		return count;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create Webhook
+export const createWebhook = async (data: any) => {
+	try {
+		const webhook = await db.webhook.create({
+			data: webhookData(data),
+		});
+		return webhook;
+	} catch (error) {
+		return null;
+	}
+};
+
+// update webhook
+export const updateWebhook = async (id: number, data: any) => {
+	try {
+		const webhook = await db.webhook.update({
+			where: {
+				id,
+			},
+			data: webhookData(data),
+		});
+		return webhook;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete webhook with its delivery log
+export const deleteWebhook = async (id: number) => {
+	try {
+		const webhook = await db.webhook.delete({
+			where: {
+				id,
+			},
+		});
+		return webhook;
+	} catch (error) {
+		return null;
+	}
+};
+
+// delete multiple webhooks
+export const deleteMulti = async (ids: number[]) => {
+	try {
+		const webhooks = await db.webhook.deleteMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+		});
+		return webhooks;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Update multiple webhooks
+export const updateMulti = async (ids: number[], data: any) => {
+	try {
+		const webhooks = await db.webhook.updateMany({
+			where: {
+				id: {
+					in: ids,
+				},
+			},
+			data: webhookData(data),
+		});
+		return webhooks;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get the latest deliveries of a webhook
+export const getWebhookDeliveries = async (webhookId: number, take: number = 50) => {
+	try {
+		const deliveries = await db.webhookDelivery.findMany({
+			where: {
+				webhookId,
+			},
+			take,
+			orderBy: { createdAt: "desc" },
+		});
+		return deliveries;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Get delivery by ID with its webhook
+export const getWebhookDeliveryById = async (id: string) => {
+	try {
+		const delivery = await db.webhookDelivery.findUnique({
+			where: {
+				id,
+			},
+			include: {
+				webhook: true,
+			},
+		});
+		return delivery;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Create delivery
+export const createWebhookDelivery = async (data: any) => {
+	try {
+		const delivery = await db.webhookDelivery.create({
+			data,
+		});
+		return delivery;
+	} catch (error) {
+		return null;
+	}
+};
+
+// Update delivery
+export const updateWebhookDelivery = async (id: string, data: any) => {
+	try {
+		const delivery = await db.webhookDelivery.update({
+			where: {
+				id,
+			},
+			data,
+		});
+		return delivery;
+	} catch (error) {
+		return null;
+	}
+};
@@ -104,7 +104,7 @@ export const SettingSeed = async () => {
 		await prisma.setting.create({
 			data: {
 				key: "order_key",
-				value: "6",
+				value: "NP",
 			},
 		});
 	}
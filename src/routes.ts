@@ -14,7 +14,8 @@ export const publicApp: string[] = [
 export const publicRoutes: string[] = [
 	"/",
 	"/authentication/logout/success",
-	"/authentication/new-verification"
+	"/authentication/new-verification",
+	"/portal"
 ];
 
 /**
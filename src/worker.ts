@@ -0,0 +1,41 @@
+import { hostname } from "os";
+
+import { db } from "@/lib/db";
+import { runJobs, scheduleJobs } from "@/lib/jobs";
+import Logging from "@/lib/logging";
+
+// Background job worker, run it next to the app with `yarn worker`; several workers can share the queue
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const POLL_INTERVAL = Number(process.env.JOB_POLL_INTERVAL || 2000);
+
+let stopping = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const main = async () => {
+	Logging.info(`Job worker ${WORKER_ID} started`);
+	await scheduleJobs();
+	while (!stopping) {
+		try {
+			const count = await runJobs(WORKER_ID);
+			// Keep going while there is work, otherwise wait for the next poll
+			if (count === 0) {
+				await sleep(POLL_INTERVAL);
+			}
+		} catch (error) {
+			Logging.error(error);
+			await sleep(POLL_INTERVAL);
+		}
+	}
+	await db.$disconnect();
+	Logging.info(`Job worker ${WORKER_ID} stopped`);
+};
+
+// Finish the current batch before exiting
+for (const signal of ["SIGINT", "SIGTERM"]) {
+	process.on(signal, () => {
+		stopping = true;
+	});
+}
+
+main();